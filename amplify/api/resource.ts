@@ -15,7 +15,7 @@ import { secret } from '@aws-amplify/backend';
 /**
  * Data Normalization Function
  * Normalizes energy usage data from various APIs to common format
- * Uses OpenRouter AI with GPT-3.5-turbo for cost efficiency
+ * Source adapters first; OpenRouter AI with GPT-3.5-turbo as a last resort (LLM_MODEL_NORMALIZE_DATA)
  */
 export const normalizeDataFunction = defineFunction({
   name: 'normalize-data',
@@ -33,7 +33,7 @@ export const normalizeDataFunction = defineFunction({
 /**
  * Recommendation Generation Function
  * Generates personalized energy plan recommendations
- * Uses OpenRouter AI with GPT-4-turbo for better reasoning
+ * Uses OpenRouter AI with GPT-4-turbo for better reasoning (LLM_MODEL_RECOMMENDATIONS)
  */
 export const generateRecommendationsFunction = defineFunction({
   name: 'generate-recommendations',
@@ -50,22 +50,15 @@ export const generateRecommendationsFunction = defineFunction({
 
 /**
  * Plan Catalog Update Function
- * Updates the energy plan catalog from various APIs
+ * Imports retail plan offers (Power to Choose exports, EFL data) into the energy plan catalog
+ * Runs daily on the schedule defined in backend.ts, and on demand through its Function URL
  */
 export const updatePlanCatalogFunction = defineFunction({
   name: 'update-plan-catalog',
   entry: '../function/update-plan-catalog/handler.ts',
-  environment: {
-    // EIA and OpenEI API keys - set via Parameter Store secrets
-    // For sandbox: npx ampx sandbox secret set EIA_API_KEY
-    // For production: Set in Parameter Store as /amplify/{app-name}/main/EIA_API_KEY
-    // The handler gracefully handles missing keys by falling back to default rates
-    EIA_API_KEY: secret('EIA_API_KEY'),
-    OPENEI_API_KEY: secret('OPENEI_API_KEY'),
-    // Table name will be set dynamically by backend.ts from the data resource
-    // This allows the table name to be determined at deployment time
-  },
-  timeoutSeconds: 60, // API calls to external services can take time
+  // Table name will be set dynamically by backend.ts from the data resource
+  // This allows the table name to be determined at deployment time
+  timeoutSeconds: 300, // Downloading, storing and sweeping a full marketplace export can take minutes
   memoryMB: 512,
   bundling: {
     minify: true,
@@ -88,7 +81,8 @@ export const processUsageDataFunction = defineFunction({
  * AI Statement Reader Function
  * Reads and extracts data from energy bill statements using AI
  * Supports PDF, images (PNG, JPG), and text formats
- * Uses OpenRouter AI with GPT-4 Vision for image/PDF processing
+ * Uses OpenRouter AI with GPT-4 Vision for image/PDF processing (LLM_MODEL_READ_STATEMENT_VISION)
+ * PDFs are read page by page and merged
  */
 export const readStatementFunction = defineFunction({
   name: 'read-statement',
@@ -96,7 +90,7 @@ export const readStatementFunction = defineFunction({
   environment: {
     OPENROUTER_API_KEY: secret('OPENROUTER_API_KEY'),
   },
-  timeoutSeconds: 60, // AI operations can take time, especially for PDF/image processing
+  timeoutSeconds: 180, // Multi-page PDFs make one AI call per page
   memoryMB: 1024, // More memory for processing large files
   bundling: {
     minify: true,
@@ -57,6 +57,8 @@ export const auth = defineAuth({
     //   ],
     // },
   },
+  // ADMINS can curate learned statement formats
+  groups: ['ADMINS'],
   userAttributes: {
     email: {
       required: true,
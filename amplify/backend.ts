@@ -1,7 +1,10 @@
 import { defineBackend } from '@aws-amplify/backend';
-import { PolicyStatement, Effect, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { Stack } from 'aws-cdk-lib';
+import { Rule, RuleTargetInput, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import { Policy, PolicyStatement, Effect, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
 import { CfnUserPool } from 'aws-cdk-lib/aws-cognito';
-import { FunctionUrlAuthType } from 'aws-cdk-lib/aws-lambda';
+import { EventSourceMapping, FunctionUrlAuthType, StartingPosition } from 'aws-cdk-lib/aws-lambda';
 import { auth } from './auth/resource';
 import { data } from './data/resource';
 import {
@@ -70,6 +73,36 @@ backend.updatePlanCatalogFunction.resources.lambda.addToRolePolicy(
   })
 );
 
+// Each run also saves its report and the states it refreshed
+backend.updatePlanCatalogFunction.resources.lambda.addToRolePolicy(
+  new PolicyStatement({
+    effect: Effect.ALLOW,
+    actions: [
+      'dynamodb:GetItem',
+      'dynamodb:PutItem',
+      'dynamodb:UpdateItem',
+    ],
+    resources: [
+      'arn:aws:dynamodb:*:*:table/PlanCatalogRun-*-NONE',
+      'arn:aws:dynamodb:*:*:table/PlanCatalogState-*-NONE',
+    ],
+  })
+);
+
+// Refresh the plan catalog every day from the Power to Choose export
+// 11:00 UTC is early morning in Texas, after providers post overnight rate changes
+const updatePlanCatalogLambda = backend.updatePlanCatalogFunction.resources.lambda;
+new Rule(Stack.of(updatePlanCatalogLambda), 'UpdatePlanCatalogSchedule', {
+  description: 'Daily plan catalog refresh (update-plan-catalog)',
+  schedule: Schedule.cron({ minute: '0', hour: '11' }),
+  targets: [
+    new LambdaFunction(updatePlanCatalogLambda, {
+      event: RuleTargetInput.fromObject({ trigger: 'schedule' }),
+      retryAttempts: 2,
+    }),
+  ],
+});
+
 // Grant DynamoDB permissions to save functions
 backend.saveCurrentPlanFunction.resources.lambda.addToRolePolicy(
   new PolicyStatement({
@@ -124,6 +157,31 @@ backend.generateRecommendationsFunction.resources.lambda.addToRolePolicy(
   })
 );
 
+// read-statement recounts a format's corrections as they are reported and demotes
+// formats too many users correct, so reading statements never has to
+const correctionTable = backend.data.resources.tables['StatementFormatCorrection'];
+const correctionStreamPolicy = new Policy(Stack.of(correctionTable), 'ReadStatementCorrectionStreamPolicy', {
+  statements: [
+    new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'dynamodb:DescribeStream',
+        'dynamodb:GetRecords',
+        'dynamodb:GetShardIterator',
+        'dynamodb:ListStreams',
+      ],
+      resources: [correctionTable.tableStreamArn!],
+    }),
+  ],
+});
+backend.readStatementFunction.resources.lambda.role?.attachInlinePolicy(correctionStreamPolicy);
+const correctionStreamMapping = new EventSourceMapping(Stack.of(correctionTable), 'ReadStatementCorrectionStream', {
+  target: backend.readStatementFunction.resources.lambda,
+  eventSourceArn: correctionTable.tableStreamArn,
+  startingPosition: StartingPosition.LATEST,
+});
+correctionStreamMapping.node.addDependency(correctionStreamPolicy);
+
 // Note: The table name is constructed dynamically in the handler function
 // from the AMPLIFY_DATA_GRAPHQL_ENDPOINT environment variable
 // Pattern: EnergyPlan-{ApiId}-NONE
@@ -106,7 +106,7 @@ const schema = a.schema({
    */
   EnergyPlan: a
     .model({
-      planId: a.string().required(), // Custom plan ID (not the primary key)
+      planId: a.string().required(), // Stable plan ID from supplier, product and territory (also the record id)
       supplierName: a.string().required(),
       planName: a.string().required(),
       ratePerKwh: a.float().required(),
@@ -117,6 +117,18 @@ const schema = a.schema({
       supplierRating: a.float(), // Optional supplier rating (0-5)
       state: a.string().required(), // State code (e.g., 'CA', 'TX')
       utilityTerritory: a.string(), // Optional utility territory
+      timeOfUseRates: a.json(), // Optional array of TimeOfUsePeriod (peak/off-peak/shoulder windows)
+      rateTiers: a.json(), // Optional array of RateTier (block pricing by monthly kWh)
+      billCredits: a.json(), // Optional array of BillCredit (credits at monthly usage thresholds)
+      charges: a.json(), // Optional PlanCharges (base charge, TDU delivery charges, tax percentage)
+      promotionalPeriods: a.json(), // Optional array of PromotionalPeriod (introductory rates by contract month)
+      rolloverRatePerKwh: a.float(), // Optional rate after the contract term ends
+      averagePrices: a.json(), // Optional PlanAveragePrices (published all-in $/kWh at 500/1000/2000 kWh)
+      factsLabelUrl: a.string(), // Optional Electricity Facts Label (EFL) URL
+      rateHistory: a.json(), // PlanRateVersion[]: pricing by import, oldest first; the last is current
+      availableFrom: a.datetime(), // When the plan was first offered (or first imported)
+      availableUntil: a.datetime(), // Set when an import retires the plan; retired plans are kept for history
+      lastSeenAt: a.datetime(), // Last import that listed the plan
       createdAt: a.datetime().required(),
       updatedAt: a.datetime().required(),
     })
@@ -124,6 +136,46 @@ const schema = a.schema({
       allow.authenticated().to(['read', 'create', 'update', 'delete']), // Authenticated users can read and modify
     ]),
 
+  /**
+   * Plan Catalog Run
+   * One report per update-plan-catalog invocation (scheduled or manual)
+   */
+  PlanCatalogRun: a
+    .model({
+      runId: a.id().required(),
+      trigger: a.string().required(), // 'schedule' | 'manual'
+      status: a.string().required(), // 'succeeded' | 'partial' | 'failed'
+      startedAt: a.datetime().required(),
+      finishedAt: a.datetime().required(),
+      sources: a.json().required(), // PlanCatalogSourceReport[]: per-file results and errors
+      statesUpdated: a.string().array(),
+      plansAdded: a.integer().required(),
+      plansChanged: a.integer().required(), // Existing plans whose pricing changed
+      plansRetired: a.integer().required(),
+      plansSkipped: a.integer().required(),
+      error: a.string(), // Why the run as a whole failed
+      createdAt: a.datetime().required(),
+    })
+    .authorization((allow) => [
+      allow.group('ADMINS').to(['read']), // Written only by update-plan-catalog
+    ]),
+
+  /**
+   * Plan Catalog State
+   * Each state's last successful catalog refresh (record id is the state code)
+   */
+  PlanCatalogState: a
+    .model({
+      state: a.string().required(), // State code (e.g., 'TX')
+      lastRefreshedAt: a.datetime().required(),
+      lastRunId: a.string().required(),
+      plansListed: a.integer().required(), // Plans the refresh listed for the state
+      updatedAt: a.datetime().required(),
+    })
+    .authorization((allow) => [
+      allow.group('ADMINS').to(['read']), // Written only by update-plan-catalog
+    ]),
+
   /**
    * Current Plan
    * Stores user's current energy plan information
@@ -133,10 +185,13 @@ const schema = a.schema({
       userId: a.id().required(),
       supplierName: a.string().required(),
       planName: a.string(),
+      ratePerKwh: a.float(), // Energy rate in $/kWh
       contractStartDate: a.string(),
       contractEndDate: a.string(),
       earlyTerminationFee: a.float(),
       contractType: a.string(), // 'fixed' | 'variable' | 'indexed' | 'hybrid'
+      renewablePercentage: a.integer(), // 0-100
+      charges: a.json(), // PlanCharges: base and TDU charges from the bill
       createdAt: a.datetime().required(),
       updatedAt: a.datetime().required(),
     })
@@ -152,7 +207,8 @@ const schema = a.schema({
     .model({
       userId: a.id().required(),
       usageDataId: a.id().required(),
-      usagePoints: a.json().required(), // Array of UsageDataPoint
+      usagePoints: a.json().required(), // Array of UsageDataPoint (interval readings are rolled up by month)
+      dailyUsage: a.json(), // Optional array of UsageDataPoint, daily totals rolled up from interval readings
       totalAnnualKwh: a.float(),
       averageMonthlyKwh: a.float(),
       peakMonthKwh: a.float(),
@@ -165,6 +221,29 @@ const schema = a.schema({
       allow.owner(), // Users can only access their own usage data
     ]),
 
+  /**
+   * Usage Interval Blocks
+   * Raw smart-meter readings (hourly or 15-minute), one record per user per
+   * calendar month, kept for cost models that need the load shape
+   */
+  UsageIntervalBlock: a
+    .model({
+      userId: a.id().required(),
+      month: a.string().required(), // YYYY-MM
+      start: a.string().required(), // First reading, in the meter's local time
+      intervalMinutes: a.integer().required(),
+      kwh: a.json().required(), // Array of kWh per interval from start (null = missing reading)
+      cost: a.json(), // Optional array of cost per interval
+      offsets: a.json(), // UTC offset changes within the month (daylight saving): [{ from, value }]
+      estimated: a.json(), // Indices of estimated readings
+      formats: a.json(), // Statement format the readings were read with: [{ from, value: { formatId, formatVersion } | null }]
+      createdAt: a.datetime().required(),
+      updatedAt: a.datetime().required(),
+    })
+    .authorization((allow) => [
+      allow.owner(), // Users can only access their own readings
+    ]),
+
   /**
    * User Profile
    * Stores user profile information including state and usage data preferences
@@ -199,12 +278,43 @@ const schema = a.schema({
       columnMappings: a.json(), // CSV column mappings (if applicable)
       dateFormats: a.string().array(), // Common date formats found
       successCount: a.integer().required(), // Number of successful extractions with this format
+      fingerprint: a.string(), // Header signature and layout hash combined (see shared/statements/statement-format.ts)
+      headerSignature: a.string(), // Normalized header names
+      layoutHash: a.string(), // Hash of the row shapes
+      version: a.integer(), // Bumped when the format is learned again with different column mappings
+      versions: a.json(), // StatementFormatVersion[]: previous versions, oldest first
+      status: a.string(), // 'active' | 'demoted' | 'retired'; missing means active
+      correctionCount: a.integer(), // Extractions of the current version that users corrected
+      retiredAt: a.datetime(),
       lastUsedAt: a.datetime().required(), // Last time this format was used
       createdAt: a.datetime().required(),
       updatedAt: a.datetime().required(),
     })
     .authorization((allow) => [
       allow.authenticated().to(['read']), // All authenticated users can read (for learning)
+      allow.group('ADMINS').to(['read', 'update']), // Admins curate learned formats
+    ]),
+
+  /**
+   * Statement Format Correction
+   * Recorded when a user edits usage that was read with a learned format;
+   * read-statement counts the users correcting each format version as they
+   * are written and demotes formats that are corrected too often
+   */
+  StatementFormatCorrection: a
+    .model({
+      formatId: a.id().required(),
+      formatVersion: a.integer().required(),
+      month: a.string().required(), // YYYY-MM of the corrected usage
+      owner: a.string(), // Set from the reporting user; corrections count once per user
+      createdAt: a.datetime().required(),
+    })
+    .secondaryIndexes((index) => [
+      index('formatId').sortKeys(['formatVersion']).queryField('listCorrectionsByFormatVersion'),
+    ])
+    .authorization((allow) => [
+      allow.owner().to(['create', 'read']), // Users report corrections and see their own
+      allow.group('ADMINS').to(['read']),
     ]),
 })
   .authorization((allow) => [
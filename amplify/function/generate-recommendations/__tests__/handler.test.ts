@@ -0,0 +1,193 @@
+import type { Context } from 'aws-lambda';
+import { handler } from '../handler';
+
+type Event = Parameters<typeof handler>[0];
+type Plan = { planId: string; ratePerKwh: number };
+
+const invoke = async (event: Event) => {
+  const response = (await handler(event, {} as Context, () => undefined)) as {
+    statusCode: number;
+    body: string;
+  };
+  return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+};
+
+// The 12 monthly savings a recommendation shows next to the current plan
+const monthlySavings = (recommendation: {
+  monthlyCosts: Array<{ currentCost: number; projectedCost: number }>;
+}) =>
+  recommendation.monthlyCosts.reduce(
+    (total, month) => total + month.currentCost - month.projectedCost,
+    0
+  );
+
+// 12,000 kWh a year at an effective 10¢/kWh
+const createEvent = (
+  plans: Plan[],
+  currentPlan?: Omit<NonNullable<Event['currentPlan']>, 'supplierName'>
+): Event => ({
+  userId: 'user-1',
+  usageData: {
+    usageDataPoints: Array.from({ length: 12 }, (_, i) => ({
+      timestamp: `2025-${String(i + 1).padStart(2, '0')}-01T00:00:00Z`,
+      kwh: 1000,
+      cost: 100,
+    })),
+    aggregatedStats: {
+      totalKwh: 12000,
+      totalCost: 1200,
+      averageMonthlyKwh: 1000,
+      averageMonthlyCost: 100,
+      peakMonth: '2025-07',
+      peakMonthKwh: 1000,
+    },
+  },
+  preferences: {
+    costSavingsPriority: 'high',
+    flexibilityPreference: 0,
+    renewableEnergyPreference: 0,
+    supplierRatingPreference: 0,
+    contractTypePreference: null,
+    earlyTerminationFeeTolerance: 0,
+  },
+  availablePlans: plans.map(plan => ({
+    ...plan,
+    supplierName: 'Gexa Energy',
+    planName: plan.planId,
+    contractType: 'fixed' as const,
+    contractLength: 12,
+  })),
+  currentPlan: currentPlan && { supplierName: 'TXU Energy', ...currentPlan },
+});
+
+describe('generate-recommendations handler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should recommend staying when every plan costs more', async () => {
+    const { statusCode, body } = await invoke(
+      createEvent([
+        { planId: 'pricier', ratePerKwh: 0.12 },
+        { planId: 'nearest', ratePerKwh: 0.11 },
+      ])
+    );
+
+    expect(statusCode).toBe(200);
+    expect(body.outcome).toBe('stay');
+    expect(body.recommendations).toEqual([]);
+    expect(body.currentPlanBest.currentAnnualCost).toBe(1200);
+    expect(body.currentPlanBest.nearestAlternative).toMatchObject({
+      planId: 'nearest',
+      switchingCost: 0,
+    });
+    expect(body.currentPlanBest.nearestAlternative.annualCost).toBeCloseTo(
+      1320
+    );
+    expect(body.currentPlanBest.nearestAlternative.margin).toBeCloseTo(120);
+  });
+
+  it('should recommend staying when the savings cannot recover the termination fee', async () => {
+    // Saves $60 a year: 40 months to recover a $200 fee on a 12-month plan
+    const { body } = await invoke(
+      createEvent([{ planId: 'cheaper', ratePerKwh: 0.095 }], {
+        earlyTerminationFee: 200,
+      })
+    );
+
+    expect(body.outcome).toBe('stay');
+    expect(body.recommendations).toEqual([]);
+    expect(body.currentPlanBest.nearestAlternative).toMatchObject({
+      planId: 'cheaper',
+      switchingCost: 200,
+    });
+    expect(body.currentPlanBest.nearestAlternative.margin).toBeCloseTo(140);
+  });
+
+  it('should recommend switching to a plan that saves money', async () => {
+    const { body } = await invoke(
+      createEvent(
+        [
+          { planId: 'pricier', ratePerKwh: 0.12 },
+          { planId: 'cheapest', ratePerKwh: 0.08 },
+        ],
+        { earlyTerminationFee: 50 }
+      )
+    );
+
+    expect(body.outcome).toBe('switch');
+    expect(body.currentPlanBest).toBeUndefined();
+    expect(body.recommendations[0]).toMatchObject({
+      planId: 'cheapest',
+      switchTiming: 'now',
+      switchingCost: 50,
+    });
+    expect(body.recommendations[0].annualSavings).toBeCloseTo(240);
+  });
+
+  it('should leave plans that are not worth switching to out of the recommendations', async () => {
+    const { body } = await invoke(
+      createEvent([
+        { planId: 'pricier', ratePerKwh: 0.12 },
+        { planId: 'nearest', ratePerKwh: 0.11 },
+        { planId: 'cheapest', ratePerKwh: 0.08 },
+      ])
+    );
+
+    expect(body.outcome).toBe('switch');
+    expect(
+      body.recommendations.map((rec: { planId: string }) => rec.planId)
+    ).toEqual(['cheapest']);
+  });
+
+  it('should price the current plan from its stored rate and charges', async () => {
+    // 9¢/kWh plus a $20 base charge: $110 a month against $100 at the effective rate
+    const currentPlan = { ratePerKwh: 0.09, charges: { baseChargeMonthly: 20 } };
+    const { body } = await invoke(
+      createEvent([{ planId: 'cheapest', ratePerKwh: 0.08 }], currentPlan)
+    );
+
+    expect(body.outcome).toBe('switch');
+    const [top] = body.recommendations;
+    expect(top.monthlyCosts[0].currentCost).toBeCloseTo(110);
+    expect(top.annualSavings).toBeCloseTo(360);
+    expect(monthlySavings(top)).toBeCloseTo(top.annualSavings);
+
+    const withoutRate = await invoke(
+      createEvent([{ planId: 'cheapest', ratePerKwh: 0.08 }], {
+        charges: { baseChargeMonthly: 20 },
+      })
+    );
+    const [billed] = withoutRate.body.recommendations;
+    expect(billed.monthlyCosts[0].currentCost).toBeCloseTo(100);
+    expect(billed.annualSavings).toBeCloseTo(240);
+    expect(monthlySavings(billed)).toBeCloseTo(billed.annualSavings);
+  });
+
+  it('should price the current annual cost from the stored plan without billed costs', async () => {
+    const event = createEvent([{ planId: 'cheapest', ratePerKwh: 0.08 }], {
+      ratePerKwh: 0.09,
+      charges: { baseChargeMonthly: 20 },
+    });
+    event.usageData = {
+      usageDataPoints: event.usageData.usageDataPoints.map(point => ({
+        ...point,
+        cost: undefined,
+      })),
+      aggregatedStats: {
+        ...event.usageData.aggregatedStats,
+        totalCost: 0,
+        averageMonthlyCost: 0,
+      },
+    };
+
+    const { statusCode, body } = await invoke(event);
+
+    expect(statusCode).toBe(200);
+    expect(body.recommendations[0].annualSavings).toBeCloseTo(360);
+  });
+});
@@ -2,7 +2,33 @@
 import type { Handler } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, QueryCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
-import OpenAI from 'openai';
+import type {
+  TimeOfUsePeriod,
+  RateTier,
+  BillCredit,
+  PlanCharges,
+  PromotionalPeriod,
+  RiskFlag,
+  DataQuality,
+  MonthlyCostProjection,
+  SeasonalCostProjection,
+  SwitchTiming,
+} from '../../../shared/types';
+import {
+  simulateBills,
+  calculateAnnualKwh,
+  calculateSavingsBaselineCost,
+  toCurrentBillingPlan,
+  projectMonthlyCosts,
+  summarizeSeasonalCosts,
+  getSwitchingContext,
+  analyzeSwitchTiming,
+  type BillingPlan,
+  type SwitchingContext,
+} from '../../../shared/simulation';
+import { getRiskFlags } from '../../../shared/risk';
+import { assessUsageDataQuality, calculateConfidence } from '../../../shared/confidence';
+import { createLlmProvider, parseLlmJson } from '../../../shared/llm';
 
 /**
  * Recommendation Generation Lambda Function
@@ -12,7 +38,7 @@ import OpenAI from 'openai';
  * - User preferences
  * - Available energy plans
  * - Historical data from memory bank
- * Uses OpenRouter AI with GPT-4-turbo for better reasoning
+ * Uses the recommendations model (GPT-4-turbo by default) for better reasoning
  */
 
 // Initialize DynamoDB client
@@ -21,14 +47,8 @@ const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({
   region: awsRegion,
 }));
 
-// Initialize OpenRouter client
-const openrouter = new OpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY || '',
-  defaultHeaders: {
-    'HTTP-Referer': 'https://sparksave.app', // Optional: for analytics
-  },
-});
+// OpenRouter, or recorded answers when LLM_PROVIDER=fixture
+const llm = createLlmProvider(process.env);
 
 interface GenerateRecommendationsEvent {
   userId: string;
@@ -37,7 +57,9 @@ interface GenerateRecommendationsEvent {
       timestamp: string;
       kwh: number;
       cost?: number;
+      estimated?: boolean; // averaged or typed in rather than billed
     }>;
+    intervalDataPoints?: Array<{ timestamp: string; kwh: number; cost?: number }>; // raw hourly/15-minute readings, the load shape for time-of-use plans
     aggregatedStats: {
       totalKwh: number;
       totalCost: number;
@@ -68,13 +90,31 @@ interface GenerateRecommendationsEvent {
     contractLength?: number;
     renewablePercentage?: number;
     earlyTerminationFee?: number;
-    monthlyFee?: number;
+    monthlyFee?: number; // Legacy flat monthly fee; charges.baseChargeMonthly takes precedence
+    charges?: PlanCharges;
+    promotionalPeriods?: PromotionalPeriod[];
+    rolloverRatePerKwh?: number; // Rate after the contract term ends; defaults to ratePerKwh
     supplierRating?: number;
+    timeOfUseRates?: TimeOfUsePeriod[];
+    rateTiers?: RateTier[];
+    billCredits?: BillCredit[];
   }>;
+  currentPlan?: {
+    supplierName: string;
+    planName?: string;
+    ratePerKwh?: number;
+    contractStartDate?: string;
+    contractEndDate?: string;
+    earlyTerminationFee?: number;
+    contractType?: string;
+    renewablePercentage?: number;
+    charges?: PlanCharges;
+  };
 }
 
 interface GenerateRecommendationsResponse {
   success: boolean;
+  outcome?: 'switch' | 'stay'; // 'stay' when no plan saves enough to be worth switching to
   recommendations?: Array<{
     planId: string;
     rank: number;
@@ -83,21 +123,90 @@ interface GenerateRecommendationsResponse {
     monthlySavings: number;
     percentageSavings: number;
     paybackPeriodMonths?: number;
+    projectedCost12Months: number;
+    projectedCost24Months: number;
+    twoYearSavings: number;
+    savingsMostlyFromPromo: boolean;
+    switchingCost: number;
+    switchTiming: SwitchTiming;
+    recommendedSwitchDate?: string;
+    riskFlags: RiskFlag[];
+    monthlyCosts: MonthlyCostProjection[];
+    seasonalCosts: SeasonalCostProjection[];
+    confidence: number; // 0-1
     explanation: string;
   }>;
+  currentPlanBest?: {
+    currentAnnualCost: number;
+    nearestAlternative?: {
+      planId: string;
+      supplierName: string;
+      planName: string;
+      annualCost: number;
+      switchingCost: number; // Early termination fee owed when switching now
+      margin: number; // How much more the first year costs on the alternative, fee included
+    };
+  };
+  confidence?: number; // 0-1, confidence in the top recommendation (or the usage data when there is none)
+  dataQuality?: DataQuality;
+  dataQualitySuggestions?: string[];
+  switchingAnalysis?: {
+    earlyTerminationFee: number;
+    contractEndDate?: string;
+    monthsUntilContractEnd?: number;
+    recommendation: SwitchTiming;
+    recommendedSwitchDate?: string;
+  };
   error?: string;
 }
 
 /**
- * Calculate annual cost for a plan
+ * Map a plan from the request onto the shared billing plan shape
+ * The legacy monthlyFee is used as the base charge when no structured charges are set
  */
-function calculateAnnualCost(
+function toBillingPlan(plan: GenerateRecommendationsEvent['availablePlans'][0]): BillingPlan {
+  return {
+    ...plan,
+    contractLengthMonths: plan.contractLength,
+    charges: {
+      ...plan.charges,
+      baseChargeMonthly: plan.charges?.baseChargeMonthly ?? plan.monthlyFee,
+    },
+  };
+}
+
+/**
+ * Calculate blended 12- and 24-month costs for a plan
+ * Also prices the first year without promotions to measure how much of the
+ * saving comes from an introductory rate, and breaks the first year into
+ * monthly and seasonal costs next to the current plan
+ */
+function calculateContractCosts(
   plan: GenerateRecommendationsEvent['availablePlans'][0],
-  annualKwh: number
-): number {
-  const energyCost = plan.ratePerKwh * annualKwh;
-  const monthlyFees = (plan.monthlyFee || 0) * 12;
-  return energyCost + monthlyFees;
+  usageData: GenerateRecommendationsEvent['usageData'],
+  currentBillingPlan: BillingPlan
+): {
+  cost12Months: number;
+  cost24Months: number;
+  cost12MonthsWithoutPromotions: number;
+  monthlyCosts: MonthlyCostProjection[];
+  seasonalCosts: SeasonalCostProjection[];
+} {
+  const billingPlan = toBillingPlan(plan);
+  const simulation = simulateBills(usageData, billingPlan, currentBillingPlan, { months: 24 });
+  const monthlyCosts = projectMonthlyCosts(simulation);
+  const cost12MonthsWithoutPromotions =
+    plan.promotionalPeriods && plan.promotionalPeriods.length > 0
+      ? simulateBills(usageData, billingPlan, undefined, { includePromotions: false }).annualCost
+      : simulation.annualCost;
+
+  return {
+    cost12Months: simulation.annualCost,
+    cost24Months: simulation.totalCost,
+    cost12MonthsWithoutPromotions,
+    monthlyCosts,
+    seasonalCosts: summarizeSeasonalCosts(monthlyCosts),
+  };
 }
 
 /**
@@ -124,17 +233,19 @@ function calculateSavings(
 }
 
 /**
- * Calculate payback period in months
- * Returns undefined if no upfront costs or negative savings
+ * Describe the switch timing for the fallback explanation
  */
-function calculatePaybackPeriod(
-  upfrontCosts: number,
-  monthlySavings: number
-): number | undefined {
-  if (upfrontCosts <= 0 || monthlySavings <= 0) {
-    return undefined;
+function describeSwitchTiming(scored: { switchTiming: SwitchTiming; switchingCost: number; recommendedSwitchDate?: string }): string {
+  if (scored.switchTiming === 'contract_end') {
+    return ` Switch when your current contract ends on ${scored.recommendedSwitchDate} to avoid the $${scored.switchingCost.toFixed(2)} early termination fee.`;
   }
-  return Math.ceil(upfrontCosts / monthlySavings);
+  if (scored.switchTiming === 'stay') {
+    return ' Switching does not pay off within the new contract term, so staying on your current plan is the better choice.';
+  }
+  if (scored.switchingCost > 0) {
+    return ` The savings cover your $${scored.switchingCost.toFixed(2)} early termination fee before your current contract would end.`;
+  }
+  return '';
 }
 
 /**
@@ -180,23 +291,44 @@ function calculateCompatibilityScore(
 function scorePlan(
   plan: GenerateRecommendationsEvent['availablePlans'][0],
   currentAnnualCost: number,
-  annualKwh: number,
+  currentBillingPlan: BillingPlan,
   preferences: GenerateRecommendationsEvent['preferences'],
-  _usageData: GenerateRecommendationsEvent['usageData']
+  usageData: GenerateRecommendationsEvent['usageData'],
+  switching: SwitchingContext,
+  now: Date
 ): {
   plan: typeof plan;
   score: number;
   savings: ReturnType<typeof calculateSavings>;
   compatibilityScore: number;
+  switchable: boolean; // saves money and is worth switching to now or at contract end
   paybackPeriod?: number;
+  projectedCost12Months: number;
+  projectedCost24Months: number;
+  twoYearSavings: number;
+  savingsMostlyFromPromo: boolean;
+  switchingCost: number;
+  switchTiming: SwitchTiming;
+  recommendedSwitchDate?: string;
+  riskFlags: RiskFlag[];
+  monthlyCosts: MonthlyCostProjection[];
+  seasonalCosts: SeasonalCostProjection[];
 } {
-  const planAnnualCost = calculateAnnualCost(plan, annualKwh);
-  const savings = calculateSavings(currentAnnualCost, planAnnualCost);
+  const costs = calculateContractCosts(plan, usageData, currentBillingPlan);
+  const savings = calculateSavings(currentAnnualCost, costs.cost12Months);
+  const twoYearSavings = currentAnnualCost * 2 - costs.cost24Months;
   const compatibilityScore = calculateCompatibilityScore(plan, preferences);
 
-  // Calculate upfront costs (termination fee if switching)
-  const upfrontCosts = plan.earlyTerminationFee || 0;
-  const paybackPeriod = calculatePaybackPeriod(upfrontCosts, savings.monthlySavings);
+  // Flag plans where an expiring promo accounts for more than half the first-year savings
+  const promoSavings = costs.cost12MonthsWithoutPromotions - costs.cost12Months;
+  const savingsMostlyFromPromo =
+    savings.annualSavings > 0 && promoSavings > 0 && promoSavings > savings.annualSavings / 2;
+
+  // Upfront cost is the current plan's termination fee, owed only when leaving before the contract ends
+  const timing = analyzeSwitchTiming(toBillingPlan(plan), savings.monthlySavings, switching, now);
+  // Rank on first-year savings net of the fee, which waiting for the contract end avoids
+  const feeOwed = timing.switchTiming === 'contract_end' ? 0 : timing.switchingCost;
+  const netAnnualSavings = savings.annualSavings - feeOwed;
 
   // Scoring algorithm with dynamic weights based on costSavingsPriority:
   // - High priority: Savings 60%, Compatibility 40%
@@ -217,15 +349,15 @@ function scorePlan(
   // Handle negative savings (plans that cost more) by giving them 0 points
   // Normalize positive savings to 0-savingsWeight range
   let savingsComponent = 0;
-  if (savings.annualSavings > 0) {
+  if (netAnnualSavings > 0) {
     savingsComponent = Math.min(
-      (savings.annualSavings / maxPotentialSavings) * savingsWeight,
+      (netAnnualSavings / maxPotentialSavings) * savingsWeight,
       savingsWeight
     );
-  } else if (savings.annualSavings < 0) {
+  } else if (netAnnualSavings < 0) {
     // Plans that cost more get penalized (negative component)
     // Cap the penalty at -10 points to avoid overly harsh scoring
-    savingsComponent = Math.max((savings.annualSavings / maxPotentialSavings) * 10, -10);
+    savingsComponent = Math.max((netAnnualSavings / maxPotentialSavings) * 10, -10);
   }
   score += savingsComponent;
 
@@ -239,7 +371,18 @@ function scorePlan(
     score,
     savings,
     compatibilityScore,
-    paybackPeriod,
+    switchable: timing.switchTiming !== 'stay',
+    paybackPeriod: timing.paybackPeriod,
+    switchingCost: timing.switchingCost,
+    switchTiming: timing.switchTiming,
+    recommendedSwitchDate: timing.recommendedSwitchDate,
+    riskFlags: getRiskFlags(toBillingPlan(plan)),
+    projectedCost12Months: costs.cost12Months,
+    projectedCost24Months: costs.cost24Months,
+    twoYearSavings,
+    savingsMostlyFromPromo,
+    monthlyCosts: costs.monthlyCosts,
+    seasonalCosts: costs.seasonalCosts,
   };
 }
 
@@ -357,42 +500,17 @@ export const handler: Handler<
   }
 
   try {
-    const { userId, usageData, preferences, availablePlans } = requestData;
-
-    // 1. Calculate current annual cost
-    // Try to get from aggregatedStats, fallback to calculating from usage points
-    let currentAnnualCost = usageData.aggregatedStats.totalCost;
-    if (!currentAnnualCost || currentAnnualCost === 0) {
-      // Calculate from usage points
-      const totalCostFromPoints = usageData.usageDataPoints.reduce(
-        (sum, point) => sum + (point.cost || 0),
-        0
-      );
-      if (totalCostFromPoints > 0) {
-        // Extrapolate to annual if we have partial data
-        const monthsOfData = usageData.usageDataPoints.length;
-        currentAnnualCost = (totalCostFromPoints / monthsOfData) * 12;
-      } else {
-        // Last resort: use average monthly cost * 12
-        currentAnnualCost = usageData.aggregatedStats.averageMonthlyCost * 12;
-      }
-    }
-
-    // Calculate annual kWh
-    let annualKwh = usageData.aggregatedStats.totalKwh;
-    if (!annualKwh || annualKwh === 0) {
-      // Calculate from usage points
-      const totalKwhFromPoints = usageData.usageDataPoints.reduce(
-        (sum, point) => sum + point.kwh,
-        0
-      );
-      if (totalKwhFromPoints > 0) {
-        const monthsOfData = usageData.usageDataPoints.length;
-        annualKwh = (totalKwhFromPoints / monthsOfData) * 12;
-      } else {
-        annualKwh = usageData.aggregatedStats.averageMonthlyKwh * 12;
-      }
-    }
+    const { userId, usageData, preferences, availablePlans, currentPlan } = requestData;
+    const now = new Date();
+    const switching = getSwitchingContext(currentPlan, now);
+
+    // 1. Calculate current annual cost and annual kWh
+    // One baseline for the annual savings and the monthly comparison: the stored
+    // plan's simulated bills when its rate is known, otherwise the billed total
+    const storedCurrentPlan = toCurrentBillingPlan(currentPlan);
+    const currentAnnualCost = calculateSavingsBaselineCost(usageData, storedCurrentPlan);
+    const annualKwh = calculateAnnualKwh(usageData);
+    const usageQuality = assessUsageDataQuality(usageData.usageDataPoints);
 
     // Validate we have valid data
     if (currentAnnualCost <= 0 || annualKwh <= 0) {
@@ -402,11 +520,16 @@ export const handler: Handler<
       });
     }
 
+    // Price the current plan from its stored rate and charges like the candidates,
+    // or at its effective rate when none are stored, so monthly costs follow the
+    // usage profile and add up to the current annual cost
+    const currentBillingPlan: BillingPlan = storedCurrentPlan || { ratePerKwh: currentAnnualCost / annualKwh };
+
     // 2. Filter plans based on budget constraints if specified
     let filteredPlans = availablePlans;
     if (preferences.budgetConstraints) {
       filteredPlans = availablePlans.filter(plan => {
-        const planAnnualCost = calculateAnnualCost(plan, annualKwh);
+        const planAnnualCost = simulateBills(usageData, toBillingPlan(plan)).annualCost;
         const planMonthlyCost = planAnnualCost / 12;
         
         if (preferences.budgetConstraints?.maxAnnualCost && planAnnualCost > preferences.budgetConstraints.maxAnnualCost) {
@@ -428,14 +551,48 @@ export const handler: Handler<
 
     // 3. Score and rank all plans
     const scoredPlans = filteredPlans.map(plan =>
-      scorePlan(plan, currentAnnualCost, annualKwh, preferences, usageData)
+      scorePlan(plan, currentAnnualCost, currentBillingPlan, preferences, usageData, switching, now)
     );
 
-    // 4. Sort by score (highest first) and take top 10 for AI analysis
+    // 4. Keep only plans worth switching to, sort by score, and take top 10 for AI analysis
+    // Plans that lose money once switching costs are counted are never recommended,
+    // even when fewer than three plans are worth switching to
     const topPlans = scoredPlans
+      .filter(scored => scored.switchable)
       .sort((a, b) => b.score - a.score)
       .slice(0, 10);
 
+    // When no plan saves money, or none saves enough to recover the termination
+    // fee in time, the current plan is already the best option
+    if (topPlans.length === 0) {
+      const firstYearCost = (scored: (typeof scoredPlans)[0]) => scored.switchingCost - scored.savings.annualSavings;
+      const nearest = scoredPlans.reduce<(typeof scoredPlans)[0] | undefined>(
+        (best, scored) => (!best || firstYearCost(scored) < firstYearCost(best) ? scored : best),
+        undefined
+      );
+      return createResponse(200, {
+        success: true,
+        outcome: 'stay',
+        recommendations: [],
+        confidence: usageQuality.usageScore,
+        dataQuality: usageQuality.dataQuality,
+        dataQualitySuggestions: usageQuality.suggestions,
+        currentPlanBest: {
+          currentAnnualCost,
+          nearestAlternative: nearest
+            ? {
+                planId: nearest.plan.planId,
+                supplierName: nearest.plan.supplierName,
+                planName: nearest.plan.planName,
+                annualCost: nearest.projectedCost12Months,
+                switchingCost: nearest.switchingCost,
+                margin: firstYearCost(nearest),
+              }
+            : undefined,
+        },
+      });
+    }
+
     // 5. Fetch historical data from memory bank (optional - gracefully handle failures)
     let usagePatterns: any[] = [];
     let recommendationHistory: any[] = [];
@@ -481,7 +638,7 @@ export const handler: Handler<
     // 6. Use AI to generate explanations for top 3 plans
     let recommendations: NonNullable<GenerateRecommendationsResponse['recommendations']> = [];
 
-    if (process.env.OPENROUTER_API_KEY && topPlans.length > 0) {
+    if (llm.configured && topPlans.length > 0) {
       try {
         const top3Plans = topPlans.slice(0, 3);
 
@@ -492,6 +649,11 @@ User Usage Data:
 - Current Annual Cost: $${currentAnnualCost.toFixed(2)}
 - Average Monthly Usage: ${usageData.aggregatedStats.averageMonthlyKwh.toFixed(0)} kWh
 - Peak Month: ${usageData.aggregatedStats.peakMonth} (${usageData.aggregatedStats.peakMonthKwh.toFixed(0)} kWh)
+- Data Quality: ${usageQuality.dataQuality} (${usageQuality.monthsOfData} of 12 months from bills)
+
+Current Contract:
+- Early Termination Fee: $${switching.earlyTerminationFee.toFixed(2)}
+- Contract End Date: ${switching.contractEndDate || 'unknown'}
 
 User Preferences:
 ${JSON.stringify(preferences, null, 2)}
@@ -504,11 +666,26 @@ ${JSON.stringify(
             supplierName: scored.plan.supplierName,
             planName: scored.plan.planName,
             ratePerKwh: scored.plan.ratePerKwh,
+            timeOfUseRates: scored.plan.timeOfUseRates,
+            rateTiers: scored.plan.rateTiers,
+            billCredits: scored.plan.billCredits,
+            charges: scored.plan.charges,
             contractType: scored.plan.contractType,
             annualSavings: scored.savings.annualSavings,
             monthlySavings: scored.savings.monthlySavings,
             percentageSavings: scored.savings.percentageSavings,
             paybackPeriodMonths: scored.paybackPeriod,
+            promotionalPeriods: scored.plan.promotionalPeriods,
+            rolloverRatePerKwh: scored.plan.rolloverRatePerKwh,
+            projectedCost12Months: scored.projectedCost12Months,
+            projectedCost24Months: scored.projectedCost24Months,
+            twoYearSavings: scored.twoYearSavings,
+            savingsMostlyFromPromo: scored.savingsMostlyFromPromo,
+            switchingCost: scored.switchingCost,
+            switchTiming: scored.switchTiming,
+            recommendedSwitchDate: scored.recommendedSwitchDate,
+            riskFlags: scored.riskFlags,
+            seasonalCosts: scored.seasonalCosts,
           })),
           null,
           2
@@ -525,8 +702,12 @@ Instructions:
 2. Explain why this plan is recommended based on usage patterns and preferences
 3. Mention specific savings amounts and percentages
 4. Highlight positive aspects and benefits of each plan
-5. Keep explanations concise (2-3 sentences each)
-6. Return valid JSON only
+5. Mention when to switch: switchTiming "now" (switch today), "contract_end" (wait until recommendedSwitchDate to avoid the early termination fee) or "stay" (switching does not pay off within the new contract term)
+6. If savingsMostlyFromPromo is true, warn that most of the first-year savings come from an introductory rate and mention the 24-month cost
+7. Mention any riskFlags with severity "high" so the customer knows the trade-off
+8. If a season's projectedCost is above its currentCost, mention that the plan costs more in that season
+9. Keep explanations concise (2-3 sentences each)
+10. Return valid JSON only
 
 Return format:
 {
@@ -539,8 +720,8 @@ Return format:
   ]
 }`;
 
-        const response = await openrouter.chat.completions.create({
-          model: 'openai/gpt-4-turbo',
+        const response = await llm.complete({
+          task: 'recommendations',
           messages: [
             {
               role: 'system',
@@ -552,11 +733,11 @@ Return format:
               content: prompt,
             },
           ],
-          response_format: { type: 'json_object' },
+          json: true,
           temperature: 0.3,
         });
 
-        const aiResponse = JSON.parse(response.choices[0].message.content || '{}');
+        const aiResponse = parseLlmJson(response.content);
         const aiExplanations = new Map(
           (aiResponse.recommendations || []).map((rec: { planId: string; explanation: string }) => [
             rec.planId,
@@ -579,11 +760,22 @@ Return format:
             monthlySavings: scored.savings.monthlySavings,
             percentageSavings: scored.savings.percentageSavings,
             paybackPeriodMonths: scored.paybackPeriod,
+            projectedCost12Months: scored.projectedCost12Months,
+            projectedCost24Months: scored.projectedCost24Months,
+            twoYearSavings: scored.twoYearSavings,
+            savingsMostlyFromPromo: scored.savingsMostlyFromPromo,
+            switchingCost: scored.switchingCost,
+            switchTiming: scored.switchTiming,
+            recommendedSwitchDate: scored.recommendedSwitchDate,
+            riskFlags: scored.riskFlags,
+            monthlyCosts: scored.monthlyCosts,
+            seasonalCosts: scored.seasonalCosts,
+            confidence: calculateConfidence(usageQuality, toBillingPlan(scored.plan)),
             explanation,
           };
         });
       } catch (error) {
-        console.error('OpenRouter recommendation error:', error);
+        console.error('LLM recommendation error:', error);
         // Fall through to calculated-only recommendations
       }
     }
@@ -598,7 +790,18 @@ Return format:
         monthlySavings: scored.savings.monthlySavings,
         percentageSavings: scored.savings.percentageSavings,
         paybackPeriodMonths: scored.paybackPeriod,
-        explanation: `This ${scored.plan.contractType} plan from ${scored.plan.supplierName} offers ${scored.savings.percentageSavings.toFixed(1)}% annual savings ($${scored.savings.annualSavings.toFixed(2)}/year).`,
+        projectedCost12Months: scored.projectedCost12Months,
+        projectedCost24Months: scored.projectedCost24Months,
+        twoYearSavings: scored.twoYearSavings,
+        savingsMostlyFromPromo: scored.savingsMostlyFromPromo,
+        switchingCost: scored.switchingCost,
+        switchTiming: scored.switchTiming,
+        recommendedSwitchDate: scored.recommendedSwitchDate,
+        riskFlags: scored.riskFlags,
+        monthlyCosts: scored.monthlyCosts,
+        seasonalCosts: scored.seasonalCosts,
+        confidence: calculateConfidence(usageQuality, toBillingPlan(scored.plan)),
+        explanation: `This ${scored.plan.contractType} plan from ${scored.plan.supplierName} offers ${scored.savings.percentageSavings.toFixed(1)}% annual savings ($${scored.savings.annualSavings.toFixed(2)}/year).${scored.savingsMostlyFromPromo ? ' Most of this first-year saving comes from an introductory rate, so compare the 24-month cost before switching.' : ''}${describeSwitchTiming(scored)}`,
       }));
     }
 
@@ -633,9 +836,26 @@ Return format:
       }
     }
 
+    // 9. Summarize switch timing for the top recommendation
+    const topRecommendation = recommendations[0];
+    const switchingAnalysis = topRecommendation
+      ? {
+          earlyTerminationFee: switching.earlyTerminationFee,
+          contractEndDate: switching.contractEndDate,
+          monthsUntilContractEnd: switching.monthsUntilContractEnd,
+          recommendation: topRecommendation.switchTiming,
+          recommendedSwitchDate: topRecommendation.recommendedSwitchDate,
+        }
+      : undefined;
+
     return createResponse(200, {
       success: true,
+      outcome: 'switch',
       recommendations,
+      confidence: topRecommendation?.confidence ?? usageQuality.usageScore,
+      dataQuality: usageQuality.dataQuality,
+      dataQualitySuggestions: usageQuality.suggestions,
+      switchingAnalysis,
     });
   } catch (error) {
     console.error('Error generating recommendations:', error);
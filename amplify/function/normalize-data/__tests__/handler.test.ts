@@ -0,0 +1,90 @@
+import type { Context } from 'aws-lambda';
+import type { LlmFixture } from '../../../../shared/llm';
+
+type Handler = typeof import('../handler').handler;
+type Event = Parameters<Handler>[0];
+
+// The model answers with recorded fixtures instead of calling OpenRouter
+const loadHandler = async (fixtures: LlmFixture[]): Promise<Handler> => {
+  jest.resetModules();
+  process.env.LLM_PROVIDER = 'fixture';
+  process.env.LLM_FIXTURES = JSON.stringify(fixtures);
+  return (await import('../handler')).handler;
+};
+
+const invoke = async (handler: Handler, event: Event) =>
+  handler(event, {} as Context, () => undefined);
+
+// A response no adapter can read
+const event: Event = {
+  rawData: { meter: 'A-100', reads: [{ on: 'Jan 2025', used: '950 kWh' }] },
+  source: 'wattbuy',
+  userId: 'user-1',
+};
+
+const normalizedData = {
+  customerInfo: { customerId: 'user-1' },
+  utilityInfo: { utilityName: 'Oncor' },
+  usageDataPoints: [{ timestamp: '2025-01-01T00:00:00Z', kwh: 950 }],
+  aggregatedStats: {
+    totalKwh: 950,
+    totalCost: 0,
+    averageMonthlyKwh: 950,
+    averageMonthlyCost: 0,
+    peakMonth: '2025-01',
+    peakMonthKwh: 950,
+  },
+};
+
+describe('normalize-data handler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_FIXTURES;
+  });
+
+  it('should fall back to the model for data no adapter can read', async () => {
+    const handler = await loadHandler([
+      { task: 'normalize-data', content: JSON.stringify(normalizedData) },
+    ]);
+
+    const response = await invoke(handler, event);
+
+    expect(response).toMatchObject({
+      success: true,
+      normalizedBy: 'ai',
+      normalizedData,
+    });
+  });
+
+  it('should reject a model answer that fails schema validation', async () => {
+    const handler = await loadHandler([
+      {
+        task: 'normalize-data',
+        content: JSON.stringify({ ...normalizedData, usageDataPoints: [] }),
+      },
+    ]);
+
+    const response = await invoke(handler, event);
+
+    expect(response).toMatchObject({ success: false });
+    expect(response?.normalizedBy).toBeUndefined();
+    expect(response?.validationErrors?.length).toBeGreaterThan(0);
+  });
+
+  it('should not ask the model when an adapter reads the data', async () => {
+    const handler = await loadHandler([]);
+
+    const response = await invoke(handler, {
+      rawData: 'date,kwh,cost\n2025-01-01,950,114.00\n',
+      source: 'csv',
+      userId: 'user-1',
+    });
+
+    expect(response).toMatchObject({ success: true, normalizedBy: 'adapter' });
+  });
+});
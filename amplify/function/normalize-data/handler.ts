@@ -1,91 +1,58 @@
 import type { Handler } from 'aws-lambda';
-import OpenAI from 'openai';
+import { createLlmProvider, parseLlmJson } from '../../../shared/llm';
+import {
+  normalizeUsageData,
+  validateCustomerUsageData,
+  type UsageSourceType,
+} from '../../../shared/normalization';
+import type { CustomerUsageData } from '../../../shared/types';
 
 /**
  * Data Normalization Lambda Function
  * 
  * Normalizes energy usage data from various APIs to common format
- * Uses OpenRouter AI with GPT-3.5-turbo for cost efficiency
+ * (docs/planning/COMMON_USAGE_DATA_SCHEMA.md):
+ * - Source adapters for eia, openei, green_button, pge, csv and json
+ *   (shared/normalization), with unit and timezone conversion
+ * - Other sources are read as Green Button XML, CSV or JSON by their content
+ * - The normalize-data model (GPT-3.5-turbo by default) is a last resort for
+ *   data no adapter can read
+ * - Every result is validated against the usage schema before it is returned
  */
 
-// Initialize OpenRouter client
-const openrouter = new OpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY || '',
-  defaultHeaders: {
-    'HTTP-Referer': 'https://sparksave.app', // Optional: for analytics
-  },
-});
+// OpenRouter, or recorded answers when LLM_PROVIDER=fixture
+const llm = createLlmProvider(process.env);
 
 interface NormalizeDataEvent {
   rawData: unknown;
-  source: string; // 'eia' | 'openei' | 'wattbuy' | 'green_button' | 'public_grid' | 'pge' | 'quantiv' | 'palmetto'
+  source: string; // 'eia' | 'openei' | 'green_button' | 'pge' | 'csv' | 'json' | 'wattbuy' | 'public_grid' | 'quantiv' | 'palmetto'
   userId: string;
+  timeZone?: string; // IANA zone of the meter, for times without an offset (e.g. 'America/Chicago')
+  state?: string; // eia: state to average, when the response covers several
+  year?: number; // openei: year to place a typical-year load profile in
 }
 
 interface NormalizeDataResponse {
   success: boolean;
-  normalizedData?: {
-    customerInfo: {
-      customerId: string;
-      address: {
-        street?: string;
-        city?: string;
-        state?: string;
-        zipCode?: string;
-      };
-    };
-    utilityInfo: {
-      utilityName: string;
-      utilityId?: string;
-    };
-    usageDataPoints: Array<{
-      timestamp: string;
-      kwh: number;
-      cost?: number;
-      periodStart?: string;
-      periodEnd?: string;
-    }>;
-    aggregatedStats: {
-      totalKwh: number;
-      totalCost: number;
-      averageMonthlyKwh: number;
-      averageMonthlyCost: number;
-      peakMonth: string;
-      peakMonthKwh: number;
-    };
-    billingInfo?: {
-      currentPlan?: {
-        planId: string;
-        supplierName: string;
-        ratePerKwh: number;
-      };
-      billingPeriod?: {
-        start: string;
-        end: string;
-      };
-    };
-  };
+  normalizedData?: CustomerUsageData;
+  normalizedBy?: 'adapter' | 'ai';
+  adapter?: UsageSourceType; // adapter that read (or failed to read) the data
+  validationErrors?: string[];
   error?: string;
 }
 
-export const handler: Handler<NormalizeDataEvent, NormalizeDataResponse> = async (
-  event
-) => {
-  try {
-    const { rawData, source, userId } = event;
+// Schema errors listed in an error message
+const MAX_REPORTED_ERRORS = 5;
 
-    // TODO: Implement normalization logic
-    // 1. Parse raw data based on source
-    // 2. Map to common schema
-    // 3. Use OpenRouter AI (GPT-3.5-turbo) for complex normalization if needed
-    // 4. Validate normalized data
-    // 5. Return normalized data
+const describeErrors = (errors: string[]) =>
+  errors.slice(0, MAX_REPORTED_ERRORS).join('; ') +
+  (errors.length > MAX_REPORTED_ERRORS ? `; and ${errors.length - MAX_REPORTED_ERRORS} more` : '');
 
-    // Example: Use OpenRouter for normalization
-    if (process.env.OPENROUTER_API_KEY) {
-      try {
-        const prompt = `Convert the following energy usage API response to the standardized format.
+/**
+ * Ask the model to normalize data no adapter could read
+ */
+async function normalizeWithAi(rawData: unknown, source: string, userId: string): Promise<unknown> {
+  const prompt = `Convert the following energy usage API response to the standardized format.
         
 API Response:
 ${JSON.stringify(rawData, null, 2)}
@@ -96,8 +63,9 @@ Instructions:
 1. Extract all available fields
 2. Map field names to standard schema
 3. Convert date/time formats to ISO 8601
-4. Normalize units (kWh, $, kW)
-5. Return valid JSON only matching the target schema
+4. Normalize units (kWh, $, kW): Wh and MWh to kWh, cents to dollars
+5. Use "${userId}" as customerId when the response has none
+6. Return valid JSON only matching the target schema
 
 Target Schema:
 {
@@ -133,58 +101,72 @@ Target Schema:
   }
 }`;
 
-        const response = await openrouter.chat.completions.create({
-          model: 'openai/gpt-3.5-turbo', // Use cheaper model for normalization
-          messages: [
-            {
-              role: 'system',
-              content:
-                'You are a data normalization expert. Convert energy usage API responses to standardized format. Return only valid JSON.',
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          response_format: { type: 'json_object' },
-          temperature: 0.1, // Low temperature for consistent output
-        });
-
-        const normalizedData = JSON.parse(
-          response.choices[0].message.content || '{}'
-        );
-
-        return {
-          success: true,
-          normalizedData,
-        };
+  const response = await llm.complete({
+    task: 'normalize-data',
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are a data normalization expert. Convert energy usage API responses to standardized format. Return only valid JSON.',
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ],
+    json: true,
+    temperature: 0.1, // Low temperature for consistent output
+  });
+
+  return parseLlmJson(response.content);
+}
+
+export const handler: Handler<NormalizeDataEvent, NormalizeDataResponse> = async (
+  event
+) => {
+  try {
+    const { rawData, source, userId, timeZone, state, year } = event;
+
+    // 1. Read the data with the source's adapter and validate the result
+    const { type, usageData, validation } = normalizeUsageData(source, rawData, userId, {
+      timeZone,
+      state,
+      year,
+    });
+    if (usageData && validation.valid) {
+      return {
+        success: true,
+        normalizedData: usageData,
+        normalizedBy: 'adapter',
+        adapter: type,
+      };
+    }
+    console.warn(`[normalize-data] ${type} adapter could not normalize ${source} data: ${describeErrors(validation.errors)}`);
+
+    // 2. Last resort: ask the model, and hold its answer to the same schema
+    if (llm.configured) {
+      try {
+        const aiData = await normalizeWithAi(rawData, source, userId);
+        const aiValidation = validateCustomerUsageData(aiData);
+        if (aiValidation.valid) {
+          return {
+            success: true,
+            normalizedData: aiData as CustomerUsageData,
+            normalizedBy: 'ai',
+            adapter: type,
+          };
+        }
+        console.warn(`[normalize-data] AI normalization failed validation: ${describeErrors(aiValidation.errors)}`);
       } catch (error) {
-        console.error('OpenRouter normalization error:', error);
-        // Fall through to placeholder implementation
+        console.error('LLM normalization error:', error);
       }
     }
 
-    // Placeholder implementation (fallback)
     return {
-      success: true,
-      normalizedData: {
-        customerInfo: {
-          customerId: userId,
-          address: {},
-        },
-        utilityInfo: {
-          utilityName: 'Unknown',
-        },
-        usageDataPoints: [],
-        aggregatedStats: {
-          totalKwh: 0,
-          totalCost: 0,
-          averageMonthlyKwh: 0,
-          averageMonthlyCost: 0,
-          peakMonth: 'January',
-          peakMonthKwh: 0,
-        },
-      },
+      success: false,
+      adapter: type,
+      validationErrors: validation.errors,
+      error: `Could not normalize ${source} data: ${describeErrors(validation.errors)}`,
     };
   } catch (error) {
     console.error('Error normalizing data:', error);
@@ -0,0 +1,113 @@
+import type { Context, DynamoDBStreamEvent } from 'aws-lambda';
+import { handler } from '../handler';
+
+const mockModels = {
+  StatementFormat: { list: jest.fn(), update: jest.fn() },
+  StatementFormatCorrection: { listCorrectionsByFormatVersion: jest.fn() },
+};
+
+jest.mock('aws-amplify/data', () => ({
+  generateClient: () => ({ models: mockModels }),
+}));
+
+const correctionInserted = (
+  formatId: string,
+  formatVersion: number
+): DynamoDBStreamEvent['Records'][number] => ({
+  eventName: 'INSERT',
+  dynamodb: {
+    NewImage: {
+      formatId: { S: formatId },
+      formatVersion: { N: String(formatVersion) },
+    },
+  },
+});
+
+const format = {
+  id: 'format-row-1',
+  formatId: 'format-csv-abc',
+  version: 2,
+  status: 'active',
+  successCount: 5,
+  correctionCount: 1,
+};
+
+describe('read-statement handler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockModels.StatementFormat.list.mockResolvedValue({ data: [format] });
+    mockModels.StatementFormat.update.mockResolvedValue({ data: format });
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('correction stream', () => {
+    it('should demote a format version corrected by enough users', async () => {
+      mockModels.StatementFormatCorrection.listCorrectionsByFormatVersion
+        .mockResolvedValueOnce({
+          data: [{ owner: 'user-1' }, { owner: 'user-1' }],
+          nextToken: 'page-2',
+        })
+        .mockResolvedValueOnce({ data: [{ owner: 'user-2' }] });
+
+      await handler(
+        { Records: [correctionInserted('format-csv-abc', 2)] },
+        {} as Context,
+        () => undefined
+      );
+
+      expect(
+        mockModels.StatementFormatCorrection.listCorrectionsByFormatVersion
+      ).toHaveBeenLastCalledWith(
+        { formatId: 'format-csv-abc', formatVersion: { eq: 2 } },
+        { nextToken: 'page-2' }
+      );
+      expect(mockModels.StatementFormat.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'format-row-1',
+          correctionCount: 2,
+          status: 'demoted',
+        })
+      );
+    });
+
+    it('should not count one user correcting several months twice', async () => {
+      mockModels.StatementFormatCorrection.listCorrectionsByFormatVersion.mockResolvedValue(
+        { data: [{ owner: 'user-1' }, { owner: 'user-1' }] }
+      );
+
+      await handler(
+        {
+          Records: [
+            correctionInserted('format-csv-abc', 2),
+            correctionInserted('format-csv-abc', 2),
+          ],
+        },
+        {} as Context,
+        () => undefined
+      );
+
+      expect(
+        mockModels.StatementFormatCorrection.listCorrectionsByFormatVersion
+      ).toHaveBeenCalledTimes(1);
+      expect(mockModels.StatementFormat.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave a newer version alone when an old version is corrected', async () => {
+      mockModels.StatementFormatCorrection.listCorrectionsByFormatVersion.mockResolvedValue(
+        { data: [{ owner: 'user-1' }, { owner: 'user-2' }] }
+      );
+
+      await handler(
+        { Records: [correctionInserted('format-csv-abc', 1)] },
+        {} as Context,
+        () => undefined
+      );
+
+      expect(mockModels.StatementFormat.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,30 +1,60 @@
-import type { Handler } from 'aws-lambda';
-import OpenAI from 'openai';
+import type { DynamoDBStreamEvent, Handler } from 'aws-lambda';
 import { generateClient } from 'aws-amplify/data';
 import type { Schema } from '../../data/resource';
+import {
+  parseCsvStatement,
+  inferCsvColumnMappings,
+  isCsvColumnMappings,
+  DEFAULT_CSV_COLUMN_MAPPINGS,
+  calculateAggregatedStats,
+  mergeParsedStatements,
+  parseUsageHistoryText,
+  parsedStatementConfidence,
+  mergeStatementConfidence,
+  extractedConfidence,
+  getPresentFields,
+  normalizeCurrentPlan,
+  fingerprintCsvStatement,
+  rankStatementFormats,
+  isActiveStatementFormat,
+  shouldDemoteStatementFormat,
+  countStatementFormatCorrections,
+  COMPUTED,
+  PARSED,
+  type CsvColumnMappings,
+  type ParsedStatement,
+  type StatementConfidence,
+  type StatementCurrentPlan,
+  type StatementFingerprint,
+  type StatementFormatStatus,
+  type StatementFormatVersion,
+} from '../../../shared/statements';
+import type { UsageDataPoint } from '../../../shared/types';
+import { createLlmProvider, parseLlmJson, type LlmMessage, type LlmTask } from '../../../shared/llm';
+import { splitPdfPages, type PdfPage } from './pdf-pages';
 
 /**
  * AI Statement Reader Lambda Function
  *
  * Reads and extracts data from energy bill statements using AI
  * Supports PDF, images (PNG, JPG), CSV, and text formats
- * Uses OpenRouter AI with GPT-4 Vision for image/PDF processing
- * Uses GPT-4 Turbo for text/CSV processing
+ * Uses the read-statement-vision model (GPT-4o by default) for image/PDF processing
+ * Uses the read-statement-text model (GPT-4 Turbo by default) for text/CSV processing
  * 
  * Follows AI bill analyzer best practices:
- * - Uses AI for all file formats (including CSV) for intelligent extraction
+ * - Parses known CSV layouts locally (stored StatementFormat column mappings)
+ *   and only sends unknown layouts to the model
+ * - Matches learned formats by fingerprint (header signature and layout hash);
+ *   formats users keep correcting are demoted and stop being used, counted
+ *   from the StatementFormatCorrection stream as corrections are reported
+ * - Reads PDFs page by page: text-layer pages as text, scanned pages by vision,
+ *   then merges the pages into one statement
  * - Handles various bill formats and structures
  * - Extracts structured data from unstructured sources
  */
 
-// Initialize OpenRouter client
-const openrouter = new OpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY || '',
-  defaultHeaders: {
-    'HTTP-Referer': 'https://sparksave.app',
-  },
-});
+// OpenRouter, or recorded answers when LLM_PROVIDER=fixture
+const llm = createLlmProvider(process.env);
 
 interface ReadStatementEvent {
   userId: string;
@@ -77,17 +107,17 @@ interface ReadStatementResponse {
       peakMonthKwh: number;
     };
     billingInfo?: {
-      currentPlan?: {
-        planId?: string;
-        supplierName: string;
-        ratePerKwh: number;
-      };
+      currentPlan?: StatementCurrentPlan;
       billingPeriod?: {
         start: string;
         end: string;
       };
     };
   };
+  extractionMethod?: 'csv_parser' | 'ai'; // csv_parser = known CSV layout, no AI call
+  pageCount?: number; // PDFs read page by page
+  fieldConfidence?: StatementConfidence; // how sure the reader is of each value, and where it came from
+  statementFormat?: { formatId: string; version: number }; // learned CSV format the usage is attributed to, for correction reports
   error?: string;
 }
 
@@ -108,7 +138,7 @@ interface HttpEvent {
   };
 }
 
-type HandlerEvent = ReadStatementEvent | HttpEvent;
+type HandlerEvent = ReadStatementEvent | HttpEvent | DynamoDBStreamEvent;
 
 // CORS headers for Function URL responses
 const corsHeaders = {
@@ -142,10 +172,102 @@ const getDataClient = () => {
   return dataClient;
 };
 
+type StoredStatementFormat = Schema['StatementFormat']['type'];
+
+/**
+ * Read every page of a list query
+ */
+async function listAllPages<T>(
+  listPage: (nextToken?: string | null) => Promise<{ data: T[] | null; nextToken?: string | null }>
+): Promise<T[]> {
+  const items: T[] = [];
+  let nextToken: string | null | undefined;
+  do {
+    const page = await listPage(nextToken);
+    items.push(...(page.data || []));
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return items;
+}
+
+// AWSJSON fields may come back as JSON strings
+const parseStoredJson = (value: unknown): unknown => (typeof value === 'string' ? JSON.parse(value) : value);
+
+/**
+ * Load the learned formats for a file type, reading every page
+ * Demotion happens when corrections are written (see recountStatementFormatCorrections),
+ * so the stored status is current.
+ */
+async function loadStatementFormats(fileType: string): Promise<StoredStatementFormat[]> {
+  return listAllPages((nextToken) =>
+    getDataClient().models.StatementFormat.list({ filter: { fileType: { eq: fileType } }, nextToken })
+  );
+}
+
+/**
+ * Recount the users correcting a format version and demote it when too many do
+ * Runs for each new StatementFormatCorrection, from the table's stream. Only the
+ * version's corrections are read, through the formatId + formatVersion index.
+ */
+async function recountStatementFormatCorrections(formatId: string, formatVersion: number): Promise<void> {
+  const client = getDataClient();
+  const corrections = await listAllPages((nextToken) =>
+    client.models.StatementFormatCorrection.listCorrectionsByFormatVersion(
+      { formatId, formatVersion: { eq: formatVersion } },
+      { nextToken }
+    )
+  );
+  const formats = await listAllPages((nextToken) =>
+    client.models.StatementFormat.list({ filter: { formatId: { eq: formatId } }, nextToken })
+  );
+  const format = formats.find((candidate) => (candidate.version || 1) === formatVersion);
+  const correctionCount = countStatementFormatCorrections(corrections);
+  if (!format || correctionCount === (format.correctionCount || 0)) {
+    return;
+  }
+
+  const demote = isActiveStatementFormat(format) && shouldDemoteStatementFormat(format.successCount, correctionCount);
+  if (demote) {
+    console.warn(`[read-statement] Demoting format ${formatId} v${formatVersion}: corrected by ${correctionCount} users`);
+  }
+  await client.models.StatementFormat.update({
+    id: format.id,
+    correctionCount,
+    status: demote ? 'demoted' : format.status,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Recount the format versions that new corrections were reported against
+ */
+async function handleCorrectionStream(event: DynamoDBStreamEvent): Promise<void> {
+  const versions = new Map<string, { formatId: string; formatVersion: number }>();
+  for (const record of event.Records) {
+    const image = record.dynamodb?.NewImage;
+    const formatId = image?.formatId?.S;
+    const formatVersion = Number(image?.formatVersion?.N);
+    if (record.eventName === 'INSERT' && formatId && Number.isFinite(formatVersion)) {
+      versions.set(`${formatId}#${formatVersion}`, { formatId, formatVersion });
+    }
+  }
+
+  for (const { formatId, formatVersion } of versions.values()) {
+    try {
+      await recountStatementFormatCorrections(formatId, formatVersion);
+    } catch (error) {
+      console.error(`[read-statement] Error recounting corrections for ${formatId} v${formatVersion}:`, error);
+    }
+  }
+}
+
 /**
  * Query for similar statement formats to improve accuracy
+ * Formats with the file's fingerprint come first, then the same headers, the
+ * same row layout, and finally the same utility.
  */
 async function getSimilarFormats(
+  fingerprint: StatementFingerprint | null,
   utilityName: string,
   fileType: string
 ): Promise<Array<{
@@ -155,75 +277,136 @@ async function getSimilarFormats(
   dateFormats?: string[];
 }>> {
   try {
-    const client = getDataClient();
-    const result = await client.models.StatementFormat.list({
-      filter: {
-        utilityName: { eq: utilityName },
-        fileType: { eq: fileType },
-      },
-    });
-
-    // Sort by success count and last used, return top 3
-    const formats = (result.data || [])
-      .sort((a: { successCount: number; lastUsedAt: string }, b: { successCount: number; lastUsedAt: string }) => {
-        // Prioritize by success count, then by last used
-        if (a.successCount !== b.successCount) {
-          return b.successCount - a.successCount;
-        }
-        return (
-          new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime()
-        );
-      })
+    const formats = await loadStatementFormats(fileType);
+    return rankStatementFormats(formats, fingerprint, utilityName)
       .slice(0, 3)
-      .map((f) => ({
+      .map(({ format: f }) => ({
         formatPattern: f.formatPattern,
         exampleExtraction: f.exampleExtraction,
         columnMappings: f.columnMappings,
         dateFormats: f.dateFormats ? (f.dateFormats.filter((d): d is string => d !== null) as string[]) : undefined,
       }));
-
-    return formats;
   } catch (error) {
     console.error('[read-statement] Error querying similar formats:', error);
     return [];
   }
 }
 
+/**
+ * Load the active CSV layouts learned from previous extractions
+ * Layouts matching the file's fingerprint are tried first, then the most used.
+ */
+async function getCsvLayouts(
+  fingerprint: StatementFingerprint | null
+): Promise<Array<{ format: StoredStatementFormat; columnMappings: CsvColumnMappings }>> {
+  try {
+    const formats = (await loadStatementFormats('csv')).filter(isActiveStatementFormat);
+    const matched = rankStatementFormats(formats, fingerprint).map(({ format }) => format);
+    const others = formats
+      .filter((format) => !matched.includes(format))
+      .sort((a: { successCount: number }, b: { successCount: number }) => b.successCount - a.successCount);
+
+    return [...matched, ...others].flatMap((format) => {
+      const columnMappings = parseStoredJson(format.columnMappings);
+      return isCsvColumnMappings(columnMappings) ? [{ format, columnMappings }] : [];
+    });
+  } catch (error) {
+    console.error('[read-statement] Error loading CSV layouts:', error);
+    return [];
+  }
+}
+
+/**
+ * Describe a CSV file's layout for the learning system
+ */
+function describeCsvFormat(fileContent: string): { headers: string[]; sampleRows: string[]; hasHeaderRow: boolean } {
+  const lines = fileContent.split('\n').slice(0, 5); // First 5 lines for pattern
+  return {
+    headers: lines[0]?.split(',').map(h => h.trim()) || [],
+    sampleRows: lines.slice(1, 3),
+    hasHeaderRow: true,
+  };
+}
+
 /**
  * Store successful extraction pattern for future learning
+ * Formats are identified by their fingerprint. Learning a format again with
+ * different column mappings starts a new version and keeps the old one in
+ * `versions`; retired formats are not learned again.
+ * Returns the format and version the extraction is attributed to.
  */
 async function storeFormatPattern(
   utilityName: string,
   fileType: string,
+  fingerprint: StatementFingerprint | null,
   formatPattern: unknown,
   exampleExtraction: unknown,
   columnMappings?: unknown,
   dateFormats?: string[]
-): Promise<void> {
+): Promise<{ formatId: string; version: number } | undefined> {
+  if (!fingerprint) {
+    return undefined;
+  }
+
   try {
     const client = getDataClient();
     
     // Check if format already exists
-    const existing = await client.models.StatementFormat.list({
-      filter: {
-        utilityName: { eq: utilityName },
-        fileType: { eq: fileType },
-      },
-    });
+    const existing = await listAllPages((nextToken) =>
+      client.models.StatementFormat.list({
+        filter: {
+          fileType: { eq: fileType },
+          fingerprint: { eq: fingerprint.fingerprint },
+        },
+        nextToken,
+      })
+    );
 
     const now = new Date().toISOString();
-    const formatId = `format-${utilityName.toLowerCase().replace(/\s+/g, '-')}-${fileType}-${Date.now()}`;
+    const similarFormat = existing[0];
 
-    // Create a hash-like identifier for the format pattern
-    const patternHash = JSON.stringify(formatPattern).substring(0, 100);
-
-    // Check if we have a similar format pattern
-    const similarFormat = existing.data?.find((f: { formatPattern: unknown }) => {
-      const existingPattern = JSON.stringify(f.formatPattern).substring(0, 100);
-      return existingPattern === patternHash;
-    });
+    if (similarFormat?.status === 'retired') {
+      console.warn(`[read-statement] Format ${similarFormat.formatId} is retired, not learning it again`);
+      return undefined;
+    }
 
     if (similarFormat) {
+      const version = similarFormat.version || 1;
+      const storedMappings = parseStoredJson(similarFormat.columnMappings);
+      const mappingsChanged = Boolean(
+        columnMappings && storedMappings && JSON.stringify(columnMappings) !== JSON.stringify(storedMappings)
+      );
+
+      if (mappingsChanged) {
+        // New version - the old mappings and their track record move to the history
+        const previous: StatementFormatVersion = {
+          version,
+          columnMappings: storedMappings,
+          dateFormats: (similarFormat.dateFormats || []).filter((d): d is string => d !== null),
+          successCount: similarFormat.successCount,
+          correctionCount: similarFormat.correctionCount || 0,
+          status: (similarFormat.status as StatementFormatStatus) || 'active',
+          replacedAt: now,
+        };
+        const versions = (parseStoredJson(similarFormat.versions) as StatementFormatVersion[] | null) || [];
+        await client.models.StatementFormat.update({
+          id: similarFormat.id,
+          utilityName,
+          formatPattern: formatPattern as string | number | boolean | object | unknown[],
+          exampleExtraction: exampleExtraction as string | number | boolean | object | unknown[],
+          columnMappings: columnMappings as string | number | boolean | object | unknown[],
+          dateFormats: dateFormats || [],
+          version: version + 1,
+          versions: [...versions, previous] as unknown[],
+          status: 'active',
+          successCount: 1,
+          correctionCount: 0,
+          lastUsedAt: now,
+          updatedAt: now,
+        });
+        return { formatId: similarFormat.formatId, version: version + 1 };
+      }
+
       // Update existing format - increment success count
       await client.models.StatementFormat.update({
         id: similarFormat.id,
@@ -232,30 +415,342 @@ async function storeFormatPattern(
         updatedAt: now,
         // Update example extraction if this one is more recent
         exampleExtraction: exampleExtraction as string | number | boolean | object | unknown[],
+        ...(columnMappings ? { columnMappings: columnMappings as string | number | boolean | object | unknown[] } : {}),
       });
-    } else {
-      // Create new format pattern
-      await client.models.StatementFormat.create({
-        formatId,
-        utilityName,
-        fileType,
-        formatPattern: formatPattern as string | number | boolean | object | unknown[],
-        exampleExtraction: exampleExtraction as string | number | boolean | object | unknown[],
-        columnMappings: columnMappings as string | number | boolean | object | unknown[] | undefined,
-        dateFormats: dateFormats || [],
-        successCount: 1,
-        lastUsedAt: now,
-        createdAt: now,
-        updatedAt: now,
-      });
+      return { formatId: similarFormat.formatId, version };
     }
+
+    // Create new format pattern
+    const formatId = `format-${fileType}-${fingerprint.fingerprint}`;
+    await client.models.StatementFormat.create({
+      formatId,
+      utilityName,
+      fileType,
+      formatPattern: formatPattern as string | number | boolean | object | unknown[],
+      exampleExtraction: exampleExtraction as string | number | boolean | object | unknown[],
+      columnMappings: columnMappings as string | number | boolean | object | unknown[] | undefined,
+      dateFormats: dateFormats || [],
+      successCount: 1,
+      fingerprint: fingerprint.fingerprint,
+      headerSignature: fingerprint.headerSignature,
+      layoutHash: fingerprint.layoutHash,
+      version: 1,
+      status: 'active',
+      correctionCount: 0,
+      lastUsedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { formatId, version: 1 };
   } catch (error) {
     console.error('[read-statement] Error storing format pattern:', error);
     // Don't throw - learning is optional
+    return undefined;
+  }
+}
+
+/**
+ * Ask the model for a JSON answer, retrying failed calls
+ */
+async function requestJsonCompletion(
+  task: LlmTask,
+  messages: LlmMessage[],
+  options: { temperature: number; maxTokens: number }
+) {
+  // Retry logic for better reliability
+  let aiResponse;
+  let lastError;
+  const maxRetries = 2;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      aiResponse = await llm.complete({ task, messages, json: true, ...options });
+
+      break;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorDetails = error instanceof Error ? {
+        name: error.name,
+        message: error.message,
+        stack: error.stack,
+      } : { error: String(error) };
+
+      console.error(`[read-statement] ${llm.name} API call failed (attempt ${attempt + 1}/${maxRetries + 1}):`, errorDetails);
+
+      lastError = error;
+      if (attempt < maxRetries) {
+        const delay = 1000 * (attempt + 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      } else {
+        // Wrap the error with more context
+        throw new Error(`${llm.name} API error: ${errorMessage}`);
+      }
+    }
+  }
+
+  if (!aiResponse) {
+    throw lastError || new Error('Failed to get AI response after retries');
+  }
+
+  // Parse extracted data with better error handling
+  try {
+    return parseLlmJson(aiResponse.content);
+  } catch (parseError) {
+    console.error('[read-statement] Failed to parse AI response:', parseError);
+    console.error('[read-statement] Raw response:', aiResponse.content);
+    throw new Error(`Failed to parse AI response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+  }
+}
+
+// A usage point as the model returns it, with its confidence score
+type ExtractedUsagePoint = UsageDataPoint & { confidence?: number };
+
+/**
+ * Drop usage points without a date or usage and turn numeric strings into numbers
+ */
+function sanitizeUsagePoints(points: unknown): ExtractedUsagePoint[] {
+  if (!Array.isArray(points)) {
+    return [];
+  }
+  return points.flatMap((point: { timestamp?: string; kwh?: number | string; cost?: number | string | null; confidence?: number }) => {
+    // Ensure kwh and cost are numbers
+    const kwh = typeof point.kwh === 'string' ? parseFloat(point.kwh) : point.kwh;
+    const cost = typeof point.cost === 'string' ? parseFloat(point.cost) : point.cost;
+    if (!point.timestamp || !kwh || kwh <= 0 || isNaN(new Date(point.timestamp).getTime())) {
+      return [];
+    }
+    return [{ ...point, timestamp: point.timestamp, kwh, cost: cost === null || Number.isNaN(cost) ? undefined : cost }];
+  });
+}
+
+/**
+ * Remove the model's confidence score from a usage point before it is returned
+ */
+function withoutConfidence(point: ExtractedUsagePoint): UsageDataPoint {
+  const usagePoint = { ...point };
+  delete usagePoint.confidence;
+  return usagePoint;
+}
+
+// Confidence of a utility name guessed from the customer's city
+const INFERRED_UTILITY_CONFIDENCE = 0.3;
+
+const CURRENT_PLAN_INSTRUCTIONS = `**CURRENT PLAN:**
+Read the customer's plan terms into billingInfo.currentPlan when the statement shows them (often in a plan summary, contract or Electricity Facts section):
+- planName, the energy rate (ratePerKwh), contract end or expiration date, early termination or cancellation fee, and renewable content percentage
+- charges.baseChargeMonthly: the retail provider's fixed monthly base or customer charge
+- charges.deliveryChargePerKwh and charges.deliveryChargeMonthly: the TDU / utility delivery charges, per kWh and per month
+Give prices in dollars (12.9¢/kWh is 0.129) and omit any term the statement doesn't show.`;
+
+const CONFIDENCE_INSTRUCTIONS = `**CONFIDENCE:**
+Also report how sure you are of each value, from 0 (a guess) to 1 (clearly printed on the statement):
+- add "confidence": number to every usage data point, covering its kWh and cost
+- add a top-level "fieldConfidence" object: { "accountNumber": number, "customerName": number, "address": number, "utilityName": number, "billingPeriod": number, "currentPlan": number, "aggregatedStats": number }
+Give low scores to values you inferred, calculated or could not read clearly.`;
+
+/**
+ * Confidence of the model-read fields a statement has, from the model's fieldConfidence scores
+ */
+function extractedFieldConfidence(
+  statement: Parameters<typeof getPresentFields>[0],
+  reported: unknown
+): StatementConfidence['fields'] {
+  const scores = (reported && typeof reported === 'object' ? reported : {}) as Record<string, unknown>;
+  const fields: StatementConfidence['fields'] = {};
+  getPresentFields(statement).forEach((field) => {
+    // The model reports by the field's last name, e.g. accountNumber for customerInfo.accountNumber
+    fields[field] = extractedConfidence(scores[field.split('.').pop()!]);
+  });
+  return fields;
+}
+
+// Pages sent to the model at once
+const PDF_PAGE_CONCURRENCY = 3;
+
+const PDF_PAGE_SYSTEM_PROMPT =
+  'You are an expert at extracting structured data from energy bill statements. You read one page of a statement at a time and extract only what is on that page. Always return valid JSON only, no markdown, no code blocks, no explanations.';
+
+/**
+ * Prompt for one page of a PDF statement
+ */
+function buildPdfPagePrompt(page: PdfPage): string {
+  return `This is page ${page.pageNumber} of ${page.pageCount} of an energy bill statement or annual usage summary. Extract the information shown on THIS page only; other pages are read separately and merged.
+
+**USAGE DATA RULES:**
+- Usage history tables and annual summaries list one row per month: return ONE usage data point per month row, with that month's kWh and cost. An annual summary with 12 months of history gives 12 points.
+- Do NOT aggregate rows into a single total and do NOT include "Total" or "Average" rows.
+- If the page shows only this bill's usage, return one point for the billing period with periodStart and periodEnd.
+- Daily or interval readings are returned as they are, one point per reading.
+- Monthly points use the first day of the month at 00:00:00.
+- If the page has no usage data, return an empty usageDataPoints array.
+
+Leave out any field that is not on this page. Convert all dates to ISO 8601 (YYYY-MM-DDTHH:mm:ss.sssZ) and return numbers as numbers.
+
+Return ONLY valid JSON matching this schema:
+{
+  "customerInfo": {
+    "customerId": "string (optional)",
+    "accountNumber": "string (optional)",
+    "customerName": "string (optional)",
+    "address": {
+      "street": "string (optional)",
+      "city": "string (optional)",
+      "state": "string (optional)",
+      "zipCode": "string (optional)"
+    }
+  },
+  "utilityInfo": {
+    "utilityName": "string (optional)",
+    "utilityId": "string (optional)"
+  },
+  "billingPeriod": {
+    "start": "ISO 8601 datetime",
+    "end": "ISO 8601 datetime"
+  },
+  "usageDataPoints": [
+    {
+      "timestamp": "ISO 8601 datetime (required)",
+      "kwh": "number (required)",
+      "cost": "number (optional)",
+      "periodStart": "ISO 8601 datetime (optional)",
+      "periodEnd": "ISO 8601 datetime (optional)"
+    }
+  ],
+  "billingInfo": {
+    "currentPlan": {
+      "supplierName": "string (required)",
+      "planName": "string (optional)",
+      "ratePerKwh": "number in $/kWh (required)",
+      "contractEndDate": "ISO 8601 datetime (optional)",
+      "earlyTerminationFee": "number in $ (optional)",
+      "renewablePercentage": "number 0-100 (optional)",
+      "charges": {
+        "baseChargeMonthly": "number in $/month (optional)",
+        "deliveryChargePerKwh": "number in $/kWh, TDU delivery charge (optional)",
+        "deliveryChargeMonthly": "number in $/month, TDU fixed charge (optional)"
+      }
+    }
   }
 }
 
+${CURRENT_PLAN_INSTRUCTIONS}
+
+${CONFIDENCE_INSTRUCTIONS}`;
+}
+
+/**
+ * Read one PDF page: by its text layer when it has one, otherwise by vision
+ * A usage history table found in the text layer is parsed directly and
+ * replaces the model's usage points for the page.
+ */
+async function readPdfPage(page: PdfPage): Promise<{ statement: ParsedStatement; confidence: StatementConfidence }> {
+  const prompt = buildPdfPagePrompt(page);
+  const messages: LlmMessage[] = [
+    { role: 'system', content: PDF_PAGE_SYSTEM_PROMPT },
+    page.hasTextLayer
+      ? { role: 'user', content: `${prompt}\n\nPage text:\n${page.text}` }
+      : {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:application/pdf;base64,${page.pdfBase64}` } },
+          ],
+        },
+  ];
+
+  const extracted = await requestJsonCompletion(
+    page.hasTextLayer ? 'read-statement-text' : 'read-statement-vision',
+    messages,
+    { temperature: 0.1, maxTokens: 4000 }
+  );
+
+  const historyPoints = page.hasTextLayer ? parseUsageHistoryText(page.text) : [];
+  const extractedPoints = historyPoints.length > 0 ? [] : sanitizeUsagePoints(extracted.usageDataPoints);
+  const usageDataPoints = historyPoints.length > 0 ? historyPoints : extractedPoints.map(withoutConfidence);
+  const currentPlan = normalizeCurrentPlan(extracted.billingInfo?.currentPlan);
+
+  const statement: ParsedStatement = {
+    customerInfo: {
+      customerId: extracted.customerInfo?.customerId || undefined,
+      accountNumber: extracted.customerInfo?.accountNumber || undefined,
+      customerName: extracted.customerInfo?.customerName || undefined,
+      address: extracted.customerInfo?.address || {},
+    },
+    utilityInfo: {
+      utilityName: extracted.utilityInfo?.utilityName || 'Unknown Utility',
+      utilityId: extracted.utilityInfo?.utilityId || undefined,
+    },
+    billingPeriod: extracted.billingPeriod?.start && extracted.billingPeriod?.end ? extracted.billingPeriod : undefined,
+    usageDataPoints,
+    aggregatedStats: calculateAggregatedStats(usageDataPoints),
+    billingInfo: currentPlan ? { currentPlan } : undefined,
+  };
+
+  const confidence: StatementConfidence = {
+    fields: { ...extractedFieldConfidence(statement, extracted.fieldConfidence), aggregatedStats: COMPUTED },
+    usagePoints: {},
+  };
+  historyPoints.forEach((point) => {
+    confidence.usagePoints[point.timestamp] = PARSED;
+  });
+  extractedPoints.forEach((point) => {
+    confidence.usagePoints[point.timestamp] = extractedConfidence(point.confidence);
+  });
+  return { statement, confidence };
+}
+
+/**
+ * Read a PDF page by page and merge the pages into one statement
+ * Returns null when the PDF can't be split, so the caller can fall back to
+ * sending the whole document
+ */
+async function readPdfStatement(
+  content: string
+): Promise<{ statement: ParsedStatement; confidence: StatementConfidence; pageCount: number } | null> {
+  let pages: PdfPage[];
+  try {
+    pages = await splitPdfPages(content);
+  } catch (error) {
+    console.error('[read-statement] Error splitting PDF into pages:', error);
+    return null;
+  }
+  if (pages.length === 0) {
+    return null;
+  }
+
+  const pageResults: Array<{ statement: ParsedStatement; confidence: StatementConfidence }> = [];
+  let lastError: unknown;
+  for (let i = 0; i < pages.length; i += PDF_PAGE_CONCURRENCY) {
+    const results = await Promise.allSettled(pages.slice(i, i + PDF_PAGE_CONCURRENCY).map(readPdfPage));
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        pageResults.push(result.value);
+      } else {
+        // A page that can't be read is skipped; the rest of the statement is still useful
+        lastError = result.reason;
+        console.error(`[read-statement] Error reading PDF page ${i + index + 1}:`, result.reason);
+      }
+    });
+  }
+
+  const statement = mergeParsedStatements(pageResults.map((result) => result.statement));
+  if (!statement) {
+    throw lastError || new Error('No pages could be read from the PDF');
+  }
+  const confidence = mergeStatementConfidence(
+    pageResults.map((result) => ({ usageDataPoints: result.statement.usageDataPoints, confidence: result.confidence })),
+    statement.usageDataPoints
+  );
+  return { statement, confidence, pageCount: pages.length };
+}
+
 export const handler: Handler<HandlerEvent, unknown> = async (event) => {
+  // New StatementFormatCorrection rows, from the table's stream
+  if ('Records' in event) {
+    await handleCorrectionStream(event);
+    return;
+  }
+
   // Check if this is an HTTP request (Function URL) vs direct invocation
   const httpEvent = event as HttpEvent;
   const isHttpRequest = !!(httpEvent.routeKey || httpEvent.requestContext || httpEvent.rawPath);
@@ -322,25 +817,100 @@ export const handler: Handler<HandlerEvent, unknown> = async (event) => {
       throw new Error('statementData.mimeType is required');
     }
 
-    if (!process.env.OPENROUTER_API_KEY) {
+    // Known CSV layouts are parsed locally - no AI call, no cost, same result every time
+    if (fileType === 'csv' || mimeType === 'text/csv') {
+      const fileContent = Buffer.from(content, 'base64').toString('utf-8');
+      const fingerprint = fingerprintCsvStatement(fileContent);
+      const layouts = await getCsvLayouts(fingerprint);
+      const parsed = parseCsvStatement(fileContent, [
+        ...layouts.map((layout) => layout.columnMappings),
+        DEFAULT_CSV_COLUMN_MAPPINGS,
+      ]);
+
+      if (parsed) {
+        const { columnMappings, ...statement } = parsed;
+        const extractedData = {
+          ...statement,
+          customerInfo: {
+            ...statement.customerInfo,
+            customerId: statement.customerInfo.customerId || userId,
+          },
+          billingPeriod: statement.billingPeriod || {
+            start: new Date().toISOString(),
+            end: new Date().toISOString(),
+          },
+        };
+
+        const statementFormat = extractedData.utilityInfo.utilityName !== 'Unknown Utility'
+          ? await storeFormatPattern(
+            extractedData.utilityInfo.utilityName,
+            'csv',
+            fingerprint,
+            describeCsvFormat(fileContent),
+            extractedData,
+            columnMappings
+          )
+          : undefined;
+
+        const parsedResponse: ReadStatementResponse = {
+          success: true,
+          extractedData,
+          extractionMethod: 'csv_parser',
+          fieldConfidence: parsedStatementConfidence(statement),
+          statementFormat,
+        };
+        if (isHttpRequest) {
+          return createResponse(200, parsedResponse) as { statusCode: number; headers: Record<string, string>; body: string };
+        }
+        return parsedResponse;
+      }
+    }
+
+    if (!llm.configured) {
       console.error('[read-statement] OPENROUTER_API_KEY is not set');
       throw new Error('OPENROUTER_API_KEY not configured');
     }
 
+    // PDFs are read page by page so long statements and annual summaries fit the model's limits
+    if (fileType === 'pdf') {
+      const pdf = await readPdfStatement(content);
+      if (pdf) {
+        const { statement, confidence, pageCount } = pdf;
+        const timestamps = statement.usageDataPoints.map((point) => point.timestamp).sort();
+        const billingPeriod = statement.billingPeriod ||
+          statement.billingInfo?.billingPeriod ||
+          (timestamps.length > 0
+            ? { start: timestamps[0], end: timestamps[timestamps.length - 1] }
+            : { start: new Date().toISOString(), end: new Date().toISOString() });
+
+        const pdfResponse: ReadStatementResponse = {
+          success: true,
+          extractedData: {
+            ...statement,
+            customerInfo: {
+              ...statement.customerInfo,
+              customerId: statement.customerInfo.customerId || userId,
+            },
+            billingPeriod,
+            billingInfo: statement.billingInfo && {
+              ...statement.billingInfo,
+              billingPeriod: statement.billingInfo.billingPeriod || billingPeriod,
+            },
+          },
+          extractionMethod: 'ai',
+          pageCount,
+          fieldConfidence: confidence,
+        };
+        if (isHttpRequest) {
+          return createResponse(200, pdfResponse) as { statusCode: number; headers: Record<string, string>; body: string };
+        }
+        return pdfResponse;
+      }
+    }
+
     // Prepare prompt based on file type
     let prompt: string;
-    let messages: Array<
-      | { role: 'system'; content: string }
-      | {
-          role: 'user';
-          content:
-            | string
-            | Array<
-                | { type: 'text'; text: string }
-                | { type: 'image_url'; image_url: { url: string } }
-              >;
-        }
-    >;
+    let messages: LlmMessage[];
 
     if (fileType === 'image' || fileType === 'pdf') {
       // Use GPT-4 Vision for image/PDF processing
@@ -455,7 +1025,16 @@ Return ONLY valid JSON matching this exact schema:
   "billingInfo": {
     "currentPlan": {
       "supplierName": "string (required)",
-      "ratePerKwh": "number (required)"
+      "planName": "string (optional)",
+      "ratePerKwh": "number in $/kWh (required)",
+      "contractEndDate": "ISO 8601 datetime (optional)",
+      "earlyTerminationFee": "number in $ (optional)",
+      "renewablePercentage": "number 0-100 (optional)",
+      "charges": {
+        "baseChargeMonthly": "number in $/month (optional)",
+        "deliveryChargePerKwh": "number in $/kWh, TDU delivery charge (optional)",
+        "deliveryChargeMonthly": "number in $/month, TDU fixed charge (optional)"
+      }
     },
     "billingPeriod": {
       "start": "ISO 8601 datetime (required)",
@@ -485,7 +1064,7 @@ Return ONLY valid JSON matching this exact schema:
           content: [
             {
               type: 'text' as const,
-              text: prompt,
+              text: `${prompt}\n\n${CURRENT_PLAN_INSTRUCTIONS}\n\n${CONFIDENCE_INSTRUCTIONS}`,
             },
             {
               type: 'image_url' as const,
@@ -510,7 +1089,7 @@ Return ONLY valid JSON matching this exact schema:
           detectedUtility = utilityMatch[1].trim();
         }
         
-        const similarFormats = await getSimilarFormats(detectedUtility, 'csv');
+        const similarFormats = await getSimilarFormats(fingerprintCsvStatement(fileContent), detectedUtility, 'csv');
         let examplesSection = '';
         
         if (similarFormats.length > 0) {
@@ -646,7 +1225,16 @@ Return ONLY valid JSON matching this exact schema:
   "billingInfo": {
     "currentPlan": {
       "supplierName": "string (required)",
-      "ratePerKwh": "number (required)"
+      "planName": "string (optional)",
+      "ratePerKwh": "number in $/kWh (required)",
+      "contractEndDate": "ISO 8601 datetime (optional)",
+      "earlyTerminationFee": "number in $ (optional)",
+      "renewablePercentage": "number 0-100 (optional)",
+      "charges": {
+        "baseChargeMonthly": "number in $/month (optional)",
+        "deliveryChargePerKwh": "number in $/kWh, TDU delivery charge (optional)",
+        "deliveryChargeMonthly": "number in $/month, TDU fixed charge (optional)"
+      }
     },
     "billingPeriod": {
       "start": "ISO 8601 datetime (required)",
@@ -716,7 +1304,16 @@ Return ONLY valid JSON matching this exact schema:
   "billingInfo": {
     "currentPlan": {
       "supplierName": "string (required)",
-      "ratePerKwh": "number (required)"
+      "planName": "string (optional)",
+      "ratePerKwh": "number in $/kWh (required)",
+      "contractEndDate": "ISO 8601 datetime (optional)",
+      "earlyTerminationFee": "number in $ (optional)",
+      "renewablePercentage": "number 0-100 (optional)",
+      "charges": {
+        "baseChargeMonthly": "number in $/month (optional)",
+        "deliveryChargePerKwh": "number in $/kWh, TDU delivery charge (optional)",
+        "deliveryChargeMonthly": "number in $/month, TDU fixed charge (optional)"
+      }
     },
     "billingPeriod": {
       "start": "ISO 8601 datetime (required)",
@@ -741,73 +1338,22 @@ Important:
         },
         {
           role: 'user',
-          content: prompt,
+          content: `${prompt}\n\n${CURRENT_PLAN_INSTRUCTIONS}\n\n${CONFIDENCE_INSTRUCTIONS}`,
         },
       ];
     }
 
-    // Call OpenRouter API with improved settings
-    // Use best available models for each file type
-    const model =
-      fileType === 'image' || fileType === 'pdf'
-        ? 'openai/gpt-4o' // GPT-4o has best vision capabilities for images/PDFs
-        : 'openai/gpt-4-turbo'; // GPT-4 Turbo for text/CSV
-
-        // Retry logic for better reliability
-        let aiResponse;
-        let lastError;
-        const maxRetries = 2;
-        
-        for (let attempt = 0; attempt <= maxRetries; attempt++) {
-          try {
-            aiResponse = await openrouter.chat.completions.create({
-              model,
-              messages,
-              response_format: { type: 'json_object' },
-              temperature: fileType === 'csv' ? 0.2 : (fileType === 'pdf' ? 0.15 : 0.1), // Slightly higher for PDFs to handle variations
-              max_tokens: fileType === 'image' || fileType === 'pdf' ? 8000 : 4000, // More tokens for complex PDFs/images
-            });
-            
-            break;
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            const errorDetails = error instanceof Error ? {
-              name: error.name,
-              message: error.message,
-              stack: error.stack,
-            } : { error: String(error) };
-            
-            console.error(`[read-statement] OpenRouter API call failed (attempt ${attempt + 1}/${maxRetries + 1}):`, errorDetails);
-            
-            lastError = error;
-            if (attempt < maxRetries) {
-              const delay = 1000 * (attempt + 1);
-              await new Promise(resolve => setTimeout(resolve, delay));
-            } else {
-              // Wrap the error with more context
-              throw new Error(`OpenRouter API error: ${errorMessage}`);
-            }
-          }
-        }
-        
-        if (!aiResponse) {
-          throw lastError || new Error('Failed to get AI response after retries');
-        }
+    // Use the vision model for images/PDFs and the text model for text/CSV
+    const task: LlmTask =
+      fileType === 'image' || fileType === 'pdf' ? 'read-statement-vision' : 'read-statement-text';
 
-    // Parse extracted data with better error handling
-    let extractedData;
-    try {
-      const content = aiResponse.choices[0].message.content || '{}';
-      // Remove markdown code blocks if present
-      const cleanedContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      extractedData = JSON.parse(cleanedContent);
-    } catch (parseError) {
-      console.error('[read-statement] Failed to parse AI response:', parseError);
-      console.error('[read-statement] Raw response:', aiResponse.choices[0].message.content);
-      throw new Error(`Failed to parse AI response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-    }
+    const extractedData = await requestJsonCompletion(task, messages, {
+      temperature: fileType === 'csv' ? 0.2 : (fileType === 'pdf' ? 0.15 : 0.1), // Slightly higher for PDFs to handle variations
+      maxTokens: fileType === 'image' || fileType === 'pdf' ? 8000 : 4000, // More tokens for complex PDFs/images
+    });
 
     // Enhanced validation and normalization
+    const utilityNameInferred = !extractedData.utilityInfo?.utilityName;
     if (!extractedData.utilityInfo?.utilityName) {
       // Try to infer from customer info or use default
       extractedData.utilityInfo = extractedData.utilityInfo || {};
@@ -817,39 +1363,12 @@ Important:
           'Unknown Utility';
     }
 
-    // Validate usage data points
-    if (!extractedData.usageDataPoints || !Array.isArray(extractedData.usageDataPoints)) {
-      extractedData.usageDataPoints = [];
-    } else {
-      // Validate and clean usage data points
-      extractedData.usageDataPoints = extractedData.usageDataPoints
-        .filter((point: { timestamp?: string; kwh?: number }) => {
-          // Remove invalid points
-          if (!point.timestamp || !point.kwh || point.kwh <= 0) {
-            return false;
-          }
-          // Validate timestamp
-          try {
-            new Date(point.timestamp);
-            return true;
-          } catch {
-            return false;
-          }
-        })
-        .map((point: { timestamp: string; kwh: number; cost?: number }) => {
-          // Ensure cost is a number if provided
-          if (point.cost !== undefined && point.cost !== null) {
-            point.cost = typeof point.cost === 'string' ? parseFloat(point.cost) : point.cost;
-          }
-          // Ensure kwh is a number
-          point.kwh = typeof point.kwh === 'string' ? parseFloat(point.kwh) : point.kwh;
-          return point;
-        });
-      
-    }
+    // Validate and clean usage data points
+    extractedData.usageDataPoints = sanitizeUsagePoints(extractedData.usageDataPoints);
 
     // Validate and calculate aggregated stats if missing or incorrect
-    if (!extractedData.aggregatedStats || !extractedData.aggregatedStats.totalKwh) {
+    const aggregatedStatsComputed = !extractedData.aggregatedStats || !extractedData.aggregatedStats.totalKwh;
+    if (aggregatedStatsComputed) {
       // Calculate from usage data points
       const totalKwh = extractedData.usageDataPoints.reduce((sum: number, point: { kwh?: number }) => sum + (point.kwh || 0), 0);
       const totalCost = extractedData.usageDataPoints.reduce((sum: number, point: { cost?: number }) => sum + (point.cost || 0), 0);
@@ -1040,7 +1559,8 @@ Important:
     
     // If we corrected the billing period, also correct usage data point timestamps
     // Extract month/year directly from the billing period start date (no timezone conversions)
-    let correctedUsagePoints = extractedData.usageDataPoints || [];
+    let correctedUsagePoints: ExtractedUsagePoint[] = extractedData.usageDataPoints || [];
+    let usagePointsComputed = false;
     if (shouldCorrectTimestamps && correctedBillingPeriod) {
       // Parse the ISO string directly to get month/year/day
       // Format: YYYY-MM-DDTHH:mm:ss.sssZ
@@ -1080,6 +1600,7 @@ Important:
             kwh: extractedData.aggregatedStats.totalKwh,
             cost: extractedData.aggregatedStats.totalCost || undefined,
           }];
+          usagePointsComputed = true;
           
         }
       }
@@ -1100,7 +1621,7 @@ Important:
         start: new Date().toISOString(),
         end: new Date().toISOString(),
       },
-      usageDataPoints: correctedUsagePoints,
+      usageDataPoints: correctedUsagePoints.map(withoutConfidence),
       aggregatedStats: extractedData.aggregatedStats || {
         totalKwh: 0,
         totalCost: 0,
@@ -1111,6 +1632,7 @@ Important:
       },
       billingInfo: extractedData.billingInfo ? {
         ...extractedData.billingInfo,
+        currentPlan: normalizeCurrentPlan(extractedData.billingInfo.currentPlan),
         billingPeriod: correctedBillingPeriod || extractedData.billingInfo.billingPeriod,
       } : (correctedBillingPeriod ? {
         currentPlan: extractedData.billingInfo?.currentPlan,
@@ -1118,13 +1640,22 @@ Important:
       } : extractedData.billingInfo),
     };
 
-    // Store successful extraction pattern for future learning (async, don't wait)
+    // Store successful extraction pattern for future learning
+    let statementFormat: ReadStatementResponse['statementFormat'];
     if (normalizedData.utilityInfo.utilityName && normalizedData.utilityInfo.utilityName !== 'Unknown Utility') {
       // Extract format pattern from CSV if applicable
       if (fileType === 'csv') {
         const fileContent = Buffer.from(content, 'base64').toString('utf-8');
-        const lines = fileContent.split('\n').slice(0, 5); // First 5 lines for pattern
-        const headers = lines[0]?.split(',').map(h => h.trim()) || [];
+
+        // Learn the layout so the next file like this is parsed locally, but only
+        // when the inferred column mappings reproduce the AI's totals
+        const inferredMappings = inferCsvColumnMappings(fileContent);
+        const localParse = inferredMappings ? parseCsvStatement(fileContent, [inferredMappings]) : null;
+        const aiTotalKwh = normalizedData.aggregatedStats.totalKwh;
+        const columnMappings =
+          localParse && aiTotalKwh > 0 && Math.abs(localParse.aggregatedStats.totalKwh - aiTotalKwh) <= aiTotalKwh * 0.01
+            ? inferredMappings
+            : undefined;
         
         // Extract date formats from usage data points
         const dateFormats: string[] = [];
@@ -1144,30 +1675,47 @@ Important:
           }
         });
         
-        storeFormatPattern(
+        statementFormat = await storeFormatPattern(
           normalizedData.utilityInfo.utilityName,
           fileType,
-          {
-            headers,
-            sampleRows: lines.slice(1, 3),
-            hasHeaderRow: true,
-          },
+          fingerprintCsvStatement(fileContent),
+          describeCsvFormat(fileContent),
           normalizedData,
-          {
-            dateColumn: headers.findIndex(h => /date/i.test(h)),
-            kwhColumn: headers.findIndex(h => /kwh|usage|consumption/i.test(h)),
-            costColumn: headers.findIndex(h => /cost|amount|charge/i.test(h)),
-          },
+          columnMappings,
           dateFormats.length > 0 ? [...new Set(dateFormats)] : undefined
-        ).catch(err => {
-          console.error('[read-statement] Error storing format pattern:', err);
-        });
+        );
       }
     }
 
+    // Where each value came from and how sure the model was of it
+    const fieldConfidence: StatementConfidence = {
+      fields: extractedFieldConfidence(
+        { ...normalizedData, billingPeriod: correctedBillingPeriod },
+        extractedData.fieldConfidence
+      ),
+      usagePoints: {},
+    };
+    if (shouldCorrectTimestamps) {
+      fieldConfidence.fields.billingPeriod = PARSED; // read from the CSV's billing period columns
+    }
+    if (utilityNameInferred && fieldConfidence.fields['utilityInfo.utilityName']) {
+      fieldConfidence.fields['utilityInfo.utilityName'] = { source: 'computed', confidence: INFERRED_UTILITY_CONFIDENCE };
+    }
+    fieldConfidence.fields.aggregatedStats = aggregatedStatsComputed
+      ? COMPUTED
+      : extractedConfidence((extractedData.fieldConfidence as Record<string, unknown> | undefined)?.aggregatedStats);
+    correctedUsagePoints.forEach((point) => {
+      fieldConfidence.usagePoints[point.timestamp] = usagePointsComputed
+        ? { source: 'computed', confidence: fieldConfidence.fields.aggregatedStats!.confidence }
+        : extractedConfidence(point.confidence);
+    });
+
     const readStatementResponse: ReadStatementResponse = {
       success: true,
       extractedData: normalizedData,
+      extractionMethod: 'ai',
+      fieldConfidence,
+      statementFormat,
     };
 
     // Return HTTP response if called via Function URL
@@ -0,0 +1,56 @@
+import { PDFDocument } from 'pdf-lib';
+import { extractText, getDocumentProxy } from 'unpdf';
+
+/**
+ * PDF page splitting
+ *
+ * Splits a statement PDF into pages so each page can be read on its own:
+ * digital pages by their text layer, scanned pages by vision one page at a time.
+ */
+
+// Pages with less text than this are treated as scanned images
+export const MIN_TEXT_LAYER_CHARS = 80;
+
+// Longer documents are truncated; statements and annual summaries are a few pages
+export const MAX_PDF_PAGES = 20;
+
+export interface PdfPage {
+  pageNumber: number; // 1-based
+  pageCount: number;
+  text: string; // text layer, empty for scanned pages
+  hasTextLayer: boolean;
+  pdfBase64?: string; // single-page PDF, only for pages without a text layer
+}
+
+/**
+ * Split a base64 PDF into pages with their text layer
+ */
+export async function splitPdfPages(base64: string): Promise<PdfPage[]> {
+  const bytes = new Uint8Array(Buffer.from(base64, 'base64'));
+
+  // pdf.js detaches the buffer it is given, so hand it a copy
+  const document = await getDocumentProxy(bytes.slice());
+  const { totalPages, text } = await extractText(document, { mergePages: false });
+  const pageCount = Math.min(totalPages, MAX_PDF_PAGES);
+  if (totalPages > MAX_PDF_PAGES) {
+    console.warn(`[read-statement] PDF has ${totalPages} pages, reading the first ${MAX_PDF_PAGES}`);
+  }
+
+  let source: PDFDocument | undefined;
+  const pages: PdfPage[] = [];
+  for (let index = 0; index < pageCount; index++) {
+    const pageText = (text[index] || '').trim();
+    const hasTextLayer = pageText.replace(/\s+/g, '').length >= MIN_TEXT_LAYER_CHARS;
+    const page: PdfPage = { pageNumber: index + 1, pageCount, text: pageText, hasTextLayer };
+
+    if (!hasTextLayer) {
+      source = source || (await PDFDocument.load(bytes, { ignoreEncryption: true }));
+      const single = await PDFDocument.create();
+      const [copied] = await single.copyPages(source, [index]);
+      single.addPage(copied);
+      page.pdfBase64 = await single.saveAsBase64();
+    }
+    pages.push(page);
+  }
+  return pages;
+}
@@ -1,6 +1,7 @@
 import type { Handler } from 'aws-lambda';
 import { generateClient } from 'aws-amplify/data';
 import type { Schema } from '../../data/resource';
+import type { PlanCharges } from '../../../shared/types';
 
 /**
  * Save Current Plan Lambda Function
@@ -17,10 +18,13 @@ interface SaveCurrentPlanEvent {
   currentPlan: {
     supplierName: string;
     planName?: string;
+    ratePerKwh?: number;
     contractStartDate?: string;
     contractEndDate?: string;
     earlyTerminationFee?: number;
     contractType?: string;
+    renewablePercentage?: number;
+    charges?: PlanCharges;
   };
 }
 
@@ -62,10 +66,13 @@ export const handler: Handler<SaveCurrentPlanEvent, SaveCurrentPlanResponse> = a
         id: existingPlan.id,
         supplierName: currentPlan.supplierName,
         planName: currentPlan.planName || null,
+        ratePerKwh: currentPlan.ratePerKwh || null,
         contractStartDate: currentPlan.contractStartDate || null,
         contractEndDate: currentPlan.contractEndDate || null,
         earlyTerminationFee: currentPlan.earlyTerminationFee || null,
         contractType: currentPlan.contractType || null,
+        renewablePercentage: currentPlan.renewablePercentage ?? null,
+        charges: currentPlan.charges ? JSON.stringify(currentPlan.charges) : null, // AWSJSON expects a JSON string
         updatedAt: now,
       });
     } else {
@@ -74,10 +81,13 @@ export const handler: Handler<SaveCurrentPlanEvent, SaveCurrentPlanResponse> = a
         userId,
         supplierName: currentPlan.supplierName,
         planName: currentPlan.planName || null,
+        ratePerKwh: currentPlan.ratePerKwh || null,
         contractStartDate: currentPlan.contractStartDate || null,
         contractEndDate: currentPlan.contractEndDate || null,
         earlyTerminationFee: currentPlan.earlyTerminationFee || null,
         contractType: currentPlan.contractType || null,
+        renewablePercentage: currentPlan.renewablePercentage ?? null,
+        charges: currentPlan.charges ? JSON.stringify(currentPlan.charges) : null,
         createdAt: now,
         updatedAt: now,
       });
@@ -2,6 +2,8 @@
 import type { Handler } from 'aws-lambda';
 import { generateClient } from 'aws-amplify/data';
 import type { Schema } from '../../data/resource';
+import { planUsageSave, getReplacedIntervalMonths, type UsageSavePlan } from '../../../shared/usage';
+import type { IntervalBlockChange, IntervalUsageBlock } from '../../../shared/types';
 
 /**
  * Save Usage Data Lambda Function
@@ -17,6 +19,9 @@ interface UsageDataPoint {
   timestamp: string;
   kwh: number;
   cost?: number;
+  periodStart?: string; // set for bill-length readings
+  periodEnd?: string;
+  estimated?: boolean; // averaged or typed in rather than billed
 }
 
 interface SaveUsageDataEvent {
@@ -74,6 +79,90 @@ const corsHeaders = {
   'Content-Type': 'application/json',
 };
 
+// AWSJSON fields come back as JSON strings, but may already be parsed
+const parseJsonArray = <T>(value: unknown): T[] => {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as T[];
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? (value as T[]) : [];
+};
+
+type StoredIntervalBlock = Schema['UsageIntervalBlock']['type'];
+
+/**
+ * A user's stored interval blocks for some months, reading every page
+ */
+async function listIntervalBlocks(userId: string, months: string[]): Promise<StoredIntervalBlock[]> {
+  const blocks: StoredIntervalBlock[] = [];
+  if (months.length === 0) {
+    return blocks;
+  }
+  let nextToken: string | null | undefined;
+  do {
+    const page = await client.models.UsageIntervalBlock.list({
+      filter: {
+        userId: { eq: userId },
+        or: months.map((month) => ({ month: { eq: month } })),
+      },
+      nextToken,
+    });
+    blocks.push(...(page.data || []));
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return blocks;
+}
+
+const toIntervalUsageBlock = (block: StoredIntervalBlock): IntervalUsageBlock => ({
+  month: block.month,
+  start: block.start,
+  intervalMinutes: block.intervalMinutes,
+  kwh: parseJsonArray<number | null>(block.kwh),
+  cost: block.cost ? parseJsonArray<number | null>(block.cost) : undefined,
+  offsets: block.offsets ? parseJsonArray<IntervalBlockChange<string>>(block.offsets) : undefined,
+  estimated: block.estimated ? parseJsonArray<number>(block.estimated) : undefined,
+  formats: block.formats
+    ? parseJsonArray<NonNullable<IntervalUsageBlock['formats']>[number]>(block.formats)
+    : undefined,
+});
+
+/**
+ * Replace the stored interval blocks for the months a save rebuilds
+ * storedBlocks are the blocks loaded for those months before the save
+ */
+async function saveIntervalBlocks(
+  userId: string,
+  storedBlocks: StoredIntervalBlock[],
+  savePlan: UsageSavePlan,
+  now: string
+): Promise<void> {
+  await Promise.all(
+    storedBlocks
+      .filter((block) => savePlan.replacedMonths.includes(block.month))
+      .map((block) => client.models.UsageIntervalBlock.delete({ id: block.id }))
+  );
+  await Promise.all(
+    savePlan.intervalBlocks.map((block) =>
+      client.models.UsageIntervalBlock.create({
+        userId,
+        month: block.month,
+        start: block.start,
+        intervalMinutes: block.intervalMinutes,
+        kwh: block.kwh as any,
+        cost: (block.cost as any) || null,
+        offsets: (block.offsets as any) || null,
+        estimated: (block.estimated as any) || null,
+        formats: (block.formats as any) || null,
+        createdAt: now,
+        updatedAt: now,
+      })
+    )
+  );
+}
+
 // Helper to create HTTP response
 function createResponse(
   statusCode: number,
@@ -161,53 +250,32 @@ export const handler: Handler<HandlerEvent, unknown> = async (event) => {
       filter: { userId: { eq: userId } },
     });
 
-    if (existingData.data && existingData.data.length > 0) {
-      // Get the most recent record
-      const sorted = existingData.data.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-      const latest = sorted[0];
-
-      // Merge usage points: combine existing and new, removing duplicates by timestamp
-      const existingPoints = (latest.usagePoints as any) || [];
-      const newPoints = usageData.usagePoints;
-      
-      // Create a map of existing points by timestamp (month/year)
-      // Extract month/year directly from ISO string to avoid timezone issues
-      const getMonthYearKey = (timestamp: string): string => {
-        // Parse ISO string directly: YYYY-MM-DDTHH:mm:ss.sssZ
-        const match = timestamp.match(/^(\d{4})-(\d{2})-/);
-        if (match) {
-          const year = match[1];
-          const month = parseInt(match[2], 10) - 1; // Convert to 0-indexed
-          return `${year}-${month}`;
-        }
-        // Fallback to Date parsing if format is different
-        const date = new Date(timestamp);
-        return `${date.getFullYear()}-${date.getMonth()}`;
-      };
-      
-      const pointsMap = new Map<string, UsageDataPoint>();
-      existingPoints.forEach((point: UsageDataPoint) => {
-        const key = getMonthYearKey(point.timestamp);
-        pointsMap.set(key, point);
-      });
-
-      // Overwrite with new points (they take precedence)
-      newPoints.forEach((point: UsageDataPoint) => {
-        const key = getMonthYearKey(point.timestamp);
-        pointsMap.set(key, point);
-      });
+    // Get the most recent record
+    const latest = (existingData.data || []).sort((a, b) => 
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )[0];
 
-      // Convert map back to array and sort by timestamp
-      const mergedPoints = Array.from(pointsMap.values()).sort(
-        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-      );
+    // Merge usage points: a bill replaces the monthly point for its month, so
+    // interval readings and monthly bills never double count. Interval readings
+    // are merged with the stored readings for the months they touch, rolled up
+    // into monthly and daily totals and kept raw in per-month blocks.
+    const storedBlocks = await listIntervalBlocks(userId, getReplacedIntervalMonths(usageData.usagePoints));
+    const savePlan = planUsageSave(
+      {
+        usagePoints: parseJsonArray<UsageDataPoint>(latest?.usagePoints),
+        dailyUsage: parseJsonArray<UsageDataPoint>(latest?.dailyUsage),
+        intervalBlocks: storedBlocks.map(toIntervalUsageBlock),
+      },
+      usageData.usagePoints
+    );
+    await saveIntervalBlocks(userId, storedBlocks, savePlan, now);
 
+    if (latest) {
       // Update the existing record
       await client.models.CustomerUsageData.update({
         id: latest.id,
-        usagePoints: mergedPoints as any,
+        usagePoints: savePlan.usagePoints as any,
+        dailyUsage: savePlan.dailyUsage as any,
         totalAnnualKwh: usageData.totalAnnualKwh || latest.totalAnnualKwh || null,
         averageMonthlyKwh: usageData.averageMonthlyKwh || latest.averageMonthlyKwh || null,
         peakMonthKwh: usageData.peakMonthKwh || latest.peakMonthKwh || null,
@@ -234,7 +302,8 @@ export const handler: Handler<HandlerEvent, unknown> = async (event) => {
       await client.models.CustomerUsageData.create({
         userId,
         usageDataId,
-        usagePoints: usageData.usagePoints as any,
+        usagePoints: savePlan.usagePoints as any,
+        dailyUsage: savePlan.dailyUsage as any,
         totalAnnualKwh: usageData.totalAnnualKwh || null,
         averageMonthlyKwh: usageData.averageMonthlyKwh || null,
         peakMonthKwh: usageData.peakMonthKwh || null,
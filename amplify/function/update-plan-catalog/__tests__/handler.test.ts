@@ -0,0 +1,88 @@
+import type { Context } from 'aws-lambda';
+import { handler } from '../handler';
+
+const mockSend = jest.fn();
+
+jest.mock('@aws-sdk/lib-dynamodb', () => ({
+  ...jest.requireActual('@aws-sdk/lib-dynamodb'),
+  DynamoDBDocumentClient: {
+    from: () => ({ send: (command: unknown) => mockSend(command) }),
+  },
+}));
+
+type Event = Parameters<typeof handler>[0];
+
+const invoke = (event: Event) =>
+  handler(event, {} as Context, () => undefined);
+
+const event: Event = {
+  files: [{ path: 'sample-plans/power-to-choose-export.csv' }],
+};
+
+// The items the run wrote to a table
+const putsTo = (tableName: string) =>
+  mockSend.mock.calls
+    .map(([command]) => command.input)
+    .filter(input => input.TableName === tableName && input.Item)
+    .map(input => input.Item);
+
+describe('update-plan-catalog handler', () => {
+  beforeEach(() => {
+    process.env.ENERGY_PLAN_TABLE_NAME = 'EnergyPlan-test-NONE';
+    process.env.PLAN_CATALOG_RUN_TABLE_NAME = 'PlanCatalogRun-test-NONE';
+    process.env.PLAN_CATALOG_STATE_TABLE_NAME = 'PlanCatalogState-test-NONE';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    mockSend.mockReset();
+    jest.restoreAllMocks();
+    delete process.env.ENERGY_PLAN_TABLE_NAME;
+    delete process.env.PLAN_CATALOG_RUN_TABLE_NAME;
+    delete process.env.PLAN_CATALOG_STATE_TABLE_NAME;
+  });
+
+  it('should fail a run when none of its plans could be stored', async () => {
+    mockSend.mockImplementation(async command =>
+      command.input.TableName === 'EnergyPlan-test-NONE'
+        ? Promise.reject(new Error('ProvisionedThroughputExceededException'))
+        : {}
+    );
+
+    const response = await invoke(event);
+
+    expect(response).toMatchObject({ success: false });
+    const [report] = putsTo('PlanCatalogRun-test-NONE');
+    expect(report.status).toBe('failed');
+    expect(report.sources[0]).toMatchObject({ imported: false, plansAdded: 0 });
+    expect(report.sources[0].plansFailed).toBeGreaterThan(0);
+    expect(putsTo('PlanCatalogState-test-NONE')).toEqual([]);
+  });
+
+  it('should report plans that could not be stored on their source', async () => {
+    let writes = 0;
+    mockSend.mockImplementation(async command => {
+      if (command.input.TableName !== 'EnergyPlan-test-NONE') {
+        return {};
+      }
+      // Every write after the first fails
+      if (command.input.UpdateExpression && writes++ > 0) {
+        throw new Error('ProvisionedThroughputExceededException');
+      }
+      return {};
+    });
+
+    const response = await invoke(event);
+
+    expect(response).toMatchObject({ success: true, plansUpdated: 1 });
+    const [report] = putsTo('PlanCatalogRun-test-NONE');
+    expect(report.status).toBe('partial');
+    expect(report.sources[0]).toMatchObject({ imported: true });
+    expect(report.sources[0].plansFailed).toBe(
+      report.sources[0].plansListed - 1
+    );
+    expect(putsTo('PlanCatalogState-test-NONE')).toHaveLength(1);
+  });
+});
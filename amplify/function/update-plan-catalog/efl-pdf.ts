@@ -0,0 +1,25 @@
+import { getDocumentProxy } from 'unpdf';
+
+/**
+ * EFL PDF text
+ *
+ * Reads the text layer of an Electricity Facts Label PDF so the shared EFL
+ * reader can parse it. Labels are generated documents, so no vision fallback
+ * is needed; a PDF without a text layer is rejected by the reader.
+ */
+
+/**
+ * Extract the text of an EFL PDF, keeping its line breaks (the reader finds
+ * the supplier, plan and service area by line)
+ */
+export async function extractEflText(pdf: Uint8Array): Promise<string> {
+  // pdf.js detaches the buffer it is given, so hand it a copy
+  const document = await getDocumentProxy(pdf.slice());
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+    const page = await document.getPage(pageNumber);
+    const { items } = await page.getTextContent();
+    pages.push(items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join(''));
+  }
+  return pages.join('\n');
+}
@@ -1,15 +1,43 @@
 /* eslint-disable no-console */
 import type { Handler } from 'aws-lambda';
+import { randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  findMissingPlans,
+  importPlanFile,
+  POWER_TO_CHOOSE_EXPORT_URL,
+  recordRateVersion,
+  stateRefreshesFor,
+  summarizeCatalogRun,
+  type PlanCatalogRunReport,
+  type PlanCatalogSourceReport,
+  type PlanCatalogTrigger,
+  type PlanFileFormat,
+  type StoredCatalogPlan,
+} from '../../../shared/catalog';
+import type { EnergyPlan } from '../../../shared/types';
+import { extractEflText } from './efl-pdf';
 
 /**
  * Plan Catalog Update Lambda Function
  *
- * Updates the energy plan catalog from various APIs:
- * - EIA API: Average electricity rates by state
- * - OpenEI API: Utility rate data
- * - Generates realistic plans based on market rates
+ * Imports actual retail plan offers into the energy plan catalog from plan files:
+ * - Power to Choose CSV exports (Texas retail marketplace)
+ * - Electricity Facts Label (EFL) data extracted to JSON
+ * - EFL PDFs, accepted only when their price components reproduce the label's
+ *   published average prices
+ * Files are read from a local path, a URL or content sent with the event.
+ *
+ * Plans are keyed on supplier, product and TDU territory, so each import
+ * updates the same records and keeps a history of their rates. Plans missing
+ * from a complete listing of their state (a Power to Choose export) are
+ * retired.
+ *
+ * Runs daily on a schedule (amplify/backend.ts) and on demand. Every run saves a
+ * PlanCatalogRun report, and each state it refreshed records its last
+ * successful refresh in PlanCatalogState.
  */
 
 // Initialize DynamoDB client
@@ -22,311 +50,116 @@ const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({
   region: awsRegion,
 }));
 
+interface PlanCatalogFile {
+  format?: PlanFileFormat | 'efl_pdf'; // 'power_to_choose' | 'efl' | 'efl_label' | 'efl_pdf'; detected from the content when omitted
+  path?: string; // Local file, e.g. sample-plans/power-to-choose-export.csv
+  url?: string; // File to download
+  content?: string; // File content sent with the event (base64 for efl_pdf)
+  state?: string; // State for plans whose file doesn't name one
+  complete?: boolean; // Lists every plan offered in its states, so stored plans it leaves out are retired; defaults to true for Power to Choose exports
+}
+
 interface UpdatePlanCatalogEvent {
-  sources?: string[]; // ['eia', 'openei']
-  states?: string[]; // State codes to update (e.g., ['CA', 'TX'])
+  files?: PlanCatalogFile[]; // Defaults to the current Power to Choose export
+  states?: string[]; // Only store plans for these states (e.g., ['TX'])
+  trigger?: PlanCatalogTrigger; // 'schedule' from the daily rule in backend.ts; defaults to 'manual'
 }
 
 interface UpdatePlanCatalogResponse {
   success: boolean;
+  runId?: string; // PlanCatalogRun report of this invocation
   plansUpdated?: number;
+  plansAdded?: number; // Plans not stored before
+  ratesChanged?: number; // Stored plans whose pricing changed (see rateHistory)
+  plansRetired?: number; // Stored plans a complete file no longer lists
+  plansSkipped?: number; // Rows or records that could not be mapped to a plan
+  fileErrors?: string[]; // Files that could not be read or imported
   error?: string;
 }
 
-
 /**
- * Fetch average electricity rates from EIA API
- * EIA API provides average retail electricity prices by state
- * Uses EIA API v2 for retail sales data
+ * Read a plan file from wherever the event points to
  */
-async function fetchEIARates(state: string): Promise<number | null> {
-  const apiKey = process.env.EIA_API_KEY;
-  if (!apiKey) {
-    console.warn('EIA_API_KEY not configured, skipping EIA data');
-    return null;
+async function loadPlanFile(file: PlanCatalogFile): Promise<Buffer> {
+  if (file.content !== undefined) {
+    return Buffer.from(file.content, file.format === 'efl_pdf' ? 'base64' : 'utf-8');
   }
-
-  try {
-    // EIA API v2 endpoint for average retail electricity prices by state
-    // Get most recent monthly average price
-    const stateCode = state.toUpperCase();
-    
-    // Try EIA API v2 retail sales endpoint
-    const url = `https://api.eia.gov/v2/electricity/retail-sales/data/?api_key=${apiKey}&frequency=monthly&data[0]=price&facets[stateid][]=${stateCode}&sort[0][column]=period&sort[0][direction]=desc&length=1`;
-
-    const response = await fetch(url);
-    if (!response.ok) {
-      // If v2 fails, try v1 series API as fallback
-      console.warn(`EIA API v2 failed, trying v1 fallback for ${state}`);
-      return await fetchEIAv1Rates(state, apiKey);
-    }
-
-    const data = (await response.json()) as {
-      response?: {
-        data?: Array<{
-          period: string;
-          price: number;
-          stateid: string;
-        }>;
-      };
-    };
-
-    if (data.response?.data && data.response.data.length > 0) {
-      // Get the most recent price (in cents per kWh, convert to dollars)
-      const price = data.response.data[0].price;
-      if (price && price > 0) {
-        return price / 100; // Convert cents to dollars
-      }
-    }
-
-    // Fallback to v1 API
-    return await fetchEIAv1Rates(state, apiKey);
-  } catch (error) {
-    console.error(`Error fetching EIA rates for ${state}:`, error);
-    // Try v1 API as fallback
-    return await fetchEIAv1Rates(state, process.env.EIA_API_KEY || '');
+  if (file.path) {
+    return await readFile(file.path);
   }
-}
-
-/**
- * Fallback to EIA API v1 for rates
- */
-async function fetchEIAv1Rates(state: string, apiKey: string): Promise<number | null> {
-  if (!apiKey) return null;
-
-  try {
-    // EIA API v1 series endpoint
-    // Series ID: ELEC.PRICE.{STATE}-ALL.A (average price, all sectors)
-    const stateCode = state.toUpperCase();
-    const seriesId = `ELEC.PRICE.${stateCode}-ALL.A`;
-    const url = `https://api.eia.gov/v2/seriesid/${seriesId}/?api_key=${apiKey}&out=json`;
-
-    const response = await fetch(url);
+  if (file.url) {
+    const response = await fetch(file.url);
     if (!response.ok) {
-      return null;
-    }
-
-    const data = (await response.json()) as {
-      series?: Array<{
-        data?: Array<[string, number | null]>;
-      }>;
-    };
-
-    if (data.series && data.series.length > 0 && data.series[0].data) {
-      // Get the most recent non-null value
-      const values = data.series[0].data
-        .filter(([, value]) => value !== null && value !== undefined)
-        .map(([, value]) => value as number);
-
-      if (values.length > 0) {
-        // Get average of last 3 months for stability
-        const recentValues = values.slice(-3);
-        const avgPrice = recentValues.reduce((sum, v) => sum + v, 0) / recentValues.length;
-        return avgPrice / 100; // Convert cents to dollars
-      }
+      throw new Error(`Download failed (${response.status} ${response.statusText})`);
     }
-
-    return null;
-  } catch (error) {
-    console.error(`Error fetching EIA v1 rates for ${state}:`, error);
-    return null;
+    return Buffer.from(await response.arrayBuffer());
   }
+  throw new Error('Plan file needs a path, url or content');
 }
 
 /**
- * Fetch utility rate data from OpenEI
- * OpenEI provides utility rate data including time-of-use rates
+ * A plan file's text: EFL PDFs (declared, or recognized by their %PDF header)
+ * are read through their text layer
  */
-async function fetchOpenEIRates(state: string): Promise<number | null> {
-  const apiKey = process.env.OPENEI_API_KEY;
-  if (!apiKey) {
-    console.warn('OPENEI_API_KEY not configured, skipping OpenEI data');
-    return null;
-  }
-
-  try {
-    // OpenEI Utility Rates API
-    // Note: OpenEI API structure may vary, this is a general approach
-    const url = `https://api.openei.org/utility_rates?version=7&format=json&api_key=${apiKey}&state=${state}&limit=1`;
-
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`OpenEI API error: ${response.statusText}`);
-    }
-
-    const data = (await response.json()) as {
-      items?: Array<{
-        rate: number;
-        label: string;
-      }>;
-    };
-
-    if (data.items && data.items.length > 0) {
-      // Get average rate from available data
-      const rates = data.items.map(item => item.rate).filter(r => r > 0);
-      if (rates.length > 0) {
-        const avgRate = rates.reduce((sum, r) => sum + r, 0) / rates.length;
-        return avgRate;
-      }
-    }
-
-    return null;
-  } catch (error) {
-    console.error(`Error fetching OpenEI rates for ${state}:`, error);
-    return null;
+async function readPlanFileText(file: PlanCatalogFile): Promise<{ text: string; format?: PlanFileFormat }> {
+  const bytes = await loadPlanFile(file);
+  if (file.format === 'efl_pdf' || bytes.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return { text: await extractEflText(new Uint8Array(bytes)), format: 'efl_label' };
   }
+  return { text: bytes.toString('utf-8'), format: file.format as PlanFileFormat | undefined };
 }
 
-/**
- * Generate realistic energy plans based on market rates
- * Creates variations of plans with different contract types, renewable percentages, etc.
- */
-function generatePlansFromRate(
-  baseRate: number,
-  state: string,
-  supplierIndex: number
-): Array<{
-  planId: string;
-  supplierName: string;
-  planName: string;
-  ratePerKwh: number;
-  contractType: 'fixed' | 'variable' | 'indexed' | 'hybrid';
-  contractLengthMonths?: number;
-  renewablePercentage?: number;
-  earlyTerminationFee?: number;
-  supplierRating?: number;
-  state: string;
-}> {
-  const suppliers = [
-    'Green Energy Co',
-    'Budget Power',
-    'Eco Power Solutions',
-    'Reliable Energy',
-    'Smart Energy',
-    'Clean Power Co',
-    'Value Energy',
-    'Premium Power',
-  ];
-
-  const supplierName = suppliers[supplierIndex % suppliers.length];
-  const plans: Array<{
-    planId: string;
-    supplierName: string;
-    planName: string;
-    ratePerKwh: number;
-    contractType: 'fixed' | 'variable' | 'indexed' | 'hybrid';
-    contractLengthMonths?: number;
-    renewablePercentage?: number;
-    earlyTerminationFee?: number;
-    supplierRating?: number;
-    state: string;
-  }> = [];
-
-  // Generate 3-4 plans per supplier with variations
-  const variations = [
-    {
-      planName: 'Fixed Rate 12 Month',
-      contractType: 'fixed' as const,
-      contractLengthMonths: 12,
-      ratePerKwh: baseRate * (0.95 + Math.random() * 0.1), // ±5% variation
-      renewablePercentage: Math.random() > 0.5 ? 100 : 0,
-      earlyTerminationFee: Math.random() > 0.5 ? 0 : 50 + Math.random() * 100,
-      supplierRating: 3.5 + Math.random() * 1.5,
-    },
-    {
-      planName: 'Fixed Rate 24 Month',
-      contractType: 'fixed' as const,
-      contractLengthMonths: 24,
-      ratePerKwh: baseRate * (0.9 + Math.random() * 0.1), // Slightly lower for longer term
-      renewablePercentage: Math.random() > 0.5 ? 50 : 0,
-      earlyTerminationFee: 100 + Math.random() * 150,
-      supplierRating: 3.5 + Math.random() * 1.5,
-    },
-    {
-      planName: 'Variable Rate',
-      contractType: 'variable' as const,
-      contractLengthMonths: 0,
-      ratePerKwh: baseRate * (0.85 + Math.random() * 0.15), // More variation
-      renewablePercentage: Math.random() > 0.5 ? 25 : 0,
-      earlyTerminationFee: 0,
-      supplierRating: 3 + Math.random() * 2,
-    },
-    {
-      planName: 'Green Energy Plus',
-      contractType: 'fixed' as const,
-      contractLengthMonths: 12,
-      ratePerKwh: baseRate * (1.05 + Math.random() * 0.1), // Premium for green
-      renewablePercentage: 100,
-      earlyTerminationFee: 0,
-      supplierRating: 4 + Math.random() * 1,
-    },
-  ];
-
-  variations.forEach((variation, index) => {
-    plans.push({
-      planId: `plan-${state}-${supplierIndex}-${index}-${Date.now()}`,
-      supplierName,
-      planName: `${supplierName} ${variation.planName}`,
-      ratePerKwh: Math.round(variation.ratePerKwh * 1000) / 1000, // Round to 3 decimals
-      contractType: variation.contractType,
-      contractLengthMonths: variation.contractLengthMonths,
-      renewablePercentage: variation.renewablePercentage,
-      earlyTerminationFee: Math.round(variation.earlyTerminationFee || 0),
-      supplierRating: Math.round(variation.supplierRating * 10) / 10,
-      state,
-    });
-  });
-
-  return plans;
-}
+const describeFile = (file: PlanCatalogFile): string =>
+  file.path || file.url || 'inline content';
 
 /**
- * Get the DynamoDB table name for EnergyPlan
- * Table name pattern: EnergyPlan-{ApiId}-NONE
+ * Get the DynamoDB table name for a model (EnergyPlan, PlanCatalogRun, PlanCatalogState)
+ * Table name pattern: {ModelName}-{ApiId}-NONE
  */
-function getTableName(): string {
-  // Get table name from environment variable (set by backend.ts)
-  const tableName = process.env.ENERGY_PLAN_TABLE_NAME;
+function getTableName(modelName: string): string {
+  // Get table name from environment variable (set by backend.ts), e.g. ENERGY_PLAN_TABLE_NAME
+  const envVarName = `${modelName.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}_TABLE_NAME`;
+  const tableName = process.env[envVarName];
   if (tableName) {
     return tableName;
   }
   
   // Fallback: Extract API ID from GraphQL endpoint and construct table name
-  // Pattern: EnergyPlan-{ApiId}-NONE
+  // Pattern: {ModelName}-{ApiId}-NONE
   const endpoint = process.env.AMPLIFY_DATA_GRAPHQL_ENDPOINT || '';
   const apiIdMatch = endpoint.match(/https:\/\/([^.]+)\.appsync-api/);
   const graphqlApiId = apiIdMatch?.[1] || '';
   
   if (graphqlApiId) {
-    const constructedTableName = `EnergyPlan-${graphqlApiId}-NONE`;
+    const constructedTableName = `${modelName}-${graphqlApiId}-NONE`;
     return constructedTableName;
   }
   
   // Last resort: throw an error if we can't determine the table name
   throw new Error(
-    'Unable to determine table name. ENERGY_PLAN_TABLE_NAME environment variable is not set and ' +
+    `Unable to determine table name for ${modelName}. ${envVarName} environment variable is not set and ` +
     'AMPLIFY_DATA_GRAPHQL_ENDPOINT is not available.'
   );
 }
 
+interface StorePlansResult {
+  stored: number;
+  added: number; // Plans not stored before
+  ratesChanged: number; // Existing plans whose pricing changed
+  failed: number; // Plans that could not be written
+}
+
 /**
- * Store plans in DynamoDB
+ * Upsert plans in DynamoDB, keyed on their stable plan ID
+ * A plan's rate history gains a version whenever an import changes its pricing.
  */
-async function storePlans(plans: Array<{
-  planId: string;
-  supplierName: string;
-  planName: string;
-  ratePerKwh: number;
-  contractType: 'fixed' | 'variable' | 'indexed' | 'hybrid';
-  contractLengthMonths?: number;
-  renewablePercentage?: number;
-  earlyTerminationFee?: number;
-  supplierRating?: number;
-  state: string;
-}>): Promise<number> {
+async function storePlans(plans: EnergyPlan[]): Promise<StorePlansResult> {
   let stored = 0;
+  let added = 0;
+  let ratesChanged = 0;
+  let failed = 0;
   const now = new Date().toISOString();
-  const tableName = getTableName();
+  const tableName = getTableName('EnergyPlan');
 
   for (const plan of plans) {
     try {
@@ -337,9 +170,10 @@ async function storePlans(plans: Array<{
           Key: { id },
         })
       );
+      const existing = getResult.Item as StoredCatalogPlan | undefined;
+      const rateHistory = recordRateVersion(existing, plan, now);
 
-      const planData = {
-        id,
+      const planData: Record<string, unknown> = {
         planId: plan.planId,
         supplierName: plan.supplierName,
         planName: plan.planName,
@@ -350,47 +184,54 @@ async function storePlans(plans: Array<{
         earlyTerminationFee: plan.earlyTerminationFee ?? null,
         supplierRating: plan.supplierRating ?? null,
         state: plan.state,
-        utilityTerritory: null,
+        utilityTerritory: plan.utilityTerritory ?? null,
+        timeOfUseRates: plan.timeOfUseRates ?? null,
+        rateTiers: plan.rateTiers ?? null,
+        billCredits: plan.billCredits ?? null,
+        charges: plan.charges ?? null,
+        promotionalPeriods: plan.promotionalPeriods ?? null,
+        rolloverRatePerKwh: plan.rolloverRatePerKwh ?? null,
+        averagePrices: plan.averagePrices ?? null,
+        factsLabelUrl: plan.factsLabelUrl ?? null,
+        rateHistory,
+        ...(plan.availableFrom && { availableFrom: plan.availableFrom }),
+        availableUntil: plan.availableUntil ?? null, // Listed again, so no longer retired
+        lastSeenAt: now,
         updatedAt: now,
       };
+      const fields = Object.keys(planData);
+      // Only set the first time the plan is stored
+      const firstStoredFields = plan.availableFrom ? ['createdAt'] : ['createdAt', 'availableFrom'];
 
-      const existing = getResult.Item;
-
+      // One write whether or not the plan exists
+      await dynamoClient.send(
+        new UpdateCommand({
+          TableName: tableName,
+          Key: { id },
+          UpdateExpression: `SET ${[
+            ...fields.map(field => `#${field} = :${field}`),
+            ...firstStoredFields.map(field => `#${field} = if_not_exists(#${field}, :updatedAt)`),
+          ].join(', ')}`,
+          ExpressionAttributeNames: Object.fromEntries(
+            [...fields, ...firstStoredFields].map(field => [`#${field}`, field])
+          ),
+          ExpressionAttributeValues: Object.fromEntries(
+            fields.map(field => [`:${field}`, planData[field]])
+          ),
+        })
+      );
+      stored++;
       if (!existing) {
-        await dynamoClient.send(
-          new PutCommand({
-            TableName: tableName,
-            Item: {
-              ...planData,
-              createdAt: now,
-            },
-          })
-        );
-        stored++;
-      } else {
-        await dynamoClient.send(
-          new UpdateCommand({
-            TableName: tableName,
-            Key: { id },
-            UpdateExpression: 'SET planId = :planId, supplierName = :supplierName, planName = :planName, ratePerKwh = :ratePerKwh, contractType = :contractType, contractLengthMonths = :contractLengthMonths, renewablePercentage = :renewablePercentage, earlyTerminationFee = :earlyTerminationFee, supplierRating = :supplierRating, state = :state, updatedAt = :updatedAt',
-            ExpressionAttributeValues: {
-              ':planId': plan.planId,
-              ':supplierName': plan.supplierName,
-              ':planName': plan.planName,
-              ':ratePerKwh': plan.ratePerKwh,
-              ':contractType': plan.contractType,
-              ':contractLengthMonths': plan.contractLengthMonths ?? null,
-              ':renewablePercentage': plan.renewablePercentage ?? null,
-              ':earlyTerminationFee': plan.earlyTerminationFee ?? null,
-              ':supplierRating': plan.supplierRating ?? null,
-              ':state': plan.state,
-              ':updatedAt': now,
-            },
-          })
-        );
-        stored++;
+        added++;
+      }
+
+      if (existing && rateHistory.length > (existing.rateHistory?.length || 1)) {
+        ratesChanged++;
+        const [previous, current] = rateHistory.slice(-2);
+        console.log(`[storePlans] Rate for ${plan.planId} changed from ${previous.ratePerKwh} to ${current.ratePerKwh} $/kWh (version ${current.version})`);
       }
     } catch (error) {
+      failed++;
       console.error(`[storePlans] Error storing plan ${plan.planId}:`, error);
       console.error(`[storePlans] Error details:`, {
         message: error instanceof Error ? error.message : String(error),
@@ -402,87 +243,227 @@ async function storePlans(plans: Array<{
     }
   }
 
-  return stored;
+  return { stored, added, ratesChanged, failed };
+}
+
+/**
+ * Retire stored plans in the swept states that the import didn't list
+ * Retired plans keep their record, with availableUntil set, so recommendation
+ * history can still show them.
+ */
+async function retireMissingPlans(states: string[], seenPlanIds: Set<string>): Promise<number> {
+  const now = new Date();
+  const tableName = getTableName('EnergyPlan');
+  const stored: StoredCatalogPlan[] = [];
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    const page = await dynamoClient.send(
+      new ScanCommand({
+        TableName: tableName,
+        FilterExpression: `#state IN (${states.map((_, index) => `:state${index}`).join(', ')})`,
+        ExpressionAttributeNames: { '#state': 'state' },
+        ExpressionAttributeValues: Object.fromEntries(states.map((state, index) => [`:state${index}`, state])),
+        ExclusiveStartKey: startKey,
+      })
+    );
+    stored.push(...((page.Items || []) as StoredCatalogPlan[]));
+    startKey = page.LastEvaluatedKey;
+  } while (startKey);
+
+  let retired = 0;
+  for (const plan of findMissingPlans(stored, seenPlanIds, states, now)) {
+    try {
+      await dynamoClient.send(
+        new UpdateCommand({
+          TableName: tableName,
+          Key: { id: plan.planId },
+          UpdateExpression: 'SET availableUntil = :now, updatedAt = :now',
+          ExpressionAttributeValues: { ':now': now.toISOString() },
+        })
+      );
+      retired++;
+      console.log(`[retireMissingPlans] Retired ${plan.planId} (last seen ${plan.lastSeenAt || plan.updatedAt})`);
+    } catch (error) {
+      console.error(`[retireMissingPlans] Error retiring plan ${plan.planId}:`, error);
+    }
+  }
+  return retired;
+}
+
+/**
+ * Persist a run's report, and the last successful refresh of each state it updated
+ * Failing to save the report doesn't fail the run.
+ */
+async function saveRunReport(report: PlanCatalogRunReport, plansListedByState: Record<string, number>): Promise<void> {
+  try {
+    await dynamoClient.send(
+      new PutCommand({
+        TableName: getTableName('PlanCatalogRun'),
+        Item: {
+          id: report.runId,
+          ...report,
+          createdAt: report.finishedAt,
+        },
+      })
+    );
+
+    for (const refresh of stateRefreshesFor(report, plansListedByState)) {
+      await dynamoClient.send(
+        new PutCommand({
+          TableName: getTableName('PlanCatalogState'),
+          Item: {
+            id: refresh.state,
+            ...refresh,
+            updatedAt: report.finishedAt,
+          },
+        })
+      );
+    }
+  } catch (error) {
+    console.error(`[saveRunReport] Error saving report for run ${report.runId}:`, error);
+  }
 }
 
 export const handler: Handler<
   UpdatePlanCatalogEvent,
   UpdatePlanCatalogResponse
 > = async (event) => {
+  const runId = randomUUID();
+  const startedAt = new Date().toISOString();
+  const trigger = event.trigger ?? 'manual';
+  const sources: PlanCatalogSourceReport[] = [];
+  const plansListedByState: Record<string, number> = {};
+
   try {
-    const { sources = ['eia', 'openei'], states = ['CA', 'TX', 'NY', 'FL'] } = event;
+    const { files = [{ url: POWER_TO_CHOOSE_EXPORT_URL, format: 'power_to_choose' }], states } = event;
+    const stateFilter = states?.map(state => state.toUpperCase());
 
     let totalPlansStored = 0;
-
-    // Process each state
-    for (const state of states) {
-      let baseRate: number | null = null;
-
-      // Try to get rate from EIA first
-      if (sources.includes('eia')) {
-        baseRate = await fetchEIARates(state);
-      }
-
-      // Fallback to OpenEI if EIA didn't work
-      if (!baseRate && sources.includes('openei')) {
-        baseRate = await fetchOpenEIRates(state);
-      }
-
-      // If we still don't have a rate, use state average defaults
-      if (!baseRate) {
-        const stateAverages: Record<string, number> = {
-          CA: 0.22, // California average
-          TX: 0.12, // Texas average
-          NY: 0.18, // New York average
-          FL: 0.12, // Florida average
-          IL: 0.12, // Illinois average
-          PA: 0.14, // Pennsylvania average
-          OH: 0.12, // Ohio average
-          GA: 0.11, // Georgia average
-        };
-        baseRate = stateAverages[state.toUpperCase()] || 0.13; // Default to $0.13/kWh
-        console.warn(`Using default rate for ${state}: $${baseRate}/kWh`);
+    const seenPlanIds = new Set<string>();
+    const sweptStates = new Set<string>(); // States a complete file listed plans for
+
+    // Import each file on its own so one unreadable file doesn't stop the rest
+    for (const file of files) {
+      const source = describeFile(file);
+      try {
+        const { text, format: declaredFormat } = await readPlanFileText(file);
+        const { format, plans, skipped } = importPlanFile(text, { format: declaredFormat, state: file.state });
+        const selected = stateFilter
+          ? plans.filter(plan => plan.state && stateFilter.includes(plan.state))
+          : plans;
+
+        // Includes EFLs rejected because their prices don't reconcile
+        skipped.forEach(({ row, reason }) => console.warn(`[${source}] Skipped row ${row}: ${reason}`));
+
+        const planStates = new Set<string>();
+        for (const plan of selected) {
+          seenPlanIds.add(plan.planId);
+          if (plan.state) {
+            planStates.add(plan.state);
+            plansListedByState[plan.state] = (plansListedByState[plan.state] || 0) + 1;
+          }
+        }
+        if (file.complete ?? format === 'power_to_choose') {
+          planStates.forEach(state => sweptStates.add(state));
+        }
+
+        const { stored, added, ratesChanged, failed } = await storePlans(selected);
+        totalPlansStored += stored;
+        // A file none of whose plans could be stored didn't refresh its states
+        const nothingStored = selected.length > 0 && stored === 0;
+        sources.push({
+          source,
+          format,
+          imported: !nothingStored,
+          states: [...planStates],
+          plansListed: selected.length,
+          plansSkipped: skipped.length,
+          plansAdded: added,
+          plansChanged: ratesChanged,
+          plansFailed: failed,
+          ...(nothingStored && { error: `None of its ${selected.length} plans could be stored` }),
+        });
+
+        console.log(`Imported ${selected.length} ${format} plans from ${source}, stored ${stored}, failed ${failed}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error importing plan file ${source}:`, error);
+        sources.push({
+          source,
+          ...(file.format && { format: file.format }),
+          imported: false,
+          states: [],
+          plansListed: 0,
+          plansSkipped: 0,
+          plansAdded: 0,
+          plansChanged: 0,
+          plansFailed: 0,
+          error: message,
+        });
       }
+    }
 
-      // Generate plans for this state
-      // Generate plans from 3-4 different suppliers
-      const numSuppliers = 3 + Math.floor(Math.random() * 2); // 3-4 suppliers
-      const allPlans: Array<{
-        planId: string;
-        supplierName: string;
-        planName: string;
-        ratePerKwh: number;
-        contractType: 'fixed' | 'variable' | 'indexed' | 'hybrid';
-        contractLengthMonths?: number;
-        renewablePercentage?: number;
-        earlyTerminationFee?: number;
-        supplierRating?: number;
-        state: string;
-      }> = [];
-
-      for (let i = 0; i < numSuppliers; i++) {
-        const supplierPlans = generatePlansFromRate(baseRate, state, i);
-        allPlans.push(...supplierPlans);
+    const fileErrors = sources
+      .filter(source => !source.imported)
+      .map(source => `${source.source}: ${source.error}`);
+
+    // Only after every file, so a plan listed by any of them isn't retired, and
+    // not when a file failed, since its plans weren't seen
+    let plansRetired = 0;
+    if (sweptStates.size > 0 && fileErrors.length > 0) {
+      console.warn(`Not retiring plans in ${[...sweptStates].join(', ')}: some plan files could not be imported`);
+    } else if (sweptStates.size > 0) {
+      try {
+        plansRetired = await retireMissingPlans([...sweptStates], seenPlanIds);
+      } catch (error) {
+        console.error('Error retiring missing plans:', error);
       }
+    }
 
-      // Store plans in DynamoDB
-      const stored = await storePlans(allPlans);
-      totalPlansStored += stored;
-
-      console.log(
-        `Generated ${allPlans.length} plans for ${state}, stored ${stored}`
-      );
+    const report = summarizeCatalogRun({
+      runId,
+      trigger,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      sources,
+      plansRetired,
+      ...(fileErrors.length === files.length && { error: 'No plan files could be imported' }),
+    });
+    await saveRunReport(report, plansListedByState);
+    console.log(`Catalog run ${runId} (${trigger}) ${report.status}: ${report.plansAdded} added, ${report.plansChanged} changed, ${report.plansRetired} retired`);
+
+    if (report.status === 'failed') {
+      return {
+        success: false,
+        runId,
+        plansUpdated: 0,
+        fileErrors,
+        error: report.error,
+      };
     }
 
     return {
       success: true,
+      runId,
       plansUpdated: totalPlansStored,
+      plansAdded: report.plansAdded,
+      ratesChanged: report.plansChanged,
+      plansRetired,
+      plansSkipped: report.plansSkipped,
+      ...(fileErrors.length > 0 && { fileErrors }),
     };
   } catch (error) {
     console.error('Error updating plan catalog:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await saveRunReport(
+      summarizeCatalogRun({ runId, trigger, startedAt, finishedAt: new Date().toISOString(), sources, error: message }),
+      {}
+    );
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      runId,
+      error: message,
     };
   }
 };
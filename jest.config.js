@@ -14,6 +14,8 @@ module.exports = {
   testMatch: [
     '<rootDir>/src/**/__tests__/**/*.{ts,tsx}',
     '<rootDir>/src/**/*.{spec,test}.{ts,tsx}',
+    '<rootDir>/shared/**/__tests__/**/*.{ts,tsx}',
+    '<rootDir>/amplify/function/**/__tests__/**/*.ts',
   ],
   transform: {
     '^.+\\.(ts|tsx)$': '<rootDir>/jest-transform.js',
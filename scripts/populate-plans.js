@@ -1,6 +1,10 @@
 /**
  * Script to populate energy plans in DynamoDB
  * Calls the updatePlanCatalog Lambda function handler directly
+ *
+ * Usage: node scripts/populate-plans.js [plan-file ...]
+ * Plan files are Power to Choose CSV exports or EFL data (see sample-plans/).
+ * Without files, the current Power to Choose export is downloaded.
  */
 
 import { handler } from '../amplify/function/update-plan-catalog/handler.ts';
@@ -8,23 +12,29 @@ import { handler } from '../amplify/function/update-plan-catalog/handler.ts';
 async function populatePlans() {
   console.log('🚀 Starting plan catalog population...\n');
 
-  // States to populate
-  const states = ['CA', 'TX', 'NY', 'FL', 'IL', 'PA', 'OH', 'GA'];
+  const paths = process.argv.slice(2);
+  const files = paths.length > 0 ? paths.map(path => ({ path })) : undefined;
 
-  console.log(`Populating plans for states: ${states.join(', ')}\n`);
+  console.log(
+    `Importing plans from: ${paths.length > 0 ? paths.join(', ') : 'Power to Choose'}\n`
+  );
 
   try {
-    const result = await handler({
-      sources: ['eia', 'openei'],
-      states,
-    });
+    const result = await handler({ files });
 
     if (result.success) {
       console.log(`\n✅ Success!`);
       console.log(`   Plans updated: ${result.plansUpdated || 0}`);
+      console.log(`   Plans added: ${result.plansAdded || 0}`);
+      console.log(`   Rates changed: ${result.ratesChanged || 0}`);
+      console.log(`   Plans retired: ${result.plansRetired || 0}`);
+      console.log(`   Rows skipped: ${result.plansSkipped || 0}`);
+      (result.fileErrors || []).forEach(error => console.warn(`   ⚠ ${error}`));
+      console.log(`   Run report: ${result.runId}`);
       console.log(`\n🎉 Energy plans have been populated!`);
     } else {
       console.error(`\n❌ Error: ${result.error || 'Unknown error'}`);
+      (result.fileErrors || []).forEach(error => console.error(`   ${error}`));
       process.exit(1);
     }
   } catch (error) {
@@ -23,10 +23,10 @@ fi
 echo "📋 Found function: $FUNCTION_NAME"
 echo ""
 
-# Invoke the function with states to populate
-PAYLOAD='{"sources": ["eia", "openei"], "states": ["CA", "TX", "NY", "FL", "IL", "PA", "OH", "GA"]}'
+# Invoke the function with no files so it imports the current Power to Choose export
+PAYLOAD='{}'
 
-echo "📤 Invoking function to populate plans for: CA, TX, NY, FL, IL, PA, OH, GA"
+echo "📤 Invoking function to import the Power to Choose plan export"
 echo ""
 
 RESULT=$(aws lambda invoke \
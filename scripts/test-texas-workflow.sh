@@ -36,7 +36,7 @@ if [ -z "$FUNCTION_NAME" ]; then
 fi
 
 echo "   Found function: $FUNCTION_NAME"
-PAYLOAD='{"sources": ["eia", "openei"], "states": ["TX"]}'
+PAYLOAD='{"states": ["TX"]}'
 
 echo "   Invoking function for Texas..."
 RESULT=$(aws lambda invoke \
@@ -0,0 +1,114 @@
+import {
+  isCatalogStale,
+  stateRefreshesFor,
+  summarizeCatalogRun,
+  type PlanCatalogSourceReport,
+} from '..';
+
+const powerToChoose: PlanCatalogSourceReport = {
+  source: 'https://www.powertochoose.org/en-us/Plan/ExportToCsv',
+  format: 'power_to_choose',
+  imported: true,
+  states: ['TX'],
+  plansListed: 4,
+  plansSkipped: 2,
+  plansAdded: 1,
+  plansChanged: 2,
+};
+
+const failedLabel: PlanCatalogSourceReport = {
+  source: 'https://example.com/efl/champ-saver-12.pdf',
+  format: 'efl_pdf',
+  imported: false,
+  states: [],
+  plansListed: 0,
+  plansSkipped: 0,
+  plansAdded: 0,
+  plansChanged: 0,
+  error: 'Download failed (404 Not Found)',
+};
+
+const run = {
+  runId: 'run-1',
+  trigger: 'schedule' as const,
+  startedAt: '2026-10-19T11:00:00.000Z',
+  finishedAt: '2026-10-19T11:01:30.000Z',
+};
+
+describe('summarizeCatalogRun', () => {
+  it('should total the sources and list the states they updated', () => {
+    expect(
+      summarizeCatalogRun({ ...run, sources: [powerToChoose], plansRetired: 3 })
+    ).toEqual({
+      ...run,
+      status: 'succeeded',
+      sources: [powerToChoose],
+      statesUpdated: ['TX'],
+      plansAdded: 1,
+      plansChanged: 2,
+      plansRetired: 3,
+      plansSkipped: 2,
+    });
+  });
+
+  it('should mark runs with failed sources partial or failed', () => {
+    expect(
+      summarizeCatalogRun({ ...run, sources: [powerToChoose, failedLabel] })
+        .status
+    ).toBe('partial');
+
+    const failed = summarizeCatalogRun({
+      ...run,
+      sources: [failedLabel],
+      error: 'No plan files could be imported',
+    });
+    expect(failed.status).toBe('failed');
+    expect(failed.statesUpdated).toEqual([]);
+    expect(summarizeCatalogRun({ ...run, sources: [] }).status).toBe('failed');
+  });
+
+  it('should mark runs partial when some plans could not be stored', () => {
+    expect(
+      summarizeCatalogRun({
+        ...run,
+        sources: [{ ...powerToChoose, plansFailed: 1 }],
+      }).status
+    ).toBe('partial');
+  });
+
+  it('should not count a state as updated when its file listed no plans', () => {
+    const empty = { ...powerToChoose, plansListed: 0, states: [] };
+
+    expect(
+      summarizeCatalogRun({ ...run, sources: [empty] }).statesUpdated
+    ).toEqual([]);
+  });
+});
+
+describe('stateRefreshesFor', () => {
+  it('should record when each updated state was refreshed', () => {
+    const report = summarizeCatalogRun({ ...run, sources: [powerToChoose] });
+
+    expect(stateRefreshesFor(report, { TX: 4 })).toEqual([
+      {
+        state: 'TX',
+        lastRefreshedAt: '2026-10-19T11:01:30.000Z',
+        lastRunId: 'run-1',
+        plansListed: 4,
+      },
+    ]);
+  });
+});
+
+describe('isCatalogStale', () => {
+  it('should flag states not refreshed in two days', () => {
+    const at = new Date('2026-10-21T12:00:00.000Z');
+
+    expect(
+      isCatalogStale({ lastRefreshedAt: '2026-10-20T11:00:00.000Z' }, at)
+    ).toBe(false);
+    expect(
+      isCatalogStale({ lastRefreshedAt: '2026-10-19T11:00:00.000Z' }, at)
+    ).toBe(true);
+  });
+});
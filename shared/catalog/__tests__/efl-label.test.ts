@@ -0,0 +1,148 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  detectPlanFileFormat,
+  importPlanFile,
+  parseEflData,
+  readEflLabel,
+  reconcileAveragePrices,
+} from '..';
+
+const label = readFileSync(
+  join(__dirname, '../../../sample-plans/efl-label.txt'),
+  'utf-8'
+);
+
+describe('reconcileAveragePrices', () => {
+  const plan = {
+    ratePerKwh: 0.104,
+    charges: {
+      baseChargeMonthly: 9.95,
+      deliveryChargePerKwh: 0.055942,
+      deliveryChargeMonthly: 4.23,
+    },
+    billCredits: [{ minKwh: 1000, maxKwh: 2000, amount: 50 }],
+  };
+
+  it('should accept averages within the label rounding', () => {
+    const reconciliation = reconcileAveragePrices(plan, {
+      kwh500: 0.188,
+      kwh1000: 0.124,
+      kwh2000: 0.142,
+    });
+
+    expect(reconciliation.reconciled).toBe(true);
+    expect(reconciliation.checks[1]).toEqual({
+      kwh: 1000,
+      published: 0.124,
+      computed: 0.124122,
+      difference: 0.000122,
+      reconciled: true,
+    });
+  });
+
+  it('should reject averages the pricing does not reproduce', () => {
+    const reconciliation = reconcileAveragePrices(plan, {
+      kwh500: 0.188,
+      kwh1000: 0.119,
+      kwh2000: 0.142,
+    });
+
+    expect(reconciliation.reconciled).toBe(false);
+    expect(
+      reconciliation.checks.filter(check => !check.reconciled)
+    ).toHaveLength(1);
+    expect(reconcileAveragePrices(plan, {}).reconciled).toBe(false);
+  });
+});
+
+describe('readEflLabel', () => {
+  it('should read every priced component of the label', () => {
+    const { plan, errors } = readEflLabel(label);
+
+    expect(errors).toEqual([]);
+    expect(plan).toEqual({
+      planId: 'plan-gexa-energy--gexa-saver-deluxe-12--oncor',
+      supplierName: 'Gexa Energy, LP',
+      planName: 'Gexa Saver Deluxe 12',
+      utilityTerritory: 'Oncor Electric Delivery',
+      ratePerKwh: 0.104,
+      contractType: 'fixed',
+      state: 'TX',
+      contractLengthMonths: 12,
+      earlyTerminationFee: 240,
+      renewablePercentage: 15,
+      charges: {
+        baseChargeMonthly: 9.95,
+        deliveryChargePerKwh: 0.055942,
+        deliveryChargeMonthly: 4.23,
+      },
+      billCredits: [{ minKwh: 1000, maxKwh: 2000, amount: 50 }],
+      averagePrices: { kwh500: 0.188, kwh1000: 0.124, kwh2000: 0.142 },
+    });
+  });
+
+  it('should read minimum usage fees', () => {
+    const { plan } = readEflLabel(
+      [
+        'Electricity Facts Label',
+        'TXU Energy',
+        'TXU Simple Rate 12',
+        'Average price per kWh 17.0¢ 15.0¢ 15.0¢',
+        'Energy Charge: $0.150000 per kWh',
+        'Minimum Usage Fee: $10.00 per billing cycle when usage is less than 1,000 kWh.',
+      ].join('\n')
+    );
+
+    expect(plan?.ratePerKwh).toBe(0.15);
+    expect(plan?.charges).toEqual({
+      minimumUsageFee: 10,
+      minimumUsageKwh: 1000,
+    });
+  });
+
+  it("should reject labels that don't reconcile", () => {
+    const result = readEflLabel(
+      label.replace('Usage Credit: $50.00', 'Usage Credit: $75.00')
+    );
+
+    expect(result.plan).toBeNull();
+    expect(result.errors).toEqual([
+      "average prices don't reconcile: computed 9.9¢ vs published 12.4¢ at 1000 kWh; computed 13.0¢ vs published 14.2¢ at 2000 kWh",
+    ]);
+  });
+
+  it('should report the fields a label is missing', () => {
+    expect(readEflLabel('Electricity Facts Label\nGexa Energy').errors).toEqual(
+      [
+        'missing supplier or plan name',
+        'missing average prices',
+        'missing energy charge',
+      ]
+    );
+  });
+});
+
+describe('EFL import', () => {
+  it('should import label text as one plan', () => {
+    expect(detectPlanFileFormat(label)).toBe('efl_label');
+    expect(importPlanFile(label).plans).toHaveLength(1);
+  });
+
+  it('should skip EFL data whose components miss its averages', () => {
+    const result = parseEflData([
+      {
+        supplierName: 'Champion Energy Services',
+        planName: 'Champ Saver-12',
+        energyCharge: 9.8,
+        baseCharge: 4.95,
+        averagePrices: { kwh500: 12, kwh1000: 11, kwh2000: 10.5 },
+      },
+    ]);
+
+    expect(result!.plans).toEqual([]);
+    expect(result!.skipped[0].reason).toMatch(
+      /^average prices don't reconcile: computed 10\.8¢ vs published 12\.0¢ at 500 kWh/
+    );
+  });
+});
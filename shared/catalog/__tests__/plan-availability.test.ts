@@ -0,0 +1,57 @@
+import { findMissingPlans, isPlanAvailable, isPlanRetired } from '..';
+import type { EnergyPlan } from '../../types';
+
+const planIn = (planId: string, state: string, availableUntil?: string) =>
+  ({
+    planId,
+    supplierName: 'Gexa Energy',
+    planName: planId,
+    ratePerKwh: 0.14,
+    contractType: 'fixed',
+    state,
+    availableFrom: '2026-01-01T00:00:00Z',
+    ...(availableUntil && { availableUntil }),
+  }) as EnergyPlan;
+
+const at = new Date('2026-06-01T00:00:00Z');
+
+describe('isPlanAvailable', () => {
+  it('should offer plans within their availability window', () => {
+    expect(isPlanAvailable(planIn('a', 'TX'), at)).toBe(true);
+    expect(isPlanAvailable({}, at)).toBe(true);
+    expect(isPlanAvailable({ availableFrom: '2026-07-01T00:00:00Z' }, at)).toBe(
+      false
+    );
+  });
+
+  it('should not offer retired plans', () => {
+    const retired = planIn('a', 'TX', '2026-05-01T00:00:00Z');
+
+    expect(isPlanAvailable(retired, at)).toBe(false);
+    expect(isPlanRetired(retired, at)).toBe(true);
+    expect(isPlanRetired(planIn('a', 'TX', '2026-07-01T00:00:00Z'), at)).toBe(
+      false
+    );
+  });
+});
+
+describe('findMissingPlans', () => {
+  const stored = [
+    planIn('listed', 'TX'),
+    planIn('dropped', 'TX'),
+    planIn('already-retired', 'TX', '2026-05-01T00:00:00Z'),
+    planIn('other-state', 'PA'),
+  ];
+
+  it('should find plans in the swept states the import left out', () => {
+    expect(
+      findMissingPlans(stored, new Set(['listed']), ['tx'], at).map(
+        plan => plan.planId
+      )
+    ).toEqual(['dropped']);
+  });
+
+  it('should leave every plan alone when no state was swept', () => {
+    expect(findMissingPlans(stored, new Set(), [], at)).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  catalogPlanId,
+  detectPlanFileFormat,
+  importPlanFile,
+  parseEflData,
+  parsePowerToChooseCsv,
+  pricingFromAverages,
+} from '..';
+
+const readSample = (filename: string): string =>
+  readFileSync(join(__dirname, '../../../sample-plans', filename), 'utf-8');
+
+describe('pricingFromAverages', () => {
+  it('should fit a base charge and rate to the published averages', () => {
+    expect(
+      pricingFromAverages({ kwh500: 0.156, kwh1000: 0.142, kwh2000: 0.135 })
+    ).toEqual({ ratePerKwh: 0.128, baseChargeMonthly: 14 });
+    expect(
+      pricingFromAverages({ kwh500: 0.152, kwh1000: 0.152, kwh2000: 0.152 })
+    ).toEqual({ ratePerKwh: 0.152 });
+  });
+
+  it('should price usage-credit plans at their 1000 kWh average', () => {
+    expect(
+      pricingFromAverages({ kwh500: 0.198, kwh1000: 0.113, kwh2000: 0.149 })
+    ).toEqual({ ratePerKwh: 0.113 });
+    expect(pricingFromAverages({})).toBeNull();
+  });
+});
+
+describe('catalogPlanId', () => {
+  it('should give an offer the same ID whichever source lists it', () => {
+    expect(
+      catalogPlanId(
+        'Gexa Energy, LP',
+        'Gexa Saver Deluxe 12',
+        'Oncor Electric Delivery'
+      )
+    ).toBe(
+      catalogPlanId(
+        'Gexa Energy',
+        'Gexa Saver Deluxe 12',
+        'ONCOR ELECTRIC DELIVERY COMPANY'
+      )
+    );
+    expect(catalogPlanId('TXU Energy', 'Simple Rate 12')).toBe(
+      'plan-txu-energy--simple-rate-12'
+    );
+  });
+
+  it('should keep products and territories apart', () => {
+    expect(
+      catalogPlanId('Gexa Energy', 'Saver 12', 'CenterPoint Energy Houston')
+    ).not.toBe(catalogPlanId('Gexa Energy', 'Saver 12', 'Oncor'));
+    expect(catalogPlanId('Gexa Energy', 'Saver 12')).not.toBe(
+      catalogPlanId('Gexa Energy', 'Saver 24')
+    );
+  });
+});
+
+describe('parsePowerToChooseCsv', () => {
+  const result = parsePowerToChooseCsv(
+    readSample('power-to-choose-export.csv')
+  )!;
+
+  it('should map each offer to a plan with its REP, prices and terms', () => {
+    expect(result.plans.map(plan => plan.planId)).toEqual([
+      'plan-gexa-energy--gexa-eco-saver-plus-12--oncor',
+      'plan-txu-energy--txu-simple-rate-12--oncor',
+      'plan-4change-energy--maxx-saver-select-12--oncor',
+      'plan-reliant-energy-retail-services--reliant-basic-power-month-to-month--centerpoint',
+    ]);
+    expect(result.plans[0]).toEqual({
+      planId: 'plan-gexa-energy--gexa-eco-saver-plus-12--oncor',
+      supplierName: 'Gexa Energy',
+      planName: 'Gexa Eco Saver Plus 12',
+      ratePerKwh: 0.128,
+      contractType: 'fixed',
+      state: 'TX',
+      utilityTerritory: 'ONCOR ELECTRIC DELIVERY COMPANY',
+      contractLengthMonths: 12,
+      earlyTerminationFee: 150,
+      renewablePercentage: 100,
+      supplierRating: 4,
+      charges: { baseChargeMonthly: 14 },
+      averagePrices: { kwh500: 0.156, kwh1000: 0.142, kwh2000: 0.135 },
+      factsLabelUrl: 'https://example.com/efl/gexa-eco-saver-plus-12.pdf',
+    });
+  });
+
+  it('should read per-month cancel fees and variable rates', () => {
+    const [, , credit, variable] = result.plans;
+
+    expect(credit.ratePerKwh).toBe(0.113);
+    expect(credit.earlyTerminationFee).toBe(240);
+    expect(variable).toMatchObject({
+      contractType: 'variable',
+      contractLengthMonths: 1,
+      earlyTerminationFee: 0,
+      charges: { baseChargeMonthly: 6.67 },
+    });
+  });
+
+  it('should skip repeated offers and rows without prices', () => {
+    expect(result.skipped).toEqual([
+      { row: 2, reason: 'same offer as row 1' },
+      { row: 6, reason: 'no average prices' },
+    ]);
+  });
+
+  it('should not read other CSV files', () => {
+    expect(parsePowerToChooseCsv('Date,kWh\n2024-01-01,12')).toBeNull();
+  });
+});
+
+describe('parseEflData', () => {
+  it("should use the label's price components when given", () => {
+    const { plans } = parseEflData(readSample('efl-plans.json'))!;
+
+    expect(plans[0]).toMatchObject({
+      planId: 'plan-champion-energy-services--champ-saver-12--centerpoint',
+      supplierName: 'Champion Energy Services',
+      ratePerKwh: 0.098,
+      utilityTerritory: 'CENTERPOINT ENERGY HOUSTON ELECTRIC LLC',
+      charges: {
+        baseChargeMonthly: 4.95,
+        deliveryChargePerKwh: 0.056418,
+        deliveryChargeMonthly: 4.39,
+      },
+      averagePrices: { kwh500: 0.173, kwh1000: 0.164, kwh2000: 0.159 },
+      factsLabelUrl: 'https://example.com/efl/champ-saver-12.pdf',
+    });
+  });
+
+  it('should fit pricing to average prices alone', () => {
+    const { plans } = parseEflData(readSample('efl-plans.json'))!;
+
+    expect(plans[1]).toMatchObject({
+      planId: 'plan-green-mountain-energy--pollution-free-e-plus-12--oncor',
+      ratePerKwh: expect.closeTo(0.14833, 5),
+      charges: { baseChargeMonthly: 15.33 },
+      earlyTerminationFee: 150,
+      renewablePercentage: 100,
+      state: 'TX',
+    });
+  });
+
+  it('should report records it cannot map', () => {
+    expect(
+      parseEflData([{ supplierName: 'Gexa Energy' }, 'plan'])!.skipped
+    ).toEqual([
+      { row: 1, reason: 'missing supplier or plan name' },
+      { row: 2, reason: 'not an object' },
+    ]);
+    expect(parseEflData('not json')).toBeNull();
+  });
+});
+
+describe('importPlanFile', () => {
+  it('should detect the file format from its content', () => {
+    expect(detectPlanFileFormat(readSample('efl-plans.json'))).toBe('efl');
+    expect(detectPlanFileFormat(readSample('power-to-choose-export.csv'))).toBe(
+      'power_to_choose'
+    );
+    expect(detectPlanFileFormat('Date,kWh')).toBeNull();
+  });
+
+  it('should read a local plan file', () => {
+    const result = importPlanFile(readSample('power-to-choose-export.csv'));
+
+    expect(result.format).toBe('power_to_choose');
+    expect(result.plans).toHaveLength(4);
+  });
+
+  it('should reject content that is not in the declared format', () => {
+    expect(() =>
+      importPlanFile('Date,kWh', { format: 'power_to_choose' })
+    ).toThrow('Plan file is not in the power_to_choose format');
+    expect(() => importPlanFile('Date,kWh')).toThrow(
+      'Plan file is not a Power to Choose CSV export, EFL data or an EFL'
+    );
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  rateChangeSince,
+  rateVersionAt,
+  recordRateVersion,
+  sharedPriceMeasure,
+} from '..';
+import type { EnergyPlan } from '../../types';
+
+const plan: EnergyPlan = {
+  planId: 'plan-gexa-energy--gexa-eco-saver-plus-12--oncor',
+  supplierName: 'Gexa Energy',
+  planName: 'Gexa Eco Saver Plus 12',
+  ratePerKwh: 0.128,
+  contractType: 'fixed',
+  state: 'TX',
+  charges: { baseChargeMonthly: 14 },
+  averagePrices: { kwh500: 0.156, kwh1000: 0.142, kwh2000: 0.135 },
+};
+
+const repriced: EnergyPlan = {
+  ...plan,
+  ratePerKwh: 0.136,
+  averagePrices: { kwh500: 0.164, kwh1000: 0.15, kwh2000: 0.143 },
+};
+
+describe('recordRateVersion', () => {
+  it('should start a new plan at version 1', () => {
+    expect(recordRateVersion(undefined, plan, '2026-01-01T00:00:00Z')).toEqual([
+      {
+        version: 1,
+        ratePerKwh: 0.128,
+        charges: { baseChargeMonthly: 14 },
+        averagePrices: { kwh500: 0.156, kwh1000: 0.142, kwh2000: 0.135 },
+        effectiveFrom: '2026-01-01T00:00:00Z',
+      },
+    ]);
+  });
+
+  it('should keep the history when an import repeats the same pricing', () => {
+    const history = recordRateVersion(undefined, plan, '2026-01-01T00:00:00Z');
+    // Read back from the database with its keys in another order
+    const stored = {
+      ...plan,
+      averagePrices: { kwh2000: 0.135, kwh1000: 0.142, kwh500: 0.156 },
+      rateHistory: history,
+    };
+
+    expect(recordRateVersion(stored, plan, '2026-02-01T00:00:00Z')).toBe(
+      history
+    );
+  });
+
+  it('should add a version when the pricing changes', () => {
+    const history = recordRateVersion(undefined, plan, '2026-01-01T00:00:00Z');
+    const updated = recordRateVersion(
+      { ...plan, rateHistory: history },
+      repriced,
+      '2026-03-01T00:00:00Z'
+    );
+
+    expect(updated).toHaveLength(2);
+    expect(updated[1]).toMatchObject({
+      version: 2,
+      ratePerKwh: 0.136,
+      effectiveFrom: '2026-03-01T00:00:00Z',
+    });
+  });
+
+  it('should add a version when time-of-use rates, tiers or promotions change', () => {
+    const history = recordRateVersion(undefined, plan, '2026-01-01T00:00:00Z');
+    const stored = { ...plan, rateHistory: history };
+
+    expect(
+      recordRateVersion(
+        stored,
+        {
+          ...plan,
+          timeOfUseRates: [
+            {
+              name: 'Free nights',
+              periodType: 'off-peak',
+              ratePerKwh: 0,
+              startHour: 21,
+              endHour: 6,
+            },
+          ],
+        },
+        '2026-03-01T00:00:00Z'
+      )
+    ).toHaveLength(2);
+    expect(
+      recordRateVersion(
+        stored,
+        {
+          ...plan,
+          rateTiers: [{ upToKwh: 1000, ratePerKwh: 0.1 }, { ratePerKwh: 0.15 }],
+        },
+        '2026-03-01T00:00:00Z'
+      )
+    ).toHaveLength(2);
+    expect(
+      recordRateVersion(
+        stored,
+        {
+          ...plan,
+          promotionalPeriods: [
+            { startMonth: 1, durationMonths: 3, ratePerKwh: 0.09 },
+          ],
+        },
+        '2026-03-01T00:00:00Z'
+      )
+    ).toHaveLength(2);
+  });
+
+  it('should start plans stored without a history from their stored pricing', () => {
+    const updated = recordRateVersion(
+      { ...plan, createdAt: '2025-06-01T00:00:00Z' },
+      repriced,
+      '2026-03-01T00:00:00Z'
+    );
+
+    expect(updated.map(version => version.effectiveFrom)).toEqual([
+      '2025-06-01T00:00:00Z',
+      '2026-03-01T00:00:00Z',
+    ]);
+  });
+});
+
+describe('rateChangeSince', () => {
+  const rateHistory = recordRateVersion(
+    { ...plan, rateHistory: recordRateVersion(undefined, plan, '2026-01-01') },
+    repriced,
+    '2026-03-01'
+  );
+
+  it('should compare the version in effect at the date with the current one', () => {
+    expect(rateVersionAt({ rateHistory }, '2026-02-10')?.version).toBe(1);
+
+    const change = rateChangeSince({ rateHistory }, '2026-02-10');
+    expect(change?.from.version).toBe(1);
+    expect(change?.to.version).toBe(2);
+    expect(change?.change).toBeCloseTo(0.008, 6);
+  });
+
+  it('should report no change without a newer version', () => {
+    expect(rateChangeSince({ rateHistory }, '2026-03-15')).toBeNull();
+    expect(rateChangeSince({ rateHistory }, '2025-12-01')).toBeNull();
+    expect(rateChangeSince(plan, '2026-02-10')).toBeNull();
+  });
+
+  it('should simulate the price of versions without published averages', () => {
+    const flat = { ...plan, averagePrices: undefined, charges: undefined };
+    const history = recordRateVersion(
+      {
+        ...flat,
+        rateHistory: recordRateVersion(undefined, flat, '2026-01-01'),
+      },
+      { ...flat, ratePerKwh: 0.12 },
+      '2026-03-01'
+    );
+
+    expect(
+      rateChangeSince({ rateHistory: history }, '2026-02-01')?.change
+    ).toBeCloseTo(-0.008, 6);
+  });
+
+  it('should price tiered versions from the simulated bill', () => {
+    const tiered = {
+      ...plan,
+      averagePrices: undefined,
+      rateTiers: [{ upToKwh: 500, ratePerKwh: 0.1 }, { ratePerKwh: 0.12 }],
+    };
+    const history = recordRateVersion(
+      {
+        ...tiered,
+        rateHistory: recordRateVersion(undefined, tiered, '2026-01-01'),
+      },
+      {
+        ...tiered,
+        rateTiers: [{ upToKwh: 500, ratePerKwh: 0.1 }, { ratePerKwh: 0.14 }],
+      },
+      '2026-03-01'
+    );
+
+    // The second 500 kWh went up 2¢: 1¢ a kWh across 1000 kWh
+    expect(
+      rateChangeSince({ rateHistory: history }, '2026-02-01')?.change
+    ).toBeCloseTo(0.01, 6);
+  });
+
+  it('should not compare a published price with a simulated one', () => {
+    const unpublished = { ...repriced, averagePrices: undefined };
+    const history = recordRateVersion(
+      {
+        ...plan,
+        rateHistory: recordRateVersion(undefined, plan, '2026-01-01'),
+      },
+      unpublished,
+      '2026-03-01'
+    );
+
+    expect(sharedPriceMeasure(history[0], history[1])).toBeNull();
+    expect(rateChangeSince({ rateHistory: history }, '2026-02-01')).toBeNull();
+  });
+
+  it('should not compare simulated prices covering different charges', () => {
+    const flat = { ...plan, averagePrices: undefined, charges: undefined };
+    const history = recordRateVersion(
+      {
+        ...flat,
+        rateHistory: recordRateVersion(undefined, flat, '2026-01-01'),
+      },
+      { ...flat, charges: { deliveryChargePerKwh: 0.05 } },
+      '2026-03-01'
+    );
+
+    expect(rateChangeSince({ rateHistory: history }, '2026-02-01')).toBeNull();
+  });
+});
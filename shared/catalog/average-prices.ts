@@ -0,0 +1,142 @@
+/**
+ * Average prices
+ *
+ * Texas retail plans are listed by their all-in average price at 500, 1000 and
+ * 2000 kWh a month. These turn those averages back into pricing the bill
+ * simulation can run.
+ */
+
+import { estimateMonthlyBill, type BillingPlan } from '../simulation';
+import type { PlanAveragePrices } from '../types';
+import { roundDollars, roundRate } from './plan-fields';
+
+export const AVERAGE_PRICE_USAGE_LEVELS = [500, 1000, 2000] as const;
+
+export type AveragePriceUsage = (typeof AVERAGE_PRICE_USAGE_LEVELS)[number];
+
+export interface AveragePricing {
+  ratePerKwh: number;
+  baseChargeMonthly?: number;
+}
+
+/**
+ * A published average price checked against the plan's own pricing, in $/kWh
+ */
+export interface AveragePriceCheck {
+  kwh: AveragePriceUsage;
+  published: number;
+  computed: number;
+  difference: number; // computed - published
+  reconciled: boolean; // within the tolerance
+}
+
+export interface AveragePriceReconciliation {
+  reconciled: boolean;
+  checks: AveragePriceCheck[];
+}
+
+// Labels round averages to 0.1¢; allow that rounding plus a little slack in
+// the rounded price components
+export const AVERAGE_PRICE_TOLERANCE = 0.001;
+
+// Published averages are rounded to 0.1¢, which moves a fitted 1000 kWh bill
+// by up to about a dollar
+const FIT_TOLERANCE_DOLLARS = 2;
+
+/**
+ * The monthly bill a plan's published average implies at a usage level
+ */
+export function averageBill(
+  averages: PlanAveragePrices,
+  kwh: AveragePriceUsage
+): number | undefined {
+  const average = averages[`kwh${kwh}`];
+  return average === undefined ? undefined : average * kwh;
+}
+
+/**
+ * A base charge and flat energy rate that reproduce the published averages.
+ *
+ * The two are fitted to the 500 and 2000 kWh bills and checked against the
+ * 1000 kWh bill. Plans whose averages don't fit a base charge plus a flat
+ * rate (usage credits, minimum-usage fees, tiers) are priced at their 1000 kWh
+ * average; their `averagePrices` keep what the label publishes.
+ */
+export function pricingFromAverages(
+  averages: PlanAveragePrices
+): AveragePricing | null {
+  const bill500 = averageBill(averages, 500);
+  const bill1000 = averageBill(averages, 1000);
+  const bill2000 = averageBill(averages, 2000);
+
+  if (bill500 !== undefined && bill2000 !== undefined) {
+    const ratePerKwh = (bill2000 - bill500) / 1500;
+    const baseChargeMonthly = roundDollars(bill500 - ratePerKwh * 500);
+    const fits =
+      bill1000 === undefined ||
+      Math.abs(baseChargeMonthly + ratePerKwh * 1000 - bill1000) <=
+        FIT_TOLERANCE_DOLLARS;
+    if (ratePerKwh > 0 && baseChargeMonthly >= 0 && fits) {
+      return baseChargeMonthly > 0
+        ? { ratePerKwh: roundRate(ratePerKwh), baseChargeMonthly }
+        : { ratePerKwh: roundRate(ratePerKwh) };
+    }
+  }
+
+  const flat = averages.kwh1000 ?? averages.kwh2000 ?? averages.kwh500;
+  return flat === undefined ? null : { ratePerKwh: roundRate(flat) };
+}
+
+/**
+ * Check that a plan's pricing reproduces its published average prices.
+ *
+ * Each published average is compared with the plan's simulated bill at that
+ * usage divided by the usage. A plan reconciles when every published average
+ * is within the tolerance; a plan with no published averages doesn't.
+ */
+export function reconcileAveragePrices(
+  plan: BillingPlan,
+  averages: PlanAveragePrices,
+  tolerance: number = AVERAGE_PRICE_TOLERANCE
+): AveragePriceReconciliation {
+  const checks: AveragePriceCheck[] = [];
+  for (const kwh of AVERAGE_PRICE_USAGE_LEVELS) {
+    const published = averages[`kwh${kwh}`];
+    if (published === undefined) {
+      continue;
+    }
+    const computed = roundRate(estimateMonthlyBill(plan, kwh) / kwh);
+    const difference = roundRate(computed - published);
+    checks.push({
+      kwh,
+      published,
+      computed,
+      difference,
+      reconciled: Math.abs(difference) <= tolerance,
+    });
+  }
+  return {
+    reconciled: checks.length > 0 && checks.every(check => check.reconciled),
+    checks,
+  };
+}
+
+/**
+ * Why a reconciliation failed, e.g. "computed 14.6¢ vs published 14.2¢ at
+ * 1000 kWh"
+ */
+export function describeReconciliation(
+  reconciliation: AveragePriceReconciliation
+): string {
+  if (reconciliation.checks.length === 0) {
+    return 'no published average prices';
+  }
+  const cents = (rate: number) => `${(rate * 100).toFixed(1)}¢`;
+  return reconciliation.checks
+    .filter(check => !check.reconciled)
+    .map(
+      check =>
+        `computed ${cents(check.computed)} vs published ${cents(check.published)} at ${check.kwh} kWh`
+    )
+    .join('; ');
+}
@@ -0,0 +1,140 @@
+/**
+ * Catalog run reports
+ *
+ * Every update-plan-catalog invocation, scheduled or manual, is recorded as a
+ * run report: the sources it tried, what each one added, changed or failed
+ * on, and the states it refreshed. Each state also keeps its last successful
+ * refresh.
+ */
+
+export type PlanCatalogTrigger = 'schedule' | 'manual';
+
+export type PlanCatalogRunStatus = 'succeeded' | 'partial' | 'failed';
+
+/**
+ * What one plan file (source) of a run did
+ */
+export interface PlanCatalogSourceReport {
+  source: string; // path, URL or "inline content"
+  format?: string; // detected or declared format
+  imported: boolean; // false when the file couldn't be read or imported
+  states: string[]; // states of the plans it listed
+  plansListed: number;
+  plansSkipped: number;
+  plansAdded: number;
+  plansChanged: number; // existing plans whose pricing changed
+  plansFailed?: number; // plans that could not be stored
+  error?: string;
+}
+
+export interface PlanCatalogRunReport {
+  runId: string;
+  trigger: PlanCatalogTrigger;
+  status: PlanCatalogRunStatus;
+  startedAt: string; // ISO 8601
+  finishedAt: string; // ISO 8601
+  sources: PlanCatalogSourceReport[];
+  statesUpdated: string[];
+  plansAdded: number;
+  plansChanged: number;
+  plansRetired: number;
+  plansSkipped: number;
+  error?: string; // why the run as a whole failed
+}
+
+/**
+ * A state's last successful catalog refresh
+ */
+export interface PlanCatalogStateRefresh {
+  state: string;
+  lastRefreshedAt: string; // ISO 8601
+  lastRunId: string;
+  plansListed: number; // plans the refresh listed for the state
+}
+
+// States without a refresh for this long are shown as stale
+export const CATALOG_STALE_AFTER_HOURS = 48;
+
+const sum = (
+  sources: PlanCatalogSourceReport[],
+  count: 'plansAdded' | 'plansChanged' | 'plansSkipped'
+): number => sources.reduce((total, source) => total + source[count], 0);
+
+/**
+ * A run's report from its source reports.
+ *
+ * A run failed when no source could be imported and is partial when some
+ * couldn't, or some of their plans couldn't be stored. States count as updated
+ * when an imported source listed plans for them.
+ */
+export function summarizeCatalogRun(run: {
+  runId: string;
+  trigger: PlanCatalogTrigger;
+  startedAt: string;
+  finishedAt: string;
+  sources: PlanCatalogSourceReport[];
+  plansRetired?: number;
+  error?: string;
+}): PlanCatalogRunReport {
+  const { sources } = run;
+  const imported = sources.filter(source => source.imported);
+  const status: PlanCatalogRunStatus =
+    run.error || imported.length === 0
+      ? 'failed'
+      : imported.length < sources.length ||
+          imported.some(source => (source.plansFailed ?? 0) > 0)
+        ? 'partial'
+        : 'succeeded';
+  const statesUpdated = [
+    ...new Set(
+      imported
+        .filter(source => source.plansListed > 0)
+        .flatMap(source => source.states)
+    ),
+  ].sort();
+
+  const report: PlanCatalogRunReport = {
+    runId: run.runId,
+    trigger: run.trigger,
+    status,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    sources,
+    statesUpdated,
+    plansAdded: sum(sources, 'plansAdded'),
+    plansChanged: sum(sources, 'plansChanged'),
+    plansRetired: run.plansRetired ?? 0,
+    plansSkipped: sum(sources, 'plansSkipped'),
+  };
+  if (run.error) {
+    report.error = run.error;
+  }
+  return report;
+}
+
+/**
+ * The state refreshes a run made: one per updated state, counting the plans
+ * its imported sources listed there
+ */
+export function stateRefreshesFor(
+  report: PlanCatalogRunReport,
+  plansListedByState: Record<string, number>
+): PlanCatalogStateRefresh[] {
+  return report.statesUpdated.map(state => ({
+    state,
+    lastRefreshedAt: report.finishedAt,
+    lastRunId: report.runId,
+    plansListed: plansListedByState[state] ?? 0,
+  }));
+}
+
+/**
+ * Whether a state's catalog hasn't been refreshed recently
+ */
+export function isCatalogStale(
+  refresh: Pick<PlanCatalogStateRefresh, 'lastRefreshedAt'>,
+  at: Date = new Date()
+): boolean {
+  const age = at.getTime() - new Date(refresh.lastRefreshedAt).getTime();
+  return age > CATALOG_STALE_AFTER_HOURS * 60 * 60 * 1000;
+}
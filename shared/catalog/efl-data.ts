@@ -0,0 +1,284 @@
+/**
+ * EFL data
+ *
+ * Reads Electricity Facts Label data already extracted to JSON, one record
+ * per plan: the REP and product, TDU territory, the label's price components
+ * (energy charge, base charge, TDU delivery charges, bill credits, minimum
+ * usage fee) and its average prices at 500/1000/2000 kWh. Per-kWh prices may
+ * be in cents or dollars; monthly charges are in dollars.
+ */
+
+import type {
+  BillCredit,
+  EnergyPlan,
+  PlanAveragePrices,
+  PlanCharges,
+} from '../types';
+import {
+  describeReconciliation,
+  pricingFromAverages,
+  reconcileAveragePrices,
+} from './average-prices';
+import {
+  catalogPlanId,
+  findPlanField,
+  isPlanRecord,
+  readNumber,
+  readText,
+  roundRate,
+  toContractType,
+  toRatePerKwh,
+  type PlanImportResult,
+  type PlanRecord,
+  type SkippedPlan,
+} from './plan-fields';
+
+export interface EflDataOptions {
+  state?: string; // used when a record doesn't name its state; defaults to TX
+}
+
+// Field names are compared lowercased with punctuation removed
+const SUPPLIER_FIELDS = [
+  'suppliername',
+  'supplier',
+  'repname',
+  'repcompany',
+  'retailer',
+  'provider',
+];
+const PLAN_FIELDS = ['planname', 'productname', 'product', 'plan'];
+const TERRITORY_FIELDS = [
+  'utilityterritory',
+  'tdu',
+  'tduname',
+  'tducompanyname',
+  'territory',
+];
+const AVERAGE_PRICE_FIELDS = {
+  500: ['kwh500', 'averageprice500', 'avgprice500', 'averageprice500kwh'],
+  1000: ['kwh1000', 'averageprice1000', 'avgprice1000', 'averageprice1000kwh'],
+  2000: ['kwh2000', 'averageprice2000', 'avgprice2000', 'averageprice2000kwh'],
+};
+const ENERGY_CHARGE_FIELDS = [
+  'energycharge',
+  'energychargeperkwh',
+  'energyrate',
+];
+const BASE_CHARGE_FIELDS = ['basecharge', 'basechargemonthly', 'monthlycharge'];
+const TDU_ENERGY_FIELDS = [
+  'tdudeliverycharge',
+  'tdudeliverychargeperkwh',
+  'tduchargeperkwh',
+  'deliverychargeperkwh',
+];
+const TDU_MONTHLY_FIELDS = [
+  'tdumonthlycharge',
+  'tdufixedcharge',
+  'tducustomercharge',
+  'deliverychargemonthly',
+];
+const TERM_FIELDS = [
+  'contracttermmonths',
+  'contractlengthmonths',
+  'term',
+  'termvalue',
+];
+const ETF_FIELDS = [
+  'earlyterminationfee',
+  'cancelfee',
+  'cancellationfee',
+  'etf',
+];
+const RENEWABLE_FIELDS = [
+  'renewablepercentage',
+  'renewablecontent',
+  'renewable',
+];
+const RATE_TYPE_FIELDS = ['contracttype', 'ratetype', 'producttype'];
+const URL_FIELDS = ['factslabelurl', 'eflurl', 'factsurl', 'url'];
+// Arrays that hold the records, in the order they are looked for
+const RECORD_LIST_FIELDS = [
+  'plans',
+  'offers',
+  'efls',
+  'data',
+  'items',
+  'records',
+];
+
+/**
+ * The label's average prices in $/kWh, from an `averagePrices` object or
+ * top-level fields
+ */
+function readAveragePrices(record: PlanRecord): PlanAveragePrices {
+  const nested = findPlanField(record, ['averageprices', 'averageprice']);
+  const source = isPlanRecord(nested) ? nested : record;
+  const averagePrices: PlanAveragePrices = {};
+  for (const kwh of [500, 1000, 2000] as const) {
+    const price = readNumber(source, AVERAGE_PRICE_FIELDS[kwh]);
+    if (price !== undefined && price > 0) {
+      averagePrices[`kwh${kwh}`] = roundRate(toRatePerKwh(price));
+    }
+  }
+  return averagePrices;
+}
+
+function readBillCredits(record: PlanRecord): BillCredit[] | undefined {
+  const credits = findPlanField(record, ['billcredits', 'usagecredits']);
+  if (!Array.isArray(credits)) {
+    return undefined;
+  }
+  const valid = credits.filter(
+    (credit): credit is BillCredit =>
+      isPlanRecord(credit) &&
+      typeof credit.minKwh === 'number' &&
+      typeof credit.amount === 'number'
+  );
+  return valid.length > 0 ? valid : undefined;
+}
+
+/**
+ * One EFL record as an `EnergyPlan`, or why it isn't one.
+ *
+ * The label's energy charge and base charge are used when given, and must
+ * reproduce the label's average prices; otherwise pricing is fitted to the
+ * average prices.
+ */
+function toEnergyPlan(
+  record: PlanRecord,
+  defaultState: string
+): EnergyPlan | string {
+  const supplierName = readText(record, SUPPLIER_FIELDS);
+  const planName = readText(record, PLAN_FIELDS);
+  if (!supplierName || !planName) {
+    return 'missing supplier or plan name';
+  }
+
+  const averagePrices = readAveragePrices(record);
+  const energyCharge = readNumber(record, ENERGY_CHARGE_FIELDS);
+  const charges: PlanCharges = {};
+  let ratePerKwh: number;
+  if (energyCharge !== undefined && energyCharge >= 0) {
+    ratePerKwh = roundRate(toRatePerKwh(energyCharge));
+    const baseCharge = readNumber(record, BASE_CHARGE_FIELDS);
+    const tduEnergy = readNumber(record, TDU_ENERGY_FIELDS);
+    const tduMonthly = readNumber(record, TDU_MONTHLY_FIELDS);
+    if (baseCharge !== undefined) {
+      charges.baseChargeMonthly = baseCharge;
+    }
+    if (tduEnergy !== undefined) {
+      charges.deliveryChargePerKwh = roundRate(toRatePerKwh(tduEnergy));
+    }
+    if (tduMonthly !== undefined) {
+      charges.deliveryChargeMonthly = tduMonthly;
+    }
+    const minimumUsageFee = readNumber(record, ['minimumusagefee']);
+    const minimumUsageKwh = readNumber(record, ['minimumusagekwh']);
+    if (minimumUsageFee !== undefined && minimumUsageKwh !== undefined) {
+      charges.minimumUsageFee = minimumUsageFee;
+      charges.minimumUsageKwh = minimumUsageKwh;
+    }
+  } else {
+    const pricing = pricingFromAverages(averagePrices);
+    if (!pricing) {
+      return 'no energy charge or average prices';
+    }
+    ratePerKwh = pricing.ratePerKwh;
+    if (pricing.baseChargeMonthly !== undefined) {
+      charges.baseChargeMonthly = pricing.baseChargeMonthly;
+    }
+  }
+
+  const utilityTerritory = readText(record, TERRITORY_FIELDS);
+  const plan: EnergyPlan = {
+    planId: catalogPlanId(supplierName, planName, utilityTerritory),
+    supplierName,
+    planName,
+    ratePerKwh,
+    contractType: toContractType(readText(record, RATE_TYPE_FIELDS)),
+    state: (readText(record, ['state']) || defaultState).toUpperCase(),
+  };
+  if (utilityTerritory) {
+    plan.utilityTerritory = utilityTerritory;
+  }
+  const contractLengthMonths = readNumber(record, TERM_FIELDS);
+  if (contractLengthMonths !== undefined) {
+    plan.contractLengthMonths = contractLengthMonths;
+  }
+  const earlyTerminationFee = readNumber(record, ETF_FIELDS);
+  if (earlyTerminationFee !== undefined) {
+    plan.earlyTerminationFee = earlyTerminationFee;
+  }
+  const renewablePercentage = readNumber(record, RENEWABLE_FIELDS);
+  if (renewablePercentage !== undefined) {
+    plan.renewablePercentage = Math.min(Math.max(renewablePercentage, 0), 100);
+  }
+  const billCredits = readBillCredits(record);
+  if (billCredits) {
+    plan.billCredits = billCredits;
+  }
+  if (Object.keys(charges).length > 0) {
+    plan.charges = charges;
+  }
+  if (Object.keys(averagePrices).length > 0) {
+    plan.averagePrices = averagePrices;
+  }
+  const factsLabelUrl = readText(record, URL_FIELDS);
+  if (factsLabelUrl) {
+    plan.factsLabelUrl = factsLabelUrl;
+  }
+
+  // A label's components must reproduce its own published averages
+  if (energyCharge !== undefined && plan.averagePrices) {
+    const reconciliation = reconcileAveragePrices(plan, plan.averagePrices);
+    if (!reconciliation.reconciled) {
+      return `average prices don't reconcile: ${describeReconciliation(reconciliation)}`;
+    }
+  }
+  return plan;
+}
+
+/**
+ * Plans from EFL data: a JSON array of records, an object holding one
+ * (`plans`, `offers`, ...), a single record, or that JSON as text. Null when
+ * the data holds no records.
+ */
+export function parseEflData(
+  rawData: unknown,
+  options: EflDataOptions = {}
+): PlanImportResult | null {
+  let data = rawData;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  let records: unknown[] | undefined;
+  if (Array.isArray(data)) {
+    records = data;
+  } else if (isPlanRecord(data)) {
+    const list = findPlanField(data, RECORD_LIST_FIELDS);
+    records = Array.isArray(list) ? list : [data];
+  }
+  if (!records || records.length === 0) {
+    return null;
+  }
+
+  const state = options.state || 'TX';
+  const plans: EnergyPlan[] = [];
+  const skipped: SkippedPlan[] = [];
+  records.forEach((record, index) => {
+    const plan = isPlanRecord(record)
+      ? toEnergyPlan(record, state)
+      : 'not an object';
+    if (typeof plan === 'string') {
+      skipped.push({ row: index + 1, reason: plan });
+    } else {
+      plans.push(plan);
+    }
+  });
+  return { plans, skipped };
+}
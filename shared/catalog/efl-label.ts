@@ -0,0 +1,315 @@
+/**
+ * EFL labels
+ *
+ * Reads the text of an Electricity Facts Label (the PUCT-mandated disclosure
+ * every Texas retail plan publishes, usually as a PDF) into an `EnergyPlan`:
+ * base charge, energy charge, TDU delivery charges, usage credits, minimum
+ * usage fees, term, termination fee, renewable content and the average prices
+ * at 500/1000/2000 kWh. A label is only accepted when its price components
+ * reproduce its own published averages.
+ */
+
+import type { BillCredit, EnergyPlan, PlanAveragePrices } from '../types';
+import {
+  AVERAGE_PRICE_USAGE_LEVELS,
+  describeReconciliation,
+  reconcileAveragePrices,
+  type AveragePriceReconciliation,
+} from './average-prices';
+import {
+  catalogPlanId,
+  roundRate,
+  toContractType,
+  toRatePerKwh,
+  type PlanImportResult,
+} from './plan-fields';
+
+export interface EflLabelOptions {
+  // Used when the label's header can't be read, e.g. from a Power to Choose row
+  supplierName?: string;
+  planName?: string;
+  utilityTerritory?: string;
+  state?: string; // defaults to TX
+  factsLabelUrl?: string;
+}
+
+export interface EflLabel {
+  plan: EnergyPlan | null; // null when the label is rejected
+  reconciliation?: AveragePriceReconciliation;
+  errors: string[]; // why the label was rejected
+}
+
+// "8.1200¢ per kWh", "$0.081200 per kWh", "8.12 cents/kWh"
+const PER_KWH_PRICE =
+  /(\$\s*)?(\d+(?:\.\d+)?)\s*(¢|cents?)?\s*(?:per|\/)\s*kwh/i;
+// "$4.23 per billing cycle", "$9.95 per month"
+const MONTHLY_CHARGE =
+  /\$\s*(\d+(?:\.\d+)?)\s*(?:per|\/|each)\s*(?:billing\s+cycle|month)/i;
+
+// Either of the above, as listed after a charge's label
+const CHARGE_AMOUNT =
+  /\$?\s*\d+(?:\.\d+)?\s*(?:¢|cents?)?\s*(?:per|\/|each)\s*(?:billing\s+cycle|month|kwh)/;
+
+// Header lines that name the document rather than the plan
+const HEADER_NOISE =
+  /electricity facts label|^efl\b|puct|certificate|version|^\w+ \d{1,2}, \d{4}$|^\d{1,2}\/\d{1,2}\/\d{2,4}$/i;
+
+/**
+ * A per-kWh price in $/kWh from its match: "$" prices are dollars, "¢"/"cents"
+ * prices are cents, bare numbers are read by size
+ */
+function toPerKwh(match: RegExpMatchArray): number {
+  const value = Number(match[2]);
+  if (match[1]) {
+    return value;
+  }
+  return match[3] ? value / 100 : toRatePerKwh(value);
+}
+
+const toKwh = (value: string): number => Number(value.replace(/,/g, ''));
+
+/**
+ * The clause following a label, up to the end of its sentence
+ */
+function clauseAfter(text: string, label: RegExp): string | undefined {
+  const match = text.match(label);
+  if (!match || match.index === undefined) {
+    return undefined;
+  }
+  const rest = text.slice(match.index + match[0].length);
+  const end = rest.search(/\.(\s|$)/);
+  return end === -1 ? rest : rest.slice(0, end);
+}
+
+/**
+ * Supplier, plan and TDU territory from the label's header, the lines above
+ * its price table
+ */
+function readHeader(
+  lines: string[]
+): Pick<EnergyPlan, 'supplierName' | 'planName' | 'utilityTerritory'> {
+  const end = lines.findIndex(line =>
+    /electricity price|average monthly use|average price/i.test(line)
+  );
+  const headerLines = lines.slice(0, end === -1 ? lines.length : end);
+  const text = headerLines.join('\n');
+  const labeled = (pattern: RegExp) => text.match(pattern)?.[1]?.trim();
+
+  // Unlabeled headers list the REP, then the product, then the service area
+  const named = headerLines.filter(
+    line =>
+      !HEADER_NOISE.test(line) &&
+      !/(?:service|delivery)\s+area\b/i.test(line) &&
+      !line.includes(':')
+  );
+  return {
+    supplierName:
+      labeled(/(?:retail electric provider|rep name|provider)\s*:\s*(.+)/i) ||
+      named[0] ||
+      '',
+    planName: labeled(/(?:product|plan)\s+name\s*:\s*(.+)/i) || named[1] || '',
+    utilityTerritory: labeled(/^(.+?)\s+(?:service|delivery)\s+area\b/im),
+  };
+}
+
+function readAveragePrices(text: string): PlanAveragePrices {
+  const match = text.match(
+    /average\s+price[^\d]*?(\d+(?:\.\d+)?)\s*(?:¢|cents?)[^\d]*?(\d+(?:\.\d+)?)\s*(?:¢|cents?)[^\d]*?(\d+(?:\.\d+)?)\s*(?:¢|cents?)/i
+  );
+  const averagePrices: PlanAveragePrices = {};
+  if (match) {
+    AVERAGE_PRICE_USAGE_LEVELS.forEach((kwh, index) => {
+      averagePrices[`kwh${kwh}`] = roundRate(Number(match[index + 1]) / 100);
+    });
+  }
+  return averagePrices;
+}
+
+/**
+ * TDU delivery charges listed right after their label, e.g. "Oncor Delivery
+ * Charges: $4.23 per billing cycle and 5.5942¢ per kWh"
+ */
+function readDeliveryCharges(
+  text: string
+): Pick<
+  NonNullable<EnergyPlan['charges']>,
+  'deliveryChargePerKwh' | 'deliveryChargeMonthly'
+> {
+  const amount = CHARGE_AMOUNT.source;
+  const match = text.match(
+    new RegExp(
+      `delivery\\s+charges?\\s*:?\\s*(${amount}(?:(?:\\s|and|plus|,)+${amount})*)`,
+      'i'
+    )
+  );
+  if (!match) {
+    return {};
+  }
+  const charges: ReturnType<typeof readDeliveryCharges> = {};
+  const perKwh = match[1].match(PER_KWH_PRICE);
+  if (perKwh) {
+    charges.deliveryChargePerKwh = roundRate(toPerKwh(perKwh));
+  }
+  const monthly = match[1].match(MONTHLY_CHARGE);
+  if (monthly) {
+    charges.deliveryChargeMonthly = Number(monthly[1]);
+  }
+  return charges;
+}
+
+/**
+ * Usage credits such as "$50 per billing cycle when usage is greater than or
+ * equal to 1,000 kWh and less than or equal to 2,000 kWh"
+ */
+function readBillCredits(text: string): BillCredit[] {
+  const credits: BillCredit[] = [];
+  const pattern = /(?:usage|bill)\s+credit\s*:?\s*\$\s*(\d+(?:\.\d+)?)/gi;
+  for (const match of text.matchAll(pattern)) {
+    const clause =
+      clauseAfter(text.slice(match.index), /(?:usage|bill)\s+credit/i) || '';
+    const limits = [...clause.matchAll(/(\d[\d,]*)\s*kwh/gi)].map(limit =>
+      toKwh(limit[1])
+    );
+    if (limits.length > 0) {
+      credits.push(
+        limits.length > 1
+          ? { minKwh: limits[0], maxKwh: limits[1], amount: Number(match[1]) }
+          : { minKwh: limits[0], amount: Number(match[1]) }
+      );
+    }
+  }
+  return credits;
+}
+
+/**
+ * Read an EFL's text into a plan, rejecting labels whose price components
+ * don't reproduce their published average prices
+ */
+export function readEflLabel(
+  text: string,
+  options: EflLabelOptions = {}
+): EflLabel {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+  const flat = lines.join(' ');
+  const header = readHeader(lines);
+  const supplierName = options.supplierName || header.supplierName;
+  const planName = options.planName || header.planName;
+  const utilityTerritory = options.utilityTerritory || header.utilityTerritory;
+
+  const errors: string[] = [];
+  if (!supplierName || !planName) {
+    errors.push('missing supplier or plan name');
+  }
+  const averagePrices = readAveragePrices(flat);
+  if (Object.keys(averagePrices).length === 0) {
+    errors.push('missing average prices');
+  }
+  const energyCharge = flat.match(
+    new RegExp(
+      `energy\\s+charge\\s*(?:\\([^)]*\\))?\\s*:?\\s*${PER_KWH_PRICE.source}`,
+      'i'
+    )
+  );
+  if (!energyCharge) {
+    errors.push('missing energy charge');
+  }
+  if (errors.length > 0 || !energyCharge) {
+    return { plan: null, errors };
+  }
+
+  const charges: NonNullable<EnergyPlan['charges']> = {
+    ...readDeliveryCharges(flat),
+  };
+  const baseCharge = flat.match(/base\s+charge\s*:?\s*\$\s*(\d+(?:\.\d+)?)/i);
+  if (baseCharge) {
+    charges.baseChargeMonthly = Number(baseCharge[1]);
+  }
+  const minimumUsage = flat.match(
+    /minimum\s+usage\s+(?:fee|charge)\s*:?\s*\$\s*(\d+(?:\.\d+)?)/i
+  );
+  const minimumUsageKwh = clauseAfter(
+    flat,
+    /minimum\s+usage\s+(?:fee|charge)/i
+  )?.match(/(\d[\d,]*)\s*kwh/i);
+  if (minimumUsage && minimumUsageKwh) {
+    charges.minimumUsageFee = Number(minimumUsage[1]);
+    charges.minimumUsageKwh = toKwh(minimumUsageKwh[1]);
+  }
+
+  const plan: EnergyPlan = {
+    planId: catalogPlanId(supplierName, planName, utilityTerritory),
+    supplierName,
+    planName,
+    ratePerKwh: roundRate(toPerKwh(energyCharge)),
+    contractType: toContractType(
+      flat.match(/type\s+of\s+product\s*:?\s*(fixed|variable|indexed)/i)?.[1]
+    ),
+    state: (options.state || 'TX').toUpperCase(),
+    averagePrices,
+  };
+  if (utilityTerritory) {
+    plan.utilityTerritory = utilityTerritory;
+  }
+  if (Object.keys(charges).length > 0) {
+    plan.charges = charges;
+  }
+  const billCredits = readBillCredits(flat);
+  if (billCredits.length > 0) {
+    plan.billCredits = billCredits;
+  }
+  const term = flat.match(/contract\s+term\s*:?\s*(\d+)\s*months?/i);
+  if (term) {
+    plan.contractLengthMonths = Number(term[1]);
+  }
+  const terminationFee = flat.match(
+    /termination\s+fee[^$]{0,160}?\$\s*(\d+(?:\.\d+)?)(\s*(?:per|for each|\/)\s*(?:remaining\s+)?month)?/i
+  );
+  if (terminationFee) {
+    const fee = Number(terminationFee[1]);
+    plan.earlyTerminationFee =
+      terminationFee[2] && plan.contractLengthMonths
+        ? fee * plan.contractLengthMonths
+        : fee;
+  }
+  const renewable =
+    flat.match(/renewable\s+content\s*:?\s*(\d+(?:\.\d+)?)\s*%/i) ||
+    flat.match(/(\d+(?:\.\d+)?)\s*%\s*renewable/i);
+  if (renewable) {
+    plan.renewablePercentage = Math.min(Number(renewable[1]), 100);
+  }
+  if (options.factsLabelUrl) {
+    plan.factsLabelUrl = options.factsLabelUrl;
+  }
+
+  const reconciliation = reconcileAveragePrices(plan, averagePrices);
+  if (!reconciliation.reconciled) {
+    return {
+      plan: null,
+      reconciliation,
+      errors: [
+        `average prices don't reconcile: ${describeReconciliation(reconciliation)}`,
+      ],
+    };
+  }
+  return { plan, reconciliation, errors: [] };
+}
+
+/**
+ * An EFL's text as an import result: the plan, or the label skipped with the
+ * reasons it was rejected
+ */
+export function parseEflLabelText(
+  text: string,
+  options: EflLabelOptions = {}
+): PlanImportResult | null {
+  if (!/electricity facts label|average\s+price/i.test(text)) {
+    return null;
+  }
+  const { plan, errors } = readEflLabel(text, options);
+  return plan
+    ? { plans: [plan], skipped: [] }
+    : { plans: [], skipped: [{ row: 1, reason: errors.join('; ') }] };
+}
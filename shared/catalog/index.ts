@@ -0,0 +1,20 @@
+/**
+ * Shared plan catalog import for the update-plan-catalog Lambda
+ *
+ * Readers that map retail marketplace plan files (Power to Choose CSV
+ * exports, Electricity Facts Label data and label text) to `EnergyPlan`
+ * records, checking label pricing against the published average prices,
+ * the stable plan IDs, rate histories and availability the catalog keeps
+ * across imports, and the reports of each catalog run.
+ */
+
+export type { PlanImportResult, SkippedPlan } from './plan-fields';
+export { catalogPlanId, territoryKey } from './plan-fields';
+export * from './average-prices';
+export * from './power-to-choose';
+export * from './efl-data';
+export * from './efl-label';
+export * from './plan-import';
+export * from './rate-history';
+export * from './plan-availability';
+export * from './catalog-run';
@@ -0,0 +1,62 @@
+/**
+ * Plan availability
+ *
+ * Plans are offered between `availableFrom` and `availableUntil`. An import
+ * that lists every plan in a state retires the state's plans it leaves out by
+ * ending their availability; retired plans stay in the catalog so
+ * recommendation history can still show them.
+ */
+
+import type { EnergyPlan } from '../types';
+import type { StoredCatalogPlan } from './rate-history';
+
+type PlanAvailability = Pick<EnergyPlan, 'availableFrom' | 'availableUntil'>;
+
+const timeOf = (date: string | undefined): number | undefined =>
+  date ? new Date(date).getTime() : undefined;
+
+/**
+ * Whether a plan is offered at a time (now by default)
+ */
+export function isPlanAvailable(
+  plan: PlanAvailability,
+  at: Date = new Date()
+): boolean {
+  const from = timeOf(plan.availableFrom);
+  const until = timeOf(plan.availableUntil);
+  const time = at.getTime();
+  return (
+    (from === undefined || from <= time) &&
+    (until === undefined || time < until)
+  );
+}
+
+/**
+ * Whether a plan has been retired: its availability ended at or before a time
+ */
+export function isPlanRetired(
+  plan: PlanAvailability,
+  at: Date = new Date()
+): boolean {
+  const until = timeOf(plan.availableUntil);
+  return until !== undefined && until <= at.getTime();
+}
+
+/**
+ * Stored plans a complete import of some states left out, and so should be
+ * retired. Plans already retired, and plans in other states, are left alone.
+ */
+export function findMissingPlans(
+  stored: StoredCatalogPlan[],
+  seenPlanIds: ReadonlySet<string>,
+  states: string[],
+  at: Date = new Date()
+): StoredCatalogPlan[] {
+  const swept = new Set(states.map(state => state.toUpperCase()));
+  return stored.filter(
+    plan =>
+      swept.has((plan.state || '').toUpperCase()) &&
+      !seenPlanIds.has(plan.planId) &&
+      !isPlanRetired(plan, at)
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * Plan file fields
+ *
+ * Field lookups and value parsing shared by the plan file readers. Field
+ * names are compared lowercased with punctuation removed, so "[kwh1000]",
+ * "kWh 1000" and "kwh_1000" are the same field.
+ */
+
+import { toFiniteNumber } from '../normalization';
+import type { EnergyPlan } from '../types';
+
+export type PlanRecord = Record<string, unknown>;
+
+/**
+ * A row or record a reader could not turn into a plan
+ */
+export interface SkippedPlan {
+  row: number; // 1-based data row or record
+  reason: string;
+}
+
+export interface PlanImportResult {
+  plans: EnergyPlan[];
+  skipped: SkippedPlan[];
+}
+
+export const fieldKey = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const isPlanRecord = (value: unknown): value is PlanRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The value of the first non-empty field with one of the given names
+ */
+export function findPlanField(record: PlanRecord, names: string[]): unknown {
+  const keys = Object.keys(record);
+  for (const name of names) {
+    const key = keys.find(candidate => fieldKey(candidate) === name);
+    if (key !== undefined && record[key] !== null && record[key] !== '') {
+      return record[key];
+    }
+  }
+  return undefined;
+}
+
+export function readText(
+  record: PlanRecord,
+  names: string[]
+): string | undefined {
+  const value = findPlanField(record, names);
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * The first number in text such as "$150.00", "100%" or "12 months"
+ */
+export function numberInText(text: string): number | undefined {
+  const match = text.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+}
+
+export function readNumber(
+  record: PlanRecord,
+  names: string[]
+): number | undefined {
+  const value = findPlanField(record, names);
+  return typeof value === 'string'
+    ? numberInText(value)
+    : (toFiniteNumber(value) ?? undefined);
+}
+
+export function readBoolean(
+  record: PlanRecord,
+  names: string[]
+): boolean | undefined {
+  const value = findPlanField(record, names);
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return value !== 0;
+  }
+  if (typeof value === 'string') {
+    return /^(true|yes|y|1)$/i.test(value.trim());
+  }
+  return undefined;
+}
+
+/**
+ * A per-kWh price in $/kWh. Plan files quote energy prices in cents
+ * ("14.9"), so values of 1 or more are read as cents.
+ */
+export const toRatePerKwh = (value: number): number =>
+  value >= 1 ? value / 100 : value;
+
+export function toContractType(
+  value: string | undefined
+): EnergyPlan['contractType'] {
+  const type = (value || '').toLowerCase();
+  if (type.includes('index')) {
+    return 'indexed';
+  }
+  if (type.includes('variable')) {
+    return 'variable';
+  }
+  if (type.includes('hybrid')) {
+    return 'hybrid';
+  }
+  return 'fixed';
+}
+
+const slug = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+// Texas TDU territories, which sources name differently ("ONCOR ELECTRIC
+// DELIVERY COMPANY", "Oncor Electric Delivery", "Oncor")
+const TERRITORY_KEYS: [RegExp, string][] = [
+  [/oncor/i, 'oncor'],
+  [/centerpoint|\bcnp\b/i, 'centerpoint'],
+  [/aep.*central|\btcc\b/i, 'aep-central'],
+  [/aep.*north|\btnc\b/i, 'aep-north'],
+  [/texas[\s-]*new\s+mexico|\btnmp\b/i, 'tnmp'],
+  [/lubbock|\blp&l\b/i, 'lubbock'],
+];
+
+// "Gexa Energy, LP" and "Gexa Energy" are the same supplier
+const SUPPLIER_SUFFIX =
+  /[\s,]+(?:l\.?\s?l\.?\s?c|l\.?\s?p|inc|corp(?:oration)?|co|company|ltd)\.?$/i;
+
+export function territoryKey(territory: string): string {
+  return (
+    TERRITORY_KEYS.find(([pattern]) => pattern.test(territory))?.[1] ??
+    slug(territory)
+  );
+}
+
+/**
+ * The catalog ID of a plan, keyed on its supplier, product and TDU territory.
+ *
+ * The same offer gets the same ID from every source and every import, so
+ * recommendation history and feedback keep pointing at it.
+ */
+export function catalogPlanId(
+  supplierName: string,
+  planName: string,
+  utilityTerritory?: string
+): string {
+  let supplier = supplierName.trim();
+  while (SUPPLIER_SUFFIX.test(supplier)) {
+    supplier = supplier.replace(SUPPLIER_SUFFIX, '');
+  }
+  // Slugs never contain "--", so the parts can't run together
+  const parts = [slug(supplier), slug(planName)];
+  if (utilityTerritory) {
+    parts.push(territoryKey(utilityTerritory));
+  }
+  return `plan-${parts.join('--')}`;
+}
+
+export const roundRate = (rate: number): number =>
+  Math.round(rate * 1000000) / 1000000;
+
+export const roundDollars = (amount: number): number =>
+  Math.round(amount * 100) / 100;
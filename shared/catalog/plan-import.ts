@@ -0,0 +1,66 @@
+/**
+ * Plan import
+ *
+ * Picks the reader for a plan file by its declared format or its content,
+ * for update-plan-catalog. EFL PDFs are read as `efl_label` once their text is
+ * extracted.
+ */
+
+import { parseEflData } from './efl-data';
+import { parseEflLabelText } from './efl-label';
+import type { PlanImportResult } from './plan-fields';
+import { isPowerToChooseCsv, parsePowerToChooseCsv } from './power-to-choose';
+
+export type PlanFileFormat = 'power_to_choose' | 'efl' | 'efl_label';
+
+export interface PlanImportOptions {
+  format?: PlanFileFormat; // detected from the content when omitted
+  state?: string; // state for plans whose file doesn't name one
+}
+
+export interface PlanFileImport extends PlanImportResult {
+  format: PlanFileFormat;
+}
+
+/**
+ * The format of a plan file's content, or null when no reader knows it
+ */
+export function detectPlanFileFormat(content: string): PlanFileFormat | null {
+  const text = content.trim();
+  // Checked first: the export's bracketed headers ("[idKey],...") look like JSON
+  if (isPowerToChooseCsv(text)) {
+    return 'power_to_choose';
+  }
+  if (/^[[{]/.test(text)) {
+    return 'efl';
+  }
+  return /electricity facts label/i.test(text) ? 'efl_label' : null;
+}
+
+/**
+ * Read the plans in a plan file
+ *
+ * @throws Error when the format is unknown or the content isn't in it
+ */
+export function importPlanFile(
+  content: string,
+  options: PlanImportOptions = {}
+): PlanFileImport {
+  const format = options.format || detectPlanFileFormat(content);
+  if (!format) {
+    throw new Error(
+      'Plan file is not a Power to Choose CSV export, EFL data or an EFL'
+    );
+  }
+  const readers = {
+    power_to_choose: () =>
+      parsePowerToChooseCsv(content.trim(), { state: options.state }),
+    efl: () => parseEflData(content, { state: options.state }),
+    efl_label: () => parseEflLabelText(content, { state: options.state }),
+  };
+  const result = readers[format]();
+  if (!result) {
+    throw new Error(`Plan file is not in the ${format} format`);
+  }
+  return { format, ...result };
+}
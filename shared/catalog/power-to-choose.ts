@@ -0,0 +1,188 @@
+/**
+ * Power to Choose plans
+ *
+ * Reads the CSV export of the Texas PUC retail marketplace
+ * (powertochoose.org), one row per offer with its REP, TDU territory, average
+ * prices at 500/1000/2000 kWh in cents, term, cancellation fee and renewable
+ * content.
+ */
+
+import { parseCsvLine } from '../statements';
+import type { EnergyPlan, PlanAveragePrices } from '../types';
+import { pricingFromAverages } from './average-prices';
+import {
+  catalogPlanId,
+  fieldKey,
+  numberInText,
+  readBoolean,
+  readNumber,
+  readText,
+  roundRate,
+  toContractType,
+  type PlanImportResult,
+  type PlanRecord,
+  type SkippedPlan,
+} from './plan-fields';
+
+export const POWER_TO_CHOOSE_EXPORT_URL =
+  'https://www.powertochoose.org/en-us/Plan/ExportToCsv';
+
+export interface PowerToChooseOptions {
+  state?: string; // defaults to TX, the only market Power to Choose lists
+}
+
+/**
+ * Split CSV text into rows, keeping line breaks inside quoted cells (the
+ * export's special terms and promotion text can span lines)
+ */
+function splitCsvRows(csv: string): string[] {
+  const rows: string[] = [];
+  let pending = '';
+  for (const line of csv.split(/\r?\n/)) {
+    pending = pending ? `${pending}\n${line}` : line;
+    if ((pending.match(/"/g) || []).length % 2 === 0) {
+      rows.push(pending);
+      pending = '';
+    }
+  }
+  if (pending) {
+    rows.push(pending);
+  }
+  return rows.filter(row => row.trim() !== '');
+}
+
+/**
+ * Whether CSV text is a Power to Choose export
+ */
+export function isPowerToChooseCsv(csv: string): boolean {
+  const keys = parseCsvLine(csv.split(/\r?\n/, 1)[0]).map(fieldKey);
+  return keys.includes('repcompany') && keys.includes('kwh1000');
+}
+
+/**
+ * The early termination fee a cancel fee describes. Fees charged per month
+ * remaining ("$20 per month remaining") are taken at their largest, from the
+ * first month of the term.
+ */
+function toEarlyTerminationFee(
+  cancelFee: string | undefined,
+  termMonths: number | undefined
+): number | undefined {
+  const amount = cancelFee ? numberInText(cancelFee) : undefined;
+  if (!cancelFee || amount === undefined) {
+    return undefined;
+  }
+  return /month/i.test(cancelFee) && termMonths ? amount * termMonths : amount;
+}
+
+/**
+ * One export row as an `EnergyPlan`, or why it isn't one
+ */
+function toEnergyPlan(record: PlanRecord, state: string): EnergyPlan | string {
+  const supplierName = readText(record, ['repcompany']);
+  const planName = readText(record, ['product']);
+  if (!supplierName || !planName) {
+    return 'missing RepCompany or Product';
+  }
+
+  const averagePrices: PlanAveragePrices = {};
+  for (const kwh of [500, 1000, 2000] as const) {
+    const cents = readNumber(record, [`kwh${kwh}`]);
+    if (cents !== undefined && cents > 0) {
+      averagePrices[`kwh${kwh}`] = roundRate(cents / 100);
+    }
+  }
+  const pricing = pricingFromAverages(averagePrices);
+  if (!pricing) {
+    return 'no average prices';
+  }
+
+  const utilityTerritory = readText(record, ['tducompanyname']);
+  const contractLengthMonths = readNumber(record, ['termvalue']);
+  const rateType =
+    readText(record, ['ratetype']) ||
+    (readBoolean(record, ['fixed']) ? 'Fixed' : undefined);
+  const rating = readNumber(record, ['rating']);
+
+  const plan: EnergyPlan = {
+    planId: catalogPlanId(supplierName, planName, utilityTerritory),
+    supplierName,
+    planName,
+    ratePerKwh: pricing.ratePerKwh,
+    contractType: toContractType(rateType),
+    state,
+    averagePrices,
+  };
+  if (utilityTerritory) {
+    plan.utilityTerritory = utilityTerritory;
+  }
+  if (contractLengthMonths !== undefined) {
+    plan.contractLengthMonths = contractLengthMonths;
+  }
+  const earlyTerminationFee = toEarlyTerminationFee(
+    readText(record, ['cancelfee']),
+    contractLengthMonths
+  );
+  if (earlyTerminationFee !== undefined) {
+    plan.earlyTerminationFee = earlyTerminationFee;
+  }
+  const renewablePercentage = readNumber(record, ['renewable']);
+  if (renewablePercentage !== undefined) {
+    plan.renewablePercentage = Math.min(Math.max(renewablePercentage, 0), 100);
+  }
+  if (rating !== undefined && rating > 0) {
+    plan.supplierRating = Math.min(rating, 5);
+  }
+  if (pricing.baseChargeMonthly !== undefined) {
+    // Averages are all-in, so TDU delivery is already in the fitted pricing
+    plan.charges = { baseChargeMonthly: pricing.baseChargeMonthly };
+  }
+  const factsLabelUrl = readText(record, ['factsurl']);
+  if (factsLabelUrl) {
+    plan.factsLabelUrl = factsLabelUrl;
+  }
+  return plan;
+}
+
+/**
+ * Plans from a Power to Choose CSV export, or null when the text isn't one.
+ * The export lists each offer once per language; repeats are skipped.
+ */
+export function parsePowerToChooseCsv(
+  csv: string,
+  options: PowerToChooseOptions = {}
+): PlanImportResult | null {
+  const rows = splitCsvRows(csv);
+  if (rows.length === 0 || !isPowerToChooseCsv(rows[0])) {
+    return null;
+  }
+
+  const header = parseCsvLine(rows[0]);
+  const state = (options.state || 'TX').toUpperCase();
+  const plans: EnergyPlan[] = [];
+  const skipped: SkippedPlan[] = [];
+  const seen = new Map<string, number>();
+
+  rows.slice(1).forEach((line, index) => {
+    const row = index + 1;
+    const cells = parseCsvLine(line);
+    const record: PlanRecord = Object.fromEntries(
+      header.map((name, column) => [name, cells[column] ?? ''])
+    );
+    const plan = toEnergyPlan(record, state);
+    if (typeof plan === 'string') {
+      skipped.push({ row, reason: plan });
+      return;
+    }
+
+    const firstRow = seen.get(plan.planId);
+    if (firstRow !== undefined) {
+      skipped.push({ row, reason: `same offer as row ${firstRow}` });
+      return;
+    }
+    seen.set(plan.planId, row);
+    plans.push(plan);
+  });
+
+  return { plans, skipped };
+}
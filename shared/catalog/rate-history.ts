@@ -0,0 +1,203 @@
+/**
+ * Plan rate history
+ *
+ * Each catalog import that changes a plan's pricing records a new rate
+ * version, so a plan recommended months ago can be compared with what it
+ * costs today.
+ */
+
+import { estimateMonthlyBill } from '../simulation';
+import type { EnergyPlan, PlanRateVersion } from '../types';
+import { roundRate } from './plan-fields';
+
+/**
+ * A stored plan as read back before an import, with its record timestamps
+ */
+export type StoredCatalogPlan = EnergyPlan & {
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+/**
+ * How a plan's price moved between two rate versions
+ */
+export interface PlanRateChange {
+  from: PlanRateVersion;
+  to: PlanRateVersion;
+  change: number; // $/kWh at 1000 kWh a month; positive when the price went up
+}
+
+// Usage the price change is measured at, as on the labels' middle column
+const COMPARISON_KWH = 1000;
+
+const pricingOf = (
+  plan: EnergyPlan | PlanRateVersion
+): Omit<PlanRateVersion, 'version' | 'effectiveFrom'> => {
+  const pricing: Omit<PlanRateVersion, 'version' | 'effectiveFrom'> = {
+    ratePerKwh: plan.ratePerKwh,
+  };
+  if (plan.averagePrices) {
+    pricing.averagePrices = plan.averagePrices;
+  }
+  if (plan.charges) {
+    pricing.charges = plan.charges;
+  }
+  if (plan.billCredits && plan.billCredits.length > 0) {
+    pricing.billCredits = plan.billCredits;
+  }
+  if (plan.timeOfUseRates && plan.timeOfUseRates.length > 0) {
+    pricing.timeOfUseRates = plan.timeOfUseRates;
+  }
+  if (plan.rateTiers && plan.rateTiers.length > 0) {
+    pricing.rateTiers = plan.rateTiers;
+  }
+  if (plan.promotionalPeriods && plan.promotionalPeriods.length > 0) {
+    pricing.promotionalPeriods = plan.promotionalPeriods;
+  }
+  if (plan.rolloverRatePerKwh !== undefined) {
+    pricing.rolloverRatePerKwh = plan.rolloverRatePerKwh;
+  }
+  return pricing;
+};
+
+// JSON with object keys sorted, so pricing read back from the database
+// compares equal to the same pricing from an import
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, field: unknown) =>
+    field && typeof field === 'object' && !Array.isArray(field)
+      ? Object.fromEntries(
+          Object.entries(field as Record<string, unknown>)
+            .filter(([, entry]) => entry !== undefined && entry !== null)
+            .sort(([a], [b]) => a.localeCompare(b))
+        )
+      : field
+  );
+
+const samePricing = (
+  a: EnergyPlan | PlanRateVersion,
+  b: EnergyPlan | PlanRateVersion
+): boolean => canonicalJson(pricingOf(a)) === canonicalJson(pricingOf(b));
+
+/**
+ * A plan's rate history after an import.
+ *
+ * The stored history is kept when the imported pricing matches its latest
+ * version; otherwise a new version effective from `now` is appended. Plans
+ * stored before histories were kept start from their stored pricing.
+ */
+export function recordRateVersion(
+  stored: StoredCatalogPlan | undefined,
+  plan: EnergyPlan,
+  now: string
+): PlanRateVersion[] {
+  const history: PlanRateVersion[] =
+    stored?.rateHistory && stored.rateHistory.length > 0
+      ? stored.rateHistory
+      : stored
+        ? [
+            {
+              version: 1,
+              ...pricingOf(stored),
+              effectiveFrom: stored.createdAt || stored.updatedAt || now,
+            },
+          ]
+        : [];
+  const latest = history[history.length - 1];
+  if (latest && samePricing(latest, plan)) {
+    return history;
+  }
+  return [
+    ...history,
+    {
+      version: (latest?.version ?? 0) + 1,
+      ...pricingOf(plan),
+      effectiveFrom: now,
+    },
+  ];
+}
+
+/**
+ * The rate version in effect at a date, or undefined before the first one
+ */
+export function rateVersionAt(
+  plan: Pick<EnergyPlan, 'rateHistory'>,
+  date: string
+): PlanRateVersion | undefined {
+  const time = new Date(date).getTime();
+  return (plan.rateHistory || [])
+    .filter(version => new Date(version.effectiveFrom).getTime() <= time)
+    .pop();
+}
+
+/**
+ * How two rate versions' prices are compared: the published all-in averages
+ * when both labels list them, or the simulated bill when neither does
+ */
+export type PriceMeasure = 'published' | 'simulated';
+
+// Charges a simulated bill includes; they must match for two simulated prices to compare
+const knownCharges = (version: PlanRateVersion): string =>
+  Object.entries(version.charges || {})
+    .filter(([, charge]) => charge !== undefined && charge !== null)
+    .map(([name]) => name)
+    .sort()
+    .join('|');
+
+/**
+ * The measure two rate versions can be compared on, or null when they have
+ * none in common: a published all-in price against a simulated one, or
+ * simulated prices covering different charges, would show a change in price
+ * that is only a change in what is known about it
+ */
+export function sharedPriceMeasure(
+  a: PlanRateVersion,
+  b: PlanRateVersion
+): PriceMeasure | null {
+  const aPublished = a.averagePrices?.kwh1000 !== undefined;
+  const bPublished = b.averagePrices?.kwh1000 !== undefined;
+  if (aPublished && bPublished) {
+    return 'published';
+  }
+  if (!aPublished && !bPublished && knownCharges(a) === knownCharges(b)) {
+    return 'simulated';
+  }
+  return null;
+}
+
+/**
+ * $/kWh of a rate version at 1000 kWh, measured as published on the label or
+ * from the simulated bill
+ */
+export function comparablePrice(
+  version: PlanRateVersion,
+  measure: PriceMeasure
+): number {
+  return measure === 'published' && version.averagePrices?.kwh1000 !== undefined
+    ? version.averagePrices.kwh1000
+    : roundRate(estimateMonthlyBill(version, COMPARISON_KWH) / COMPARISON_KWH);
+}
+
+/**
+ * How a plan's price changed since a date, e.g. since it was recommended.
+ * Null when the pricing is unchanged, the history doesn't reach back that
+ * far, or the two versions' prices can't be measured the same way.
+ */
+export function rateChangeSince(
+  plan: Pick<EnergyPlan, 'rateHistory'>,
+  date: string
+): PlanRateChange | null {
+  const history = plan.rateHistory || [];
+  const from = rateVersionAt(plan, date);
+  const to = history[history.length - 1];
+  if (!from || !to || from.version === to.version) {
+    return null;
+  }
+  const measure = sharedPriceMeasure(from, to);
+  if (!measure) {
+    return null;
+  }
+  const change = roundRate(
+    comparablePrice(to, measure) - comparablePrice(from, measure)
+  );
+  return change === 0 ? null : { from, to, change };
+}
@@ -0,0 +1,86 @@
+import {
+  assessUsageDataQuality,
+  calculateConfidence,
+  getPlanCompleteness,
+} from '../data-quality';
+import type { UsageDataPoint } from '../../types';
+
+const createPoints = (
+  months: number[],
+  estimated: number[] = []
+): UsageDataPoint[] =>
+  months.map(month => ({
+    timestamp: `2024-${String(month).padStart(2, '0')}-01T00:00:00Z`,
+    kwh: 1000,
+    estimated: estimated.includes(month) || undefined,
+  }));
+
+const allMonths = Array.from({ length: 12 }, (_, i) => i + 1);
+
+describe('assessUsageDataQuality', () => {
+  it('should rate a full year of bills as actual', () => {
+    const quality = assessUsageDataQuality(createPoints(allMonths));
+
+    expect(quality.dataQuality).toBe('actual');
+    expect(quality.usageScore).toBe(1);
+    expect(quality.monthsOfData).toBe(12);
+    expect(quality.suggestions).toEqual([]);
+  });
+
+  it('should name the missing months to upload', () => {
+    const quality = assessUsageDataQuality(
+      createPoints(allMonths.filter(month => month !== 7 && month !== 8))
+    );
+
+    expect(quality.dataQuality).toBe('projected');
+    expect(quality.missingMonths).toEqual(['July', 'August']);
+    expect(quality.usageScore).toBeCloseTo(10 / 12, 2);
+    expect(quality.suggestions).toContain(
+      'Upload your July and August bills to improve accuracy'
+    );
+  });
+
+  it('should count estimated months at half weight', () => {
+    const quality = assessUsageDataQuality(createPoints(allMonths, [3, 4]));
+
+    expect(quality.dataQuality).toBe('estimated');
+    expect(quality.estimatedMonths).toEqual(['March', 'April']);
+    expect(quality.usageScore).toBeCloseTo(11 / 12, 2);
+    expect(quality.suggestions).toContain(
+      'Replace the estimated usage for March and April with your actual bills'
+    );
+  });
+
+  it('should ask for bills when there is no usage', () => {
+    const quality = assessUsageDataQuality([]);
+
+    expect(quality.usageScore).toBe(0);
+    expect(quality.missingMonths).toHaveLength(12);
+    expect(quality.suggestions).toHaveLength(1);
+  });
+});
+
+describe('calculateConfidence', () => {
+  it('should blend usage quality with plan completeness', () => {
+    const usageQuality = assessUsageDataQuality(createPoints(allMonths));
+
+    expect(
+      calculateConfidence(usageQuality, {
+        contractLengthMonths: 12,
+        earlyTerminationFee: 150,
+        supplierRating: 4.2,
+        charges: { baseChargeMonthly: 5 },
+      })
+    ).toBe(1);
+    expect(calculateConfidence(usageQuality, {})).toBe(0.8);
+    expect(calculateConfidence(usageQuality)).toBe(1);
+  });
+});
+
+describe('getPlanCompleteness', () => {
+  it('should score the share of published plan terms', () => {
+    expect(
+      getPlanCompleteness({ contractLengthMonths: 12, supplierRating: 4 })
+    ).toBe(0.5);
+  });
+});
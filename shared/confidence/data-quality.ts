@@ -0,0 +1,166 @@
+/**
+ * Recommendation confidence
+ *
+ * Scores how far a projected cost can be trusted from the usage behind it
+ * (months covered, estimated vs. billed months) and how completely a plan's
+ * terms are known, and tells the customer what to upload to improve it.
+ */
+
+import type { DataQuality, EnergyPlan, UsageDataPoint } from '../types';
+import { groupUsageByMonth } from '../simulation';
+
+/**
+ * Weights used to score confidence
+ */
+export const CONFIDENCE_WEIGHTS = {
+  usage: 0.8, // share of the score from usage data quality
+  planTerms: 0.2, // share of the score from plan data completeness
+  estimatedMonth: 0.5, // an estimated month counts as half a billed month
+} as const;
+
+/**
+ * Plan fields that affect the projected cost or the risk of switching
+ */
+const PLAN_TERM_FIELDS = [
+  'contractLengthMonths',
+  'earlyTerminationFee',
+  'supplierRating',
+  'charges',
+] as const;
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/**
+ * Quality of the usage data behind a set of recommendations
+ */
+export interface UsageDataQuality {
+  dataQuality: DataQuality;
+  usageScore: number; // 0-1
+  monthsOfData: number; // calendar months with billed or metered usage
+  estimatedMonths: string[]; // calendar months with only estimated usage
+  missingMonths: string[]; // calendar months with no usage
+  suggestions: string[];
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const formatList = (items: string[]): string =>
+  items.length <= 1
+    ? items.join('')
+    : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+/**
+ * Assess the usage data behind a recommendation
+ * Each calendar month is classed by its most recent year of data, matching
+ * how the bill simulation builds its usage profile
+ */
+export function assessUsageDataQuality(
+  usagePoints: UsageDataPoint[]
+): UsageDataQuality {
+  const latestByCalendarMonth = new Map<number, UsageDataPoint[]>();
+  // Sorted oldest first, so the most recent year wins for each calendar month
+  for (const monthUsage of groupUsageByMonth(usagePoints)) {
+    if (monthUsage.kwh > 0) {
+      latestByCalendarMonth.set(monthUsage.month, monthUsage.points);
+    }
+  }
+
+  const estimatedMonths: string[] = [];
+  const missingMonths: string[] = [];
+  let monthsOfData = 0;
+  MONTH_NAMES.forEach((name, i) => {
+    const points = latestByCalendarMonth.get(i + 1);
+    if (!points) {
+      missingMonths.push(name);
+    } else if (points.every(point => point.estimated)) {
+      estimatedMonths.push(name);
+    } else {
+      monthsOfData++;
+    }
+  });
+
+  const usageScore = round(
+    (monthsOfData +
+      estimatedMonths.length * CONFIDENCE_WEIGHTS.estimatedMonth) /
+      12
+  );
+  const dataQuality: DataQuality =
+    missingMonths.length > 0
+      ? 'projected'
+      : estimatedMonths.length > 0
+        ? 'estimated'
+        : 'actual';
+
+  const suggestions: string[] = [];
+  if (missingMonths.length === 12) {
+    suggestions.push(
+      'Upload a year of utility bills so plans are priced against your real usage'
+    );
+  } else if (missingMonths.length > 3) {
+    suggestions.push(
+      `Upload bills for the ${missingMonths.length} missing months (${formatList(missingMonths)}) to improve accuracy`
+    );
+  } else if (missingMonths.length > 0) {
+    suggestions.push(
+      `Upload your ${formatList(missingMonths)} ${missingMonths.length === 1 ? 'bill' : 'bills'} to improve accuracy`
+    );
+  }
+  if (estimatedMonths.length === 12) {
+    suggestions.push(
+      'Replace your average monthly usage with your actual bills to capture seasonal swings'
+    );
+  } else if (estimatedMonths.length > 0) {
+    suggestions.push(
+      `Replace the estimated usage for ${formatList(estimatedMonths)} with your actual bills`
+    );
+  }
+
+  return {
+    dataQuality,
+    usageScore,
+    monthsOfData,
+    estimatedMonths,
+    missingMonths,
+    suggestions,
+  };
+}
+
+/**
+ * Share of a plan's cost and risk terms that are published (0-1)
+ */
+export function getPlanCompleteness(plan: Partial<EnergyPlan>): number {
+  const known = PLAN_TERM_FIELDS.filter(
+    field => plan[field] !== undefined && plan[field] !== null
+  ).length;
+  return round(known / PLAN_TERM_FIELDS.length);
+}
+
+/**
+ * Confidence in a recommendation (0-1)
+ * Without a plan, only the usage data is scored
+ */
+export function calculateConfidence(
+  usageQuality: Pick<UsageDataQuality, 'usageScore'>,
+  plan?: Partial<EnergyPlan>
+): number {
+  if (!plan) {
+    return usageQuality.usageScore;
+  }
+  return round(
+    usageQuality.usageScore * CONFIDENCE_WEIGHTS.usage +
+      getPlanCompleteness(plan) * CONFIDENCE_WEIGHTS.planTerms
+  );
+}
@@ -0,0 +1,5 @@
+/**
+ * Shared recommendation confidence for frontend and backend
+ */
+
+export * from './data-quality';
@@ -0,0 +1,149 @@
+import {
+  createFixtureProvider,
+  createLlmProvider,
+  createOpenRouterProvider,
+  createRecordingProvider,
+  DEFAULT_LLM_MODELS,
+  llmRequestKey,
+  parseLlmJson,
+  resolveLlmModels,
+  type LlmFixture,
+  type LlmRequest,
+} from '..';
+
+const request: LlmRequest = {
+  task: 'normalize-data',
+  messages: [
+    { role: 'system', content: 'Return only valid JSON.' },
+    { role: 'user', content: 'Normalize {"kwh": 812}' },
+  ],
+  json: true,
+  temperature: 0.1,
+};
+
+describe('parseLlmJson', () => {
+  it('should strip markdown code fences', () => {
+    expect(parseLlmJson('```json\n{"kwh": 812}\n```')).toEqual({ kwh: 812 });
+    expect(parseLlmJson('')).toEqual({});
+  });
+});
+
+describe('resolveLlmModels', () => {
+  it('should let LLM_MODEL_<TASK> override the default model', () => {
+    const models = resolveLlmModels({
+      LLM_MODEL_READ_STATEMENT_VISION: 'google/gemini-2.0-flash',
+      LLM_MODEL_NORMALIZE_DATA: ' ',
+    });
+
+    expect(models['read-statement-vision']).toBe('google/gemini-2.0-flash');
+    expect(models['normalize-data']).toBe(DEFAULT_LLM_MODELS['normalize-data']);
+  });
+});
+
+describe('createFixtureProvider', () => {
+  it('should replay the answer recorded for the same request', async () => {
+    const fixtures: LlmFixture[] = [
+      { task: 'normalize-data', content: '{"fallback": true}' },
+      {
+        task: 'normalize-data',
+        key: llmRequestKey(request),
+        content: '{"kwh": 812}',
+      },
+    ];
+    const provider = createFixtureProvider(fixtures);
+
+    await expect(provider.complete(request)).resolves.toEqual({
+      content: '{"kwh": 812}',
+      model: 'fixture',
+    });
+    await expect(
+      provider.complete({
+        ...request,
+        messages: [{ role: 'user', content: 'Something else' }],
+      })
+    ).resolves.toEqual({ content: '{"fallback": true}', model: 'fixture' });
+    await expect(
+      provider.complete({ ...request, task: 'recommendations' })
+    ).rejects.toThrow('No recorded LLM response for recommendations');
+  });
+
+  it('should replay what a recording provider captured', async () => {
+    const recorded: LlmFixture[] = [];
+    const live = createRecordingProvider(
+      createFixtureProvider([
+        { task: 'normalize-data', content: '{"recorded": true}' },
+      ]),
+      recorded
+    );
+    await live.complete(request);
+
+    const replay = createFixtureProvider(recorded);
+    expect(recorded[0].key).toBe(llmRequestKey(request));
+    await expect(replay.complete(request)).resolves.toEqual({
+      content: '{"recorded": true}',
+      model: 'fixture',
+    });
+  });
+});
+
+describe('createOpenRouterProvider', () => {
+  it('should send the task model and options to chat completions', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        model: 'openai/gpt-3.5-turbo',
+        choices: [{ message: { content: '{"kwh": 812}' } }],
+      }),
+    });
+    const provider = createOpenRouterProvider({
+      apiKey: 'test-key',
+      models: DEFAULT_LLM_MODELS,
+      fetch: fetchMock,
+    });
+
+    await expect(provider.complete(request)).resolves.toEqual({
+      content: '{"kwh": 812}',
+      model: 'openai/gpt-3.5-turbo',
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://openrouter.ai/api/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer test-key');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'openai/gpt-3.5-turbo',
+      messages: request.messages,
+      temperature: 0.1,
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('should throw with the status of failed requests', async () => {
+    const provider = createOpenRouterProvider({
+      apiKey: 'test-key',
+      models: DEFAULT_LLM_MODELS,
+      fetch: jest.fn().mockResolvedValue({
+        ok: false,
+        status: 429,
+        text: async () => 'Rate limited',
+      }),
+    });
+
+    await expect(provider.complete(request)).rejects.toThrow(
+      'OpenRouter request failed (429): Rate limited'
+    );
+  });
+});
+
+describe('createLlmProvider', () => {
+  it('should pick the provider from the environment', () => {
+    expect(createLlmProvider({}).configured).toBe(false);
+    expect(createLlmProvider({ OPENROUTER_API_KEY: 'key' }).name).toBe(
+      'openrouter'
+    );
+    expect(
+      createLlmProvider({
+        LLM_PROVIDER: 'fixture',
+        LLM_FIXTURES: '[{"task":"normalize-data","content":"{}"}]',
+      }).name
+    ).toBe('fixture');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Fixture provider
+ *
+ * Replays recorded model answers so handlers can be run and tested offline.
+ * A fixture answers the request it was recorded for (same task and
+ * messages); a fixture without a key answers any request for its task.
+ */
+
+import { hashString } from '../statements';
+import type {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmTask,
+} from './llm-provider';
+
+export interface LlmFixture {
+  task: LlmTask;
+  key?: string; // llmRequestKey of the recorded request
+  content: string;
+}
+
+/**
+ * Stable key for a request: its task and messages, ignoring sampling options
+ */
+export function llmRequestKey(request: LlmRequest): string {
+  return hashString(
+    JSON.stringify({ task: request.task, messages: request.messages })
+  );
+}
+
+export function createFixtureProvider(fixtures: LlmFixture[]): LlmProvider {
+  return {
+    name: 'fixture',
+    configured: true,
+    async complete(request: LlmRequest) {
+      const key = llmRequestKey(request);
+      const fixture =
+        fixtures.find(f => f.task === request.task && f.key === key) ||
+        fixtures.find(f => f.task === request.task && !f.key);
+      if (!fixture) {
+        throw new Error(
+          `No recorded LLM response for ${request.task} (key ${key})`
+        );
+      }
+      return { content: fixture.content, model: 'fixture' };
+    },
+  };
+}
+
+/**
+ * Wrap a provider so every answer is also recorded as a fixture
+ */
+export function createRecordingProvider(
+  provider: LlmProvider,
+  recorded: LlmFixture[]
+): LlmProvider {
+  return {
+    name: `${provider.name} (recording)`,
+    configured: provider.configured,
+    async complete(request: LlmRequest): Promise<LlmResponse> {
+      const response = await provider.complete(request);
+      recorded.push({
+        task: request.task,
+        key: llmRequestKey(request),
+        content: response.content,
+      });
+      return response;
+    },
+  };
+}
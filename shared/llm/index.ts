@@ -0,0 +1,8 @@
+/**
+ * Shared LLM providers for the Lambdas
+ */
+
+export * from './llm-provider';
+export * from './openrouter-provider';
+export * from './fixture-provider';
+export * from './llm-config';
@@ -0,0 +1,59 @@
+/**
+ * LLM config
+ *
+ * Picks the provider and the model for each task from environment variables:
+ * - LLM_PROVIDER: "openrouter" (default) or "fixture"
+ * - LLM_FIXTURES: JSON array of LlmFixture answers for the fixture provider
+ * - LLM_MODEL_<TASK>: model for a task, e.g. LLM_MODEL_READ_STATEMENT_VISION
+ * - OPENROUTER_API_KEY: key for the OpenRouter provider
+ */
+
+import { createFixtureProvider, type LlmFixture } from './fixture-provider';
+import type { LlmProvider, LlmTask } from './llm-provider';
+import { createOpenRouterProvider } from './openrouter-provider';
+
+export type LlmEnv = Record<string, string | undefined>;
+
+export const DEFAULT_LLM_MODELS: Record<LlmTask, string> = {
+  'normalize-data': 'openai/gpt-3.5-turbo', // cheap model for field mapping
+  'read-statement-text': 'openai/gpt-4-turbo',
+  'read-statement-vision': 'openai/gpt-4o', // best vision for scans and images
+  recommendations: 'openai/gpt-4-turbo',
+};
+
+// normalize-data -> LLM_MODEL_NORMALIZE_DATA
+export const llmModelVariable = (task: LlmTask): string =>
+  `LLM_MODEL_${task.toUpperCase().replace(/-/g, '_')}`;
+
+/**
+ * The model for each task, with LLM_MODEL_<TASK> overriding the default
+ */
+export function resolveLlmModels(env: LlmEnv): Record<LlmTask, string> {
+  const models = { ...DEFAULT_LLM_MODELS };
+  (Object.keys(models) as LlmTask[]).forEach(task => {
+    const model = env[llmModelVariable(task)]?.trim();
+    if (model) {
+      models[task] = model;
+    }
+  });
+  return models;
+}
+
+/**
+ * The provider the environment asks for
+ * Pass fixtures to replay them instead of reading LLM_FIXTURES.
+ */
+export function createLlmProvider(
+  env: LlmEnv,
+  fixtures?: LlmFixture[]
+): LlmProvider {
+  if (env.LLM_PROVIDER === 'fixture') {
+    return createFixtureProvider(
+      fixtures || (JSON.parse(env.LLM_FIXTURES || '[]') as LlmFixture[])
+    );
+  }
+  return createOpenRouterProvider({
+    apiKey: env.OPENROUTER_API_KEY || '',
+    models: resolveLlmModels(env),
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * LLM provider
+ *
+ * The interface the Lambdas call models through, so a handler doesn't know
+ * whether its answers come from OpenRouter or from recorded fixtures.
+ */
+
+/**
+ * What a model call is for; each task has its own configurable model
+ */
+export type LlmTask =
+  | 'normalize-data'
+  | 'read-statement-text'
+  | 'read-statement-vision'
+  | 'recommendations';
+
+export type LlmContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export type LlmMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | LlmContentPart[] };
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // ask for a JSON object answer
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string; // model that answered, or "fixture" for recorded answers
+}
+
+export interface LlmProvider {
+  name: string;
+  configured: boolean; // false when calls can't succeed, e.g. no API key
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+/**
+ * Parse a JSON answer, without the markdown code fences models sometimes add
+ */
+export function parseLlmJson(content: string) {
+  const cleaned = content
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+  return JSON.parse(cleaned || '{}');
+}
@@ -0,0 +1,65 @@
+/**
+ * OpenRouter provider
+ *
+ * Calls OpenRouter's OpenAI-compatible chat completions endpoint, with the
+ * model for each task taken from the LLM config.
+ */
+
+import type { LlmProvider, LlmRequest, LlmTask } from './llm-provider';
+
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+export interface OpenRouterOptions {
+  apiKey: string;
+  models: Record<LlmTask, string>;
+  baseUrl?: string;
+  fetch?: typeof fetch; // for tests
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+export function createOpenRouterProvider(
+  options: OpenRouterOptions
+): LlmProvider {
+  const baseUrl = options.baseUrl || OPENROUTER_BASE_URL;
+
+  return {
+    name: 'openrouter',
+    configured: Boolean(options.apiKey),
+    async complete(request: LlmRequest) {
+      const model = options.models[request.task];
+      const fetchFn = options.fetch || fetch;
+      const response = await fetchFn(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${options.apiKey}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': 'https://sparksave.app',
+        },
+        body: JSON.stringify({
+          model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: request.json ? { type: 'json_object' } : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(
+          `OpenRouter request failed (${response.status})${detail ? `: ${detail}` : ''}`
+        );
+      }
+
+      const completion = (await response.json()) as ChatCompletion;
+      return {
+        content: completion.choices?.[0]?.message?.content || '',
+        model: completion.model || model,
+      };
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import {
+  getEnergyUnitFactor,
+  parseLocalDateTime,
+  parseUsageTimestamp,
+  toDollars,
+  toDollarsPerKwh,
+  toFiniteNumber,
+  toKwh,
+} from '..';
+
+describe('unit conversion', () => {
+  it('should convert energy units to kWh', () => {
+    expect(toKwh(1500, 'Wh')).toBe(1.5);
+    expect(toKwh(2, 'MWh')).toBe(2000);
+    expect(toKwh(3.5, 'million kilowatt hours')).toBe(3500000);
+    expect(toKwh(1, 'thousand megawatthours')).toBe(1000000);
+    expect(toKwh(7.2e6, 'J')).toBeCloseTo(2);
+    expect(toKwh(42, 'kWh')).toBe(42);
+    expect(getEnergyUnitFactor('therms')).toBeNull();
+  });
+
+  it('should convert cents and scaled dollars to dollars', () => {
+    expect(toDollars(1250, 'cents')).toBe(12.5);
+    expect(toDollars(2.5, 'million dollars')).toBe(2500000);
+    expect(toDollars(12.5, 'USD')).toBe(12.5);
+  });
+
+  it('should convert rates to $/kWh', () => {
+    expect(toDollarsPerKwh(14.5, 'cents per kilowatt-hour')).toBeCloseTo(0.145);
+    expect(toDollarsPerKwh(120, '$/MWh')).toBeCloseTo(0.12);
+    expect(toDollarsPerKwh(0.12)).toBe(0.12);
+  });
+
+  it('should read numeric strings', () => {
+    expect(toFiniteNumber('$1,204.50')).toBe(1204.5);
+    expect(toFiniteNumber('n/a')).toBeNull();
+    expect(toFiniteNumber(null)).toBeNull();
+  });
+});
+
+describe('parseUsageTimestamp', () => {
+  it('should read epoch seconds and milliseconds', () => {
+    expect(parseUsageTimestamp(1736899200)).toBe('2025-01-15T00:00:00.000Z');
+    expect(parseUsageTimestamp('1736899200000')).toBe(
+      '2025-01-15T00:00:00.000Z'
+    );
+  });
+
+  it('should write times with a time of day in local time', () => {
+    expect(parseUsageTimestamp('2024-07-01T19:00:00Z', 'America/Chicago')).toBe(
+      '2024-07-01T14:00:00-05:00'
+    );
+    expect(parseUsageTimestamp('2024-01-15 14:00', 'America/Chicago')).toBe(
+      '2024-01-15T14:00:00-06:00'
+    );
+    expect(parseUsageTimestamp('2024-01-15 14:00')).toBe(
+      '2024-01-15T14:00:00.000Z'
+    );
+  });
+
+  it('should keep dates and months at midnight UTC', () => {
+    expect(parseUsageTimestamp('01/15/2025', 'America/Chicago')).toBe(
+      '2025-01-15T00:00:00.000Z'
+    );
+    expect(parseUsageTimestamp('2024-03')).toBe('2024-03-01T00:00:00.000Z');
+    expect(parseUsageTimestamp('January 15, 2025')).toBe(
+      '2025-01-15T00:00:00.000Z'
+    );
+    expect(parseUsageTimestamp('not a date')).toBeNull();
+  });
+
+  it('should combine a date and a local time', () => {
+    expect(
+      parseLocalDateTime('2024-03-10', '03:00', 'America/Los_Angeles')
+    ).toBe('2024-03-10T03:00:00-07:00');
+    expect(
+      parseLocalDateTime('2024-11-04', '9:15', 'America/Los_Angeles')
+    ).toBe('2024-11-04T09:15:00-08:00');
+  });
+});
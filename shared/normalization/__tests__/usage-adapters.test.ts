@@ -0,0 +1,260 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  getUsageAdapter,
+  normalizeUsageData,
+  parseCsvUsage,
+  parseEiaUsage,
+  parseJsonUsage,
+  parseOpenEiUsage,
+  parsePgeUsage,
+  PGE_UTILITY_NAME,
+} from '..';
+
+const readSample = (filename: string): string =>
+  readFileSync(
+    join(__dirname, '../../../sample-statements', filename),
+    'utf-8'
+  );
+
+describe('parseEiaUsage', () => {
+  const response = {
+    response: {
+      data: [
+        {
+          period: '2024-07',
+          stateid: 'TX',
+          stateDescription: 'Texas',
+          sectorid: 'RES',
+          sales: 20000,
+          'sales-units': 'million kilowatt hours',
+          revenue: 3000,
+          'revenue-units': 'million dollars',
+          customers: 12500000,
+        },
+        {
+          period: '2024-07',
+          stateid: 'TX',
+          sectorid: 'COM',
+          sales: 15000,
+          customers: 1500000,
+        },
+        {
+          period: '2024-06',
+          stateid: 'TX',
+          stateDescription: 'Texas',
+          sectorid: 'RES',
+          sales: 17500,
+          customers: 12500000,
+          price: 15,
+          'price-units': 'cents per kilowatt-hour',
+        },
+      ],
+    },
+  };
+
+  it('should average residential sales and revenue per customer', () => {
+    const usage = parseEiaUsage(response);
+
+    expect(usage!.utilityInfo.utilityName).toBe(
+      'EIA Texas residential average'
+    );
+    expect(usage!.usageDataPoints).toHaveLength(2);
+    expect(usage!.usageDataPoints[0]).toMatchObject({
+      timestamp: '2024-07-01T00:00:00.000Z',
+      kwh: 1600,
+      cost: 240,
+      periodEnd: '2024-08-01T00:00:00.000Z',
+      estimated: true,
+    });
+    // No revenue: cost from the average price in cents
+    expect(usage!.usageDataPoints[1].kwh).toBe(1400);
+    expect(usage!.usageDataPoints[1].cost).toBeCloseTo(210);
+  });
+
+  it('should not read other responses', () => {
+    expect(parseEiaUsage({ data: [] })).toBeNull();
+  });
+});
+
+describe('parseOpenEiUsage', () => {
+  const loadProfile = [
+    'Date/Time,Electricity:Facility [kW](Hourly),Heating:Gas [kW](Hourly)',
+    ' 01/01  01:00:00,0.62,1.1',
+    ' 01/01  02:00:00,0.55,1.2',
+    ' 07/15  18:00:00,2.4,0',
+  ].join('\n');
+
+  it('should read an hour-ending load profile as local hourly usage', () => {
+    const usage = parseOpenEiUsage(loadProfile, {
+      year: 2024,
+      timeZone: 'America/Chicago',
+    });
+
+    expect(usage!.usageDataPoints).toEqual([
+      { timestamp: '2024-01-01T00:00:00-06:00', kwh: 0.62, estimated: true },
+      { timestamp: '2024-01-01T01:00:00-06:00', kwh: 0.55, estimated: true },
+      { timestamp: '2024-07-15T17:00:00-05:00', kwh: 2.4, estimated: true },
+    ]);
+  });
+
+  it('should take the utility and rate from rate database items', () => {
+    const usage = parseOpenEiUsage(
+      {
+        loadProfile,
+        items: [
+          {
+            utility: 'Austin Energy',
+            name: 'Residential Service',
+            energyratestructure: [[{ rate: 0.098, adj: 0.012, unit: 'kWh' }]],
+            fixedchargefirstmeter: 15,
+            fixedchargeunits: '$/month',
+          },
+        ],
+      },
+      { year: 2024 }
+    );
+
+    expect(usage!.utilityInfo.utilityName).toBe('Austin Energy');
+    expect(usage!.currentPlan).toEqual({
+      supplierName: 'Austin Energy',
+      planName: 'Residential Service',
+      ratePerKwh: expect.closeTo(0.11),
+      charges: { baseChargeMonthly: 15 },
+    });
+  });
+});
+
+describe('parsePgeUsage', () => {
+  it('should read Download My Data interval exports in Pacific time', () => {
+    const csv = [
+      'Name,JANE DOE',
+      'Address,"123 MAIN ST, SAN FRANCISCO CA 94110"',
+      'Account Number,1234567890',
+      'Service,Service 1',
+      '',
+      'TYPE,DATE,START TIME,END TIME,USAGE (kWh),COST,NOTES',
+      'Electric usage,2024-07-01,00:00,00:59,0.52,$0.17,',
+      'Electric usage,2024-07-01,01:00,01:59,0.48,$0.16,',
+      'Natural gas usage,2024-07-01,00:00,23:59,1.2,$2.10,',
+    ].join('\n');
+
+    const usage = parsePgeUsage(csv);
+
+    expect(usage!.utilityInfo.utilityName).toBe(PGE_UTILITY_NAME);
+    expect(usage!.customerInfo).toEqual({
+      customerId: '1234567890',
+      address: { street: '123 MAIN ST, SAN FRANCISCO CA 94110' },
+    });
+    expect(usage!.usageDataPoints).toEqual([
+      { timestamp: '2024-07-01T00:00:00-07:00', kwh: 0.52, cost: 0.17 },
+      { timestamp: '2024-07-01T01:00:00-07:00', kwh: 0.48, cost: 0.16 },
+    ]);
+  });
+
+  it('should read bill exports with their periods', () => {
+    const csv = [
+      'TYPE,START DATE,END DATE,USAGE (kWh),COST,NOTES',
+      'Electric usage,2024-06-03,2024-07-02,412,$131.20,',
+    ].join('\n');
+
+    expect(parsePgeUsage(csv)!.usageDataPoints).toEqual([
+      {
+        timestamp: '2024-06-03T00:00:00.000Z',
+        kwh: 412,
+        cost: 131.2,
+        periodStart: '2024-06-03T00:00:00.000Z',
+        periodEnd: '2024-07-02T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should read Share My Data Green Button XML', () => {
+    const usage = parsePgeUsage(readSample('green-button-monthly.xml'));
+
+    expect(usage!.utilityInfo.utilityName).toBe(PGE_UTILITY_NAME);
+    expect(usage!.usageDataPoints.length).toBeGreaterThan(0);
+  });
+});
+
+describe('generic adapters', () => {
+  it('should map common JSON field names and units', () => {
+    const usage = parseJsonUsage({
+      utility_name: 'Oncor',
+      account_id: 'ACCT-9',
+      readings: [
+        { reading_date: '2024-01-15', usage_wh: 850500, cost_cents: 10206 },
+        { date: 1707955200, consumption: 0.92, unit: 'MWh', amount: '$110.44' },
+        { date: '2024-03-15', note: 'no usage' },
+      ],
+    });
+
+    expect(usage).toEqual({
+      customerInfo: { customerId: 'ACCT-9' },
+      utilityInfo: { utilityName: 'Oncor' },
+      usageDataPoints: [
+        { timestamp: '2024-01-15T00:00:00.000Z', kwh: 850.5, cost: 102.06 },
+        { timestamp: '2024-02-15T00:00:00.000Z', kwh: 920, cost: 110.44 },
+      ],
+    });
+  });
+
+  it('should read CSV readings with units in the headers', () => {
+    const usage = parseCsvUsage(
+      'Interval Start,Usage (Wh),Cost\n2024-01-15 14:00,1250,$0.15',
+      { timeZone: 'America/Chicago' }
+    );
+
+    expect(usage!.usageDataPoints).toEqual([
+      { timestamp: '2024-01-15T14:00:00-06:00', kwh: 1.25, cost: 0.15 },
+    ]);
+  });
+
+  it('should fall back to known CSV statement layouts', () => {
+    const usage = parseCsvUsage(readSample('2024-01-statement.csv'));
+
+    expect(usage!.usageDataPoints.length).toBeGreaterThan(0);
+    expect(usage!.currentPlan?.ratePerKwh).toBeGreaterThan(0);
+  });
+});
+
+describe('normalizeUsageData', () => {
+  it('should pick the adapter from the data for undeclared sources', () => {
+    expect(getUsageAdapter('green_button', '').type).toBe('green_button');
+    expect(getUsageAdapter('wattbuy', { usage: [] }).type).toBe('json');
+    expect(getUsageAdapter('public_grid', 'Date,kWh\n').type).toBe('csv');
+    expect(
+      getUsageAdapter('palmetto', readSample('green-button-hourly.xml')).type
+    ).toBe('green_button');
+  });
+
+  it('should build and validate the customer usage data', () => {
+    const result = normalizeUsageData(
+      'json',
+      [{ date: '2024-01-15', kwh: 850 }],
+      'user-1'
+    );
+
+    expect(result.validation).toEqual({ valid: true, errors: [] });
+    expect(result.usageData).toMatchObject({
+      customerInfo: { customerId: 'user-1', address: {} },
+      utilityInfo: { utilityName: 'Unknown' },
+      aggregatedStats: { totalKwh: 850, peakMonth: 'January' },
+      billingInfo: {
+        billingPeriod: {
+          start: '2024-01-15T00:00:00.000Z',
+          end: '2024-01-15T00:00:00.000Z',
+        },
+      },
+    });
+  });
+
+  it('should report data the adapter cannot read', () => {
+    const result = normalizeUsageData('eia', { rows: [] }, 'user-1');
+
+    expect(result.usageData).toBeNull();
+    expect(result.validation.errors).toEqual([
+      'rawData is not in a format the eia adapter reads',
+    ]);
+  });
+});
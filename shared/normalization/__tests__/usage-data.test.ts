@@ -0,0 +1,77 @@
+import { buildCustomerUsageData, validateCustomerUsageData } from '..';
+
+describe('validateCustomerUsageData', () => {
+  const usageData = buildCustomerUsageData('user-1', {
+    utilityInfo: { utilityName: 'Oncor' },
+    usageDataPoints: [
+      {
+        timestamp: '2024-02-01T00:00:00.000Z',
+        kwh: 920.3,
+        cost: 110.44,
+      },
+      {
+        timestamp: '2024-01-01T00:00:00.000Z',
+        kwh: 850.5,
+        cost: 102.06,
+        periodStart: '2024-01-01T00:00:00.000Z',
+        periodEnd: '2024-01-31T00:00:00.000Z',
+      },
+    ],
+    currentPlan: { supplierName: 'TXU', ratePerKwh: 0.12 },
+  });
+
+  it('should accept built usage data', () => {
+    expect(usageData.usageDataPoints[0].timestamp).toBe(
+      '2024-01-01T00:00:00.000Z'
+    );
+    expect(usageData.billingInfo?.billingPeriod).toEqual({
+      start: '2024-01-01T00:00:00.000Z',
+      end: '2024-02-01T00:00:00.000Z',
+    });
+    expect(validateCustomerUsageData(usageData)).toEqual({
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it('should report every rule a model answer breaks', () => {
+    const result = validateCustomerUsageData({
+      ...usageData,
+      utilityInfo: { utilityName: '' },
+      usageDataPoints: [
+        { timestamp: 'last month', kwh: -4 },
+        {
+          timestamp: '2024-01-01T00:00:00.000Z',
+          kwh: 10,
+          cost: '12',
+          periodStart: '2024-01-31T00:00:00.000Z',
+          periodEnd: '2024-01-01T00:00:00.000Z',
+        },
+      ],
+      billingInfo: {
+        currentPlan: {
+          supplierName: 'TXU',
+          ratePerKwh: 0.12,
+          renewablePercentage: 140,
+        },
+      },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'utilityInfo.utilityName is required',
+      'usageDataPoints[0].timestamp must be an ISO 8601 datetime',
+      'usageDataPoints[0].kwh must be a number >= 0',
+      'usageDataPoints[1].cost must be a number >= 0',
+      'usageDataPoints[1].periodEnd must not be before periodStart',
+      'billingInfo.currentPlan.renewablePercentage must be between 0 and 100',
+    ]);
+  });
+
+  it('should require at least one usage point', () => {
+    expect(
+      validateCustomerUsageData({ ...usageData, usageDataPoints: [] }).errors
+    ).toEqual(['usageDataPoints must have at least one point']);
+    expect(validateCustomerUsageData(null).valid).toBe(false);
+  });
+});
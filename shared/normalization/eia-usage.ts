@@ -0,0 +1,112 @@
+/**
+ * EIA retail sales usage
+ *
+ * EIA API v2 electricity/retail-sales rows report a state's monthly sales,
+ * revenue and customer counts. Dividing by customers gives the average
+ * household's monthly usage and bill, used as an estimated usage profile
+ * when a customer has no bills of their own.
+ */
+
+import type { UsageDataPoint } from '../types';
+import { parseUsageTimestamp } from './timestamps';
+import { toDollars, toDollarsPerKwh, toFiniteNumber, toKwh } from './units';
+import type { SourceUsageData } from './usage-data';
+
+export interface EiaUsageOptions {
+  state?: string; // two-letter state, when the response covers several
+}
+
+interface EiaRetailSalesRow {
+  period?: string; // YYYY-MM
+  stateid?: string;
+  stateDescription?: string;
+  sectorid?: string;
+  sales?: number | string;
+  'sales-units'?: string;
+  revenue?: number | string;
+  'revenue-units'?: string;
+  customers?: number | string;
+  price?: number | string;
+  'price-units'?: string;
+}
+
+// Units EIA uses for retail sales when a row doesn't say
+const DEFAULT_UNITS = {
+  sales: 'million kilowatt hours',
+  revenue: 'million dollars',
+  price: 'cents per kilowatt-hour',
+};
+
+const RESIDENTIAL_SECTOR = 'RES';
+
+const getRows = (rawData: unknown): EiaRetailSalesRow[] | null => {
+  const response = (rawData as { response?: { data?: unknown } } | null)
+    ?.response;
+  return Array.isArray(response?.data)
+    ? (response.data as EiaRetailSalesRow[])
+    : null;
+};
+
+/**
+ * Average residential usage per customer from an EIA retail sales response
+ */
+export function parseEiaUsage(
+  rawData: unknown,
+  options: EiaUsageOptions = {}
+): SourceUsageData | null {
+  const rows = getRows(rawData);
+  if (!rows) {
+    return null;
+  }
+  const residential = rows.filter(
+    row => !row.sectorid || row.sectorid === RESIDENTIAL_SECTOR
+  );
+  const state = options.state || residential[0]?.stateid;
+  const stateRows = residential.filter(
+    row => !row.stateid || row.stateid === state
+  );
+
+  const usageDataPoints: UsageDataPoint[] = [];
+  for (const row of stateRows) {
+    const timestamp = parseUsageTimestamp(row.period);
+    const sales = toFiniteNumber(row.sales);
+    const customers = toFiniteNumber(row.customers);
+    if (!timestamp || sales === null || !customers) {
+      continue;
+    }
+    const kwh =
+      toKwh(sales, row['sales-units'] || DEFAULT_UNITS.sales) / customers;
+    const revenue = toFiniteNumber(row.revenue);
+    const price = toFiniteNumber(row.price);
+    const start = new Date(timestamp);
+    const point: UsageDataPoint = {
+      timestamp,
+      kwh,
+      periodStart: timestamp,
+      periodEnd: new Date(
+        Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1)
+      ).toISOString(),
+      estimated: true,
+    };
+    if (revenue !== null) {
+      point.cost =
+        toDollars(revenue, row['revenue-units'] || DEFAULT_UNITS.revenue) /
+        customers;
+    } else if (price !== null) {
+      point.cost =
+        kwh * toDollarsPerKwh(price, row['price-units'] || DEFAULT_UNITS.price);
+    }
+    usageDataPoints.push(point);
+  }
+
+  if (usageDataPoints.length === 0) {
+    return null;
+  }
+  return {
+    customerInfo: { address: state ? { state } : {} },
+    utilityInfo: {
+      utilityName: `EIA ${stateRows[0].stateDescription || state || 'US'} residential average`,
+    },
+    usageDataPoints,
+  };
+}
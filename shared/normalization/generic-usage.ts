@@ -0,0 +1,311 @@
+/**
+ * Generic CSV and JSON usage
+ *
+ * Maps usage records from sources without a dedicated adapter by the common
+ * field names in COMMON_USAGE_DATA_SCHEMA.md ("consumption", "usage_kwh",
+ * "reading_date", "bill_amount", ...). Units come from the field name
+ * ("usage_wh", "cost_cents") or a unit field on the record.
+ */
+
+import {
+  DEFAULT_CSV_COLUMN_MAPPINGS,
+  inferCsvColumnMappings,
+  parseCsvLine,
+  parseCsvStatement,
+} from '../statements';
+import type { UsageDataPoint } from '../types';
+import { parseUsageTimestamp } from './timestamps';
+import { toDollars, toFiniteNumber, toKwh } from './units';
+import type { SourceUsageData } from './usage-data';
+
+export type UsageRecord = Record<string, unknown>;
+
+export interface GenericUsageOptions {
+  timeZone?: string;
+  utilityName?: string; // used when the data doesn't name its utility
+}
+
+// Field names are compared lowercased with punctuation removed
+const TIMESTAMP_FIELDS = [
+  'timestamp',
+  'date',
+  'time',
+  'datetime',
+  'readingdate',
+  'intervalstart',
+  'starttime',
+  'period',
+  'billingperiod',
+  'month',
+];
+const PERIOD_START_FIELDS = [
+  'periodstart',
+  'billingperiodstart',
+  'startdate',
+  'servicestart',
+];
+const PERIOD_END_FIELDS = [
+  'periodend',
+  'billingperiodend',
+  'enddate',
+  'serviceend',
+  'intervalend',
+];
+// Energy fields, also matched with a unit suffix such as "usage_kwh" or "usage (Wh)"
+const ENERGY_FIELDS = [
+  '',
+  'usage',
+  'consumption',
+  'energy',
+  'import',
+  'value',
+  'quantity',
+  'reading',
+];
+const ENERGY_FIELD_UNITS = ['kwh', 'mwh', 'wh'];
+const COST_FIELDS = [
+  'cost',
+  'totalcost',
+  'amount',
+  'billamount',
+  'charges',
+  'totalcharges',
+];
+const UNIT_FIELDS = ['unit', 'units', 'uom'];
+const UTILITY_FIELDS = [
+  'utilityname',
+  'utility',
+  'utilityprovider',
+  'utilitycompany',
+  'provider',
+  'supplier',
+];
+const CUSTOMER_FIELDS = [
+  'customerid',
+  'accountid',
+  'accountnumber',
+  'customernumber',
+];
+// Arrays that hold the records, in the order they are looked for
+const RECORD_LIST_FIELDS = [
+  'usagedatapoints',
+  'usagedata',
+  'usage',
+  'readings',
+  'intervals',
+  'data',
+  'records',
+  'items',
+  'results',
+];
+
+const fieldKey = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isRecord = (value: unknown): value is UsageRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The first field of a record with one of the given names
+ */
+function findField(
+  record: UsageRecord,
+  names: string[]
+): { name: string; value: unknown } | undefined {
+  const keys = Object.keys(record);
+  for (const name of names) {
+    const key = keys.find(candidate => fieldKey(candidate) === name);
+    if (key !== undefined && record[key] !== null && record[key] !== '') {
+      return { name: key, value: record[key] };
+    }
+  }
+  return undefined;
+}
+
+function readEnergy(record: UsageRecord): number | null {
+  const unitField = findField(record, UNIT_FIELDS);
+  const unit = typeof unitField?.value === 'string' ? unitField.value : 'kWh';
+  for (const suffix of ENERGY_FIELD_UNITS) {
+    const field = findField(
+      record,
+      ENERGY_FIELDS.map(name => `${name}${suffix}`)
+    );
+    const value = toFiniteNumber(field?.value);
+    if (value !== null) {
+      return toKwh(value, suffix);
+    }
+  }
+  const field = findField(record, ENERGY_FIELDS.slice(1));
+  const value = toFiniteNumber(field?.value);
+  return value === null ? null : toKwh(value, unit);
+}
+
+function readCost(record: UsageRecord): number | undefined {
+  const cents = findField(
+    record,
+    COST_FIELDS.map(name => `${name}cents`)
+  );
+  const centsValue = toFiniteNumber(cents?.value);
+  if (centsValue !== null) {
+    return toDollars(centsValue, 'cents');
+  }
+  const field = findField(record, COST_FIELDS);
+  const value = toFiniteNumber(field?.value);
+  if (value === null) {
+    return undefined;
+  }
+  // "12.5¢" style values
+  return typeof field?.value === 'string' && field.value.includes('¢')
+    ? toDollars(value, 'cents')
+    : value;
+}
+
+/**
+ * Map usage records to usage points, skipping records without a time or
+ * energy value
+ */
+export function mapUsageRecords(
+  records: UsageRecord[],
+  timeZone?: string
+): UsageDataPoint[] {
+  const points: UsageDataPoint[] = [];
+  for (const record of records) {
+    const periodStart = findField(record, PERIOD_START_FIELDS);
+    const timestamp = parseUsageTimestamp(
+      (findField(record, TIMESTAMP_FIELDS) || periodStart)?.value,
+      timeZone
+    );
+    const kwh = readEnergy(record);
+    if (!timestamp || kwh === null) {
+      continue;
+    }
+    const point: UsageDataPoint = { timestamp, kwh };
+    const cost = readCost(record);
+    if (cost !== undefined) {
+      point.cost = cost;
+    }
+    const start = parseUsageTimestamp(periodStart?.value, timeZone);
+    const end = parseUsageTimestamp(
+      findField(record, PERIOD_END_FIELDS)?.value,
+      timeZone
+    );
+    if (start && end) {
+      point.periodStart = start;
+      point.periodEnd = end;
+    }
+    points.push(point);
+  }
+  return points;
+}
+
+/**
+ * The usage records in a JSON document: the document itself when it is an
+ * array, or the first record list found in it
+ */
+function findUsageRecords(data: unknown, depth = 0): UsageRecord[] {
+  if (Array.isArray(data)) {
+    return data.filter(isRecord);
+  }
+  if (!isRecord(data) || depth > 2) {
+    return [];
+  }
+  const list = findField(data, RECORD_LIST_FIELDS);
+  if (Array.isArray(list?.value)) {
+    return list.value.filter(isRecord);
+  }
+  for (const value of Object.values(data)) {
+    const records = isRecord(value) ? findUsageRecords(value, depth + 1) : [];
+    if (records.length > 0) {
+      return records;
+    }
+  }
+  return [];
+}
+
+const findText = (data: unknown, names: string[]): string | undefined => {
+  const value = isRecord(data) ? findField(data, names)?.value : undefined;
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : undefined;
+};
+
+/**
+ * Usage from a JSON document (or its text) with usage records
+ */
+export function parseJsonUsage(
+  rawData: unknown,
+  options: GenericUsageOptions = {}
+): SourceUsageData | null {
+  let data = rawData;
+  if (typeof rawData === 'string') {
+    try {
+      data = JSON.parse(rawData);
+    } catch {
+      return null;
+    }
+  }
+  const usageDataPoints = mapUsageRecords(
+    findUsageRecords(data),
+    options.timeZone
+  );
+  if (usageDataPoints.length === 0) {
+    return null;
+  }
+  const customerId = findText(data, CUSTOMER_FIELDS);
+  return {
+    customerInfo: customerId ? { customerId } : undefined,
+    utilityInfo: {
+      utilityName:
+        findText(data, UTILITY_FIELDS) || options.utilityName || 'Unknown',
+    },
+    usageDataPoints,
+  };
+}
+
+/**
+ * Usage from a CSV file: a header row of common field names followed by one
+ * row per reading, or a statement layout the CSV statement parser knows
+ */
+export function parseCsvUsage(
+  rawData: unknown,
+  options: GenericUsageOptions = {}
+): SourceUsageData | null {
+  if (typeof rawData !== 'string') {
+    return null;
+  }
+  const [headers, ...rows] = rawData
+    .split(/\r?\n/)
+    .map(parseCsvLine)
+    .filter(cells => cells.some(cell => cell.replace(/"/g, '') !== ''))
+    .map(cells => cells.map(cell => cell.replace(/^"|"$/g, '').trim()));
+  const records = rows.map(cells =>
+    Object.fromEntries((headers || []).map((header, i) => [header, cells[i]]))
+  );
+  const usageDataPoints = mapUsageRecords(records, options.timeZone);
+  if (usageDataPoints.length > 0) {
+    return {
+      utilityInfo: { utilityName: options.utilityName || 'Unknown' },
+      usageDataPoints,
+    };
+  }
+
+  const inferred = inferCsvColumnMappings(rawData);
+  const statement = parseCsvStatement(
+    rawData,
+    inferred
+      ? [inferred, DEFAULT_CSV_COLUMN_MAPPINGS]
+      : [DEFAULT_CSV_COLUMN_MAPPINGS]
+  );
+  if (!statement) {
+    return null;
+  }
+  return {
+    customerInfo: {
+      customerId: statement.customerInfo.accountNumber,
+      address: statement.customerInfo.address,
+    },
+    utilityInfo: statement.utilityInfo,
+    usageDataPoints: statement.usageDataPoints,
+    currentPlan: statement.billingInfo?.currentPlan,
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Shared usage normalization for the normalize-data Lambda
+ *
+ * Source adapters that map usage APIs and exports to `CustomerUsageData`,
+ * with unit and timezone conversion and schema validation.
+ */
+
+export * from './units';
+export * from './timestamps';
+export * from './usage-data';
+export * from './generic-usage';
+export * from './eia-usage';
+export * from './openei-usage';
+export * from './pge-usage';
+export * from './usage-adapters';
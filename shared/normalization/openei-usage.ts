@@ -0,0 +1,159 @@
+/**
+ * OpenEI usage
+ *
+ * OpenEI publishes simulated hourly load profiles for typical homes
+ * ("Date/Time" plus "Electricity:Facility [kW](Hourly)" columns, hour-ending
+ * times without a year) and the Utility Rate Database (`items` with the
+ * utility, rate name and energy rate structure). Load profiles become an
+ * estimated hourly usage profile; a rate adds the utility and current plan.
+ */
+
+import { parseCsvLine } from '../statements';
+import type { CustomerUsageData, UsageDataPoint } from '../types';
+import { parseUsageTimestamp } from './timestamps';
+import { toDollarsPerKwh, toFiniteNumber, toKwh } from './units';
+import type { SourceUsageData } from './usage-data';
+
+export interface OpenEiUsageOptions {
+  timeZone?: string;
+  year?: number; // year to place the typical-year load profile in
+}
+
+interface OpenEiRate {
+  utility?: string;
+  name?: string;
+  energyratestructure?: Array<
+    Array<{ rate?: number; adj?: number; unit?: string }>
+  >;
+  fixedchargefirstmeter?: number;
+  fixedchargeunits?: string;
+}
+
+type LoadProfileRow = Record<string, unknown>;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Rows of a load profile CSV, keyed by header
+ */
+function readCsvRows(text: string): LoadProfileRow[] {
+  const [headers = [], ...rows] = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(line => parseCsvLine(line).map(cell => cell.replace(/^"|"$/g, '')));
+  return rows.map(cells =>
+    Object.fromEntries(headers.map((header, i) => [header.trim(), cells[i]]))
+  );
+}
+
+/**
+ * Hourly usage from load profile rows; "MM/DD HH:00:00" times are hour
+ * ending, so "01/01 01:00:00" is the hour starting at midnight
+ */
+function parseLoadProfile(
+  rows: LoadProfileRow[],
+  year: number,
+  timeZone?: string
+): UsageDataPoint[] {
+  const keys = Object.keys(rows[0] || {});
+  const timeKey = keys.find(key => /^date\s*\/\s*time$/i.test(key));
+  const energyKey = keys.find(key => /^electricity:facility/i.test(key));
+  if (!timeKey || !energyKey) {
+    return [];
+  }
+  // [kW] hourly averages equal kWh for the hour; [J] and [kWh] are energy
+  const unit = energyKey.match(/\[([^\]]+)\]/)?.[1] || 'kWh';
+  const toHourKwh = (value: number) =>
+    /^kw$/i.test(unit) ? value : toKwh(value, unit);
+
+  const points: UsageDataPoint[] = [];
+  for (const row of rows) {
+    const time = String(row[timeKey] || '').match(
+      /(\d{1,2})\/(\d{1,2})\s+(\d{1,2}):(\d{2})/
+    );
+    const value = toFiniteNumber(row[energyKey]);
+    if (!time || value === null) {
+      continue;
+    }
+    const hourEnding = parseInt(time[3], 10);
+    if (hourEnding < 1 || hourEnding > 24) {
+      continue;
+    }
+    const timestamp = parseUsageTimestamp(
+      `${year}-${pad(parseInt(time[1], 10))}-${pad(parseInt(time[2], 10))} ${pad(hourEnding - 1)}:${time[4]}`,
+      timeZone
+    );
+    if (timestamp) {
+      points.push({ timestamp, kwh: toHourKwh(value), estimated: true });
+    }
+  }
+  return points;
+}
+
+/**
+ * The utility and flat energy rate of a Utility Rate Database entry
+ */
+function readRate(
+  rate: OpenEiRate | undefined
+): NonNullable<CustomerUsageData['billingInfo']>['currentPlan'] | undefined {
+  const tier = rate?.energyratestructure?.[0]?.[0];
+  if (!rate?.utility || tier?.rate === undefined) {
+    return undefined;
+  }
+  const ratePerKwh = toDollarsPerKwh(
+    tier.rate + (tier.adj || 0),
+    `$/${tier.unit || 'kWh'}`
+  );
+  const plan: NonNullable<CustomerUsageData['billingInfo']>['currentPlan'] = {
+    supplierName: rate.utility,
+    planName: rate.name,
+    ratePerKwh,
+  };
+  if (
+    rate.fixedchargefirstmeter !== undefined &&
+    /month/i.test(rate.fixedchargeunits || '')
+  ) {
+    plan.charges = { baseChargeMonthly: rate.fixedchargefirstmeter };
+  }
+  return plan;
+}
+
+/**
+ * Usage from an OpenEI load profile (CSV text or rows), optionally with
+ * Utility Rate Database `items` for the utility and rate
+ */
+export function parseOpenEiUsage(
+  rawData: unknown,
+  options: OpenEiUsageOptions = {}
+): SourceUsageData | null {
+  const data = rawData as {
+    loadProfile?: string | LoadProfileRow[];
+    items?: OpenEiRate[];
+  } | null;
+  const loadProfile =
+    typeof rawData === 'string' || Array.isArray(rawData)
+      ? rawData
+      : data?.loadProfile;
+  if (!loadProfile) {
+    return null;
+  }
+
+  const rows =
+    typeof loadProfile === 'string' ? readCsvRows(loadProfile) : loadProfile;
+  const year = options.year || new Date().getUTCFullYear() - 1;
+  const usageDataPoints = parseLoadProfile(rows, year, options.timeZone);
+  if (usageDataPoints.length === 0) {
+    return null;
+  }
+
+  const currentPlan = readRate(
+    Array.isArray(data?.items) ? data.items[0] : undefined
+  );
+  return {
+    utilityInfo: {
+      utilityName: currentPlan?.supplierName || 'OpenEI typical load profile',
+    },
+    usageDataPoints,
+    currentPlan,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * PG&E usage
+ *
+ * PG&E Share My Data delivers Green Button XML; Download My Data also offers
+ * CSV exports: a few "Name,..." account rows, then a
+ * `TYPE,DATE,START TIME,END TIME,USAGE (kWh),COST,NOTES` table of interval
+ * readings, or `TYPE,START DATE,END DATE,USAGE (kWh),COST,NOTES` for bills.
+ * CSV times are Pacific wall-clock times.
+ */
+
+import {
+  isGreenButtonXml,
+  parseCsvLine,
+  parseGreenButtonXml,
+} from '../statements';
+import type { UsageDataPoint } from '../types';
+import { parseLocalDateTime, parseUsageTimestamp } from './timestamps';
+import { toFiniteNumber, toKwh } from './units';
+import type { SourceUsageData } from './usage-data';
+
+export const PGE_UTILITY_NAME = 'Pacific Gas and Electric';
+export const PGE_TIME_ZONE = 'America/Los_Angeles';
+
+export interface PgeUsageOptions {
+  timeZone?: string;
+}
+
+const cleanCell = (cell: string) => cell.replace(/^"|"$/g, '').trim();
+
+/**
+ * Electric usage from a PG&E Download My Data CSV export
+ */
+function parsePgeCsv(text: string, timeZone: string): SourceUsageData | null {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => parseCsvLine(line).map(cleanCell))
+    .filter(cells => cells.some(cell => cell !== ''));
+  const headerIndex = rows.findIndex(
+    cells => cells[0]?.toUpperCase() === 'TYPE'
+  );
+  if (headerIndex < 0) {
+    return null;
+  }
+
+  const account = new Map(
+    rows
+      .slice(0, headerIndex)
+      .map(cells => [cells[0].toLowerCase(), cells[1] || ''])
+  );
+  const headers = rows[headerIndex].map(header => header.toUpperCase());
+  const column = (pattern: RegExp) =>
+    headers.findIndex(header => pattern.test(header));
+  const columns = {
+    type: 0,
+    date: column(/^DATE$/),
+    startTime: column(/^START TIME$/),
+    startDate: column(/^START DATE$/),
+    endDate: column(/^END DATE$/),
+    usage: column(/^(USAGE|IMPORT) \((K|M)?WH\)$/),
+    cost: column(/^COST$/),
+  };
+  if (columns.usage < 0) {
+    return null;
+  }
+  const usageUnit =
+    headers[columns.usage].match(/\(((K|M)?WH)\)/)?.[1] || 'KWH';
+
+  const usageDataPoints: UsageDataPoint[] = [];
+  for (const cells of rows.slice(headerIndex + 1)) {
+    if (!/electric/i.test(cells[columns.type] || '')) {
+      continue; // gas rows are in therms
+    }
+    const kwh = toFiniteNumber(cells[columns.usage]);
+    const timestamp =
+      columns.date >= 0
+        ? parseLocalDateTime(
+            cells[columns.date] || '',
+            cells[columns.startTime] || '',
+            timeZone
+          )
+        : parseUsageTimestamp(cells[columns.startDate]);
+    if (kwh === null || !timestamp) {
+      continue;
+    }
+    const point: UsageDataPoint = { timestamp, kwh: toKwh(kwh, usageUnit) };
+    const cost = toFiniteNumber(cells[columns.cost]);
+    if (cost !== null) {
+      point.cost = cost;
+    }
+    const periodEnd = parseUsageTimestamp(cells[columns.endDate]);
+    if (columns.date < 0 && periodEnd) {
+      point.periodStart = timestamp;
+      point.periodEnd = periodEnd;
+    }
+    usageDataPoints.push(point);
+  }
+
+  if (usageDataPoints.length === 0) {
+    return null;
+  }
+  return {
+    customerInfo: {
+      customerId: account.get('account number') || undefined,
+      address: account.get('address') ? { street: account.get('address') } : {},
+    },
+    utilityInfo: { utilityName: PGE_UTILITY_NAME },
+    usageDataPoints,
+  };
+}
+
+/**
+ * Usage from PG&E Green Button XML or a Download My Data CSV export
+ */
+export function parsePgeUsage(
+  rawData: unknown,
+  options: PgeUsageOptions = {}
+): SourceUsageData | null {
+  if (typeof rawData !== 'string') {
+    return null;
+  }
+  if (isGreenButtonXml(rawData)) {
+    const statement = parseGreenButtonXml(rawData);
+    return statement
+      ? {
+          utilityInfo: { utilityName: PGE_UTILITY_NAME },
+          usageDataPoints: statement.usageDataPoints,
+        }
+      : null;
+  }
+  return parsePgeCsv(rawData, options.timeZone || PGE_TIME_ZONE);
+}
@@ -0,0 +1,151 @@
+/**
+ * Usage timestamps
+ *
+ * Sources report times as ISO strings, epoch seconds or milliseconds, or
+ * local wall-clock times without an offset. Readings with a time of day are
+ * written in the meter's local time with its UTC offset (as the Green Button
+ * parser does), so hours read as local time; date-only values stay at
+ * midnight UTC, as statement dates do.
+ */
+
+import { parseStatementDate } from '../statements';
+
+const MINUTE_MS = 60 * 1000;
+
+const WALL_CLOCK_PATTERN =
+  /^(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?$/;
+const OFFSET_PATTERN = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+const MONTH_PATTERN = /^(\d{4})-(\d{1,2})$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Minutes a time zone is ahead of UTC at an instant, e.g. -300 for CDT
+ */
+export function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+  const wallTime = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return Math.round((wallTime - Math.floor(time / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Format an instant as local time with its offset, e.g.
+ * 2024-07-01T14:00:00-05:00, or as UTC when there is no time zone
+ */
+export function formatLocalTimestamp(time: number, timeZone?: string): string {
+  if (!timeZone) {
+    return new Date(time).toISOString();
+  }
+  const offset = getTimeZoneOffset(time, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(offset);
+  return (
+    new Date(time + offset * MINUTE_MS).toISOString().slice(0, 19) +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+  );
+}
+
+/**
+ * The instant a wall-clock time in a time zone refers to
+ */
+function fromWallClock(wallTime: number, timeZone?: string): number {
+  if (!timeZone) {
+    return wallTime;
+  }
+  // The offset at the guess is right except within an hour of a DST change
+  const guess = wallTime - getTimeZoneOffset(wallTime, timeZone) * MINUTE_MS;
+  return wallTime - getTimeZoneOffset(guess, timeZone) * MINUTE_MS;
+}
+
+/**
+ * Normalize a source timestamp, or null when it can't be read
+ * Epoch numbers above 1e12 are milliseconds, others seconds. Times without an
+ * offset are local to the time zone (UTC when none is given); "YYYY-MM"
+ * months become the first of the month.
+ */
+export function parseUsageTimestamp(
+  value: unknown,
+  timeZone?: string
+): string | null {
+  if (typeof value === 'number' || /^\d{9,13}$/.test(String(value).trim())) {
+    const epoch = Number(value);
+    if (!Number.isFinite(epoch)) {
+      return null;
+    }
+    return formatLocalTimestamp(epoch > 1e12 ? epoch : epoch * 1000, timeZone);
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const text = value.trim();
+  const month = text.match(MONTH_PATTERN);
+  if (month) {
+    return parseStatementDate(`${month[1]}-${month[2]}-01`);
+  }
+
+  const wallClock = text.match(WALL_CLOCK_PATTERN);
+  if (wallClock) {
+    const wallTime = Date.UTC(
+      parseInt(wallClock[1], 10),
+      parseInt(wallClock[2], 10) - 1,
+      parseInt(wallClock[3], 10),
+      parseInt(wallClock[4], 10),
+      parseInt(wallClock[5], 10),
+      wallClock[6] ? parseInt(wallClock[6], 10) : 0
+    );
+    return formatLocalTimestamp(fromWallClock(wallTime, timeZone), timeZone);
+  }
+
+  if (/\d[T ]\d/.test(text) && OFFSET_PATTERN.test(text)) {
+    const time = new Date(text).getTime();
+    return isNaN(time) ? null : formatLocalTimestamp(time, timeZone);
+  }
+
+  const date = parseStatementDate(text);
+  if (date) {
+    return date;
+  }
+  // Written-out dates such as "January 15, 2025"
+  const parsed = new Date(`${text} UTC`);
+  return isNaN(parsed.getTime())
+    ? null
+    : parseStatementDate(parsed.toISOString().slice(0, 10));
+}
+
+/**
+ * Local wall-clock time for a date and "HH:MM" time in a time zone
+ */
+export function parseLocalDateTime(
+  date: string,
+  time: string,
+  timeZone?: string
+): string | null {
+  const day = parseStatementDate(date);
+  const clock = time.trim().match(/^(\d{1,2}):(\d{2})/);
+  if (!day || !clock) {
+    return day;
+  }
+  return parseUsageTimestamp(
+    `${day.slice(0, 10)} ${pad(parseInt(clock[1], 10))}:${clock[2]}`,
+    timeZone
+  );
+}
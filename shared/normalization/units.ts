@@ -0,0 +1,112 @@
+/**
+ * Unit conversion
+ *
+ * Converts the energy, money and rate units usage sources report in to the
+ * app's units: kWh, dollars and $/kWh. Units are read from free text such as
+ * "million kilowatt hours" or "cents per kilowatt-hour".
+ */
+
+// Scale words that prefix a unit, e.g. "thousand megawatthours"
+const SCALES: Record<string, number> = {
+  thousand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+};
+
+// Energy units, as kWh
+const ENERGY_UNITS: Record<string, number> = {
+  j: 1 / 3.6e6,
+  joule: 1 / 3.6e6,
+  wh: 0.001,
+  watthour: 0.001,
+  kwh: 1,
+  kilowatthour: 1,
+  mwh: 1e3,
+  megawatthour: 1e3,
+  gwh: 1e6,
+  gigawatthour: 1e6,
+};
+
+// Money units, as dollars
+const MONEY_UNITS: Record<string, number> = {
+  $: 1,
+  usd: 1,
+  dollar: 1,
+  '¢': 0.01,
+  cent: 0.01,
+};
+
+/**
+ * Split "million kilowatt hours" into its scale and unit key ("kilowatthour")
+ */
+function readUnit(unit: string): { scale: number; key: string } {
+  const words = unit
+    .toLowerCase()
+    .replace(/[()]/g, '')
+    .split(/[\s_-]+/)
+    .filter(Boolean);
+  let scale = 1;
+  while (words.length > 0 && SCALES[words[0]]) {
+    scale *= SCALES[words.shift() as string];
+  }
+  const key = words.join('').replace(/s$/, '');
+  return { scale, key };
+}
+
+/**
+ * kWh in one of a unit, or null when the unit isn't an energy unit
+ */
+export function getEnergyUnitFactor(unit: string): number | null {
+  const { scale, key } = readUnit(unit);
+  return ENERGY_UNITS[key] !== undefined ? scale * ENERGY_UNITS[key] : null;
+}
+
+/**
+ * Dollars in one of a unit, or null when the unit isn't a money unit
+ */
+export function getMoneyUnitFactor(unit: string): number | null {
+  const { scale, key } = readUnit(unit);
+  return MONEY_UNITS[key] !== undefined ? scale * MONEY_UNITS[key] : null;
+}
+
+/**
+ * Convert an energy value to kWh; unknown units are taken as kWh
+ */
+export function toKwh(value: number, unit = 'kWh'): number {
+  return value * (getEnergyUnitFactor(unit) ?? 1);
+}
+
+/**
+ * Convert a money value to dollars; unknown units are taken as dollars
+ */
+export function toDollars(value: number, unit = 'USD'): number {
+  return value * (getMoneyUnitFactor(unit) ?? 1);
+}
+
+/**
+ * Convert a price per energy unit, e.g. "cents per kilowatt-hour", to $/kWh
+ */
+export function toDollarsPerKwh(value: number, unit = '$/kWh'): number {
+  const [money, energy = 'kWh'] = unit.split(/\s+per\s+|\//i);
+  const moneyFactor = getMoneyUnitFactor(money.trim()) ?? 1;
+  const energyFactor = getEnergyUnitFactor(energy.trim()) ?? 1;
+  return (value * moneyFactor) / energyFactor;
+}
+
+/**
+ * Read a number from a JSON value, accepting numeric strings such as "1,204.5"
+ */
+export function toFiniteNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const cleaned = value.replace(/[$,¢\s]/g, '');
+  if (cleaned === '') {
+    return null;
+  }
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
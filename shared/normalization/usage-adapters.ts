@@ -0,0 +1,125 @@
+/**
+ * Usage adapters
+ *
+ * One adapter per declared usage source, each reading the source's raw data
+ * into `SourceUsageData`. Sources without their own adapter (wattbuy,
+ * public_grid, ...) are read as Green Button XML, CSV or JSON depending on
+ * what the data looks like.
+ */
+
+import { isGreenButtonXml, parseGreenButtonXml } from '../statements';
+import type { CustomerUsageData } from '../types';
+import { parseEiaUsage } from './eia-usage';
+import { parseCsvUsage, parseJsonUsage } from './generic-usage';
+import { parseOpenEiUsage } from './openei-usage';
+import { parsePgeUsage } from './pge-usage';
+import {
+  buildCustomerUsageData,
+  validateCustomerUsageData,
+  type SourceUsageData,
+  type UsageDataValidation,
+} from './usage-data';
+
+export type UsageSourceType =
+  | 'eia'
+  | 'openei'
+  | 'green_button'
+  | 'pge'
+  | 'csv'
+  | 'json';
+
+export interface UsageAdapterOptions {
+  timeZone?: string; // IANA zone for times without an offset, e.g. America/Chicago
+  state?: string; // EIA: state to average
+  year?: number; // OpenEI: year to place a typical-year load profile in
+}
+
+export interface UsageNormalization {
+  type: UsageSourceType; // adapter used
+  usageData: CustomerUsageData | null; // null when the adapter couldn't read the data
+  validation: UsageDataValidation;
+}
+
+export type UsageAdapter = (
+  rawData: unknown,
+  options: UsageAdapterOptions
+) => SourceUsageData | null;
+
+/**
+ * Usage from a Green Button ESPI XML file
+ */
+export function parseGreenButtonUsage(
+  rawData: unknown
+): SourceUsageData | null {
+  if (typeof rawData !== 'string') {
+    return null;
+  }
+  const statement = parseGreenButtonXml(rawData);
+  return statement
+    ? {
+        utilityInfo: statement.utilityInfo,
+        usageDataPoints: statement.usageDataPoints,
+      }
+    : null;
+}
+
+export const USAGE_ADAPTERS: Record<UsageSourceType, UsageAdapter> = {
+  eia: parseEiaUsage,
+  openei: parseOpenEiUsage,
+  green_button: parseGreenButtonUsage,
+  pge: parsePgeUsage,
+  csv: parseCsvUsage,
+  json: parseJsonUsage,
+};
+
+const isUsageSourceType = (source: string): source is UsageSourceType =>
+  source in USAGE_ADAPTERS;
+
+/**
+ * The adapter for a source, or the generic adapter matching the data
+ */
+export function getUsageAdapter(
+  source: string,
+  rawData: unknown
+): { type: UsageSourceType; adapter: UsageAdapter } {
+  const declared = source.toLowerCase().replace(/[\s-]/g, '_');
+  if (isUsageSourceType(declared)) {
+    return { type: declared, adapter: USAGE_ADAPTERS[declared] };
+  }
+  let type: UsageSourceType = 'json';
+  if (typeof rawData === 'string') {
+    const text = rawData.trim();
+    if (isGreenButtonXml(text)) {
+      type = 'green_button';
+    } else if (!/^[[{]/.test(text)) {
+      type = 'csv';
+    }
+  }
+  return { type, adapter: USAGE_ADAPTERS[type] };
+}
+
+/**
+ * Read a source's raw data with its adapter and check the result against the
+ * usage schema
+ */
+export function normalizeUsageData(
+  source: string,
+  rawData: unknown,
+  customerId: string,
+  options: UsageAdapterOptions = {}
+): UsageNormalization {
+  const { type, adapter } = getUsageAdapter(source, rawData);
+  const sourceData = adapter(rawData, options);
+  if (!sourceData) {
+    return {
+      type,
+      usageData: null,
+      validation: {
+        valid: false,
+        errors: [`rawData is not in a format the ${type} adapter reads`],
+      },
+    };
+  }
+  const usageData = buildCustomerUsageData(customerId, sourceData);
+  return { type, usageData, validation: validateCustomerUsageData(usageData) };
+}
@@ -0,0 +1,162 @@
+/**
+ * Normalized usage data
+ *
+ * Builds and checks the `CustomerUsageData` every usage source is mapped to
+ * (docs/planning/COMMON_USAGE_DATA_SCHEMA.md).
+ */
+
+import { calculateAggregatedStats } from '../statements';
+import type { CustomerUsageData, UsageDataPoint } from '../types';
+
+/**
+ * What an adapter reads from a source; the rest is filled in by
+ * buildCustomerUsageData
+ */
+export interface SourceUsageData {
+  customerInfo?: {
+    customerId?: string;
+    address?: CustomerUsageData['customerInfo']['address'];
+  };
+  utilityInfo: CustomerUsageData['utilityInfo'];
+  usageDataPoints: UsageDataPoint[];
+  currentPlan?: NonNullable<CustomerUsageData['billingInfo']>['currentPlan'];
+}
+
+export interface UsageDataValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+const timeOf = (timestamp: string) => new Date(timestamp).getTime();
+
+/**
+ * Complete a source's usage: sorted points, customer ID, totals and the
+ * billing period the points cover
+ */
+export function buildCustomerUsageData(
+  customerId: string,
+  source: SourceUsageData
+): CustomerUsageData {
+  const usageDataPoints = [...source.usageDataPoints].sort(
+    (a, b) => timeOf(a.timestamp) - timeOf(b.timestamp)
+  );
+  const first = usageDataPoints[0];
+  const last = usageDataPoints[usageDataPoints.length - 1];
+
+  const data: CustomerUsageData = {
+    customerInfo: {
+      customerId: source.customerInfo?.customerId || customerId,
+      address: source.customerInfo?.address || {},
+    },
+    utilityInfo: source.utilityInfo,
+    usageDataPoints,
+    aggregatedStats: calculateAggregatedStats(usageDataPoints),
+  };
+  if (first) {
+    data.billingInfo = {
+      billingPeriod: {
+        start: first.periodStart || first.timestamp,
+        end: last.periodEnd || last.timestamp,
+      },
+    };
+  }
+  if (source.currentPlan) {
+    data.billingInfo = { ...data.billingInfo, currentPlan: source.currentPlan };
+  }
+  return data;
+}
+
+const isNonNegative = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isTimestamp = (value: unknown): boolean =>
+  typeof value === 'string' && !isNaN(timeOf(value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check normalized usage against the schema's required fields and validation
+ * rules, whether it came from an adapter or the model
+ */
+export function validateCustomerUsageData(data: unknown): UsageDataValidation {
+  const errors: string[] = [];
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['usage data must be an object'] };
+  }
+
+  const customerInfo = data.customerInfo;
+  if (!isRecord(customerInfo) || typeof customerInfo.customerId !== 'string') {
+    errors.push('customerInfo.customerId is required');
+  }
+  const utilityInfo = data.utilityInfo;
+  if (
+    !isRecord(utilityInfo) ||
+    typeof utilityInfo.utilityName !== 'string' ||
+    !utilityInfo.utilityName.trim()
+  ) {
+    errors.push('utilityInfo.utilityName is required');
+  }
+
+  const points = data.usageDataPoints;
+  if (!Array.isArray(points) || points.length === 0) {
+    errors.push('usageDataPoints must have at least one point');
+  } else {
+    points.forEach((point: unknown, index) => {
+      const path = `usageDataPoints[${index}]`;
+      if (!isRecord(point)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      if (!isTimestamp(point.timestamp)) {
+        errors.push(`${path}.timestamp must be an ISO 8601 datetime`);
+      }
+      if (!isNonNegative(point.kwh)) {
+        errors.push(`${path}.kwh must be a number >= 0`);
+      }
+      if (point.cost !== undefined && !isNonNegative(point.cost)) {
+        errors.push(`${path}.cost must be a number >= 0`);
+      }
+      if (
+        point.periodStart !== undefined &&
+        point.periodEnd !== undefined &&
+        (!isTimestamp(point.periodStart) ||
+          !isTimestamp(point.periodEnd) ||
+          timeOf(point.periodEnd as string) <
+            timeOf(point.periodStart as string))
+      ) {
+        errors.push(`${path}.periodEnd must not be before periodStart`);
+      }
+    });
+  }
+
+  const stats = data.aggregatedStats;
+  if (
+    !isRecord(stats) ||
+    !['totalKwh', 'totalCost', 'averageMonthlyKwh', 'averageMonthlyCost'].every(
+      field => isNonNegative(stats[field])
+    )
+  ) {
+    errors.push('aggregatedStats must have non-negative totals and averages');
+  }
+
+  const currentPlan = isRecord(data.billingInfo)
+    ? data.billingInfo.currentPlan
+    : undefined;
+  if (isRecord(currentPlan)) {
+    if (!isNonNegative(currentPlan.ratePerKwh)) {
+      errors.push('billingInfo.currentPlan.ratePerKwh must be a number >= 0');
+    }
+    const renewable = currentPlan.renewablePercentage;
+    if (
+      renewable !== undefined &&
+      (!isNonNegative(renewable) || (renewable as number) > 100)
+    ) {
+      errors.push(
+        'billingInfo.currentPlan.renewablePercentage must be between 0 and 100'
+      );
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
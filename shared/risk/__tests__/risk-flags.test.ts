@@ -0,0 +1,97 @@
+import { getRiskFlags } from '../risk-flags';
+
+describe('getRiskFlags', () => {
+  it('should return no flags for a plain fixed-rate plan', () => {
+    expect(
+      getRiskFlags({
+        ratePerKwh: 0.12,
+        contractType: 'fixed',
+        earlyTerminationFee: 100,
+        supplierRating: 4.5,
+      })
+    ).toEqual([]);
+  });
+
+  it('should flag high termination fees by amount', () => {
+    expect(
+      getRiskFlags({
+        ratePerKwh: 0.12,
+        contractType: 'fixed',
+        earlyTerminationFee: 150,
+      })
+    ).toEqual([
+      expect.objectContaining({ code: 'high_etf', severity: 'medium' }),
+    ]);
+    expect(
+      getRiskFlags({
+        ratePerKwh: 0.12,
+        contractType: 'fixed',
+        earlyTerminationFee: 300,
+      })
+    ).toEqual([
+      expect.objectContaining({ code: 'high_etf', severity: 'high' }),
+    ]);
+  });
+
+  it('should flag variable-rate exposure', () => {
+    expect(
+      getRiskFlags({ ratePerKwh: 0.12, contractType: 'variable' })
+    ).toEqual([
+      expect.objectContaining({ code: 'variable_rate', severity: 'high' }),
+    ]);
+  });
+
+  it('should flag expiring promotions and steep roll-over rates', () => {
+    const flags = getRiskFlags({
+      ratePerKwh: 0.12,
+      contractType: 'fixed',
+      promotionalPeriods: [
+        { startMonth: 1, durationMonths: 3, ratePerKwh: 0.08 },
+      ],
+      rolloverRatePerKwh: 0.16,
+    });
+
+    expect(flags.map(flag => [flag.code, flag.severity])).toEqual([
+      ['expiring_promo', 'high'],
+      ['expiring_promo', 'medium'],
+    ]);
+    expect(flags[1].message).toBe('Introductory rate ends after month 3');
+  });
+
+  it('should flag low supplier ratings', () => {
+    expect(
+      getRiskFlags({
+        ratePerKwh: 0.12,
+        contractType: 'fixed',
+        supplierRating: 2.8,
+      })
+    ).toEqual([
+      expect.objectContaining({
+        code: 'low_supplier_rating',
+        severity: 'high',
+      }),
+    ]);
+  });
+
+  it('should flag base charges and usage-dependent bill credits', () => {
+    const flags = getRiskFlags({
+      ratePerKwh: 0.12,
+      contractType: 'fixed',
+      charges: { baseChargeMonthly: 9.95 },
+      billCredits: [{ minKwh: 1000, maxKwh: 2000, amount: 100 }],
+    });
+
+    expect(flags).toEqual([
+      {
+        code: 'hidden_fees',
+        severity: 'medium',
+        message: '$100 bill credit only applies between 1000 and 2000 kWh',
+      },
+      {
+        code: 'hidden_fees',
+        severity: 'low',
+        message: '$9.95/month base charge on top of the energy rate',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Shared plan risk flags for frontend and backend
+ */
+
+export * from './risk-flags';
@@ -0,0 +1,131 @@
+/**
+ * Plan risk flags
+ *
+ * Deterministic warnings about a plan's terms. Computed from the plan alone so
+ * the recommendation engine and the comparison table always show the same
+ * flags for the same plan.
+ */
+
+import type { EnergyPlan, RiskFlag, RiskSeverity } from '../types';
+
+/**
+ * Thresholds used to raise risk flags
+ */
+export const RISK_THRESHOLDS = {
+  earlyTerminationFee: { medium: 150, high: 300 }, // dollars
+  supplierRating: { medium: 3.5, high: 3 }, // flagged below these ratings
+  baseChargeMonthly: { low: 0, medium: 10 }, // dollars per month
+  rolloverIncrease: 0.2, // roll-over rate at least 20% above the contract rate
+} as const;
+
+const severityOrder: Record<RiskSeverity, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/**
+ * Compute the risk flags for a plan, most severe first
+ */
+export function getRiskFlags(
+  plan: Pick<EnergyPlan, 'ratePerKwh'> & Partial<EnergyPlan>
+): RiskFlag[] {
+  const flags: RiskFlag[] = [];
+
+  const fee = plan.earlyTerminationFee || 0;
+  if (fee >= RISK_THRESHOLDS.earlyTerminationFee.medium) {
+    flags.push({
+      code: 'high_etf',
+      severity:
+        fee >= RISK_THRESHOLDS.earlyTerminationFee.high ? 'high' : 'medium',
+      message: `$${fee.toFixed(0)} early termination fee if you leave before the contract ends`,
+    });
+  }
+
+  if (plan.contractType === 'variable') {
+    flags.push({
+      code: 'variable_rate',
+      severity: 'high',
+      message: 'Variable rate can change every month',
+    });
+  } else if (plan.contractType === 'indexed') {
+    flags.push({
+      code: 'variable_rate',
+      severity: 'medium',
+      message: 'Indexed rate follows the wholesale market',
+    });
+  } else if (plan.contractType === 'hybrid') {
+    flags.push({
+      code: 'variable_rate',
+      severity: 'low',
+      message: 'Part of the rate can change with the market',
+    });
+  }
+
+  const promotions = plan.promotionalPeriods || [];
+  if (promotions.length > 0) {
+    const promoEnd = Math.max(
+      ...promotions.map(promo => promo.startMonth + promo.durationMonths - 1)
+    );
+    flags.push({
+      code: 'expiring_promo',
+      severity: 'medium',
+      message: `Introductory rate ends after month ${promoEnd}`,
+    });
+  }
+  if (
+    plan.rolloverRatePerKwh !== undefined &&
+    plan.rolloverRatePerKwh >=
+      plan.ratePerKwh * (1 + RISK_THRESHOLDS.rolloverIncrease)
+  ) {
+    flags.push({
+      code: 'expiring_promo',
+      severity: 'high',
+      message: `Rate rolls over to $${plan.rolloverRatePerKwh.toFixed(3)}/kWh when the contract ends`,
+    });
+  }
+
+  const rating = plan.supplierRating;
+  if (rating !== undefined && rating < RISK_THRESHOLDS.supplierRating.medium) {
+    flags.push({
+      code: 'low_supplier_rating',
+      severity:
+        rating < RISK_THRESHOLDS.supplierRating.high ? 'high' : 'medium',
+      message: `Supplier rated ${rating.toFixed(1)}/5 by customers`,
+    });
+  }
+
+  const baseCharge = plan.charges?.baseChargeMonthly || 0;
+  if (baseCharge > RISK_THRESHOLDS.baseChargeMonthly.low) {
+    flags.push({
+      code: 'hidden_fees',
+      severity:
+        baseCharge >= RISK_THRESHOLDS.baseChargeMonthly.medium
+          ? 'medium'
+          : 'low',
+      message: `$${baseCharge.toFixed(2)}/month base charge on top of the energy rate`,
+    });
+  }
+  const minimumUsageFee = plan.charges?.minimumUsageFee || 0;
+  if (minimumUsageFee > 0 && plan.charges?.minimumUsageKwh) {
+    flags.push({
+      code: 'hidden_fees',
+      severity: 'low',
+      message: `$${minimumUsageFee.toFixed(2)} minimum usage fee below ${plan.charges.minimumUsageKwh} kWh`,
+    });
+  }
+  for (const credit of plan.billCredits || []) {
+    flags.push({
+      code: 'hidden_fees',
+      severity: 'medium',
+      message:
+        credit.maxKwh !== undefined
+          ? `$${credit.amount.toFixed(0)} bill credit only applies between ${credit.minKwh} and ${credit.maxKwh} kWh`
+          : `$${credit.amount.toFixed(0)} bill credit only applies above ${credit.minKwh} kWh`,
+    });
+  }
+
+  return flags.sort(
+    (a, b) => severityOrder[a.severity] - severityOrder[b.severity]
+  );
+}
@@ -0,0 +1,555 @@
+import {
+  simulateBills,
+  estimateMonthlyBill,
+  calculateAnnualKwh,
+  calculateCurrentAnnualCost,
+  calculateSavingsBaselineCost,
+  toCurrentBillingPlan,
+  isIntervalUsage,
+  type SimulationUsageData,
+} from '../bill-simulation';
+
+const createUsageData = (
+  monthlyKwh: number[],
+  overrides: Partial<SimulationUsageData['aggregatedStats']> = {}
+): SimulationUsageData => ({
+  usageDataPoints: monthlyKwh.map((kwh, i) => ({
+    timestamp: `2024-${String(i + 1).padStart(2, '0')}-01T00:00:00Z`,
+    kwh,
+  })),
+  aggregatedStats: {
+    totalKwh: monthlyKwh.reduce((sum, kwh) => sum + kwh, 0),
+    totalCost: 0,
+    averageMonthlyKwh: 0,
+    averageMonthlyCost: 0,
+    peakMonth: '',
+    peakMonthKwh: 0,
+    ...overrides,
+  },
+});
+
+// First bill is January 2025
+const startDate = new Date(Date.UTC(2024, 11, 15));
+
+describe('simulateBills', () => {
+  it('should bill a flat-rate plan month by month', () => {
+    const usage = createUsageData(Array(12).fill(1000));
+
+    const simulation = simulateBills(usage, { ratePerKwh: 0.1 }, undefined, {
+      startDate,
+    });
+
+    expect(simulation.monthlyBills).toHaveLength(12);
+    expect(simulation.monthlyBills[0]).toMatchObject({
+      contractMonth: 1,
+      year: 2025,
+      month: 1,
+      kwh: 1000,
+    });
+    expect(simulation.monthlyBills[0].total).toBeCloseTo(100);
+    expect(simulation.annualCost).toBeCloseTo(1200);
+  });
+
+  it('should apply charges, credits and taxes to each month', () => {
+    const usage = createUsageData([500, 1500, ...Array(10).fill(1000)]);
+
+    const simulation = simulateBills(
+      usage,
+      {
+        ratePerKwh: 0.1,
+        billCredits: [{ minKwh: 1000, maxKwh: 2000, amount: 100 }],
+        charges: {
+          baseChargeMonthly: 5,
+          deliveryChargePerKwh: 0.04,
+          deliveryChargeMonthly: 4,
+          taxPercentage: 10,
+        },
+      },
+      undefined,
+      { startDate }
+    );
+
+    const [january, february] = simulation.monthlyBills;
+    // (50 + 20 + 4 + 5) * 1.1, no credit below 1000 kWh
+    expect(january.credits).toBe(0);
+    expect(january.total).toBeCloseTo(86.9);
+    // (150 + 60 + 4 + 5 - 100) * 1.1
+    expect(february.credits).toBe(100);
+    expect(february.total).toBeCloseTo(130.9);
+  });
+
+  it('should price tiered plans against each month separately', () => {
+    const usage = createUsageData([500, 1500, ...Array(10).fill(1000)]);
+
+    const simulation = simulateBills(
+      usage,
+      {
+        ratePerKwh: 0.1,
+        rateTiers: [{ upToKwh: 1000, ratePerKwh: 0.1 }, { ratePerKwh: 0.2 }],
+      },
+      undefined,
+      { startDate }
+    );
+
+    expect(simulation.monthlyBills[0].energyCost).toBeCloseTo(50);
+    expect(simulation.monthlyBills[1].energyCost).toBeCloseTo(200);
+  });
+
+  it('should use promotional and roll-over rates by contract month', () => {
+    const usage = createUsageData(Array(12).fill(1000));
+
+    const simulation = simulateBills(
+      usage,
+      {
+        ratePerKwh: 0.1,
+        contractLengthMonths: 12,
+        promotionalPeriods: [
+          { startMonth: 1, durationMonths: 3, ratePerKwh: 0.05 },
+        ],
+        rolloverRatePerKwh: 0.2,
+      },
+      undefined,
+      { startDate, months: 24 }
+    );
+
+    const bills = simulation.monthlyBills;
+    expect(bills[0].isPromotional).toBe(true);
+    expect(bills[0].total).toBeCloseTo(50);
+    expect(bills[3].isPromotional).toBe(false);
+    expect(bills[3].total).toBeCloseTo(100);
+    expect(bills[12].isRolledOver).toBe(true);
+    expect(bills[12].total).toBeCloseTo(200);
+    expect(simulation.annualCost).toBeCloseTo(150 + 900);
+    expect(simulation.totalCost).toBeCloseTo(1050 + 2400);
+  });
+
+  it('should compare each month against the current plan', () => {
+    const usage = createUsageData(Array(12).fill(1000));
+
+    const simulation = simulateBills(
+      usage,
+      { ratePerKwh: 0.1 },
+      { ratePerKwh: 0.15 },
+      { startDate }
+    );
+
+    expect(simulation.monthlyBills[0].currentPlanTotal).toBeCloseTo(150);
+    expect(simulation.monthlyBills[0].savings).toBeCloseTo(50);
+    expect(simulation.totalSavings).toBeCloseTo(600);
+  });
+
+  it('should fill missing months and scale to the annual kWh', () => {
+    const usage = createUsageData([1200, 600], { totalKwh: 10800 });
+
+    const simulation = simulateBills(usage, { ratePerKwh: 0.1 }, undefined, {
+      startDate,
+    });
+
+    const kwhByMonth = simulation.monthlyBills.map(bill => bill.kwh);
+    // Profile is 1200 + 600 + 10 x 900 = 10800
+    expect(kwhByMonth[0]).toBeCloseTo(1200);
+    expect(kwhByMonth[1]).toBeCloseTo(600);
+    expect(kwhByMonth[2]).toBeCloseTo(900);
+    expect(simulation.annualCost).toBeCloseTo(1080);
+  });
+
+  it('should price time-of-use plans against interval readings', () => {
+    const freeNights = {
+      ratePerKwh: 0.2,
+      timeOfUseRates: [
+        {
+          name: 'Free Nights',
+          periodType: 'off-peak' as const,
+          ratePerKwh: 0,
+          startHour: 21,
+          endHour: 6,
+        },
+      ],
+    };
+    const nightUsage: SimulationUsageData = {
+      ...createUsageData([]),
+      usageDataPoints: [
+        { timestamp: '2024-01-01T22:00:00', kwh: 10 },
+        { timestamp: '2024-01-01T23:00:00', kwh: 10 },
+      ],
+    };
+
+    const simulation = simulateBills(nightUsage, freeNights, undefined, {
+      startDate,
+      months: 1,
+    });
+
+    expect(simulation.monthlyBills[0].energyCost).toBe(0);
+  });
+
+  it('should use stored interval readings as the load shape for monthly totals', () => {
+    const freeNights = {
+      ratePerKwh: 0.2,
+      timeOfUseRates: [
+        {
+          name: 'Free Nights',
+          periodType: 'off-peak' as const,
+          ratePerKwh: 0,
+          startHour: 21,
+          endHour: 6,
+        },
+      ],
+    };
+    const usage: SimulationUsageData = {
+      ...createUsageData(Array(12).fill(1000)),
+      // One sample night: three quarters of the load falls in the free window
+      intervalDataPoints: [
+        { timestamp: '2024-01-15T12:00:00-06:00', kwh: 1 },
+        { timestamp: '2024-01-15T22:00:00-06:00', kwh: 3 },
+      ],
+    };
+
+    const simulation = simulateBills(usage, freeNights, undefined, {
+      startDate,
+      months: 2,
+    });
+
+    // January bills 250 of its 1000 kWh at the day rate
+    expect(simulation.monthlyBills[0].energyCost).toBeCloseTo(50);
+    // February has no readings, so it falls back to a flat load
+    expect(simulation.monthlyBills[1].energyCost).toBeGreaterThan(50);
+  });
+});
+
+describe('time-of-use pricing', () => {
+  const summerPeak = {
+    ratePerKwh: 0.1,
+    timeOfUseRates: [
+      {
+        name: 'Summer Weekday Peak',
+        periodType: 'peak' as const,
+        ratePerKwh: 0.3,
+        startHour: 14,
+        endHour: 19,
+        daysOfWeek: [1, 2, 3, 4, 5],
+        months: [6, 7, 8, 9],
+      },
+    ],
+  };
+
+  const intervalUsage = (
+    readings: { timestamp: string; kwh: number }[]
+  ): SimulationUsageData => ({
+    ...createUsageData([]),
+    usageDataPoints: readings,
+  });
+
+  it('should apply a period only on its days and months', () => {
+    const usage = intervalUsage([
+      { timestamp: '2024-01-08T15:00:00', kwh: 1 }, // Monday in January
+      { timestamp: '2024-07-01T15:00:00', kwh: 1 }, // Monday in July
+      { timestamp: '2024-07-05T23:00:00', kwh: 1 }, // Friday night
+      { timestamp: '2024-07-06T15:00:00', kwh: 1 }, // Saturday
+    ]);
+
+    const simulation = simulateBills(usage, summerPeak, undefined, {
+      startDate,
+    });
+
+    const [january] = simulation.monthlyBills;
+    const july = simulation.monthlyBills[6];
+    expect(january.energyCost).toBeCloseTo(0.1);
+    expect(july.energyCost).toBeCloseTo(0.3 + 0.1 + 0.1);
+  });
+
+  it('should use the first period that matches an hour', () => {
+    const usage = intervalUsage([
+      { timestamp: '2024-07-01T15:00:00', kwh: 1 },
+      { timestamp: '2024-07-01T16:00:00', kwh: 1 },
+    ]);
+    const overlapping = {
+      ...summerPeak,
+      timeOfUseRates: [
+        ...summerPeak.timeOfUseRates,
+        {
+          name: 'Afternoon',
+          periodType: 'shoulder' as const,
+          ratePerKwh: 0.2,
+          startHour: 12,
+          endHour: 20,
+        },
+      ],
+    };
+
+    const simulation = simulateBills(usage, overlapping, undefined, {
+      startDate,
+    });
+
+    expect(simulation.monthlyBills[6].energyCost).toBeCloseTo(0.6);
+  });
+
+  it('should assume a flat load when only monthly totals are known', () => {
+    const usage = createUsageData(Array(12).fill(1000));
+    const freeNights = {
+      ratePerKwh: 0.2,
+      timeOfUseRates: [
+        {
+          name: 'Free Nights',
+          periodType: 'off-peak' as const,
+          ratePerKwh: 0,
+          startHour: 21,
+          endHour: 6,
+        },
+      ],
+    };
+
+    const simulation = simulateBills(usage, freeNights, undefined, {
+      startDate,
+      months: 1,
+    });
+
+    // 9 of every 24 hours are free: 1000 kWh at 0.2 x 15/24
+    expect(simulation.monthlyBills[0].energyCost).toBeCloseTo(125);
+  });
+});
+
+describe('isIntervalUsage', () => {
+  it('should detect readings less than a day apart', () => {
+    expect(
+      isIntervalUsage([
+        { timestamp: '2024-01-01T00:00:00Z', kwh: 1 },
+        { timestamp: '2024-01-01T00:15:00Z', kwh: 1 },
+      ])
+    ).toBe(true);
+    expect(isIntervalUsage(createUsageData([900, 1000]).usageDataPoints)).toBe(
+      false
+    );
+  });
+});
+
+describe('tiered rates and bill credits', () => {
+  it('should bill each tier up to its limit', () => {
+    const plan = {
+      ratePerKwh: 0.1,
+      rateTiers: [
+        { upToKwh: 500, ratePerKwh: 0.1 },
+        { upToKwh: 1000, ratePerKwh: 0.15 },
+        { ratePerKwh: 0.2 },
+      ],
+    };
+
+    expect(estimateMonthlyBill(plan, 400)).toBeCloseTo(40);
+    expect(estimateMonthlyBill(plan, 1000)).toBeCloseTo(50 + 75);
+    expect(estimateMonthlyBill(plan, 1500)).toBeCloseTo(50 + 75 + 100);
+  });
+
+  it('should include both ends of a credit range', () => {
+    const plan = {
+      ratePerKwh: 0.1,
+      billCredits: [{ minKwh: 1000, maxKwh: 2000, amount: 100 }],
+    };
+
+    expect(estimateMonthlyBill(plan, 999)).toBeCloseTo(99.9);
+    expect(estimateMonthlyBill(plan, 1000)).toBeCloseTo(0);
+    expect(estimateMonthlyBill(plan, 2000)).toBeCloseTo(100);
+    expect(estimateMonthlyBill(plan, 2001)).toBeCloseTo(200.1);
+  });
+
+  it('should add up every credit a month qualifies for', () => {
+    const plan = {
+      ratePerKwh: 0.1,
+      billCredits: [
+        { minKwh: 800, amount: 25 },
+        { minKwh: 1000, maxKwh: 2000, amount: 50 },
+      ],
+    };
+
+    expect(estimateMonthlyBill(plan, 900)).toBeCloseTo(65);
+    expect(estimateMonthlyBill(plan, 3000)).toBeCloseTo(275);
+  });
+});
+
+describe('plan charges', () => {
+  const charges = {
+    baseChargeMonthly: 9.95,
+    deliveryChargePerKwh: 0.05,
+    deliveryChargeMonthly: 4.23,
+    taxPercentage: 8.25,
+  };
+
+  it('should split a bill into energy, delivery, base charge and taxes', () => {
+    const usage = createUsageData(Array(12).fill(1000));
+
+    const simulation = simulateBills(
+      usage,
+      { ratePerKwh: 0.1, charges },
+      undefined,
+      { startDate, months: 1 }
+    );
+
+    const [bill] = simulation.monthlyBills;
+    expect(bill.energyCost).toBeCloseTo(100);
+    expect(bill.deliveryCost).toBeCloseTo(50 + 4.23);
+    expect(bill.baseCharge).toBeCloseTo(9.95);
+    expect(bill.taxes).toBeCloseTo(164.18 * 0.0825);
+    expect(bill.total).toBeCloseTo(164.18 * 1.0825);
+  });
+
+  it('should charge fixed fees even in a month without usage', () => {
+    expect(estimateMonthlyBill({ ratePerKwh: 0.1, charges }, 0)).toBeCloseTo(
+      (9.95 + 4.23) * 1.0825
+    );
+  });
+
+  it('should bill energy only when a plan publishes no charges', () => {
+    const usage = createUsageData(Array(12).fill(1000));
+
+    const [bill] = simulateBills(usage, { ratePerKwh: 0.1 }, undefined, {
+      startDate,
+      months: 1,
+    }).monthlyBills;
+
+    expect(bill).toMatchObject({ deliveryCost: 0, baseCharge: 0, taxes: 0 });
+    expect(bill.total).toBeCloseTo(100);
+  });
+});
+
+describe('promotional and roll-over pricing', () => {
+  const usage = createUsageData(Array(12).fill(1000));
+
+  it('should apply a promotion that starts later in the contract', () => {
+    const plan = {
+      ratePerKwh: 0.1,
+      promotionalPeriods: [
+        { startMonth: 4, durationMonths: 2, ratePerKwh: 0.05 },
+      ],
+    };
+
+    const bills = simulateBills(usage, plan, undefined, {
+      startDate,
+    }).monthlyBills;
+
+    expect(bills.map(bill => bill.isPromotional)).toEqual([
+      false,
+      false,
+      false,
+      true,
+      true,
+      ...Array(7).fill(false),
+    ]);
+    expect(bills[3].energyCost).toBeCloseTo(50);
+  });
+
+  it('should ignore promotions when asked to', () => {
+    const plan = {
+      ratePerKwh: 0.1,
+      promotionalPeriods: [
+        { startMonth: 1, durationMonths: 12, ratePerKwh: 0.05 },
+      ],
+    };
+
+    const simulation = simulateBills(usage, plan, undefined, {
+      startDate,
+      includePromotions: false,
+    });
+
+    expect(simulation.annualCost).toBeCloseTo(1200);
+  });
+
+  it('should replace tiered pricing while a promotion or roll-over applies', () => {
+    const plan = {
+      ratePerKwh: 0.1,
+      contractLengthMonths: 2,
+      rateTiers: [{ upToKwh: 500, ratePerKwh: 0.1 }, { ratePerKwh: 0.3 }],
+      promotionalPeriods: [
+        { startMonth: 1, durationMonths: 1, ratePerKwh: 0.05 },
+      ],
+      rolloverRatePerKwh: 0.25,
+    };
+
+    const bills = simulateBills(usage, plan, undefined, {
+      startDate,
+      months: 3,
+    }).monthlyBills;
+
+    expect(bills.map(bill => bill.energyCost)).toEqual([
+      expect.closeTo(50),
+      expect.closeTo(200),
+      expect.closeTo(250),
+    ]);
+  });
+
+  it('should keep the contract rate after the term without a roll-over rate', () => {
+    const plan = { ratePerKwh: 0.1, contractLengthMonths: 12 };
+
+    const bills = simulateBills(usage, plan, undefined, {
+      startDate,
+      months: 13,
+    }).monthlyBills;
+
+    expect(bills[12].isRolledOver).toBe(false);
+    expect(bills[12].energyCost).toBeCloseTo(100);
+  });
+});
+
+describe('estimateMonthlyBill', () => {
+  it('should estimate a bill from a monthly kWh total', () => {
+    expect(
+      estimateMonthlyBill(
+        { ratePerKwh: 0.12, charges: { baseChargeMonthly: 10 } },
+        1000
+      )
+    ).toBeCloseTo(130);
+  });
+
+  it('should add a minimum usage fee below its threshold', () => {
+    const plan = {
+      ratePerKwh: 0.12,
+      charges: { minimumUsageFee: 9.95, minimumUsageKwh: 1000 },
+    };
+
+    expect(estimateMonthlyBill(plan, 500)).toBeCloseTo(69.95);
+    expect(estimateMonthlyBill(plan, 1000)).toBeCloseTo(120);
+  });
+});
+
+describe('calculateAnnualKwh', () => {
+  it('should annualize usage points when no total is available', () => {
+    const usage = createUsageData([1000, 2000, 3000], { totalKwh: 0 });
+
+    expect(calculateAnnualKwh(usage)).toBeCloseTo(24000);
+  });
+});
+
+describe('calculateCurrentAnnualCost', () => {
+  it('should prefer the billed total', () => {
+    const usage = createUsageData(Array(12).fill(1000), { totalCost: 1500 });
+
+    expect(calculateCurrentAnnualCost(usage)).toBe(1500);
+  });
+
+  it('should fall back to pricing usage on the current plan', () => {
+    const usage = createUsageData(Array(12).fill(1000));
+
+    expect(calculateCurrentAnnualCost(usage, { ratePerKwh: 0.1 })).toBeCloseTo(
+      1200
+    );
+  });
+});
+
+describe('calculateSavingsBaselineCost', () => {
+  it('should price the saved current plan ahead of the billed total', () => {
+    const usage = createUsageData(Array(12).fill(1000), { totalCost: 1500 });
+    const currentPlan = toCurrentBillingPlan({
+      ratePerKwh: 0.1,
+      charges: { baseChargeMonthly: 10 },
+    });
+
+    expect(calculateSavingsBaselineCost(usage, currentPlan)).toBeCloseTo(1320);
+  });
+
+  it('should use the billed total when no rate is saved', () => {
+    const usage = createUsageData(Array(12).fill(1000), { totalCost: 1500 });
+    const currentPlan = toCurrentBillingPlan({
+      charges: { baseChargeMonthly: 10 },
+    });
+
+    expect(currentPlan).toBeUndefined();
+    expect(calculateSavingsBaselineCost(usage, currentPlan)).toBe(1500);
+  });
+});
@@ -0,0 +1,82 @@
+import { simulateBills, type SimulationUsageData } from '../bill-simulation';
+import {
+  getSeason,
+  projectMonthlyCosts,
+  summarizeSeasonalCosts,
+} from '../seasonal-costs';
+
+// Summer-peaking usage: 2000 kWh in June-August, 1000 kWh otherwise
+const monthlyKwh = [
+  1000, 1000, 1000, 1000, 1000, 2000, 2000, 2000, 1000, 1000, 1000, 1000,
+];
+const usage: SimulationUsageData = {
+  usageDataPoints: monthlyKwh.map((kwh, i) => ({
+    timestamp: `2024-${String(i + 1).padStart(2, '0')}-01T00:00:00Z`,
+    kwh,
+  })),
+  aggregatedStats: {
+    totalKwh: 15000,
+    totalCost: 0,
+    averageMonthlyKwh: 1250,
+    averageMonthlyCost: 0,
+    peakMonth: 'July',
+    peakMonthKwh: 2000,
+  },
+};
+
+// First bill is January 2025
+const startDate = new Date(Date.UTC(2024, 11, 15));
+
+describe('getSeason', () => {
+  it('should map calendar months to seasons', () => {
+    expect(getSeason(12)).toBe('winter');
+    expect(getSeason(1)).toBe('winter');
+    expect(getSeason(4)).toBe('spring');
+    expect(getSeason(7)).toBe('summer');
+    expect(getSeason(10)).toBe('fall');
+  });
+});
+
+describe('projectMonthlyCosts', () => {
+  it('should pair each projected bill with the current plan bill', () => {
+    const simulation = simulateBills(
+      usage,
+      { ratePerKwh: 0.1, charges: { baseChargeMonthly: 20 } },
+      { ratePerKwh: 0.12 },
+      { startDate, months: 24 }
+    );
+
+    const monthlyCosts = projectMonthlyCosts(simulation);
+
+    expect(monthlyCosts).toHaveLength(12);
+    expect(monthlyCosts[0]).toMatchObject({ year: 2025, month: 1, kwh: 1000 });
+    // Cheaper in winter: 100 + 20 vs 120
+    expect(monthlyCosts[0].projectedCost).toBeCloseTo(120);
+    expect(monthlyCosts[0].currentCost).toBeCloseTo(120);
+    // Summer: 200 + 20 vs 240
+    expect(monthlyCosts[6].projectedCost).toBeCloseTo(220);
+    expect(monthlyCosts[6].currentCost).toBeCloseTo(240);
+  });
+});
+
+describe('summarizeSeasonalCosts', () => {
+  it('should total each season', () => {
+    const simulation = simulateBills(
+      usage,
+      { ratePerKwh: 0.1 },
+      { ratePerKwh: 0.12 },
+      { startDate }
+    );
+
+    const seasons = summarizeSeasonalCosts(projectMonthlyCosts(simulation));
+
+    expect(seasons.map(season => season.season)).toEqual([
+      'winter',
+      'spring',
+      'summer',
+      'fall',
+    ]);
+    expect(seasons[2].projectedCost).toBeCloseTo(600);
+    expect(seasons[2].currentCost).toBeCloseTo(720);
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  analyzeSwitchTiming,
+  calculatePaybackPeriod,
+  getSwitchingContext,
+} from '../switch-timing';
+
+const now = new Date('2025-01-10T12:00:00Z');
+
+describe('getSwitchingContext', () => {
+  it('should count the months left on an active contract', () => {
+    expect(
+      getSwitchingContext(
+        { earlyTerminationFee: 150, contractEndDate: '2025-03-20' },
+        now
+      )
+    ).toEqual({
+      earlyTerminationFee: 150,
+      contractEndDate: '2025-03-20',
+      monthsUntilContractEnd: 3,
+      contractActive: true,
+    });
+    expect(
+      getSwitchingContext({ contractEndDate: '2025-03-05' }, now)
+        .monthsUntilContractEnd
+    ).toBe(2);
+    expect(
+      getSwitchingContext({ contractEndDate: '2025-01-20' }, now)
+        .monthsUntilContractEnd
+    ).toBe(1);
+  });
+
+  it('should not charge the fee once the contract has ended', () => {
+    expect(
+      getSwitchingContext(
+        { earlyTerminationFee: 150, contractEndDate: '2024-12-01' },
+        now
+      )
+    ).toMatchObject({ contractActive: false, monthsUntilContractEnd: 0 });
+  });
+
+  it('should assume a fee applies when the end date is unknown', () => {
+    expect(getSwitchingContext({ earlyTerminationFee: 150 }, now)).toEqual({
+      earlyTerminationFee: 150,
+      contractActive: true,
+    });
+    expect(
+      getSwitchingContext(
+        { earlyTerminationFee: 150, contractEndDate: 'not a date' },
+        now
+      ).monthsUntilContractEnd
+    ).toBeUndefined();
+    expect(getSwitchingContext(undefined, now).contractActive).toBe(false);
+  });
+});
+
+describe('analyzeSwitchTiming', () => {
+  const activeContract = getSwitchingContext(
+    { earlyTerminationFee: 150, contractEndDate: '2025-07-10' },
+    now
+  );
+
+  it('should switch now when there is no fee to pay', () => {
+    expect(
+      analyzeSwitchTiming({}, 10, getSwitchingContext(undefined, now), now)
+    ).toEqual({
+      switchingCost: 0,
+      switchTiming: 'now',
+      recommendedSwitchDate: '2025-01-10',
+      paybackPeriod: undefined,
+    });
+  });
+
+  it('should switch now when the fee is recovered before the contract ends', () => {
+    expect(analyzeSwitchTiming({}, 50, activeContract, now)).toMatchObject({
+      switchingCost: 150,
+      switchTiming: 'now',
+      paybackPeriod: 3,
+    });
+  });
+
+  it('should wait for the contract end when the fee takes longer to recover', () => {
+    expect(analyzeSwitchTiming({}, 10, activeContract, now)).toEqual({
+      switchingCost: 150,
+      switchTiming: 'contract_end',
+      recommendedSwitchDate: '2025-07-10',
+      paybackPeriod: 15,
+    });
+  });
+
+  it('should ignore the fee of an expired contract', () => {
+    const expired = getSwitchingContext(
+      { earlyTerminationFee: 150, contractEndDate: '2024-12-01' },
+      now
+    );
+
+    expect(analyzeSwitchTiming({}, 10, expired, now)).toMatchObject({
+      switchingCost: 0,
+      switchTiming: 'now',
+    });
+  });
+
+  it('should weigh the fee against the new contract term without an end date', () => {
+    const unknownEnd = getSwitchingContext({ earlyTerminationFee: 150 }, now);
+
+    // 15 months to recover the fee: longer than the default 12-month term
+    expect(analyzeSwitchTiming({}, 10, unknownEnd, now)).toEqual({
+      switchingCost: 150,
+      switchTiming: 'stay',
+      paybackPeriod: 15,
+    });
+    expect(
+      analyzeSwitchTiming({ contractLengthMonths: 24 }, 10, unknownEnd, now)
+        .switchTiming
+    ).toBe('now');
+  });
+
+  it('should stay when the plan does not save money', () => {
+    expect(analyzeSwitchTiming({}, -5, activeContract, now).switchTiming).toBe(
+      'stay'
+    );
+  });
+});
+
+describe('calculatePaybackPeriod', () => {
+  it('should round up to whole months of savings', () => {
+    expect(calculatePaybackPeriod(100, 30)).toBe(4);
+    expect(calculatePaybackPeriod(0, 30)).toBeUndefined();
+    expect(calculatePaybackPeriod(100, 0)).toBeUndefined();
+  });
+});
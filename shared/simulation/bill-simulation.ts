@@ -0,0 +1,587 @@
+/**
+ * Month-by-month bill simulation
+ *
+ * Single source of truth for projected plan costs. Used by the
+ * generate-recommendations Lambda and by the React pages so the numbers on a
+ * recommendation card and in the comparison table never diverge.
+ */
+
+import type {
+  CustomerUsageData,
+  EnergyPlan,
+  RateTier,
+  BillCredit,
+  UsageDataPoint,
+} from '../types';
+
+/**
+ * Usage input for a simulation
+ */
+export type SimulationUsageData = Pick<
+  CustomerUsageData,
+  'usageDataPoints' | 'aggregatedStats' | 'intervalDataPoints'
+>;
+
+/**
+ * Any priced plan - a catalog plan or the customer's current plan
+ * Only `ratePerKwh` is required; every other pricing field is optional
+ */
+export type BillingPlan = Pick<EnergyPlan, 'ratePerKwh'> &
+  Partial<Omit<EnergyPlan, 'ratePerKwh'>>;
+
+export interface BillSimulationOptions {
+  months?: number; // number of bills to project, default 12
+  startDate?: Date; // the first bill is for the month after this date, default now
+  includePromotions?: boolean; // default true
+}
+
+/**
+ * One projected monthly bill
+ */
+export interface MonthlyBill {
+  contractMonth: number; // 1 = first bill on the plan
+  year: number;
+  month: number; // calendar month, 1-12
+  kwh: number;
+  energyCost: number;
+  deliveryCost: number;
+  baseCharge: number;
+  credits: number;
+  taxes: number;
+  total: number;
+  isPromotional: boolean;
+  isRolledOver: boolean; // billed at the roll-over rate after the contract term
+  currentPlanTotal?: number; // same month on the current plan, when one is given
+  savings?: number; // currentPlanTotal - total
+}
+
+export interface BillSimulation {
+  monthlyBills: MonthlyBill[];
+  annualCost: number; // first 12 months
+  totalCost: number; // every simulated month
+  currentPlanTotalCost?: number;
+  totalSavings?: number;
+}
+
+/**
+ * Usage for a single calendar month
+ */
+export interface MonthlyUsage {
+  year: number;
+  month: number; // 1-12
+  kwh: number;
+  points: UsageDataPoint[];
+}
+
+const sum = (values: number[]): number =>
+  values.reduce((total, value) => total + value, 0);
+
+/**
+ * Read the wall-clock date and hour from an ISO timestamp
+ * Parsed from the string so interval readings keep the meter's local time
+ * instead of being shifted into the runtime's clock
+ */
+function getLocalDateParts(timestamp: string): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+} {
+  const match = timestamp.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}))?/);
+  if (match) {
+    return {
+      year: parseInt(match[1], 10),
+      month: parseInt(match[2], 10),
+      day: parseInt(match[3], 10),
+      hour: match[4] ? parseInt(match[4], 10) : 0,
+    };
+  }
+  const date = new Date(timestamp);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+  };
+}
+
+/**
+ * Get the energy rate that applies at a given hour
+ * The first matching time-of-use period wins; hours outside every period use
+ * the base rate
+ */
+function getRateForHour(
+  plan: BillingPlan,
+  year: number,
+  month: number,
+  day: number,
+  hour: number
+): number {
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const period = (plan.timeOfUseRates || []).find(p => {
+    if (p.months && p.months.length > 0 && !p.months.includes(month)) {
+      return false;
+    }
+    if (
+      p.daysOfWeek &&
+      p.daysOfWeek.length > 0 &&
+      !p.daysOfWeek.includes(dayOfWeek)
+    ) {
+      return false;
+    }
+    if (p.startHour < p.endHour) {
+      return hour >= p.startHour && hour < p.endHour;
+    }
+    // Window wraps past midnight (e.g. 21:00-06:00 free nights)
+    return hour >= p.startHour || hour < p.endHour;
+  });
+  return period ? period.ratePerKwh : plan.ratePerKwh;
+}
+
+/**
+ * Average rate across every hour of a month, assuming a flat load shape
+ * Used when only monthly totals are available for a time-of-use plan
+ */
+function getFlatLoadMonthlyRate(
+  plan: BillingPlan,
+  year: number,
+  month: number
+): number {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  let rateSum = 0;
+  for (let day = 1; day <= daysInMonth; day++) {
+    for (let hour = 0; hour < 24; hour++) {
+      rateSum += getRateForHour(plan, year, month, day, hour);
+    }
+  }
+  return rateSum / (daysInMonth * 24);
+}
+
+/**
+ * Detect sub-daily (hourly / 15-minute) interval readings
+ * Interval data lets time-of-use plans be priced against the real load shape
+ */
+export function isIntervalUsage(usagePoints: UsageDataPoint[]): boolean {
+  const times = usagePoints
+    .map(point => new Date(point.timestamp).getTime())
+    .filter(time => !isNaN(time))
+    .sort((a, b) => a - b);
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1];
+    if (gap > 0 && gap < 24 * 60 * 60 * 1000) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Group usage points into calendar months
+ * Interval readings are summed into their month; monthly points map 1:1
+ */
+export function groupUsageByMonth(
+  usagePoints: UsageDataPoint[]
+): MonthlyUsage[] {
+  const months = new Map<string, MonthlyUsage>();
+  for (const point of usagePoints) {
+    const { year, month } = getLocalDateParts(point.timestamp);
+    const key = `${year}-${month}`;
+    const existing = months.get(key);
+    if (existing) {
+      existing.kwh += point.kwh;
+      existing.points.push(point);
+    } else {
+      months.set(key, { year, month, kwh: point.kwh, points: [point] });
+    }
+  }
+  return Array.from(months.values()).sort(
+    (a, b) => a.year - b.year || a.month - b.month
+  );
+}
+
+/**
+ * Price a month's kWh against a tiered (block) rate schedule
+ * Tiers are applied in order; the last tier covers all remaining usage
+ */
+function calculateTieredEnergyCost(tiers: RateTier[], kwh: number): number {
+  let cost = 0;
+  let previousLimit = 0;
+  for (let i = 0; i < tiers.length; i++) {
+    const tier = tiers[i];
+    const isLastTier = i === tiers.length - 1 || tier.upToKwh === undefined;
+    const limit = isLastTier ? Infinity : (tier.upToKwh as number);
+    cost += Math.max(0, Math.min(kwh, limit) - previousLimit) * tier.ratePerKwh;
+    if (isLastTier || kwh <= limit) {
+      break;
+    }
+    previousLimit = limit;
+  }
+  return cost;
+}
+
+/**
+ * Total bill credits earned for a month's kWh
+ * A credit applies when usage falls inside its [minKwh, maxKwh] range
+ */
+function calculateBillCredits(credits: BillCredit[], kwh: number): number {
+  return sum(
+    credits
+      .filter(
+        credit =>
+          kwh >= credit.minKwh &&
+          (credit.maxKwh === undefined || kwh <= credit.maxKwh)
+      )
+      .map(credit => credit.amount)
+  );
+}
+
+/**
+ * Calculate the energy charge for one month
+ * Tiered plans price the month's total kWh through the tiers; time-of-use plans
+ * price each interval reading by its hour (or use the flat-load monthly rate);
+ * otherwise the base rate applies
+ */
+function calculateEnergyCost(
+  plan: BillingPlan,
+  monthUsage: MonthlyUsage,
+  interval: boolean
+): number {
+  if (plan.rateTiers && plan.rateTiers.length > 0) {
+    return calculateTieredEnergyCost(plan.rateTiers, monthUsage.kwh);
+  }
+
+  if (plan.timeOfUseRates && plan.timeOfUseRates.length > 0) {
+    if (!interval || monthUsage.points.length === 0) {
+      return (
+        monthUsage.kwh *
+        getFlatLoadMonthlyRate(plan, monthUsage.year, monthUsage.month)
+      );
+    }
+    // Month kWh may have been scaled; apply the same factor to each reading
+    const pointsKwh = sum(monthUsage.points.map(point => point.kwh));
+    const scale = pointsKwh > 0 ? monthUsage.kwh / pointsKwh : 0;
+    return sum(
+      monthUsage.points.map(point => {
+        const { year, month, day, hour } = getLocalDateParts(point.timestamp);
+        return point.kwh * scale * getRateForHour(plan, year, month, day, hour);
+      })
+    );
+  }
+
+  return monthUsage.kwh * plan.ratePerKwh;
+}
+
+/**
+ * Bill one month
+ * Energy charge plus delivery and fixed charges (including any minimum-usage
+ * fee), less bill credits, with taxes applied to the subtotal
+ */
+function calculateBill(
+  plan: BillingPlan,
+  monthUsage: MonthlyUsage,
+  interval: boolean
+): Pick<
+  MonthlyBill,
+  'energyCost' | 'deliveryCost' | 'baseCharge' | 'credits' | 'taxes' | 'total'
+> {
+  const charges = plan.charges || {};
+  const energyCost = calculateEnergyCost(plan, monthUsage, interval);
+  const deliveryCost =
+    (charges.deliveryChargePerKwh || 0) * monthUsage.kwh +
+    (charges.deliveryChargeMonthly || 0);
+  const minimumUsageFee =
+    monthUsage.kwh < (charges.minimumUsageKwh || 0)
+      ? charges.minimumUsageFee || 0
+      : 0;
+  const baseCharge = (charges.baseChargeMonthly || 0) + minimumUsageFee;
+  const credits = calculateBillCredits(plan.billCredits || [], monthUsage.kwh);
+  const subtotal = energyCost + deliveryCost + baseCharge - credits;
+  const taxes = subtotal * ((charges.taxPercentage || 0) / 100);
+  return {
+    energyCost,
+    deliveryCost,
+    baseCharge,
+    credits,
+    taxes,
+    total: subtotal + taxes,
+  };
+}
+
+/**
+ * Estimate a single month's bill from a kWh total
+ * Assumes a flat load across the month; used where only a monthly figure is known
+ */
+export function estimateMonthlyBill(
+  plan: BillingPlan,
+  kwh: number,
+  date: Date = new Date()
+): number {
+  return calculateBill(
+    plan,
+    {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      kwh,
+      points: [],
+    },
+    false
+  ).total;
+}
+
+/**
+ * Annual kWh for a customer
+ * Uses the aggregated total, then annualizes the usage points, then falls back
+ * to the average month
+ */
+export function calculateAnnualKwh(usageData: SimulationUsageData): number {
+  if (usageData.aggregatedStats.totalKwh > 0) {
+    return usageData.aggregatedStats.totalKwh;
+  }
+  const months = groupUsageByMonth(usageData.usageDataPoints);
+  const totalKwh = sum(months.map(month => month.kwh));
+  if (totalKwh > 0) {
+    return (totalKwh / months.length) * 12;
+  }
+  return (usageData.aggregatedStats.averageMonthlyKwh || 0) * 12;
+}
+
+/**
+ * Annual cost on the customer's current plan
+ * Uses the billed totals when available; otherwise prices the usage against
+ * the current plan when one is given
+ */
+export function calculateCurrentAnnualCost(
+  usageData: SimulationUsageData,
+  currentPlan?: BillingPlan
+): number {
+  if (usageData.aggregatedStats.totalCost > 0) {
+    return usageData.aggregatedStats.totalCost;
+  }
+  const billedPoints = usageData.usageDataPoints.filter(
+    point => (point.cost || 0) > 0
+  );
+  if (billedPoints.length > 0) {
+    const months = groupUsageByMonth(billedPoints);
+    return (
+      (sum(billedPoints.map(point => point.cost || 0)) / months.length) * 12
+    );
+  }
+  if (usageData.aggregatedStats.averageMonthlyCost > 0) {
+    return usageData.aggregatedStats.averageMonthlyCost * 12;
+  }
+  if (currentPlan && currentPlan.ratePerKwh > 0) {
+    return simulateBills(usageData, currentPlan, undefined, {
+      includePromotions: false,
+    }).annualCost;
+  }
+  return 0;
+}
+
+/**
+ * Billing plan for the customer's saved current plan
+ * Undefined when no energy rate is stored, since the charges alone cannot
+ * price a bill
+ */
+export function toCurrentBillingPlan(
+  currentPlan?: {
+    ratePerKwh?: number;
+    renewablePercentage?: number;
+    charges?: EnergyPlan['charges'];
+  } | null
+): BillingPlan | undefined {
+  if (!currentPlan?.ratePerKwh || currentPlan.ratePerKwh <= 0) {
+    return undefined;
+  }
+  return {
+    ratePerKwh: currentPlan.ratePerKwh,
+    renewablePercentage: currentPlan.renewablePercentage,
+    charges: currentPlan.charges,
+  };
+}
+
+/**
+ * Annual cost that savings are measured against
+ * The saved current plan's simulated bills when its rate is known, so the
+ * baseline prices the same usage profile as the candidate plans; otherwise
+ * the billed total
+ */
+export function calculateSavingsBaselineCost(
+  usageData: SimulationUsageData,
+  currentPlan?: BillingPlan
+): number {
+  if (currentPlan && currentPlan.ratePerKwh > 0) {
+    return simulateBills(usageData, currentPlan).annualCost;
+  }
+  return calculateCurrentAnnualCost(usageData);
+}
+
+/**
+ * Build a typical year of usage with one entry per calendar month
+ * Months missing from the data are filled with the average month, and the
+ * year is scaled to the annual kWh so every plan is compared over the same
+ * consumption. When raw interval readings are supplied, each month carries
+ * its most recent readings as the load shape instead of its monthly point.
+ */
+function buildUsageProfile(usageData: SimulationUsageData): MonthlyUsage[] {
+  const annualKwh = calculateAnnualKwh(usageData);
+  const byCalendarMonth = new Map<number, MonthlyUsage>();
+  // Sorted oldest first, so the most recent year wins for each calendar month
+  for (const monthUsage of groupUsageByMonth(usageData.usageDataPoints)) {
+    if (monthUsage.kwh > 0) {
+      byCalendarMonth.set(monthUsage.month, monthUsage);
+    }
+  }
+
+  const known = Array.from(byCalendarMonth.values());
+  const averageKwh =
+    known.length > 0
+      ? sum(known.map(month => month.kwh)) / known.length
+      : annualKwh / 12;
+  const year =
+    known.length > 0
+      ? Math.max(...known.map(month => month.year))
+      : new Date().getUTCFullYear();
+
+  const profile = Array.from(
+    { length: 12 },
+    (_, i): MonthlyUsage =>
+      byCalendarMonth.get(i + 1) || {
+        year,
+        month: i + 1,
+        kwh: averageKwh,
+        points: [],
+      }
+  );
+  const profileKwh = sum(profile.map(month => month.kwh));
+  const scale = profileKwh > 0 ? annualKwh / profileKwh : 0;
+
+  const intervalPoints = usageData.intervalDataPoints || [];
+  const loadShapes = new Map<number, UsageDataPoint[]>();
+  for (const monthUsage of groupUsageByMonth(intervalPoints)) {
+    loadShapes.set(monthUsage.month, monthUsage.points);
+  }
+  return profile.map(month => ({
+    ...month,
+    kwh: month.kwh * scale,
+    points:
+      intervalPoints.length > 0
+        ? loadShapes.get(month.month) || []
+        : month.points,
+  }));
+}
+
+/**
+ * Resolve the pricing that applies in a given contract month
+ * Promotional periods override the energy rate; after the contract term the
+ * plan rolls over to its roll-over rate when one is published
+ */
+function getPlanForContractMonth(
+  plan: BillingPlan,
+  contractMonth: number,
+  includePromotions: boolean
+): { plan: BillingPlan; isPromotional: boolean; isRolledOver: boolean } {
+  const promotion = includePromotions
+    ? (plan.promotionalPeriods || []).find(
+        promo =>
+          contractMonth >= promo.startMonth &&
+          contractMonth < promo.startMonth + promo.durationMonths
+      )
+    : undefined;
+  if (promotion) {
+    return {
+      plan: {
+        ...plan,
+        ratePerKwh: promotion.ratePerKwh,
+        timeOfUseRates: undefined,
+        rateTiers: undefined,
+      },
+      isPromotional: true,
+      isRolledOver: false,
+    };
+  }
+
+  const contractLength = plan.contractLengthMonths || 0;
+  if (
+    contractLength > 0 &&
+    contractMonth > contractLength &&
+    plan.rolloverRatePerKwh !== undefined
+  ) {
+    return {
+      plan: {
+        ...plan,
+        ratePerKwh: plan.rolloverRatePerKwh,
+        timeOfUseRates: undefined,
+        rateTiers: undefined,
+      },
+      isPromotional: false,
+      isRolledOver: true,
+    };
+  }
+
+  return { plan, isPromotional: false, isRolledOver: false };
+}
+
+/**
+ * Simulate monthly bills on a plan
+ * Each bill uses the usage profile for its calendar month and the pricing in
+ * effect for its contract month. When a current plan is given, every month is
+ * also priced on it so savings can be read per month.
+ */
+export function simulateBills(
+  usageData: SimulationUsageData,
+  plan: BillingPlan,
+  currentPlan?: BillingPlan,
+  options: BillSimulationOptions = {}
+): BillSimulation {
+  const {
+    months = 12,
+    startDate = new Date(),
+    includePromotions = true,
+  } = options;
+  const profile = buildUsageProfile(usageData);
+  const interval =
+    (usageData.intervalDataPoints || []).length > 0 ||
+    isIntervalUsage(usageData.usageDataPoints);
+  const startMonthIndex =
+    startDate.getUTCFullYear() * 12 + startDate.getUTCMonth() + 1;
+
+  const monthlyBills = Array.from({ length: months }, (_, i): MonthlyBill => {
+    const monthIndex = startMonthIndex + i;
+    const year = Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    const monthUsage = { ...profile[month - 1], year };
+    const contract = getPlanForContractMonth(plan, i + 1, includePromotions);
+    const bill: MonthlyBill = {
+      contractMonth: i + 1,
+      year,
+      month,
+      kwh: monthUsage.kwh,
+      ...calculateBill(contract.plan, monthUsage, interval),
+      isPromotional: contract.isPromotional,
+      isRolledOver: contract.isRolledOver,
+    };
+    if (currentPlan) {
+      bill.currentPlanTotal = calculateBill(
+        currentPlan,
+        monthUsage,
+        interval
+      ).total;
+      bill.savings = bill.currentPlanTotal - bill.total;
+    }
+    return bill;
+  });
+
+  const simulation: BillSimulation = {
+    monthlyBills,
+    annualCost: sum(monthlyBills.slice(0, 12).map(bill => bill.total)),
+    totalCost: sum(monthlyBills.map(bill => bill.total)),
+  };
+  if (currentPlan) {
+    simulation.currentPlanTotalCost = sum(
+      monthlyBills.map(bill => bill.currentPlanTotal || 0)
+    );
+    simulation.totalSavings =
+      simulation.currentPlanTotalCost - simulation.totalCost;
+  }
+  return simulation;
+}
@@ -0,0 +1,10 @@
+/**
+ * Shared bill simulation for frontend and backend
+ *
+ * Projects monthly bills so the recommendation Lambda and the React pages
+ * price plans the same way, and times switches around the current contract.
+ */
+
+export * from './bill-simulation';
+export * from './seasonal-costs';
+export * from './switch-timing';
@@ -0,0 +1,71 @@
+/**
+ * Seasonal cost projection
+ *
+ * Breaks a bill simulation into per-month and per-season costs on the current
+ * and the recommended plan, so customers can see when a new plan costs more.
+ */
+
+import type {
+  MonthlyCostProjection,
+  Season,
+  SeasonalCostProjection,
+} from '../types';
+import type { BillSimulation } from './bill-simulation';
+
+/**
+ * Calendar months (1-12) in each season
+ */
+export const SEASON_MONTHS: Record<Season, number[]> = {
+  winter: [12, 1, 2],
+  spring: [3, 4, 5],
+  summer: [6, 7, 8],
+  fall: [9, 10, 11],
+};
+
+const SEASONS: Season[] = ['winter', 'spring', 'summer', 'fall'];
+
+/**
+ * Get the season for a calendar month (1-12)
+ */
+export function getSeason(month: number): Season {
+  return (
+    SEASONS.find(season => SEASON_MONTHS[season].includes(month)) || 'winter'
+  );
+}
+
+/**
+ * Per-month costs for the first year of a simulation
+ * The simulation must include a current plan for current costs to be non-zero
+ */
+export function projectMonthlyCosts(
+  simulation: BillSimulation
+): MonthlyCostProjection[] {
+  return simulation.monthlyBills.slice(0, 12).map(bill => ({
+    year: bill.year,
+    month: bill.month,
+    kwh: bill.kwh,
+    currentCost: bill.currentPlanTotal || 0,
+    projectedCost: bill.total,
+  }));
+}
+
+/**
+ * Total monthly costs by season, in winter-spring-summer-fall order
+ */
+export function summarizeSeasonalCosts(
+  monthlyCosts: MonthlyCostProjection[]
+): SeasonalCostProjection[] {
+  return SEASONS.map(season => {
+    const months = monthlyCosts.filter(
+      cost => getSeason(cost.month) === season
+    );
+    return {
+      season,
+      currentCost: months.reduce((total, cost) => total + cost.currentCost, 0),
+      projectedCost: months.reduce(
+        (total, cost) => total + cost.projectedCost,
+        0
+      ),
+    };
+  });
+}
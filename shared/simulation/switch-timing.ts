@@ -0,0 +1,125 @@
+/**
+ * Switch timing
+ *
+ * Decides whether leaving the current plan for a cheaper one pays off now,
+ * at the end of the current contract, or not at all, from the current plan's
+ * early termination fee and contract end date.
+ */
+
+import type { SwitchTiming } from '../types';
+import type { BillingPlan } from './bill-simulation';
+
+/**
+ * Current contract details that determine what switching costs
+ */
+export interface SwitchingContext {
+  earlyTerminationFee: number;
+  contractEndDate?: string;
+  monthsUntilContractEnd?: number; // undefined when the end date is unknown
+  contractActive: boolean; // the ETF applies when leaving now
+}
+
+export interface SwitchTimingAnalysis {
+  switchingCost: number; // ETF owed when switching today
+  switchTiming: SwitchTiming;
+  recommendedSwitchDate?: string; // YYYY-MM-DD
+  paybackPeriod?: number; // months of savings needed to recover the ETF
+}
+
+/**
+ * Calculate payback period in months
+ * Returns undefined if no upfront costs or negative savings
+ */
+export function calculatePaybackPeriod(
+  upfrontCosts: number,
+  monthlySavings: number
+): number | undefined {
+  if (upfrontCosts <= 0 || monthlySavings <= 0) {
+    return undefined;
+  }
+  return Math.ceil(upfrontCosts / monthlySavings);
+}
+
+/**
+ * Read the current contract
+ * Without an end date, a stored ETF is assumed to still apply
+ */
+export function getSwitchingContext(
+  currentPlan:
+    | { earlyTerminationFee?: number; contractEndDate?: string }
+    | undefined,
+  now: Date
+): SwitchingContext {
+  const earlyTerminationFee = currentPlan?.earlyTerminationFee || 0;
+  const endDate = currentPlan?.contractEndDate
+    ? new Date(currentPlan.contractEndDate)
+    : undefined;
+  if (!endDate || isNaN(endDate.getTime())) {
+    return { earlyTerminationFee, contractActive: earlyTerminationFee > 0 };
+  }
+
+  const contractActive = endDate.getTime() > now.getTime();
+  const monthsUntilContractEnd = contractActive
+    ? Math.max(
+        1,
+        (endDate.getUTCFullYear() - now.getUTCFullYear()) * 12 +
+          (endDate.getUTCMonth() - now.getUTCMonth()) +
+          (endDate.getUTCDate() > now.getUTCDate() ? 1 : 0)
+      )
+    : 0;
+  return {
+    earlyTerminationFee,
+    contractEndDate: currentPlan?.contractEndDate,
+    monthsUntilContractEnd,
+    contractActive,
+  };
+}
+
+/**
+ * Decide when switching to a plan pays off
+ * Switching now is best when the current plan's ETF is recovered before the
+ * contract would have ended anyway; otherwise wait for the end date. Stay when
+ * the plan does not save money, or the fee cannot be recovered within the new
+ * contract term and there is no end date to wait for.
+ */
+export function analyzeSwitchTiming(
+  plan: Pick<BillingPlan, 'contractLengthMonths'>,
+  monthlySavings: number,
+  switching: SwitchingContext,
+  now: Date
+): SwitchTimingAnalysis {
+  const today = now.toISOString().slice(0, 10);
+  const switchingCost = switching.contractActive
+    ? switching.earlyTerminationFee
+    : 0;
+  const paybackPeriod = calculatePaybackPeriod(switchingCost, monthlySavings);
+  const switchNow: SwitchTimingAnalysis = {
+    switchingCost,
+    switchTiming: 'now',
+    recommendedSwitchDate: today,
+    paybackPeriod,
+  };
+
+  if (monthlySavings <= 0) {
+    return { switchingCost, switchTiming: 'stay', paybackPeriod };
+  }
+  if (switchingCost <= 0) {
+    return switchNow;
+  }
+  if (switching.monthsUntilContractEnd !== undefined) {
+    return paybackPeriod !== undefined &&
+      paybackPeriod <= switching.monthsUntilContractEnd
+      ? switchNow
+      : {
+          switchingCost,
+          switchTiming: 'contract_end',
+          recommendedSwitchDate: switching.contractEndDate?.slice(0, 10),
+          paybackPeriod,
+        };
+  }
+
+  const contractTerm = plan.contractLengthMonths || 12;
+  return paybackPeriod !== undefined && paybackPeriod <= contractTerm
+    ? switchNow
+    : { switchingCost, switchTiming: 'stay', paybackPeriod };
+}
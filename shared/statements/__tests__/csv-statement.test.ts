@@ -0,0 +1,130 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  parseCsvStatement,
+  inferCsvColumnMappings,
+  isCsvColumnMappings,
+  parseCsvLine,
+  type CsvColumnMappings,
+} from '../csv-statement';
+
+const readSample = (filename: string): string =>
+  readFileSync(
+    join(__dirname, '../../../sample-statements', filename),
+    'utf-8'
+  );
+
+describe('parseCsvStatement', () => {
+  it('should parse the sample statement layout without AI', () => {
+    const parsed = parseCsvStatement(readSample('2024-01-statement.csv'));
+
+    expect(parsed).not.toBeNull();
+    expect(parsed!.usageDataPoints).toEqual([
+      {
+        timestamp: '2024-01-01T00:00:00.000Z',
+        kwh: 1125,
+        cost: 129.38,
+        periodStart: '2024-01-01T00:00:00.000Z',
+        periodEnd: '2024-01-31T00:00:00.000Z',
+      },
+    ]);
+    expect(parsed!.utilityInfo.utilityName).toBe('Austin Energy');
+    expect(parsed!.customerInfo).toMatchObject({
+      accountNumber: 'ACC-12345678',
+      address: { city: 'Austin', state: 'TX', zipCode: '78701' },
+    });
+    expect(parsed!.billingInfo?.currentPlan).toEqual({
+      supplierName: 'Reliant Energy',
+      planName: 'Reliant Secure 12',
+      ratePerKwh: 0.115,
+    });
+    expect(parsed!.aggregatedStats).toMatchObject({
+      totalKwh: 1125,
+      peakMonth: 'January',
+    });
+  });
+
+  it('should read M/D/YY dates and skip blank rows', () => {
+    const parsed = parseCsvStatement(readSample('2025-09-statement.csv'));
+
+    expect(parsed!.billingPeriod).toEqual({
+      start: '2025-09-01T00:00:00.000Z',
+      end: '2025-09-30T00:00:00.000Z',
+    });
+    expect(parsed!.usageDataPoints[0].kwh).toBe(1650);
+  });
+
+  it('should roll usage-only files up by month', () => {
+    const parsed = parseCsvStatement(
+      [
+        'Date,kWh,Cost',
+        '2024-03-01,10,1.50',
+        '2024-03-15,20,3.00',
+        '2024-04-01,"1,000",$150.00',
+      ].join('\n')
+    );
+
+    expect(parsed!.usageDataPoints).toEqual([
+      {
+        timestamp: '2024-03-01T00:00:00.000Z',
+        kwh: 30,
+        cost: 4.5,
+        periodStart: '2024-03-01T00:00:00.000Z',
+        periodEnd: '2024-03-15T00:00:00.000Z',
+      },
+      {
+        timestamp: '2024-04-01T00:00:00.000Z',
+        kwh: 1000,
+        cost: 150,
+        periodStart: '2024-04-01T00:00:00.000Z',
+        periodEnd: '2024-04-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should use stored mappings for other layouts', () => {
+    const csv = ['Read Date,Usage,Amount', '01/05/2024,900,99.00'].join('\n');
+    const stored: CsvColumnMappings = {
+      usage: { date: 'Read Date', kwh: 'Usage', cost: 'Amount' },
+    };
+
+    expect(parseCsvStatement(csv)).toBeNull();
+    expect(parseCsvStatement(csv, [stored])!.usageDataPoints[0]).toMatchObject({
+      timestamp: '2024-01-01T00:00:00.000Z',
+      kwh: 900,
+      cost: 99,
+    });
+  });
+});
+
+describe('inferCsvColumnMappings', () => {
+  it('should learn a layout with shared billing period headers', () => {
+    const csv = [
+      'Account Num,Supplier Name,Billing Period,Billing Period,Total kWh,Total Cost',
+      'ACC-123456,Green Mount,11/1/24,11/30/24,1050,128.1',
+    ].join('\n');
+
+    const mappings = inferCsvColumnMappings(csv);
+
+    expect(isCsvColumnMappings(mappings)).toBe(true);
+    const parsed = parseCsvStatement(csv, [mappings!]);
+    expect(parsed!.billingPeriod).toEqual({
+      start: '2024-11-01T00:00:00.000Z',
+      end: '2024-11-30T00:00:00.000Z',
+    });
+    expect(parsed!.usageDataPoints[0].kwh).toBe(1050);
+  });
+
+  it('should return null for files without usage headers', () => {
+    expect(inferCsvColumnMappings('Name,Notes\nJohn,hello')).toBeNull();
+  });
+});
+
+describe('parseCsvLine', () => {
+  it('should keep commas inside quoted values', () => {
+    expect(parseCsvLine('"1234 Oak St, Apt 2",Austin')).toEqual([
+      '1234 Oak St, Apt 2',
+      'Austin',
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { normalizeCurrentPlan } from '../current-plan';
+
+describe('normalizeCurrentPlan', () => {
+  it('should keep the plan terms printed on the bill', () => {
+    expect(
+      normalizeCurrentPlan({
+        supplierName: 'TXU Energy',
+        planName: 'Simple Rate 12',
+        ratePerKwh: 0.129,
+        contractEndDate: '2025-03-14T00:00:00.000Z',
+        earlyTerminationFee: 150,
+        renewablePercentage: 23,
+        charges: {
+          baseChargeMonthly: 9.95,
+          deliveryChargePerKwh: 0.04,
+          deliveryChargeMonthly: 4.23,
+        },
+      })
+    ).toEqual({
+      supplierName: 'TXU Energy',
+      planName: 'Simple Rate 12',
+      ratePerKwh: 0.129,
+      contractEndDate: '2025-03-14T00:00:00.000Z',
+      earlyTerminationFee: 150,
+      renewablePercentage: 23,
+      charges: {
+        baseChargeMonthly: 9.95,
+        deliveryChargePerKwh: 0.04,
+        deliveryChargeMonthly: 4.23,
+      },
+    });
+  });
+
+  it('should convert cents and printed amounts', () => {
+    const plan = normalizeCurrentPlan({
+      supplierName: 'Reliant',
+      ratePerKwh: '12.9',
+      contractEndDate: '3/14/25',
+      earlyTerminationFee: '$150.00',
+      charges: { deliveryChargePerKwh: 4.0 },
+    });
+
+    expect(plan?.ratePerKwh).toBeCloseTo(0.129);
+    expect(plan?.contractEndDate).toBe('2025-03-14T00:00:00.000Z');
+    expect(plan?.earlyTerminationFee).toBe(150);
+    expect(plan?.charges?.deliveryChargePerKwh).toBeCloseTo(0.04);
+  });
+
+  it('should drop values that cannot be read', () => {
+    const plan = normalizeCurrentPlan({
+      supplierName: 'Reliant',
+      ratePerKwh: 0.14,
+      contractEndDate: 'next spring',
+      earlyTerminationFee: -20,
+      renewablePercentage: 140,
+      charges: { baseChargeMonthly: null },
+    });
+
+    expect(plan).toEqual({ supplierName: 'Reliant', ratePerKwh: 0.14 });
+    expect(plan?.charges).toBeUndefined();
+  });
+
+  it('should need a supplier and an energy rate', () => {
+    expect(normalizeCurrentPlan({ supplierName: 'Reliant' })).toBeUndefined();
+    expect(normalizeCurrentPlan({ ratePerKwh: 0.14 })).toBeUndefined();
+    expect(normalizeCurrentPlan(null)).toBeUndefined();
+  });
+});
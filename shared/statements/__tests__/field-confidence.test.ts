@@ -0,0 +1,107 @@
+import {
+  extractedConfidence,
+  getLowConfidenceValues,
+  mergeStatementConfidence,
+  parsedStatementConfidence,
+  DEFAULT_MODEL_CONFIDENCE,
+  PARSED,
+} from '../field-confidence';
+import { calculateAggregatedStats } from '../parsed-statement';
+import { mergeParsedStatements } from '../merge-statements';
+import type { ParsedStatement } from '../parsed-statement';
+
+const january = { timestamp: '2024-01-01T00:00:00.000Z', kwh: 1125 };
+const february = { timestamp: '2024-02-01T00:00:00.000Z', kwh: 1080 };
+
+const statement: ParsedStatement = {
+  customerInfo: { accountNumber: 'ACC-12345678', address: { city: 'Austin' } },
+  utilityInfo: { utilityName: 'Austin Energy' },
+  usageDataPoints: [january],
+  aggregatedStats: calculateAggregatedStats([january]),
+};
+
+describe('parsedStatementConfidence', () => {
+  it('should mark every value a parser read as parsed', () => {
+    const confidence = parsedStatementConfidence(statement);
+
+    expect(confidence.fields).toEqual({
+      'customerInfo.accountNumber': PARSED,
+      'customerInfo.address': PARSED,
+      'utilityInfo.utilityName': PARSED,
+      aggregatedStats: { source: 'computed', confidence: 1 },
+    });
+    expect(confidence.usagePoints[january.timestamp]).toEqual(PARSED);
+  });
+});
+
+describe('extractedConfidence', () => {
+  it('should clamp the model score and default when it is missing', () => {
+    expect(extractedConfidence(1.4)).toEqual({
+      source: 'extracted',
+      confidence: 1,
+    });
+    expect(extractedConfidence('high').confidence).toBe(
+      DEFAULT_MODEL_CONFIDENCE
+    );
+  });
+});
+
+describe('mergeStatementConfidence', () => {
+  it('should follow the values the merge kept', () => {
+    const summaryPage = { ...statement, usageDataPoints: [january] };
+    const historyPage: ParsedStatement = {
+      ...statement,
+      customerInfo: { address: {} },
+      usageDataPoints: [{ ...january, cost: 129.38 }, february],
+    };
+    const merged = mergeParsedStatements([summaryPage, historyPage])!;
+
+    const confidence = mergeStatementConfidence(
+      [
+        {
+          usageDataPoints: summaryPage.usageDataPoints,
+          confidence: {
+            fields: {
+              'customerInfo.accountNumber': extractedConfidence(0.4),
+            },
+            usagePoints: { [january.timestamp]: extractedConfidence(0.9) },
+          },
+        },
+        {
+          usageDataPoints: historyPage.usageDataPoints,
+          confidence: parsedStatementConfidence(historyPage),
+        },
+      ],
+      merged.usageDataPoints
+    );
+
+    expect(confidence.fields['customerInfo.accountNumber']).toEqual(
+      extractedConfidence(0.4)
+    );
+    // January comes from the history table, which has the cost
+    expect(confidence.usagePoints[january.timestamp]).toEqual(PARSED);
+    expect(confidence.usagePoints[february.timestamp]).toEqual(PARSED);
+  });
+});
+
+describe('getLowConfidenceValues', () => {
+  it('should list values below the threshold', () => {
+    const low = getLowConfidenceValues({
+      fields: {
+        'utilityInfo.utilityName': extractedConfidence(0.3),
+        billingPeriod: extractedConfidence(0.95),
+      },
+      usagePoints: {
+        [january.timestamp]: extractedConfidence(0.5),
+        [february.timestamp]: PARSED,
+      },
+    });
+
+    expect(low.fields.map(field => field.field)).toEqual([
+      'utilityInfo.utilityName',
+    ]);
+    expect(low.usagePoints.map(point => point.timestamp)).toEqual([
+      january.timestamp,
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseGreenButtonXml, isGreenButtonXml } from '../green-button';
+
+const readSample = (filename: string): string =>
+  readFileSync(
+    join(__dirname, '../../../sample-statements', filename),
+    'utf-8'
+  );
+
+describe('parseGreenButtonXml', () => {
+  it('should read hourly interval readings at their native resolution', () => {
+    const parsed = parseGreenButtonXml(readSample('green-button-hourly.xml'));
+
+    expect(parsed).not.toBeNull();
+    // Only the delivered readings; the received (solar) meter reading is skipped
+    expect(parsed!.usageDataPoints).toHaveLength(24);
+    expect(parsed!.usageDataPoints[0]).toEqual({
+      timestamp: '2024-01-15T00:00:00-06:00',
+      kwh: 0.6,
+      cost: 0.072,
+    });
+    expect(parsed!.usageDataPoints[18]).toMatchObject({
+      timestamp: '2024-01-15T18:00:00-06:00',
+      kwh: 2.4,
+    });
+    expect(parsed!.aggregatedStats.totalKwh).toBeCloseTo(25.8);
+    expect(parsed!.aggregatedStats.peakMonth).toBe('January');
+  });
+
+  it('should shift readings inside the daylight saving window by dstOffset', () => {
+    // US Central time: DST from the second Sunday in March to the first Sunday
+    // in November, at 2 AM
+    const reading = (start: number) =>
+      `<IntervalReading><timePeriod><duration>3600</duration><start>${start}</start></timePeriod><value>1000</value></IntervalReading>`;
+    const xml = `<feed>
+      <entry><content><LocalTimeParameters>
+        <dstEndRule>B40E2000</dstEndRule>
+        <dstOffset>3600</dstOffset>
+        <dstStartRule>360E2000</dstStartRule>
+        <tzOffset>-21600</tzOffset>
+      </LocalTimeParameters></content></entry>
+      <entry><content><IntervalBlock>
+        ${reading(1710054000)}
+        ${reading(1710057600)}
+        ${reading(1721019600)}
+        ${reading(1730613600)}
+        ${reading(1730617200)}
+      </IntervalBlock></content></entry>
+    </feed>`;
+
+    const parsed = parseGreenButtonXml(xml);
+
+    expect(parsed!.usageDataPoints.map(point => point.timestamp)).toEqual([
+      '2024-03-10T01:00:00-06:00',
+      '2024-03-10T03:00:00-05:00',
+      '2024-07-15T00:00:00-05:00',
+      '2024-11-03T01:00:00-05:00',
+      '2024-11-03T01:00:00-06:00',
+    ]);
+  });
+
+  it('should read billing-period readings with a power of ten multiplier', () => {
+    const parsed = parseGreenButtonXml(readSample('green-button-monthly.xml'));
+
+    expect(parsed).not.toBeNull();
+    expect(parsed!.usageDataPoints).toHaveLength(12);
+    expect(parsed!.usageDataPoints[0]).toEqual({
+      timestamp: '2024-01-01T00:00:00-06:00',
+      kwh: 1125,
+      cost: 135,
+      periodStart: '2024-01-01T00:00:00-06:00',
+      periodEnd: '2024-02-01T00:00:00-06:00',
+    });
+    expect(parsed!.aggregatedStats.totalKwh).toBeCloseTo(16815);
+    expect(parsed!.aggregatedStats.peakMonth).toBe('July');
+    expect(parsed!.billingPeriod).toEqual({
+      start: '2024-01-01T00:00:00-06:00',
+      end: '2025-01-01T00:00:00-06:00',
+    });
+  });
+
+  it('should reject files without interval data', () => {
+    const csv = readSample('2024-01-statement.csv');
+
+    expect(isGreenButtonXml(csv)).toBe(false);
+    expect(parseGreenButtonXml(csv)).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { mergeParsedStatements } from '../merge-statements';
+import { parseUsageHistoryText } from '../usage-history';
+import {
+  calculateAggregatedStats,
+  type ParsedStatement,
+} from '../parsed-statement';
+import type { UsageDataPoint } from '../../types';
+
+const createStatement = (
+  usageDataPoints: UsageDataPoint[],
+  overrides: Partial<ParsedStatement> = {}
+): ParsedStatement => ({
+  customerInfo: { address: {} },
+  utilityInfo: { utilityName: 'Unknown Utility' },
+  usageDataPoints,
+  aggregatedStats: calculateAggregatedStats(usageDataPoints),
+  ...overrides,
+});
+
+describe('parseUsageHistoryText', () => {
+  it('should read one point per month from an annual summary', () => {
+    const points = parseUsageHistoryText(
+      readFileSync(
+        join(__dirname, '../../../sample-statements/2024-annual-summary.txt'),
+        'utf-8'
+      )
+    );
+
+    expect(points).toHaveLength(12);
+    expect(points[0]).toEqual({
+      timestamp: '2024-01-01T00:00:00.000Z',
+      kwh: 1125,
+      cost: 129.38,
+    });
+    expect(points[11].timestamp).toBe('2024-12-01T00:00:00.000Z');
+    expect(points.reduce((sum, point) => sum + point.kwh, 0)).toBe(16815);
+  });
+
+  it('should accept numeric months and two-digit years', () => {
+    const points = parseUsageHistoryText(
+      ['11/23  900', "Dec '23  1,000 kWh", '01/2024 1100 kWh $130.00'].join(
+        '\n'
+      )
+    );
+
+    expect(
+      points.map(point => [point.timestamp.slice(0, 7), point.kwh])
+    ).toEqual([
+      ['2023-11', 900],
+      ['2023-12', 1000],
+      ['2024-01', 1100],
+    ]);
+  });
+
+  it('should ignore text without a history table', () => {
+    expect(
+      parseUsageHistoryText('Jan 2024 1,125 kWh $129.38\nTotal due: $129.38')
+    ).toEqual([]);
+  });
+});
+
+describe('mergeParsedStatements', () => {
+  it('should de-duplicate months repeated across pages', () => {
+    const summaryPage = createStatement(
+      [
+        {
+          timestamp: '2024-03-01T00:00:00.000Z',
+          kwh: 950,
+          periodStart: '2024-03-01T00:00:00.000Z',
+          periodEnd: '2024-03-31T00:00:00.000Z',
+        },
+      ],
+      {
+        customerInfo: { accountNumber: 'ACC-12345678', address: {} },
+        utilityInfo: { utilityName: 'Austin Energy' },
+        billingPeriod: {
+          start: '2024-03-01T00:00:00.000Z',
+          end: '2024-03-31T00:00:00.000Z',
+        },
+      }
+    );
+    const historyPage = createStatement(
+      [
+        { timestamp: '2024-01-01T00:00:00.000Z', kwh: 1125, cost: 129.38 },
+        { timestamp: '2024-02-01T00:00:00.000Z', kwh: 1080, cost: 124.2 },
+        { timestamp: '2024-03-01T00:00:00.000Z', kwh: 950, cost: 109.25 },
+      ],
+      {
+        customerInfo: {
+          customerName: 'John Smith',
+          address: { city: 'Austin', state: 'TX' },
+        },
+      }
+    );
+
+    const merged = mergeParsedStatements([summaryPage, historyPage]);
+
+    expect(merged!.usageDataPoints.map(point => point.kwh)).toEqual([
+      1125, 1080, 950,
+    ]);
+    // The history row has the cost, so it wins over the summary's point
+    expect(merged!.usageDataPoints[2].cost).toBe(109.25);
+    expect(merged!.aggregatedStats.totalKwh).toBe(3155);
+    expect(merged!.utilityInfo.utilityName).toBe('Austin Energy');
+    expect(merged!.customerInfo).toMatchObject({
+      accountNumber: 'ACC-12345678',
+      customerName: 'John Smith',
+      address: { city: 'Austin', state: 'TX' },
+    });
+    expect(merged!.billingPeriod?.start).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  it('should prefer a monthly total over daily readings for the same month', () => {
+    const dailyPage = createStatement([
+      { timestamp: '2024-01-01T00:00:00.000Z', kwh: 40 },
+      { timestamp: '2024-01-02T00:00:00.000Z', kwh: 35 },
+      { timestamp: '2024-02-01T00:00:00.000Z', kwh: 30 },
+      { timestamp: '2024-02-02T00:00:00.000Z', kwh: 32 },
+    ]);
+    const nextDailyPage = createStatement([
+      { timestamp: '2024-02-02T00:00:00.000Z', kwh: 32 },
+      { timestamp: '2024-02-03T00:00:00.000Z', kwh: 31 },
+    ]);
+    const totalPage = createStatement([
+      { timestamp: '2024-01-01T00:00:00.000Z', kwh: 1125 },
+    ]);
+
+    const merged = mergeParsedStatements([dailyPage, nextDailyPage, totalPage]);
+
+    expect(
+      merged!.usageDataPoints.map(point => [
+        point.timestamp.slice(0, 10),
+        point.kwh,
+      ])
+    ).toEqual([
+      ['2024-01-01', 1125],
+      ['2024-02-01', 30],
+      ['2024-02-02', 32],
+      ['2024-02-03', 31],
+    ]);
+  });
+
+  it('should return null when there is nothing to merge', () => {
+    expect(mergeParsedStatements([])).toBeNull();
+  });
+});
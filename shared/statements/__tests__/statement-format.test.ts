@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  fingerprintCsvStatement,
+  hashString,
+  rankStatementFormats,
+  shouldDemoteStatementFormat,
+  countStatementFormatCorrections,
+  type StatementFormatRecord,
+} from '../statement-format';
+
+const readSample = (filename: string): string =>
+  readFileSync(
+    join(__dirname, '../../../sample-statements', filename),
+    'utf-8'
+  );
+
+describe('hashString', () => {
+  it('should be stable and short', () => {
+    expect(hashString('date|kwh|cost')).toBe(hashString('date|kwh|cost'));
+    expect(hashString('date|kwh|cost')).toMatch(/^[0-9a-f]{8}$/);
+    expect(hashString('date|kwh')).not.toBe(hashString('date|kwh|cost'));
+  });
+});
+
+describe('fingerprintCsvStatement', () => {
+  it('should give bills in the same layout the same fingerprint', () => {
+    const january = fingerprintCsvStatement(
+      readSample('2024-01-statement.csv')
+    );
+    const february = fingerprintCsvStatement(
+      readSample('2024-02-statement.csv')
+    );
+
+    expect(january).toEqual(february);
+    expect(january!.headerSignature).toBe(
+      'account number|customer name|service address|city|state|zip|utility name|supplier name|plan name|rate per kwh|billing period start|billing period end|total kwh|total cost;date|kwh|cost'
+    );
+  });
+
+  it('should tell layouts apart by headers and row shapes', () => {
+    const usage = fingerprintCsvStatement(
+      'Date,kWh,Cost\n2024-01-01,38.5,4.43\n2024-01-08,35.2,4.05'
+    );
+    const renamed = fingerprintCsvStatement(
+      'Read Date,Usage,Amount\n2024-01-01,38.5,4.43'
+    );
+    const reordered = fingerprintCsvStatement(
+      'Date,kWh,Cost\n38.5,2024-01-01,4.43'
+    );
+
+    expect(renamed!.fingerprint).not.toBe(usage!.fingerprint);
+    expect(renamed!.layoutHash).toBe(usage!.layoutHash);
+    expect(reordered!.headerSignature).toBe(usage!.headerSignature);
+    expect(reordered!.layoutHash).not.toBe(usage!.layoutHash);
+    expect(fingerprintCsvStatement('\n\n')).toBeNull();
+  });
+});
+
+describe('rankStatementFormats', () => {
+  const fingerprint = fingerprintCsvStatement(
+    'Date,kWh,Cost\n2024-01-01,38.5,4.43'
+  )!;
+  const createFormat = (
+    overrides: Partial<StatementFormatRecord> & { id: string }
+  ) => ({
+    utilityName: 'Austin Energy',
+    fileType: 'csv',
+    successCount: 1,
+    lastUsedAt: '2024-06-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  it('should put exact fingerprints first and skip inactive formats', () => {
+    const ranked = rankStatementFormats(
+      [
+        createFormat({ id: 'utility', successCount: 40 }),
+        createFormat({
+          id: 'header',
+          headerSignature: fingerprint.headerSignature,
+          successCount: 9,
+        }),
+        createFormat({ id: 'exact', ...fingerprint }),
+        createFormat({ id: 'demoted', ...fingerprint, status: 'demoted' }),
+        createFormat({ id: 'retired', ...fingerprint, status: 'retired' }),
+        createFormat({ id: 'other', utilityName: 'Oncor' }),
+      ],
+      fingerprint,
+      'Austin Energy'
+    );
+
+    expect(ranked.map(({ format, match }) => [format.id, match])).toEqual([
+      ['exact', 'fingerprint'],
+      ['header', 'header'],
+      ['utility', 'utility'],
+    ]);
+  });
+});
+
+describe('shouldDemoteStatementFormat', () => {
+  it('should demote formats users keep correcting', () => {
+    expect(shouldDemoteStatementFormat(3, 2)).toBe(true);
+    expect(shouldDemoteStatementFormat(3, 1)).toBe(false);
+    expect(shouldDemoteStatementFormat(50, 2)).toBe(false);
+  });
+});
+
+describe('countStatementFormatCorrections', () => {
+  it('should count each correcting user once', () => {
+    expect(
+      countStatementFormatCorrections([
+        { owner: 'user-1' },
+        { owner: 'user-1' },
+        { owner: 'user-2' },
+        { owner: null },
+        {},
+      ])
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * Deterministic CSV statement parser
+ *
+ * Recognizes known CSV layouts from column mappings (header names) and
+ * extracts usage without an AI call. A layout has an optional summary section
+ * (a header row followed by one row per bill) and an optional usage section
+ * (a `Date,kWh,Cost` style header followed by readings), as in
+ * sample-statements.
+ */
+
+import type { UsageDataPoint } from '../types';
+import {
+  calculateAggregatedStats,
+  parseStatementDate,
+  parseStatementNumber,
+  type ParsedStatement,
+} from './parsed-statement';
+
+export type CsvSummaryField =
+  | 'accountNumber'
+  | 'customerName'
+  | 'serviceAddress'
+  | 'city'
+  | 'state'
+  | 'zipCode'
+  | 'utilityName'
+  | 'supplierName'
+  | 'planName'
+  | 'ratePerKwh'
+  | 'billingPeriodStart'
+  | 'billingPeriodEnd'
+  | 'totalKwh'
+  | 'totalCost';
+
+export type CsvUsageField = 'date' | 'kwh' | 'cost';
+
+/**
+ * Column mappings for a CSV layout, stored in StatementFormat.columnMappings
+ * Values are header names as they appear in the file. When the billing period
+ * start and end share a header name, the first and second columns with that
+ * name are used.
+ */
+export interface CsvColumnMappings {
+  summary?: Partial<Record<CsvSummaryField, string>>;
+  usage?: Partial<Record<CsvUsageField, string>>;
+}
+
+/**
+ * Layout of the statements in sample-statements
+ */
+export const DEFAULT_CSV_COLUMN_MAPPINGS: CsvColumnMappings = {
+  summary: {
+    accountNumber: 'Account Number',
+    customerName: 'Customer Name',
+    serviceAddress: 'Service Address',
+    city: 'City',
+    state: 'State',
+    zipCode: 'ZIP',
+    utilityName: 'Utility Name',
+    supplierName: 'Supplier Name',
+    planName: 'Plan Name',
+    ratePerKwh: 'Rate per kWh',
+    billingPeriodStart: 'Billing Period Start',
+    billingPeriodEnd: 'Billing Period End',
+    totalKwh: 'Total kWh',
+    totalCost: 'Total Cost',
+  },
+  usage: {
+    date: 'Date',
+    kwh: 'kWh',
+    cost: 'Cost',
+  },
+};
+
+/**
+ * Header patterns used to infer mappings for a new layout
+ */
+const SUMMARY_HEADER_PATTERNS: Record<CsvSummaryField, RegExp> = {
+  accountNumber: /^(account|acct)\s*(num(ber)?|no\.?|#)?$/,
+  customerName: /^(customer\s*)?name$/,
+  serviceAddress: /^(service\s*|billing\s*)?address$/,
+  city: /^city$/,
+  state: /^state$/,
+  zipCode: /^(zip|zip\s*code|postal\s*code)$/,
+  utilityName: /^utility(\s*name)?$/,
+  supplierName: /^(supplier|provider|retailer)(\s*name)?$/,
+  planName: /^plan(\s*name)?$/,
+  ratePerKwh: /^(energy\s*)?rate(\s*(per|\/)\s*kwh)?$/,
+  billingPeriodStart:
+    /^(billing|service|statement)\s*period(\s*start)?$|^(period|bill)\s*start(\s*date)?$|^start\s*date$/,
+  billingPeriodEnd:
+    /^(billing|service|statement)\s*period(\s*end)?$|^(period|bill)\s*end(\s*date)?$|^end\s*date$/,
+  totalKwh: /^total\s*(kwh|usage|consumption)|^(kwh|usage)\s*total$/,
+  totalCost: /^total\s*(cost|amount|charges?)$|^(amount|total)\s*due$/,
+};
+
+const USAGE_HEADER_PATTERNS: Record<CsvUsageField, RegExp> = {
+  date: /^(date|(read|usage|service|interval)\s*date|day)$/,
+  kwh: /^(kwh|usage|consumption)(\s*\(?kwh\)?)?$/,
+  cost: /^(cost|amount|charges?)(\s*\(?\$\)?)?$/,
+};
+
+const normalizeHeader = (header: string): string =>
+  header.replace(/^"|"$/g, '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Split one CSV line into trimmed cells, honoring quoted values
+ */
+export function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Check that a stored value is a usable set of CSV column mappings
+ */
+export function isCsvColumnMappings(
+  value: unknown
+): value is CsvColumnMappings {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const mappings = value as CsvColumnMappings;
+  return (
+    typeof mappings.summary?.totalKwh === 'string' ||
+    (typeof mappings.usage?.date === 'string' &&
+      typeof mappings.usage?.kwh === 'string')
+  );
+}
+
+/**
+ * Find the column index of each mapped field in a header row
+ */
+function resolveColumns<Field extends string>(
+  headers: string[],
+  fields: Partial<Record<Field, string>>
+): Partial<Record<Field, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<Field, number>> = {};
+  const used = new Set<number>();
+  for (const [field, name] of Object.entries(fields) as Array<
+    [Field, string]
+  >) {
+    const index = normalized.findIndex(
+      (header, i) => header === normalizeHeader(name) && !used.has(i)
+    );
+    if (index !== -1) {
+      columns[field] = index;
+      used.add(index);
+    }
+  }
+  return columns;
+}
+
+interface SummaryRow {
+  values: Partial<Record<CsvSummaryField, string>>;
+  periodStart?: string;
+  periodEnd?: string;
+  totalKwh: number;
+  totalCost?: number;
+}
+
+interface UsageRow {
+  date: string;
+  kwh: number;
+  cost?: number;
+}
+
+const readRow = <Field extends string>(
+  cells: string[],
+  columns: Partial<Record<Field, number>>
+): Partial<Record<Field, string>> => {
+  const values: Partial<Record<Field, string>> = {};
+  for (const [field, index] of Object.entries(columns) as Array<
+    [Field, number]
+  >) {
+    const value = cells[index]?.replace(/^"|"$/g, '').trim();
+    if (value) {
+      values[field] = value;
+    }
+  }
+  return values;
+};
+
+/**
+ * Roll usage readings up into one point per calendar month
+ */
+function aggregateUsageRows(rows: UsageRow[]): UsageDataPoint[] {
+  const months = new Map<string, UsageDataPoint>();
+  for (const row of [...rows].sort((a, b) => a.date.localeCompare(b.date))) {
+    const key = row.date.slice(0, 7);
+    const existing = months.get(key);
+    if (existing) {
+      existing.kwh += row.kwh;
+      if (row.cost !== undefined) {
+        existing.cost = (existing.cost || 0) + row.cost;
+      }
+      existing.periodEnd = row.date;
+    } else {
+      months.set(key, {
+        timestamp: `${key}-01T00:00:00.000Z`,
+        kwh: row.kwh,
+        cost: row.cost,
+        periodStart: row.date,
+        periodEnd: row.date,
+      });
+    }
+  }
+  return Array.from(months.values());
+}
+
+/**
+ * Parse a CSV statement with one layout
+ */
+function parseWithMappings(
+  rows: string[][],
+  mappings: CsvColumnMappings
+): ParsedStatement | null {
+  const summaries: SummaryRow[] = [];
+  const usageRows: UsageRow[] = [];
+  let section:
+    | { type: 'summary'; columns: Partial<Record<CsvSummaryField, number>> }
+    | { type: 'usage'; columns: Partial<Record<CsvUsageField, number>> }
+    | null = null;
+
+  for (const cells of rows) {
+    const summaryColumns = mappings.summary
+      ? resolveColumns(cells, mappings.summary)
+      : {};
+    if (summaryColumns.totalKwh !== undefined) {
+      section = { type: 'summary', columns: summaryColumns };
+      continue;
+    }
+    const usageColumns = mappings.usage
+      ? resolveColumns(cells, mappings.usage)
+      : {};
+    if (usageColumns.date !== undefined && usageColumns.kwh !== undefined) {
+      section = { type: 'usage', columns: usageColumns };
+      continue;
+    }
+
+    if (section?.type === 'summary') {
+      const values = readRow(cells, section.columns);
+      const totalKwh = parseStatementNumber(values.totalKwh);
+      if (totalKwh !== null && totalKwh > 0) {
+        summaries.push({
+          values,
+          periodStart: values.billingPeriodStart
+            ? parseStatementDate(values.billingPeriodStart) || undefined
+            : undefined,
+          periodEnd: values.billingPeriodEnd
+            ? parseStatementDate(values.billingPeriodEnd) || undefined
+            : undefined,
+          totalKwh,
+          totalCost: parseStatementNumber(values.totalCost) ?? undefined,
+        });
+      }
+    } else if (section?.type === 'usage') {
+      const values = readRow(cells, section.columns);
+      const date = values.date ? parseStatementDate(values.date) : null;
+      const kwh = parseStatementNumber(values.kwh);
+      if (date && kwh !== null && kwh > 0) {
+        usageRows.push({
+          date,
+          kwh,
+          cost: parseStatementNumber(values.cost) ?? undefined,
+        });
+      }
+    }
+  }
+
+  // A bill's totals are authoritative; readings only fill in when no bill
+  // summary is present (they are often a partial sample of the period)
+  const billPoints = summaries
+    .map((summary): UsageDataPoint | null => {
+      const timestamp =
+        summary.periodStart ||
+        usageRows.find(
+          row => !summary.periodEnd || row.date <= summary.periodEnd
+        )?.date;
+      if (!timestamp) {
+        return null;
+      }
+      return {
+        timestamp,
+        kwh: summary.totalKwh,
+        cost: summary.totalCost,
+        periodStart: summary.periodStart,
+        periodEnd: summary.periodEnd,
+      };
+    })
+    .filter((point): point is UsageDataPoint => point !== null);
+  const usageDataPoints = (
+    billPoints.length > 0 ? billPoints : aggregateUsageRows(usageRows)
+  ).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  if (usageDataPoints.length === 0) {
+    return null;
+  }
+
+  const periodStarts = usageDataPoints
+    .map(point => point.periodStart || point.timestamp)
+    .sort();
+  const periodEnds = usageDataPoints
+    .map(point => point.periodEnd || point.timestamp)
+    .sort();
+  const billingPeriod = {
+    start: periodStarts[0],
+    end: periodEnds[periodEnds.length - 1],
+  };
+
+  const first = summaries[0]?.values || {};
+  const latest = [...summaries].sort((a, b) =>
+    (a.periodStart || '').localeCompare(b.periodStart || '')
+  )[summaries.length - 1];
+  const rate =
+    parseStatementNumber(latest?.values.ratePerKwh) ??
+    (latest?.totalCost !== undefined
+      ? latest.totalCost / latest.totalKwh
+      : undefined);
+
+  return {
+    customerInfo: {
+      accountNumber: first.accountNumber,
+      customerName: first.customerName,
+      address: {
+        street: first.serviceAddress,
+        city: first.city,
+        state: first.state,
+        zipCode: first.zipCode,
+      },
+    },
+    utilityInfo: {
+      utilityName: first.utilityName || 'Unknown Utility',
+    },
+    billingPeriod,
+    usageDataPoints,
+    aggregatedStats: calculateAggregatedStats(usageDataPoints),
+    billingInfo: {
+      currentPlan:
+        latest?.values.supplierName && rate !== undefined
+          ? {
+              supplierName: latest.values.supplierName,
+              planName: latest.values.planName,
+              ratePerKwh: rate,
+            }
+          : undefined,
+      billingPeriod,
+    },
+  };
+}
+
+const toRows = (text: string): string[][] =>
+  text
+    .split(/\r?\n/)
+    .map(parseCsvLine)
+    .filter(cells => cells.some(cell => cell.replace(/"/g, '') !== ''));
+
+/**
+ * Parse a CSV statement with the first layout that recognizes it
+ * Returns null when no layout yields any usage, so the caller can fall back
+ * to AI extraction.
+ */
+export function parseCsvStatement(
+  text: string,
+  layouts: CsvColumnMappings[] = [DEFAULT_CSV_COLUMN_MAPPINGS]
+): (ParsedStatement & { columnMappings: CsvColumnMappings }) | null {
+  const rows = toRows(text);
+  for (const columnMappings of layouts) {
+    const parsed = parseWithMappings(rows, columnMappings);
+    if (parsed) {
+      return { ...parsed, columnMappings };
+    }
+  }
+  return null;
+}
+
+/**
+ * Infer column mappings for a new layout from common header names
+ * Used to learn a layout after an AI extraction; the caller should confirm
+ * the mappings reproduce the AI result before storing them.
+ */
+export function inferCsvColumnMappings(text: string): CsvColumnMappings | null {
+  const match = <Field extends string>(
+    headers: string[],
+    patterns: Record<Field, RegExp>
+  ): Partial<Record<Field, string>> => {
+    const fields: Partial<Record<Field, string>> = {};
+    for (const [field, pattern] of Object.entries(patterns) as Array<
+      [Field, RegExp]
+    >) {
+      const matches = headers.filter(header =>
+        pattern.test(normalizeHeader(header))
+      );
+      if (matches.length > 0) {
+        // Shared "Billing Period" headers: start is the first, end the last
+        fields[field] =
+          field === 'billingPeriodEnd'
+            ? matches[matches.length - 1]
+            : matches[0];
+      }
+    }
+    return fields;
+  };
+
+  const mappings: CsvColumnMappings = {};
+  for (const cells of toRows(text)) {
+    const summary = match(cells, SUMMARY_HEADER_PATTERNS);
+    if (!mappings.summary && summary.totalKwh) {
+      mappings.summary = summary;
+      continue;
+    }
+    const usage = match(cells, USAGE_HEADER_PATTERNS);
+    if (!mappings.usage && usage.date && usage.kwh) {
+      mappings.usage = usage;
+    }
+  }
+  return isCsvColumnMappings(mappings) ? mappings : null;
+}
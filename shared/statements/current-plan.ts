@@ -0,0 +1,87 @@
+/**
+ * Current plan
+ *
+ * Validates the current plan a statement reader returns, so the plan terms
+ * saved from a bill are numbers and dates in the units the app uses.
+ */
+
+import {
+  parseStatementDate,
+  parseStatementNumber,
+  type StatementCurrentPlan,
+} from './parsed-statement';
+
+// Per-kWh prices above this are in cents, e.g. 12.9 for 12.9¢/kWh
+const MAX_DOLLARS_PER_KWH = 1;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  return typeof value === 'string' ? parseStatementNumber(value) : null;
+}
+
+function toDollarsPerKwh(value: unknown): number | undefined {
+  const rate = toNumber(value);
+  if (rate === null || rate <= 0) {
+    return undefined;
+  }
+  return rate > MAX_DOLLARS_PER_KWH ? rate / 100 : rate;
+}
+
+function toAmount(value: unknown): number | undefined {
+  const amount = toNumber(value);
+  return amount !== null && amount >= 0 ? amount : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate a current plan read from a statement
+ * Returns undefined without a supplier name and energy rate. Values that
+ * can't be read are dropped rather than guessed: rates are converted to
+ * $/kWh, the renewable share must be 0-100 and fees can't be negative.
+ */
+export function normalizeCurrentPlan(
+  raw: unknown
+): StatementCurrentPlan | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const plan = raw as Record<string, unknown>;
+  const supplierName = toText(plan.supplierName);
+  const ratePerKwh = toDollarsPerKwh(plan.ratePerKwh);
+  if (!supplierName || ratePerKwh === undefined) {
+    return undefined;
+  }
+
+  const contractEndDate =
+    typeof plan.contractEndDate === 'string'
+      ? parseStatementDate(plan.contractEndDate) || undefined
+      : undefined;
+  const renewable = toNumber(plan.renewablePercentage);
+  const rawCharges = (
+    plan.charges && typeof plan.charges === 'object' ? plan.charges : {}
+  ) as Record<string, unknown>;
+  const charges: StatementCurrentPlan['charges'] = {
+    baseChargeMonthly: toAmount(rawCharges.baseChargeMonthly),
+    deliveryChargePerKwh: toDollarsPerKwh(rawCharges.deliveryChargePerKwh),
+    deliveryChargeMonthly: toAmount(rawCharges.deliveryChargeMonthly),
+  };
+  const hasCharges = Object.values(charges).some(value => value !== undefined);
+
+  return {
+    supplierName,
+    planName: toText(plan.planName),
+    ratePerKwh,
+    contractEndDate,
+    earlyTerminationFee: toAmount(plan.earlyTerminationFee),
+    renewablePercentage:
+      renewable !== null && renewable >= 0 && renewable <= 100
+        ? Math.round(renewable)
+        : undefined,
+    charges: hasCharges ? charges : undefined,
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Field confidence
+ *
+ * How sure the statement reader is of each value it returns, and where the
+ * value came from, so uncertain values can be checked before they are saved.
+ */
+
+import type { UsageDataPoint } from '../types';
+import type { ParsedStatement } from './parsed-statement';
+
+/**
+ * Where a value came from
+ * parsed = read by a deterministic parser, extracted = read by the model,
+ * computed = derived from other values
+ */
+export type FieldSource = 'parsed' | 'extracted' | 'computed';
+
+export interface FieldConfidence {
+  source: FieldSource;
+  confidence: number; // 0-1
+}
+
+export type StatementField =
+  | 'customerInfo.accountNumber'
+  | 'customerInfo.customerName'
+  | 'customerInfo.address'
+  | 'utilityInfo.utilityName'
+  | 'billingPeriod'
+  | 'billingInfo.currentPlan'
+  | 'aggregatedStats';
+
+export interface StatementConfidence {
+  fields: Partial<Record<StatementField, FieldConfidence>>;
+  usagePoints: Record<string, FieldConfidence>; // by point timestamp, covers kWh and cost
+}
+
+// Values below this are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Used when the model doesn't say how sure it is
+export const DEFAULT_MODEL_CONFIDENCE = 0.5;
+
+export const PARSED: FieldConfidence = { source: 'parsed', confidence: 1 };
+export const COMPUTED: FieldConfidence = { source: 'computed', confidence: 1 };
+
+/**
+ * Confidence for a value read by the model, from the score it reported
+ */
+export function extractedConfidence(score: unknown): FieldConfidence {
+  const confidence =
+    typeof score === 'number' && Number.isFinite(score)
+      ? Math.min(Math.max(score, 0), 1)
+      : DEFAULT_MODEL_CONFIDENCE;
+  return { source: 'extracted', confidence };
+}
+
+/**
+ * Fields of a statement that have a value
+ */
+export function getPresentFields(
+  statement: Pick<
+    ParsedStatement,
+    'customerInfo' | 'utilityInfo' | 'billingPeriod' | 'billingInfo'
+  >
+): StatementField[] {
+  const address = statement.customerInfo.address || {};
+  const present: Array<[StatementField, unknown]> = [
+    ['customerInfo.accountNumber', statement.customerInfo.accountNumber],
+    ['customerInfo.customerName', statement.customerInfo.customerName],
+    [
+      'customerInfo.address',
+      Object.values(address).some(Boolean) ? address : undefined,
+    ],
+    [
+      'utilityInfo.utilityName',
+      statement.utilityInfo.utilityName !== 'Unknown Utility'
+        ? statement.utilityInfo.utilityName
+        : undefined,
+    ],
+    ['billingPeriod', statement.billingPeriod],
+    ['billingInfo.currentPlan', statement.billingInfo?.currentPlan],
+  ];
+  return present.filter(([, value]) => Boolean(value)).map(([field]) => field);
+}
+
+/**
+ * Confidence for a statement read entirely by a deterministic parser
+ */
+export function parsedStatementConfidence(
+  statement: ParsedStatement
+): StatementConfidence {
+  const fields: StatementConfidence['fields'] = { aggregatedStats: COMPUTED };
+  getPresentFields(statement).forEach(field => {
+    fields[field] = PARSED;
+  });
+  const usagePoints: StatementConfidence['usagePoints'] = {};
+  statement.usageDataPoints.forEach(point => {
+    usagePoints[point.timestamp] = PARSED;
+  });
+  return { fields, usagePoints };
+}
+
+/**
+ * Combine the confidence of statements merged with mergeParsedStatements
+ * Each field takes the confidence of the first statement that has it, as the
+ * merge takes its value; usage points are matched to the statement they came
+ * from.
+ */
+export function mergeStatementConfidence(
+  parts: Array<{
+    usageDataPoints: UsageDataPoint[];
+    confidence: StatementConfidence;
+  }>,
+  mergedPoints: UsageDataPoint[]
+): StatementConfidence {
+  const fields: StatementConfidence['fields'] = {};
+  parts.forEach(({ confidence }) => {
+    (Object.keys(confidence.fields) as StatementField[]).forEach(field => {
+      fields[field] = fields[field] || confidence.fields[field];
+    });
+  });
+  fields.aggregatedStats = COMPUTED;
+
+  const pointConfidence = new Map<UsageDataPoint, FieldConfidence>();
+  parts.forEach(({ usageDataPoints, confidence }) => {
+    usageDataPoints.forEach(point => {
+      const score = confidence.usagePoints[point.timestamp];
+      if (score) {
+        pointConfidence.set(point, score);
+      }
+    });
+  });
+  const usagePoints: StatementConfidence['usagePoints'] = {};
+  mergedPoints.forEach(point => {
+    const score = pointConfidence.get(point);
+    if (score) {
+      usagePoints[point.timestamp] = score;
+    }
+  });
+  return { fields, usagePoints };
+}
+
+/**
+ * Fields and usage points whose confidence is below the threshold
+ */
+export function getLowConfidenceValues(
+  confidence: StatementConfidence | undefined,
+  threshold: number = LOW_CONFIDENCE_THRESHOLD
+): {
+  fields: Array<{ field: StatementField } & FieldConfidence>;
+  usagePoints: Array<{ timestamp: string } & FieldConfidence>;
+} {
+  if (!confidence) {
+    return { fields: [], usagePoints: [] };
+  }
+  return {
+    fields: (Object.keys(confidence.fields) as StatementField[])
+      .map(field => ({ field, ...confidence.fields[field]! }))
+      .filter(field => field.confidence < threshold),
+    usagePoints: Object.entries(confidence.usagePoints)
+      .map(([timestamp, score]) => ({ timestamp, ...score }))
+      .filter(point => point.confidence < threshold),
+  };
+}
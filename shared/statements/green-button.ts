@@ -0,0 +1,291 @@
+/**
+ * Green Button (ESPI) usage parser
+ *
+ * Reads Green Button Download My Data / Connect My Data files: an Atom feed of
+ * NAESB ESPI resources. Every `IntervalReading` becomes a usage point at its
+ * native resolution (15-minute, hourly, daily or per bill). String-based so it
+ * runs in the browser and in Lambda without an XML DOM.
+ */
+
+import type { UsageDataPoint } from '../types';
+import {
+  calculateAggregatedStats,
+  type ParsedStatement,
+} from './parsed-statement';
+
+/**
+ * ESPI codes used when reading values
+ */
+export const ESPI_CODES = {
+  uomWattHours: 72, // ReadingType.uom for real energy (Wh)
+  flowReverse: 19, // ReadingType.flowDirection for energy sent to the grid
+  costDivisor: 100000, // IntervalReading.cost is in hundred-thousandths of the currency
+} as const;
+
+interface ReadingType {
+  multiplier: number;
+  uom: number;
+  flowDirection?: number;
+}
+
+/**
+ * The feed's LocalTimeParameters; offsets are in seconds
+ */
+interface LocalTimeParameters {
+  tzOffset: number; // standard time offset from UTC
+  dstOffset: number; // added to tzOffset while daylight saving time is in effect
+  dstStartRule?: number;
+  dstEndRule?: number;
+}
+
+// DstRuleType value that turns daylight saving time off
+const DST_RULE_DISABLED = 0xffffffff;
+
+const tagPattern = (name: string, flags = ''): RegExp =>
+  new RegExp(
+    `<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`,
+    flags
+  );
+
+const findElements = (xml: string, name: string): string[] =>
+  Array.from(xml.matchAll(tagPattern(name, 'g')), match => match[1]);
+
+const findText = (xml: string, name: string): string | undefined =>
+  xml.match(tagPattern(name))?.[1].trim();
+
+const findNumber = (xml: string, name: string): number | undefined => {
+  const text = findText(xml, name);
+  const value = text === undefined ? NaN : Number(text);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * Atom links of an entry by rel, with the scheme and host removed
+ */
+const findLinks = (entry: string, rel: string): string[] =>
+  Array.from(
+    entry.matchAll(/<(?:[\w-]+:)?link\b([^>]*)\/?>/g),
+    match => match[1]
+  )
+    .filter(attributes => new RegExp(`rel=["']${rel}["']`).test(attributes))
+    .map(attributes => attributes.match(/href=["']([^"']+)["']/)?.[1] || '')
+    .map(href => href.replace(/^https?:\/\/[^/]+/, '').replace(/\/$/, ''));
+
+/**
+ * Format epoch seconds as a local wall-clock ISO timestamp with its offset,
+ * e.g. 2024-07-01T14:00:00-06:00, so hours read as local time
+ */
+function toLocalTimestamp(epochSeconds: number, offsetSeconds: number): string {
+  const local = new Date((epochSeconds + offsetSeconds) * 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const sign = offsetSeconds < 0 ? '-' : '+';
+  const offset = Math.abs(offsetSeconds);
+  return (
+    `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}` +
+    `T${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${pad(local.getUTCSeconds())}` +
+    `${sign}${pad(Math.floor(offset / 3600))}:${pad(Math.floor((offset % 3600) / 60))}`
+  );
+}
+
+const readDstRule = (xml: string, name: string): number | undefined => {
+  const text = findText(xml, name);
+  const rule = text && /^[0-9a-f]{8}$/i.test(text) ? parseInt(text, 16) : NaN;
+  return Number.isFinite(rule) && rule !== DST_RULE_DISABLED ? rule : undefined;
+};
+
+/**
+ * When an ESPI DST rule (DstRuleType) fires in a year, in epoch seconds
+ * Bits 28-31 hold the month, 25-27 the operator, 20-24 the day of the month,
+ * 17-19 the day of the week (1 = Monday ... 7 = Sunday), 12-16 the hour and
+ * 0-11 the seconds. Operator 0 is the day of the month, 1 the day of the week
+ * on or after it, 2-6 its first to fifth occurrence and 7 its last. The time
+ * is wall-clock time on the clock in effect before the change (offsetSeconds).
+ */
+function dstRuleInstant(
+  rule: number,
+  year: number,
+  offsetSeconds: number
+): number {
+  const month = (rule >>> 28) & 0xf;
+  const operator = (rule >>> 25) & 0x7;
+  const dayOfMonth = (rule >>> 20) & 0x1f;
+  const weekday = ((rule >>> 17) & 0x7) % 7; // 0 = Sunday, as in Date
+  const hour = (rule >>> 12) & 0x1f;
+  const seconds = rule & 0xfff;
+
+  const weekdayOf = (day: number) =>
+    new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  let day = dayOfMonth;
+  if (operator === 1) {
+    day = dayOfMonth + ((weekday - weekdayOf(dayOfMonth) + 7) % 7);
+  } else if (operator >= 2 && operator <= 6) {
+    day = 1 + ((weekday - weekdayOf(1) + 7) % 7) + (operator - 2) * 7;
+  } else if (operator === 7) {
+    day = daysInMonth - ((weekdayOf(daysInMonth) - weekday + 7) % 7);
+  }
+
+  return (
+    Date.UTC(year, month - 1, day) / 1000 +
+    hour * 3600 +
+    seconds -
+    offsetSeconds
+  );
+}
+
+/**
+ * Offset from UTC of the meter's clock at an instant
+ * Daylight saving time applies between the feed's start and end rules; without
+ * both rules every reading uses standard time.
+ */
+function localOffsetAt(
+  epochSeconds: number,
+  time: LocalTimeParameters
+): number {
+  const { tzOffset, dstOffset, dstStartRule, dstEndRule } = time;
+  if (!dstOffset || dstStartRule === undefined || dstEndRule === undefined) {
+    return tzOffset;
+  }
+  const year = new Date((epochSeconds + tzOffset) * 1000).getUTCFullYear();
+  const start = dstRuleInstant(dstStartRule, year, tzOffset);
+  const end = dstRuleInstant(dstEndRule, year, tzOffset + dstOffset);
+  // Southern hemisphere windows run across the new year
+  const inDst =
+    start < end
+      ? epochSeconds >= start && epochSeconds < end
+      : epochSeconds >= start || epochSeconds < end;
+  return inDst ? tzOffset + dstOffset : tzOffset;
+}
+
+/**
+ * Check whether a file looks like Green Button ESPI data
+ */
+export function isGreenButtonXml(text: string): boolean {
+  return /<(?:[\w-]+:)?IntervalBlock\b/.test(text);
+}
+
+/**
+ * Parse a Green Button ESPI XML file
+ * Readings are matched to their ReadingType through the feed's MeterReading
+ * links (falling back to the first ReadingType); energy sent to the grid and
+ * non-energy readings (demand, reactive power) are skipped. Times use the
+ * file's LocalTimeParameters: the standard-time tzOffset, plus dstOffset
+ * inside the daylight saving window its DST rules define.
+ */
+export function parseGreenButtonXml(xml: string): ParsedStatement | null {
+  if (!isGreenButtonXml(xml)) {
+    return null;
+  }
+
+  const entries = findElements(xml, 'entry');
+  const resources = entries.length > 0 ? entries : [xml];
+
+  const localTime: LocalTimeParameters = {
+    tzOffset: findNumber(xml, 'tzOffset') || 0,
+    dstOffset: findNumber(xml, 'dstOffset') || 0,
+    dstStartRule: readDstRule(xml, 'dstStartRule'),
+    dstEndRule: readDstRule(xml, 'dstEndRule'),
+  };
+  const toMeterTimestamp = (epochSeconds: number) =>
+    toLocalTimestamp(epochSeconds, localOffsetAt(epochSeconds, localTime));
+
+  const readingTypes = new Map<string, ReadingType>();
+  let defaultReadingType: ReadingType | undefined;
+  const meterReadingTypes = new Map<string, string>(); // MeterReading path -> ReadingType path
+  for (const entry of resources) {
+    const readingType = findElements(entry, 'ReadingType')[0];
+    if (readingType !== undefined) {
+      const parsed: ReadingType = {
+        multiplier: findNumber(readingType, 'powerOfTenMultiplier') || 0,
+        uom: findNumber(readingType, 'uom') ?? ESPI_CODES.uomWattHours,
+        flowDirection: findNumber(readingType, 'flowDirection'),
+      };
+      defaultReadingType = defaultReadingType || parsed;
+      findLinks(entry, 'self').forEach(href => readingTypes.set(href, parsed));
+    }
+    if (/<(?:[\w-]+:)?MeterReading\b/.test(entry)) {
+      const related = findLinks(entry, 'related').find(href =>
+        /ReadingType/.test(href)
+      );
+      if (related) {
+        findLinks(entry, 'self').forEach(href =>
+          meterReadingTypes.set(href, related)
+        );
+      }
+    }
+  }
+
+  const usageDataPoints: UsageDataPoint[] = [];
+  for (const entry of resources) {
+    const blocks = findElements(entry, 'IntervalBlock');
+    if (blocks.length === 0) {
+      continue;
+    }
+    // IntervalBlock entries link "up" to .../MeterReading/{id}/IntervalBlock
+    const meterReading = findLinks(entry, 'up')
+      .map(href => href.replace(/\/IntervalBlock.*$/, ''))
+      .find(href => meterReadingTypes.has(href));
+    const readingType = (meterReading &&
+      readingTypes.get(meterReadingTypes.get(meterReading) as string)) ||
+      defaultReadingType || {
+        multiplier: 0,
+        uom: ESPI_CODES.uomWattHours,
+      };
+    if (
+      readingType.uom !== ESPI_CODES.uomWattHours ||
+      readingType.flowDirection === ESPI_CODES.flowReverse
+    ) {
+      continue;
+    }
+
+    const scale = Math.pow(10, readingType.multiplier); // to Wh
+    for (const block of blocks) {
+      for (const reading of findElements(block, 'IntervalReading')) {
+        const timePeriod = findText(reading, 'timePeriod') || '';
+        const start = findNumber(timePeriod, 'start');
+        const duration = findNumber(timePeriod, 'duration');
+        const value = findNumber(reading, 'value');
+        if (start === undefined || value === undefined) {
+          continue;
+        }
+        const cost = findNumber(reading, 'cost');
+        const point: UsageDataPoint = {
+          timestamp: toMeterTimestamp(start),
+          kwh: (value * scale) / 1000,
+        };
+        if (cost !== undefined) {
+          point.cost = cost / ESPI_CODES.costDivisor;
+        }
+        // Bill-length readings keep their period so they are not mistaken for intervals
+        if (duration !== undefined && duration >= 24 * 60 * 60) {
+          point.periodStart = point.timestamp;
+          point.periodEnd = toMeterTimestamp(start + duration);
+        }
+        usageDataPoints.push(point);
+      }
+    }
+  }
+
+  if (usageDataPoints.length === 0) {
+    return null;
+  }
+  usageDataPoints.sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const billingPeriod = {
+    start: usageDataPoints[0].timestamp,
+    end:
+      usageDataPoints[usageDataPoints.length - 1].periodEnd ||
+      usageDataPoints[usageDataPoints.length - 1].timestamp,
+  };
+
+  return {
+    customerInfo: { address: {} },
+    utilityInfo: { utilityName: 'Green Button' },
+    billingPeriod,
+    usageDataPoints,
+    aggregatedStats: calculateAggregatedStats(usageDataPoints),
+    billingInfo: { billingPeriod },
+  };
+}
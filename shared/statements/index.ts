@@ -0,0 +1,15 @@
+/**
+ * Shared statement parsers for frontend and backend
+ *
+ * Deterministic parsers for known statement layouts, so common files are
+ * imported without an AI call.
+ */
+
+export * from './parsed-statement';
+export * from './csv-statement';
+export * from './green-button';
+export * from './usage-history';
+export * from './merge-statements';
+export * from './field-confidence';
+export * from './current-plan';
+export * from './statement-format';
@@ -0,0 +1,133 @@
+/**
+ * Statement merging
+ *
+ * Combines statements read separately (e.g. each page of a PDF) into one. The
+ * same month often appears on several pages - the bill summary and the usage
+ * history - so usage points are de-duplicated by month.
+ */
+
+import type { UsageDataPoint } from '../types';
+import { getUsageMonthKey } from '../usage';
+import {
+  calculateAggregatedStats,
+  type ParsedStatement,
+} from './parsed-statement';
+
+const UNKNOWN_UTILITY = 'Unknown Utility';
+
+interface MonthUsage {
+  totals: UsageDataPoint[]; // a statement's only point for the month
+  readings: Map<string, UsageDataPoint>; // daily or interval readings by timestamp
+}
+
+/**
+ * Prefer the point with the most detail: a cost, then a billing period
+ */
+function pickMonthlyPoint(candidates: UsageDataPoint[]): UsageDataPoint {
+  return (
+    candidates.find(point => point.cost !== undefined && point.periodStart) ||
+    candidates.find(point => point.cost !== undefined) ||
+    candidates.find(point => point.periodStart) ||
+    candidates[0]
+  );
+}
+
+/**
+ * Merge usage points from several statements
+ * A statement with a single point for a month is read as that month's total
+ * and wins over daily or interval readings for the month from another page;
+ * readings are de-duplicated by timestamp.
+ */
+export function mergeStatementUsage(
+  statements: Pick<ParsedStatement, 'usageDataPoints'>[]
+): UsageDataPoint[] {
+  const months = new Map<string, MonthUsage>();
+  for (const statement of statements) {
+    const byMonth = new Map<string, UsageDataPoint[]>();
+    for (const point of statement.usageDataPoints) {
+      const month = getUsageMonthKey(point.timestamp);
+      byMonth.set(month, [...(byMonth.get(month) || []), point]);
+    }
+    byMonth.forEach((points, month) => {
+      const entry: MonthUsage = months.get(month) || {
+        totals: [],
+        readings: new Map(),
+      };
+      months.set(month, entry);
+      if (points.length === 1) {
+        entry.totals.push(points[0]);
+      } else {
+        points.forEach(point => {
+          if (!entry.readings.has(point.timestamp)) {
+            entry.readings.set(point.timestamp, point);
+          }
+        });
+      }
+    });
+  }
+
+  return Array.from(months.keys())
+    .sort()
+    .flatMap(month => {
+      const { totals, readings } = months.get(month)!;
+      return totals.length > 0
+        ? [pickMonthlyPoint(totals)]
+        : Array.from(readings.values()).sort(
+            (a, b) =>
+              new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+          );
+    });
+}
+
+/**
+ * Merge statements read separately into one
+ * Customer, utility and plan details come from the first statement that has
+ * them; usage points are merged by month and the totals recalculated.
+ */
+export function mergeParsedStatements(
+  statements: ParsedStatement[]
+): ParsedStatement | null {
+  if (statements.length === 0) {
+    return null;
+  }
+
+  const first = <T>(read: (statement: ParsedStatement) => T | undefined) =>
+    statements.map(read).find(value => value !== undefined && value !== null);
+
+  const usageDataPoints = mergeStatementUsage(statements);
+  const billingPeriod = first(statement => statement.billingPeriod);
+  const currentPlan = first(statement => statement.billingInfo?.currentPlan);
+  const billedPeriod = first(statement => statement.billingInfo?.billingPeriod);
+
+  const merged: ParsedStatement = {
+    customerInfo: {
+      customerId: first(statement => statement.customerInfo.customerId),
+      accountNumber: first(statement => statement.customerInfo.accountNumber),
+      customerName: first(statement => statement.customerInfo.customerName),
+      address: {
+        street: first(statement => statement.customerInfo.address?.street),
+        city: first(statement => statement.customerInfo.address?.city),
+        state: first(statement => statement.customerInfo.address?.state),
+        zipCode: first(statement => statement.customerInfo.address?.zipCode),
+      },
+    },
+    utilityInfo: first(statement =>
+      statement.utilityInfo?.utilityName &&
+      statement.utilityInfo.utilityName !== UNKNOWN_UTILITY
+        ? statement.utilityInfo
+        : undefined
+    ) || { utilityName: UNKNOWN_UTILITY },
+    usageDataPoints,
+    aggregatedStats: calculateAggregatedStats(usageDataPoints),
+  };
+  if (billingPeriod) {
+    merged.billingPeriod = billingPeriod;
+  }
+  if (currentPlan || billedPeriod) {
+    merged.billingInfo = {
+      ...(currentPlan && { currentPlan }),
+      ...(billedPeriod && { billingPeriod: billedPeriod }),
+    };
+  }
+  return merged;
+}
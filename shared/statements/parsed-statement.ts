@@ -0,0 +1,159 @@
+/**
+ * Parsed statement
+ *
+ * The shape every statement parser produces, matching the read-statement
+ * Lambda's `extractedData`, plus helpers shared by the parsers.
+ */
+
+import type { CustomerUsageData, PlanCharges, UsageDataPoint } from '../types';
+
+/**
+ * The customer's current plan as printed on a statement
+ */
+export interface StatementCurrentPlan {
+  supplierName: string;
+  planName?: string;
+  ratePerKwh: number; // $/kWh
+  contractEndDate?: string; // ISO 8601
+  earlyTerminationFee?: number;
+  renewablePercentage?: number; // 0-100
+  charges?: Pick<
+    PlanCharges,
+    'baseChargeMonthly' | 'deliveryChargePerKwh' | 'deliveryChargeMonthly'
+  >;
+}
+
+export interface ParsedStatement {
+  customerInfo: {
+    customerId?: string;
+    accountNumber?: string;
+    customerName?: string;
+    address: {
+      street?: string;
+      city?: string;
+      state?: string;
+      zipCode?: string;
+    };
+  };
+  utilityInfo: {
+    utilityName: string;
+    utilityId?: string;
+  };
+  billingPeriod?: {
+    start: string; // ISO 8601
+    end: string; // ISO 8601
+  };
+  usageDataPoints: UsageDataPoint[];
+  aggregatedStats: CustomerUsageData['aggregatedStats'];
+  billingInfo?: {
+    currentPlan?: StatementCurrentPlan;
+    billingPeriod?: {
+      start: string;
+      end: string;
+    };
+  };
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/**
+ * Parse a statement date into an ISO timestamp at midnight UTC
+ * Accepts YYYY-MM-DD (optionally with a time) and US M/D/YY or M/D/YYYY.
+ * Dates are used exactly as written - no timezone shifts.
+ */
+export function parseStatementDate(value: string): string | null {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    year = parseInt(iso[1], 10);
+    month = parseInt(iso[2], 10);
+    day = parseInt(iso[3], 10);
+  } else if (us) {
+    month = parseInt(us[1], 10);
+    day = parseInt(us[2], 10);
+    year = parseInt(us[3], 10);
+    if (year < 100) {
+      year += year < 50 ? 2000 : 1900;
+    }
+  } else {
+    return null;
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T00:00:00.000Z`;
+}
+
+/**
+ * Parse a number that may carry currency symbols or thousands separators
+ */
+export function parseStatementNumber(value: string | undefined): number | null {
+  if (value === undefined) {
+    return null;
+  }
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (cleaned === '') {
+    return null;
+  }
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Totals, monthly averages and the peak month for a set of usage points
+ */
+export function calculateAggregatedStats(
+  usagePoints: UsageDataPoint[]
+): CustomerUsageData['aggregatedStats'] {
+  const monthlyTotals = new Map<string, { month: number; kwh: number }>();
+  let totalKwh = 0;
+  let totalCost = 0;
+  for (const point of usagePoints) {
+    totalKwh += point.kwh;
+    totalCost += point.cost || 0;
+    const key = point.timestamp.slice(0, 7); // YYYY-MM
+    const existing = monthlyTotals.get(key);
+    if (existing) {
+      existing.kwh += point.kwh;
+    } else {
+      monthlyTotals.set(key, {
+        month: parseInt(point.timestamp.slice(5, 7), 10),
+        kwh: point.kwh,
+      });
+    }
+  }
+
+  const monthCount = monthlyTotals.size || 1;
+  let peak = { month: 1, kwh: 0 };
+  monthlyTotals.forEach(month => {
+    if (month.kwh > peak.kwh) {
+      peak = month;
+    }
+  });
+
+  return {
+    totalKwh,
+    totalCost,
+    averageMonthlyKwh: totalKwh / monthCount,
+    averageMonthlyCost: totalCost / monthCount,
+    peakMonth: MONTH_NAMES[peak.month - 1] || 'January',
+    peakMonthKwh: peak.kwh,
+  };
+}
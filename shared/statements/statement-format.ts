@@ -0,0 +1,259 @@
+/**
+ * Statement formats
+ *
+ * Fingerprints for statement layouts, and the rules for picking, versioning
+ * and demoting the StatementFormat patterns learned from previous
+ * extractions.
+ */
+
+import { parseCsvLine } from './csv-statement';
+import { parseStatementDate, parseStatementNumber } from './parsed-statement';
+
+/**
+ * active = used to parse and as prompt examples, demoted = users kept
+ * correcting its extractions, retired = switched off by an admin
+ */
+export type StatementFormatStatus = 'active' | 'demoted' | 'retired';
+
+/**
+ * What identifies a statement layout, independent of the values in it
+ */
+export interface StatementFingerprint {
+  fingerprint: string; // header signature and layout hash combined
+  headerSignature: string; // normalized header names, e.g. "date|kwh|cost"
+  layoutHash: string; // hash of the row shapes
+}
+
+/**
+ * A learned format as stored in StatementFormat, with the fields used to rank it
+ */
+export interface StatementFormatRecord {
+  utilityName: string;
+  fileType: string;
+  fingerprint?: string | null;
+  headerSignature?: string | null;
+  layoutHash?: string | null;
+  status?: string | null;
+  successCount: number;
+  lastUsedAt: string;
+}
+
+/**
+ * A previous version of a format, kept in StatementFormat.versions when the
+ * format is learned again with different column mappings
+ */
+export interface StatementFormatVersion {
+  version: number;
+  columnMappings?: unknown;
+  dateFormats?: string[];
+  successCount: number;
+  correctionCount: number;
+  status: StatementFormatStatus;
+  replacedAt: string; // ISO 8601
+}
+
+/**
+ * A learned format with its history, as shown to admins
+ */
+export interface LearnedStatementFormat {
+  id: string;
+  formatId: string;
+  utilityName: string;
+  fileType: string;
+  status: StatementFormatStatus;
+  version: number;
+  versions: StatementFormatVersion[];
+  successCount: number;
+  correctionCount: number;
+  fingerprint?: string;
+  headerSignature?: string;
+  layoutHash?: string;
+  columnMappings?: unknown;
+  formatPattern?: unknown;
+  exampleExtraction?: unknown;
+  dateFormats?: string[];
+  lastUsedAt: string;
+  createdAt: string;
+  retiredAt?: string;
+}
+
+/**
+ * How closely a stored format matches a file, best first
+ */
+export type StatementFormatMatchType =
+  | 'fingerprint'
+  | 'header'
+  | 'layout'
+  | 'utility';
+
+const MATCH_ORDER: StatementFormatMatchType[] = [
+  'fingerprint',
+  'header',
+  'layout',
+  'utility',
+];
+
+// A format is demoted once this many users corrected its extractions...
+export const DEMOTION_MIN_CORRECTIONS = 2;
+// ...and corrections make up at least this share of its uses
+export const DEMOTION_CORRECTION_RATE = 0.2;
+
+// Rows read to describe the layout
+const LAYOUT_ROWS = 20;
+
+/**
+ * Short, stable hash of a string (32-bit FNV-1a, as 8 hex characters)
+ */
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// d = date, n = number, t = text, _ = empty
+const cellKind = (cell: string): string => {
+  const value = cell.replace(/^"|"$/g, '').trim();
+  if (value === '') {
+    return '_';
+  }
+  if (parseStatementDate(value)) {
+    return 'd';
+  }
+  return parseStatementNumber(value) !== null ? 'n' : 't';
+};
+
+/**
+ * Fingerprint a CSV statement by its header names and row shapes
+ * Values don't matter, and runs of rows with the same shape count once, so
+ * two bills in the same layout share a fingerprint whatever their length.
+ */
+export function fingerprintCsvStatement(
+  text: string
+): StatementFingerprint | null {
+  const rows = text
+    .split(/\r?\n/)
+    .map(parseCsvLine)
+    .filter(cells => cells.some(cell => cell.replace(/"/g, '') !== ''))
+    .slice(0, LAYOUT_ROWS);
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const shapes: string[] = [];
+  const headers: string[] = [];
+  rows.forEach(cells => {
+    const shape = cells.map(cellKind).join('');
+    if (shape !== shapes[shapes.length - 1]) {
+      shapes.push(shape);
+    }
+    // A header row is all text
+    if (/^[t_]*t[t_]*$/.test(shape)) {
+      headers.push(
+        cells
+          .map(cell =>
+            cell.replace(/^"|"$/g, '').trim().replace(/\s+/g, ' ').toLowerCase()
+          )
+          .join('|')
+      );
+    }
+  });
+
+  const headerSignature = headers.join(';');
+  const layoutHash = hashString(shapes.join('/'));
+  return {
+    fingerprint: hashString(`${headerSignature}#${layoutHash}`),
+    headerSignature,
+    layoutHash,
+  };
+}
+
+/**
+ * How a stored format matches a file, or null when it doesn't
+ */
+export function matchStatementFormat(
+  format: StatementFormatRecord,
+  fingerprint: StatementFingerprint | null,
+  utilityName?: string
+): StatementFormatMatchType | null {
+  if (fingerprint && format.fingerprint === fingerprint.fingerprint) {
+    return 'fingerprint';
+  }
+  if (
+    fingerprint?.headerSignature &&
+    format.headerSignature === fingerprint.headerSignature
+  ) {
+    return 'header';
+  }
+  if (fingerprint && format.layoutHash === fingerprint.layoutHash) {
+    return 'layout';
+  }
+  if (utilityName && format.utilityName === utilityName) {
+    return 'utility';
+  }
+  return null;
+}
+
+/**
+ * Whether a format is used for parsing and as a prompt example
+ * Formats stored before statuses existed have none and count as active.
+ */
+export const isActiveStatementFormat = (format: {
+  status?: string | null;
+}): boolean => !format.status || format.status === 'active';
+
+/**
+ * Active formats that match a file, best match first
+ * Within a match type, formats with more successful extractions come first,
+ * then the most recently used.
+ */
+export function rankStatementFormats<Format extends StatementFormatRecord>(
+  formats: Format[],
+  fingerprint: StatementFingerprint | null,
+  utilityName?: string
+): Array<{ format: Format; match: StatementFormatMatchType }> {
+  return formats
+    .filter(isActiveStatementFormat)
+    .flatMap(format => {
+      const match = matchStatementFormat(format, fingerprint, utilityName);
+      return match ? [{ format, match }] : [];
+    })
+    .sort(
+      (a, b) =>
+        MATCH_ORDER.indexOf(a.match) - MATCH_ORDER.indexOf(b.match) ||
+        b.format.successCount - a.format.successCount ||
+        new Date(b.format.lastUsedAt).getTime() -
+          new Date(a.format.lastUsedAt).getTime()
+    );
+}
+
+/**
+ * Whether users have corrected enough of a format's extractions to stop
+ * trusting it
+ */
+export function shouldDemoteStatementFormat(
+  successCount: number,
+  correctionCount: number
+): boolean {
+  return (
+    correctionCount >= DEMOTION_MIN_CORRECTIONS &&
+    correctionCount / Math.max(successCount, 1) >= DEMOTION_CORRECTION_RATE
+  );
+}
+
+/**
+ * How many users corrected a format version
+ * A user correcting several months, or the same month again, counts once;
+ * corrections without an owner are not counted.
+ */
+export function countStatementFormatCorrections(
+  corrections: Array<{ owner?: string | null }>
+): number {
+  return new Set(
+    corrections.flatMap(correction =>
+      correction.owner ? [correction.owner] : []
+    )
+  ).size;
+}
@@ -0,0 +1,83 @@
+/**
+ * Usage history tables
+ *
+ * Bills and annual summaries often print a usage history table, one row per
+ * month ("Jan 2024  1,125 kWh  $129.38"). Reading it from the text layer gives
+ * one usage point per month without relying on the model to list every row.
+ */
+
+import type { UsageDataPoint } from '../types';
+import { parseStatementNumber } from './parsed-statement';
+
+// Fewer matching rows than this is not treated as a history table
+export const MIN_USAGE_HISTORY_ROWS = 3;
+
+const MONTH_PATTERN =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+// "Jan 2024", "January '24", "01/2024" then kWh and an optional cost, nothing else on the line
+const HISTORY_ROW = new RegExp(
+  `^(?:(${MONTH_PATTERN})\\.?[\\s,-]*(\\d{4}|'\\d{2})|(\\d{1,2})/(\\d{4}|\\d{2}))` +
+    '\\s+([\\d,]+(?:\\.\\d+)?)\\s*(?:kwh)?(?:\\s+\\$?\\s*([\\d,]+\\.\\d{2}))?$',
+  'i'
+);
+
+const MONTH_PREFIXES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+/**
+ * Read a monthly usage history table from statement text
+ * Returns one point per month, oldest first, or an empty list when the text
+ * has no table of at least MIN_USAGE_HISTORY_ROWS rows
+ */
+export function parseUsageHistoryText(text: string): UsageDataPoint[] {
+  const months = new Map<string, UsageDataPoint>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().replace(/\s+/g, ' ').match(HISTORY_ROW);
+    if (!match) {
+      continue;
+    }
+    const month = match[1]
+      ? MONTH_PREFIXES.indexOf(match[1].slice(0, 3).toLowerCase()) + 1
+      : parseInt(match[3], 10);
+    const yearText = (match[2] || match[4]).replace("'", '');
+    const year =
+      yearText.length === 2
+        ? 2000 + parseInt(yearText, 10)
+        : parseInt(yearText, 10);
+    const kwh = parseStatementNumber(match[5]);
+    if (month < 1 || month > 12 || kwh === null || kwh <= 0) {
+      continue;
+    }
+
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    if (months.has(key)) {
+      continue;
+    }
+    const point: UsageDataPoint = { timestamp: `${key}-01T00:00:00.000Z`, kwh };
+    const cost = parseStatementNumber(match[6]);
+    if (cost !== null) {
+      point.cost = cost;
+    }
+    months.set(key, point);
+  }
+
+  if (months.size < MIN_USAGE_HISTORY_ROWS) {
+    return [];
+  }
+  return Array.from(months.values()).sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+}
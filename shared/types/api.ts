@@ -9,6 +9,7 @@ import type {
   UsageData,
   Recommendation,
   CurrentPlan,
+  EnergyPlan,
 } from './models';
 
 // Request types
@@ -31,12 +32,47 @@ export interface PreferencesUpdateRequest {
 }
 
 // Response types
+
+/**
+ * Outcome of a recommendation run
+ * - switch: at least one plan is worth switching to, now or at contract end
+ * - stay: no available plan beats the current plan once the early
+ *   termination fee is counted
+ */
+export type RecommendationOutcome = 'switch' | 'stay';
+
+/**
+ * Details shown when the current plan is already the best option
+ */
+export interface CurrentPlanBest {
+  currentAnnualCost: number;
+  nearestAlternative?: Pick<
+    EnergyPlan,
+    'planId' | 'supplierName' | 'planName'
+  > & {
+    annualCost: number;
+    switchingCost?: number; // early termination fee owed when switching now
+    margin: number; // how much more the alternative costs in its first year, fee included
+  };
+}
+
+/**
+ * How much of the usage behind a recommendation comes from real bills
+ * - actual: a full year of billed or metered usage
+ * - estimated: a full year, but some months were typed in or averaged
+ * - projected: some calendar months are missing and were projected
+ */
+export type DataQuality = 'actual' | 'estimated' | 'projected';
+
 export interface RecommendationResponse {
+  outcome: RecommendationOutcome;
   recommendations: Recommendation[];
+  currentPlanBest?: CurrentPlanBest;
   projectedSavings: number;
   explanation: string;
-  confidence: number;
-  dataQuality: 'actual' | 'estimated' | 'projected';
+  confidence?: number; // 0-1
+  dataQuality?: DataQuality;
+  dataQualitySuggestions?: string[]; // what the customer can do to raise confidence
 }
 
 export interface UsageDataValidationResponse {
@@ -25,6 +25,38 @@ export interface UsageDataPoint {
   cost?: number;
   periodStart?: string;
   periodEnd?: string;
+  estimated?: boolean; // kWh was averaged or typed in rather than read from a bill or meter
+  formatId?: string; // learned StatementFormat the point was read with
+  formatVersion?: number;
+}
+
+/**
+ * A value that applies to the readings of an interval block from reading
+ * `from` until the next change
+ */
+export interface IntervalBlockChange<T> {
+  from: number;
+  value: T;
+}
+
+/**
+ * Interval Usage Block
+ * One calendar month of raw interval readings (hourly or 15-minute) stored
+ * compactly: reading i starts `i * intervalMinutes` after `start`, and a
+ * missing reading is null
+ */
+export interface IntervalUsageBlock {
+  month: string; // YYYY-MM
+  start: string; // first reading, in the meter's local time
+  intervalMinutes: number;
+  kwh: (number | null)[];
+  cost?: (number | null)[];
+  offsets?: IntervalBlockChange<string>[]; // UTC offset of later readings when it changes in the month (daylight saving), e.g. '-06:00'
+  estimated?: number[]; // indices of estimated readings
+  formats?: IntervalBlockChange<{
+    formatId: string;
+    formatVersion?: number;
+  } | null>[]; // learned StatementFormat the readings were read with
 }
 
 export interface UsageData {
@@ -36,6 +68,96 @@ export interface UsageData {
   peakMonth?: string;
 }
 
+/**
+ * Time-of-Use Period
+ * A priced window of the day, optionally limited to certain weekdays and
+ * months (seasons). Hours outside every period are billed at the plan's
+ * base `ratePerKwh`.
+ */
+export interface TimeOfUsePeriod {
+  name: string;
+  periodType: 'peak' | 'off-peak' | 'shoulder';
+  ratePerKwh: number;
+  startHour: number; // 0-23, inclusive
+  endHour: number; // 1-24, exclusive; may be <= startHour to wrap past midnight
+  daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday; omitted = every day
+  months?: number[]; // 1-12; omitted = all year
+}
+
+/**
+ * Rate Tier
+ * One block of a tiered rate schedule, evaluated against each month's kWh.
+ * Tiers are listed in ascending order; the last tier has no upper limit.
+ */
+export interface RateTier {
+  upToKwh?: number; // monthly kWh where this tier ends; omitted = no limit
+  ratePerKwh: number;
+}
+
+/**
+ * Bill Credit
+ * A fixed credit applied to a month's bill when its usage falls within
+ * [minKwh, maxKwh] (e.g. $100 between 1000 and 2000 kWh)
+ */
+export interface BillCredit {
+  minKwh: number;
+  maxKwh?: number; // omitted = no upper limit
+  amount: number; // dollars
+}
+
+/**
+ * Plan Charges
+ * Non-energy charges that make up the rest of a monthly bill
+ */
+export interface PlanCharges {
+  baseChargeMonthly?: number; // supplier base charge, $/month
+  deliveryChargePerKwh?: number; // TDU/utility delivery charge, $/kWh
+  deliveryChargeMonthly?: number; // TDU/utility fixed delivery charge, $/month
+  taxPercentage?: number; // applied to the bill subtotal, e.g. 8.25
+  minimumUsageFee?: number; // $/month charged when usage is below minimumUsageKwh
+  minimumUsageKwh?: number;
+}
+
+/**
+ * Promotional Period
+ * An introductory rate that replaces the plan's energy pricing for a window
+ * of contract months (e.g. the first 3 bills)
+ */
+export interface PromotionalPeriod {
+  startMonth: number; // contract month the promo starts, 1 = first bill
+  durationMonths: number;
+  ratePerKwh: number;
+  description?: string;
+}
+
+/**
+ * Plan Average Prices
+ * All-in average prices published for a plan at 500, 1000 and 2000 kWh a
+ * month (as on an Electricity Facts Label), in $/kWh
+ */
+export interface PlanAveragePrices {
+  kwh500?: number;
+  kwh1000?: number;
+  kwh2000?: number;
+}
+
+/**
+ * A plan's pricing as first seen by a catalog import; imports that change the
+ * pricing add a new version
+ */
+export interface PlanRateVersion {
+  version: number;
+  ratePerKwh: number;
+  averagePrices?: PlanAveragePrices;
+  charges?: PlanCharges;
+  billCredits?: BillCredit[];
+  timeOfUseRates?: TimeOfUsePeriod[];
+  rateTiers?: RateTier[];
+  promotionalPeriods?: PromotionalPeriod[];
+  rolloverRatePerKwh?: number;
+  effectiveFrom: string; // ISO 8601
+}
+
 export interface EnergyPlan {
   planId: string;
   supplierName: string;
@@ -48,6 +170,72 @@ export interface EnergyPlan {
   supplierRating?: number;
   state?: string;
   utilityTerritory?: string;
+  timeOfUseRates?: TimeOfUsePeriod[];
+  rateTiers?: RateTier[]; // replaces ratePerKwh when present
+  billCredits?: BillCredit[];
+  charges?: PlanCharges;
+  promotionalPeriods?: PromotionalPeriod[];
+  rolloverRatePerKwh?: number; // rate after the contract term ends; defaults to ratePerKwh
+  averagePrices?: PlanAveragePrices;
+  factsLabelUrl?: string; // Electricity Facts Label (EFL) document
+  rateHistory?: PlanRateVersion[]; // oldest first; the last is the current pricing
+  availableFrom?: string; // ISO 8601; when the plan was first offered
+  availableUntil?: string; // ISO 8601; set when the plan is retired
+  lastSeenAt?: string; // ISO 8601; the last catalog import that listed the plan
+}
+
+/**
+ * Risk Flag
+ * A deterministic warning about a plan's terms, e.g. a high early termination
+ * fee or a promotional rate that expires
+ */
+export type RiskFlagCode =
+  | 'high_etf'
+  | 'variable_rate'
+  | 'expiring_promo'
+  | 'low_supplier_rating'
+  | 'hidden_fees';
+
+export type RiskSeverity = 'low' | 'medium' | 'high';
+
+export interface RiskFlag {
+  code: RiskFlagCode;
+  severity: RiskSeverity;
+  message: string;
+}
+
+/**
+ * When switching to a recommended plan pays off
+ * - now: switch today (no fee, or the fee is recovered before the contract ends)
+ * - contract_end: wait for the current contract to end to avoid the fee
+ * - stay: switching does not pay off within the new contract term
+ */
+export type SwitchTiming = 'now' | 'contract_end' | 'stay';
+
+/**
+ * Meteorological season, used to summarize projected costs
+ * winter = Dec-Feb, spring = Mar-May, summer = Jun-Aug, fall = Sep-Nov
+ */
+export type Season = 'winter' | 'spring' | 'summer' | 'fall';
+
+/**
+ * Projected bill for one month on the current and the recommended plan
+ */
+export interface MonthlyCostProjection {
+  year: number;
+  month: number; // 1-12
+  kwh: number;
+  currentCost: number;
+  projectedCost: number;
+}
+
+/**
+ * Projected cost for one season on the current and the recommended plan
+ */
+export interface SeasonalCostProjection {
+  season: Season;
+  currentCost: number;
+  projectedCost: number;
 }
 
 export interface Recommendation {
@@ -55,6 +243,17 @@ export interface Recommendation {
   planId: string;
   rank: number;
   projectedSavings: number;
+  projectedCost12Months?: number;
+  projectedCost24Months?: number;
+  twoYearSavings?: number;
+  savingsMostlyFromPromo?: boolean; // an expiring promo accounts for most of the first-year savings
+  switchingCost?: number; // current plan's early termination fee owed when switching now
+  switchTiming?: SwitchTiming;
+  recommendedSwitchDate?: string; // YYYY-MM-DD
+  riskFlags?: RiskFlag[];
+  monthlyCosts?: MonthlyCostProjection[]; // next 12 bills
+  seasonalCosts?: SeasonalCostProjection[];
+  confidence?: number; // 0-1, from the usage data quality and how complete the plan's terms are
   explanation: string;
   createdAt: string;
 }
@@ -67,6 +266,7 @@ export interface CurrentPlan {
   earlyTerminationFee?: number;
   contractType: 'fixed' | 'variable' | 'indexed' | 'hybrid';
   renewablePercentage?: number;
+  charges?: PlanCharges; // base and TDU charges, as printed on the bill
 }
 
 /**
@@ -87,7 +287,9 @@ export interface CustomerUsageData {
     utilityName: string;
     utilityId?: string;
   };
-  usageDataPoints: UsageDataPoint[];
+  usageDataPoints: UsageDataPoint[]; // bills, with saved interval readings rolled up by month
+  dailyUsage?: UsageDataPoint[]; // daily totals rolled up from interval readings
+  intervalDataPoints?: UsageDataPoint[]; // raw interval readings, for load-shape pricing such as time-of-use
   aggregatedStats: {
     totalKwh: number;
     totalCost: number;
@@ -98,9 +300,14 @@ export interface CustomerUsageData {
   };
   billingInfo?: {
     currentPlan?: {
-      planId: string;
+      planId?: string;
       supplierName: string;
+      planName?: string;
       ratePerKwh: number;
+      contractEndDate?: string; // ISO 8601
+      earlyTerminationFee?: number;
+      renewablePercentage?: number; // 0-100
+      charges?: PlanCharges;
     };
     billingPeriod?: {
       start: string;
@@ -0,0 +1,258 @@
+import type { UsageDataPoint } from '../../types';
+import {
+  rollUpUsage,
+  coversWholeMonth,
+  toIntervalBlocks,
+  fromIntervalBlocks,
+  planUsageSave,
+  getIntervalMinutes,
+  getReplacedIntervalMonths,
+  mergeIntervalReadings,
+} from '../interval-usage';
+import { mergeUsagePoints } from '../usage-points';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Hourly readings in Central Standard Time, 1 kWh each
+const hourlyReadings = (
+  year: number,
+  month: number,
+  days: number,
+  firstDay = 1
+): UsageDataPoint[] =>
+  Array.from({ length: days * 24 }, (_, i) => ({
+    timestamp: `${year}-${pad(month)}-${pad(firstDay + Math.floor(i / 24))}T${pad(i % 24)}:00:00-06:00`,
+    kwh: 1,
+    cost: 0.1,
+  }));
+
+describe('rollUpUsage', () => {
+  it('should keep the statement format every reading of a period was read with', () => {
+    const format = { formatId: 'format-csv-abc', formatVersion: 2 };
+    const readings = hourlyReadings(2024, 1, 2).map((reading, i) =>
+      i < 24 ? { ...reading, ...format } : reading
+    );
+
+    const [first, second] = rollUpUsage(readings, 'day');
+    expect(first).toMatchObject(format);
+    expect(second.formatId).toBeUndefined();
+    expect(rollUpUsage(readings, 'month')[0].formatId).toBeUndefined();
+  });
+
+  it('should total readings by local day and month', () => {
+    const readings = hourlyReadings(2024, 1, 2);
+
+    const days = rollUpUsage(readings, 'day');
+    expect(days).toHaveLength(2);
+    expect(days[0]).toEqual({
+      timestamp: '2024-01-01T00:00:00-06:00',
+      kwh: 24,
+      cost: expect.closeTo(2.4),
+      periodStart: '2024-01-01T00:00:00-06:00',
+      periodEnd: '2024-01-02T00:00:00-06:00',
+    });
+
+    const [month] = rollUpUsage(readings, 'month');
+    expect(month.timestamp).toBe('2024-01-01T00:00:00-06:00');
+    expect(month.kwh).toBe(48);
+    expect(coversWholeMonth(month)).toBe(false);
+    expect(
+      coversWholeMonth(rollUpUsage(hourlyReadings(2024, 2, 29), 'month')[0])
+    ).toBe(true);
+  });
+});
+
+describe('toIntervalBlocks', () => {
+  it('should pack readings by month and unpack them unchanged', () => {
+    const readings = [
+      ...hourlyReadings(2024, 1, 1, 31),
+      ...hourlyReadings(2024, 2, 1),
+    ].filter((_, i) => i !== 5); // one missing reading
+
+    expect(getIntervalMinutes(readings)).toBe(60);
+    const blocks = toIntervalBlocks(readings);
+    expect(blocks.map(block => block.month)).toEqual(['2024-01', '2024-02']);
+    expect(blocks[0]).toMatchObject({
+      start: '2024-01-31T00:00:00-06:00',
+      intervalMinutes: 60,
+    });
+    expect(blocks[0].kwh).toHaveLength(24);
+    expect(blocks[0].kwh[5]).toBeNull();
+
+    expect(fromIntervalBlocks(blocks)).toEqual(readings);
+  });
+
+  it("should keep each reading's local time across daylight saving changes", () => {
+    // Central time: 2am CST becomes 3am CDT on March 10, 2024, and 2am CDT
+    // becomes 1am CST on November 3, 2024
+    const readings: UsageDataPoint[] = [
+      '2024-03-10T00:00:00-06:00',
+      '2024-03-10T01:00:00-06:00',
+      '2024-03-10T03:00:00-05:00',
+      '2024-03-10T04:00:00-05:00',
+      '2024-11-03T00:00:00-05:00',
+      '2024-11-03T01:00:00-05:00',
+      '2024-11-03T01:00:00-06:00',
+      '2024-11-03T02:00:00-06:00',
+    ].map(timestamp => ({ timestamp, kwh: 1 }));
+
+    const blocks = toIntervalBlocks(readings);
+    expect(blocks.map(block => block.kwh)).toEqual([
+      [1, 1, 1, 1],
+      [1, 1, 1, 1],
+    ]);
+    expect(blocks[0].offsets).toEqual([{ from: 2, value: '-05:00' }]);
+    expect(blocks[1].offsets).toEqual([{ from: 2, value: '-06:00' }]);
+
+    expect(fromIntervalBlocks(blocks)).toEqual(readings);
+  });
+
+  it('should keep estimated readings and the statement format they were read with', () => {
+    const readings: UsageDataPoint[] = hourlyReadings(2024, 1, 1).map(
+      (reading, i) => ({
+        ...reading,
+        ...(i === 3 && { estimated: true }),
+        ...(i < 12 && { formatId: 'format-csv-abc', formatVersion: 2 }),
+      })
+    );
+
+    const blocks = toIntervalBlocks(readings);
+    expect(blocks[0]).toMatchObject({
+      estimated: [3],
+      formats: [
+        { from: 0, value: { formatId: 'format-csv-abc', formatVersion: 2 } },
+        { from: 12, value: null },
+      ],
+    });
+
+    expect(fromIntervalBlocks(blocks)).toEqual(readings);
+  });
+});
+
+describe('planUsageSave', () => {
+  const bills: UsageDataPoint[] = [
+    { timestamp: '2024-01-01T00:00:00.000Z', kwh: 1125 },
+    { timestamp: '2024-02-01T00:00:00.000Z', kwh: 1080 },
+  ];
+
+  it('should roll interval readings up without replacing a bill for a partial month', () => {
+    const readings = [
+      ...hourlyReadings(2024, 1, 2, 15),
+      ...hourlyReadings(2024, 3, 31),
+    ];
+
+    const plan = planUsageSave({ usagePoints: bills }, readings);
+
+    expect(plan.usagePoints.map(point => [point.timestamp, point.kwh])).toEqual(
+      [
+        ['2024-01-01T00:00:00.000Z', 1125],
+        ['2024-02-01T00:00:00.000Z', 1080],
+        ['2024-03-01T00:00:00-06:00', 744],
+      ]
+    );
+    expect(plan.dailyUsage).toHaveLength(33);
+    expect(plan.replacedMonths).toEqual(['2024-01', '2024-03']);
+    expect(plan.intervalBlocks.map(block => block.month)).toEqual([
+      '2024-01',
+      '2024-03',
+    ]);
+  });
+
+  it('should merge a second export that splits the same month', () => {
+    const first = planUsageSave({ usagePoints: [] }, [
+      ...hourlyReadings(2024, 1, 17, 15),
+      ...hourlyReadings(2024, 2, 14),
+    ]);
+    const secondExport = [
+      ...hourlyReadings(2024, 2, 15, 15),
+      ...hourlyReadings(2024, 3, 14),
+    ];
+    expect(getReplacedIntervalMonths(secondExport)).toEqual([
+      '2024-02',
+      '2024-03',
+    ]);
+
+    const plan = planUsageSave(first, secondExport);
+
+    expect(plan.usagePoints.map(point => [point.timestamp, point.kwh])).toEqual(
+      [
+        ['2024-01-01T00:00:00-06:00', 17 * 24],
+        ['2024-02-01T00:00:00-06:00', 29 * 24],
+        ['2024-03-01T00:00:00-06:00', 14 * 24],
+      ]
+    );
+    expect(coversWholeMonth(plan.usagePoints[1])).toBe(true);
+    expect(plan.dailyUsage).toHaveLength(17 + 29 + 14);
+    expect(plan.replacedMonths).toEqual(['2024-02', '2024-03']);
+    const february = plan.intervalBlocks.find(
+      block => block.month === '2024-02'
+    );
+    expect(february?.start).toBe('2024-02-01T00:00:00-06:00');
+    expect(february?.kwh.filter(kwh => kwh !== null)).toHaveLength(29 * 24);
+  });
+
+  it('should keep the readings and daily totals when a bill arrives for their month', () => {
+    const saved = planUsageSave(
+      { usagePoints: [] },
+      hourlyReadings(2024, 1, 15)
+    );
+
+    const plan = planUsageSave(saved, [bills[0]]);
+
+    expect(plan.usagePoints).toEqual([bills[0]]);
+    expect(plan.dailyUsage).toHaveLength(15);
+    expect(plan.replacedMonths).toEqual([]);
+    expect(plan.intervalBlocks).toEqual([]);
+
+    // Re-read days of the partial month rebuild its block but leave the bill alone
+    const reimport = planUsageSave(
+      { ...plan, intervalBlocks: saved.intervalBlocks },
+      hourlyReadings(2024, 1, 6, 10).map(point => ({ ...point, kwh: 2 }))
+    );
+    expect(reimport.usagePoints).toEqual([bills[0]]);
+    const [january] = reimport.intervalBlocks;
+    expect(january.kwh).toHaveLength(15 * 24);
+    expect(
+      january.kwh.reduce<number>((total, kwh) => total + (kwh || 0), 0)
+    ).toBe(9 * 24 + 6 * 24 * 2);
+  });
+});
+
+describe('mergeIntervalReadings', () => {
+  it('should let new readings replace stored ones interval by interval', () => {
+    const stored = hourlyReadings(2024, 1, 2);
+    const quarterHours = Array.from({ length: 8 }, (_, i) => ({
+      timestamp: `2024-01-02T${pad(Math.floor(i / 4))}:${pad((i % 4) * 15)}:00-06:00`,
+      kwh: 0.5,
+    }));
+
+    const merged = mergeIntervalReadings(stored, quarterHours);
+
+    // Hours 0-1 of January 2 are replaced by eight quarter hours
+    expect(merged).toHaveLength(48 - 2 + 8);
+    expect(merged.reduce((total, point) => total + point.kwh, 0)).toBe(46 + 4);
+    expect(merged[24]).toEqual(quarterHours[0]);
+  });
+});
+
+describe('mergeUsagePoints', () => {
+  it('should replace every existing point in the months the new points cover', () => {
+    const existing = [
+      { timestamp: '2024-01-01T00:00:00.000Z', kwh: 1125 },
+      { timestamp: '2024-02-01T00:00:00.000Z', kwh: 1080 },
+    ];
+    const hourly = [
+      { timestamp: '2024-01-15T01:00:00-06:00', kwh: 0.5 },
+      { timestamp: '2024-01-15T00:00:00-06:00', kwh: 0.6 },
+    ];
+
+    expect(mergeUsagePoints(existing, hourly)).toEqual([
+      { timestamp: '2024-01-15T00:00:00-06:00', kwh: 0.6 },
+      { timestamp: '2024-01-15T01:00:00-06:00', kwh: 0.5 },
+      { timestamp: '2024-02-01T00:00:00.000Z', kwh: 1080 },
+    ]);
+    expect(mergeUsagePoints(hourly, existing.slice(0, 1))).toEqual(
+      existing.slice(0, 1)
+    );
+  });
+});
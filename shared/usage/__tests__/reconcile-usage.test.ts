@@ -0,0 +1,163 @@
+import type { UsageDataPoint } from '../../types';
+import {
+  reconcileUsageSources,
+  resolveUsageReconciliation,
+  SAVED_USAGE_SOURCE,
+} from '../reconcile-usage';
+
+const bill = (
+  month: string,
+  kwh: number,
+  cost?: number,
+  period?: [string, string]
+): UsageDataPoint => ({
+  timestamp: `${month}-01T00:00:00.000Z`,
+  kwh,
+  ...(cost !== undefined && { cost }),
+  ...(period && {
+    periodStart: `${period[0]}T00:00:00.000Z`,
+    periodEnd: `${period[1]}T00:00:00.000Z`,
+  }),
+});
+
+describe('reconcileUsageSources', () => {
+  it('should not flag months where every source agrees', () => {
+    const reconciliation = reconcileUsageSources(
+      [bill('2024-01', 1125, 129.38)],
+      [
+        {
+          id: 'a',
+          label: 'jan.pdf',
+          usageDataPoints: [bill('2024-01', 1125, 129.38)],
+        },
+        { id: 'b', label: 'feb.pdf', usageDataPoints: [bill('2024-02', 1080)] },
+      ]
+    );
+
+    expect(reconciliation.months.map(month => month.month)).toEqual([
+      '2024-01',
+      '2024-02',
+    ]);
+    expect(reconciliation.conflicts).toEqual([]);
+    expect(reconciliation.defaultChoices).toEqual({
+      '2024-01': 'a',
+      '2024-02': 'b',
+    });
+  });
+
+  it('should list kWh and cost differences between files and saved data', () => {
+    const reconciliation = reconcileUsageSources(
+      [bill('2024-03', 950, 109.25)],
+      [
+        {
+          id: 'a',
+          label: 'march.pdf',
+          usageDataPoints: [bill('2024-03', 960, 110.4)],
+        },
+        {
+          id: 'b',
+          label: 'annual.pdf',
+          usageDataPoints: [bill('2024-03', 950)],
+        },
+      ]
+    );
+
+    expect(reconciliation.conflicts).toHaveLength(1);
+    const [conflict] = reconciliation.conflicts;
+    expect(conflict.month).toBe('2024-03');
+    expect(conflict.candidates.map(candidate => candidate.sourceId)).toEqual([
+      SAVED_USAGE_SOURCE,
+      'a',
+      'b',
+    ]);
+    expect(conflict.kwhDifference).toBe(10);
+    expect(conflict.costDifference).toBeCloseTo(1.15);
+  });
+
+  it('should flag billing periods that overlap another month', () => {
+    const reconciliation = reconcileUsageSources(
+      [],
+      [
+        {
+          id: 'a',
+          label: 'jan.pdf',
+          usageDataPoints: [
+            bill('2024-01', 1100, 120, ['2024-01-10', '2024-02-12']),
+          ],
+        },
+        {
+          id: 'b',
+          label: 'feb.pdf',
+          usageDataPoints: [
+            bill('2024-02', 1000, 110, ['2024-02-01', '2024-03-01']),
+          ],
+        },
+      ]
+    );
+
+    expect(reconciliation.conflicts.map(conflict => conflict.month)).toEqual([
+      '2024-01',
+      '2024-02',
+    ]);
+    expect(reconciliation.conflicts[0].overlaps).toEqual([
+      { month: '2024-02', sourceId: 'b', label: 'feb.pdf' },
+    ]);
+  });
+
+  it('should not treat a shared boundary day as an overlap', () => {
+    const reconciliation = reconcileUsageSources(
+      [],
+      [
+        {
+          id: 'a',
+          label: 'jan.pdf',
+          usageDataPoints: [
+            bill('2024-01', 1100, 120, ['2024-01-15', '2024-02-15']),
+          ],
+        },
+        {
+          id: 'b',
+          label: 'feb.pdf',
+          usageDataPoints: [
+            bill('2024-02', 1000, 110, ['2024-02-15', '2024-03-15']),
+          ],
+        },
+      ]
+    );
+
+    expect(reconciliation.conflicts).toEqual([]);
+  });
+});
+
+describe('resolveUsageReconciliation', () => {
+  const reconciliation = reconcileUsageSources(
+    [bill('2024-01', 1000)],
+    [
+      {
+        id: 'a',
+        label: 'bills.csv',
+        usageDataPoints: [bill('2024-01', 1125), bill('2024-02', 1080)],
+      },
+      {
+        id: 'b',
+        label: 'annual.pdf',
+        usageDataPoints: [bill('2024-02', 1090)],
+      },
+    ]
+  );
+
+  it('should save the first file by default', () => {
+    expect(
+      resolveUsageReconciliation(reconciliation).map(point => point.kwh)
+    ).toEqual([1125, 1080]);
+  });
+
+  it('should keep saved months and use the chosen file', () => {
+    expect(
+      resolveUsageReconciliation(reconciliation, {
+        '2024-01': SAVED_USAGE_SOURCE,
+        '2024-02': 'b',
+      }).map(point => point.kwh)
+    ).toEqual([1090]);
+  });
+});
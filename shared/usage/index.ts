@@ -0,0 +1,7 @@
+/**
+ * Shared usage storage helpers for frontend and backend
+ */
+
+export * from './usage-points';
+export * from './interval-usage';
+export * from './reconcile-usage';
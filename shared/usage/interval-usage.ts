@@ -0,0 +1,456 @@
+/**
+ * Interval usage storage
+ *
+ * Smart-meter readings (hourly or 15-minute) are too many for the usage
+ * record's JSON field. On save they are merged with the readings already
+ * stored, rolled up into daily and monthly totals for the record, and kept raw
+ * in compact per-month blocks for cost models that need the load shape.
+ */
+
+import { isIntervalUsage } from '../simulation';
+import type {
+  IntervalBlockChange,
+  IntervalUsageBlock,
+  UsageDataPoint,
+} from '../types';
+import { getUsageMonthKey, mergeUsagePoints } from './usage-points';
+
+export type UsageRollupPeriod = 'day' | 'month';
+
+/**
+ * What to persist when new usage points are saved
+ */
+export interface UsageSavePlan {
+  usagePoints: UsageDataPoint[]; // the record's monthly points
+  dailyUsage: UsageDataPoint[];
+  replacedMonths: string[]; // YYYY-MM months whose stored interval blocks are rebuilt
+  intervalBlocks: IntervalUsageBlock[]; // the rebuilt blocks for those months
+}
+
+interface ParsedTimestamp {
+  time: number; // epoch ms
+  offsetMinutes: number;
+  suffix: string; // 'Z', '+HH:MM' or '' for a wall-clock timestamp
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+// Minutes east of UTC of a timestamp suffix ('Z', '+HH:MM', '-HHMM' or '')
+const parseOffsetMinutes = (suffix: string): number =>
+  suffix && suffix !== 'Z'
+    ? (suffix[0] === '-' ? -1 : 1) *
+      (parseInt(suffix.slice(1, 3), 10) * 60 + parseInt(suffix.slice(-2), 10))
+    : 0;
+
+/**
+ * Parse a timestamp, keeping its UTC offset so readings can be written back in
+ * the meter's local time. Timestamps without an offset are read as wall-clock
+ * time.
+ */
+function parseTimestamp(timestamp: string): ParsedTimestamp {
+  const match = timestamp.match(TIMESTAMP_PATTERN);
+  if (!match) {
+    return {
+      time: new Date(timestamp).getTime(),
+      offsetMinutes: 0,
+      suffix: 'Z',
+    };
+  }
+  const suffix = match[7] || '';
+  const offsetMinutes = parseOffsetMinutes(suffix);
+  const wallTime = Date.UTC(
+    parseInt(match[1], 10),
+    parseInt(match[2], 10) - 1,
+    parseInt(match[3], 10),
+    parseInt(match[4], 10),
+    parseInt(match[5], 10),
+    match[6] ? parseInt(match[6], 10) : 0
+  );
+  return { time: wallTime - offsetMinutes * MINUTE_MS, offsetMinutes, suffix };
+}
+
+/**
+ * Format an instant with the same UTC offset as a reference timestamp
+ */
+function formatTimestamp(time: number, reference: ParsedTimestamp): string {
+  return (
+    new Date(time + reference.offsetMinutes * MINUTE_MS)
+      .toISOString()
+      .slice(0, 19) + reference.suffix
+  );
+}
+
+const sortByTime = (points: UsageDataPoint[]) =>
+  points
+    .map(point => ({ point, parsed: parseTimestamp(point.timestamp) }))
+    .filter(({ parsed }) => !isNaN(parsed.time))
+    .sort((a, b) => a.parsed.time - b.parsed.time);
+
+/**
+ * Length of the readings' interval in minutes (the smallest gap between readings)
+ */
+export function getIntervalMinutes(points: UsageDataPoint[]): number {
+  const times = sortByTime(points).map(({ parsed }) => parsed.time);
+  let smallest = Infinity;
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1];
+    if (gap > 0 && gap < smallest) {
+      smallest = gap;
+    }
+  }
+  return Number.isFinite(smallest) ? Math.round(smallest / MINUTE_MS) : 60;
+}
+
+/**
+ * Roll interval readings up into daily or monthly totals
+ * Each total starts at midnight local time and records the span of readings it
+ * covers in periodStart/periodEnd, so a partial month can be told apart from a
+ * whole one. A total is estimated when any of its readings is, and keeps the
+ * statement format its readings were all read with.
+ */
+export function rollUpUsage(
+  points: UsageDataPoint[],
+  period: UsageRollupPeriod,
+  intervalMinutes: number = getIntervalMinutes(points)
+): UsageDataPoint[] {
+  const rollups = new Map<string, UsageDataPoint>();
+  for (const { point, parsed } of sortByTime(points)) {
+    const local = formatTimestamp(parsed.time, parsed);
+    const key = period === 'day' ? local.slice(0, 10) : local.slice(0, 7);
+    const periodEnd = formatTimestamp(
+      parsed.time + intervalMinutes * MINUTE_MS,
+      parsed
+    );
+    let rollup = rollups.get(key);
+    if (!rollup) {
+      rollup = {
+        timestamp: `${period === 'day' ? key : `${key}-01`}T00:00:00${parsed.suffix}`,
+        kwh: 0,
+        periodStart: local,
+        periodEnd,
+        ...(point.formatId && {
+          formatId: point.formatId,
+          formatVersion: point.formatVersion,
+        }),
+      };
+      rollups.set(key, rollup);
+    } else if (
+      rollup.formatId !== point.formatId ||
+      rollup.formatVersion !== point.formatVersion
+    ) {
+      // Readings from different statement formats: the total has no one format
+      delete rollup.formatId;
+      delete rollup.formatVersion;
+    }
+    rollup.kwh += point.kwh;
+    rollup.periodEnd = periodEnd;
+    if (point.cost !== undefined) {
+      rollup.cost = (rollup.cost || 0) + point.cost;
+    }
+    if (point.estimated) {
+      rollup.estimated = true;
+    }
+  }
+  return Array.from(rollups.values());
+}
+
+/**
+ * Check whether a monthly point covers its whole calendar month
+ * Bills without a period are taken as whole months
+ */
+export function coversWholeMonth(point: UsageDataPoint): boolean {
+  if (!point.periodStart || !point.periodEnd) {
+    return true;
+  }
+  const start = parseTimestamp(point.periodStart);
+  const end = parseTimestamp(point.periodEnd);
+  const startWall = new Date(start.time + start.offsetMinutes * MINUTE_MS);
+  const monthStart = Date.UTC(
+    startWall.getUTCFullYear(),
+    startWall.getUTCMonth(),
+    1
+  );
+  const nextMonthStart = Date.UTC(
+    startWall.getUTCFullYear(),
+    startWall.getUTCMonth() + 1,
+    1
+  );
+  return (
+    startWall.getTime() <= monthStart &&
+    end.time + end.offsetMinutes * MINUTE_MS >= nextMonthStart
+  );
+}
+
+// The statement format a reading was read with, as stored in a block
+const formatOf = (
+  point: UsageDataPoint
+): { formatId: string; formatVersion?: number } | null =>
+  point.formatId
+    ? {
+        formatId: point.formatId,
+        ...(point.formatVersion !== undefined && {
+          formatVersion: point.formatVersion,
+        }),
+      }
+    : null;
+
+// The change in effect at reading `index`, if any
+const changeAt = <T>(
+  changes: IntervalBlockChange<T>[] | undefined,
+  index: number
+): IntervalBlockChange<T> | undefined =>
+  (changes || []).filter(change => change.from <= index).pop();
+
+/**
+ * Pack interval readings into one block per calendar month
+ * Readings keep their own UTC offset, so a month with a daylight saving change
+ * records where the offset changes; estimated readings and the statement
+ * format the readings were read with are kept too.
+ */
+export function toIntervalBlocks(
+  points: UsageDataPoint[],
+  intervalMinutes: number = getIntervalMinutes(points)
+): IntervalUsageBlock[] {
+  const step = intervalMinutes * MINUTE_MS;
+  const months = new Map<string, ReturnType<typeof sortByTime>>();
+  for (const reading of sortByTime(points)) {
+    const month = formatTimestamp(reading.parsed.time, reading.parsed).slice(
+      0,
+      7
+    );
+    months.set(month, [...(months.get(month) || []), reading]);
+  }
+
+  return Array.from(months.entries()).map(([month, readings]) => {
+    const first = readings[0].parsed;
+    const kwh: (number | null)[] = [];
+    const cost: (number | null)[] = [];
+    const offsets: IntervalBlockChange<string>[] = [];
+    const estimated: number[] = [];
+    const formats: NonNullable<IntervalUsageBlock['formats']> = [];
+    let offset = first.suffix;
+    let format: string = JSON.stringify(null);
+    for (const { point, parsed } of readings) {
+      const index = Math.round((parsed.time - first.time) / step);
+      kwh[index] = point.kwh;
+      if (point.cost !== undefined) {
+        cost[index] = point.cost;
+      }
+      if (parsed.suffix !== offset) {
+        offset = parsed.suffix;
+        offsets.push({ from: index, value: offset });
+      }
+      if (point.estimated) {
+        estimated.push(index);
+      }
+      const readingFormat = formatOf(point);
+      if (JSON.stringify(readingFormat) !== format) {
+        format = JSON.stringify(readingFormat);
+        formats.push({ from: index, value: readingFormat });
+      }
+    }
+    const block: IntervalUsageBlock = {
+      month,
+      start: formatTimestamp(first.time, first),
+      intervalMinutes,
+      kwh: Array.from(kwh, value => value ?? null),
+    };
+    if (cost.length > 0) {
+      block.cost = Array.from(
+        { length: kwh.length },
+        (_, i) => cost[i] ?? null
+      );
+    }
+    if (offsets.length > 0) {
+      block.offsets = offsets;
+    }
+    if (estimated.length > 0) {
+      block.estimated = estimated;
+    }
+    if (formats.length > 0) {
+      block.formats = formats;
+    }
+    return block;
+  });
+}
+
+/**
+ * Unpack stored interval blocks into usage points, oldest first
+ * Each reading is written in the UTC offset in effect when it was taken.
+ */
+export function fromIntervalBlocks(
+  blocks: IntervalUsageBlock[]
+): UsageDataPoint[] {
+  const points: UsageDataPoint[] = [];
+  for (const block of [...blocks].sort((a, b) =>
+    a.month.localeCompare(b.month)
+  )) {
+    const start = parseTimestamp(block.start);
+    const step = block.intervalMinutes * MINUTE_MS;
+    const estimated = new Set(block.estimated || []);
+    block.kwh.forEach((kwh, i) => {
+      if (kwh === null || kwh === undefined) {
+        return;
+      }
+      const suffix = changeAt(block.offsets, i)?.value ?? start.suffix;
+      const time = start.time + i * step;
+      const point: UsageDataPoint = {
+        timestamp: formatTimestamp(time, {
+          time,
+          offsetMinutes: parseOffsetMinutes(suffix),
+          suffix,
+        }),
+        kwh,
+      };
+      const cost = block.cost?.[i];
+      if (cost !== null && cost !== undefined) {
+        point.cost = cost;
+      }
+      if (estimated.has(i)) {
+        point.estimated = true;
+      }
+      const format = changeAt(block.formats, i)?.value;
+      if (format) {
+        point.formatId = format.formatId;
+        if (format.formatVersion !== undefined) {
+          point.formatVersion = format.formatVersion;
+        }
+      }
+      points.push(point);
+    });
+  }
+  return points;
+}
+
+/**
+ * Merge new interval readings into stored ones
+ * A new reading replaces every stored reading inside its interval, so two
+ * exports that overlap (even at different resolutions) never count the same
+ * time twice; stored readings outside the new intervals are kept.
+ */
+export function mergeIntervalReadings(
+  existingPoints: UsageDataPoint[],
+  newPoints: UsageDataPoint[],
+  intervalMinutes: number = getIntervalMinutes(newPoints)
+): UsageDataPoint[] {
+  const incoming = sortByTime(newPoints);
+  if (incoming.length === 0) {
+    return sortByTime(existingPoints).map(({ point }) => point);
+  }
+  const step = intervalMinutes * MINUTE_MS;
+  const anchor = incoming[0].parsed.time;
+  const slotOf = (time: number) => Math.floor((time - anchor) / step);
+  const covered = new Set(incoming.map(({ parsed }) => slotOf(parsed.time)));
+  return [
+    ...sortByTime(existingPoints).filter(
+      ({ parsed }) => !covered.has(slotOf(parsed.time))
+    ),
+    ...incoming,
+  ]
+    .sort((a, b) => a.parsed.time - b.parsed.time)
+    .map(({ point }) => point);
+}
+
+/**
+ * Months whose stored interval blocks a save of these points rebuilds
+ * Empty for bills, which never touch the raw readings. Load the stored blocks
+ * for these months and pass them to planUsageSave.
+ */
+export function getReplacedIntervalMonths(
+  newPoints: UsageDataPoint[]
+): string[] {
+  if (!isIntervalUsage(newPoints)) {
+    return [];
+  }
+  return Array.from(
+    new Set(newPoints.map(point => getUsageMonthKey(point.timestamp)))
+  ).sort();
+}
+
+/**
+ * Check whether a monthly point is the roll-up of a month's readings rather
+ * than a bill
+ */
+const isRollUpOf = (point: UsageDataPoint, rollup?: UsageDataPoint) =>
+  !!rollup &&
+  point.periodStart === rollup.periodStart &&
+  point.periodEnd === rollup.periodEnd &&
+  Math.abs(point.kwh - rollup.kwh) < 1e-6;
+
+/**
+ * Work out what to store when new usage points are saved
+ * Bills replace the monthly point for their calendar month and leave the
+ * month's interval readings and daily totals alone. Interval readings are
+ * merged with the readings stored for the months they touch (new readings win
+ * per interval), and those months are rebuilt from the union: monthly and
+ * daily roll-ups and one block per month. A partial month of readings does not
+ * replace a bill already saved for that month.
+ *
+ * `existing.intervalBlocks` must hold the stored blocks for
+ * getReplacedIntervalMonths(newPoints); blocks for other months are ignored.
+ */
+export function planUsageSave(
+  existing: {
+    usagePoints: UsageDataPoint[];
+    dailyUsage?: UsageDataPoint[];
+    intervalBlocks?: IntervalUsageBlock[];
+  },
+  newPoints: UsageDataPoint[]
+): UsageSavePlan {
+  const existingDailyUsage = existing.dailyUsage || [];
+
+  const replacedMonths = getReplacedIntervalMonths(newPoints);
+  if (replacedMonths.length === 0) {
+    return {
+      usagePoints: mergeUsagePoints(existing.usagePoints, newPoints),
+      dailyUsage: existingDailyUsage,
+      replacedMonths,
+      intervalBlocks: [],
+    };
+  }
+
+  const storedReadings = fromIntervalBlocks(
+    (existing.intervalBlocks || []).filter(block =>
+      replacedMonths.includes(block.month)
+    )
+  );
+  const readings = mergeIntervalReadings(storedReadings, newPoints);
+  const intervalMinutes = getIntervalMinutes(readings);
+
+  // Months whose saved point is a bill rather than a roll-up of the stored readings
+  const storedRollups = new Map(
+    rollUpUsage(storedReadings, 'month').map(rollup => [
+      getUsageMonthKey(rollup.timestamp),
+      rollup,
+    ])
+  );
+  const billedMonths = new Set(
+    existing.usagePoints
+      .filter(
+        point =>
+          !isRollUpOf(
+            point,
+            storedRollups.get(getUsageMonthKey(point.timestamp))
+          )
+      )
+      .map(point => getUsageMonthKey(point.timestamp))
+  );
+  const monthlyUsage = rollUpUsage(readings, 'month', intervalMinutes).filter(
+    month =>
+      coversWholeMonth(month) ||
+      !billedMonths.has(getUsageMonthKey(month.timestamp))
+  );
+
+  return {
+    usagePoints: mergeUsagePoints(existing.usagePoints, monthlyUsage),
+    dailyUsage: mergeUsagePoints(
+      existingDailyUsage,
+      rollUpUsage(readings, 'day', intervalMinutes)
+    ),
+    replacedMonths,
+    intervalBlocks: toIntervalBlocks(readings, intervalMinutes),
+  };
+}
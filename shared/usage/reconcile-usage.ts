@@ -0,0 +1,245 @@
+/**
+ * Usage reconciliation
+ *
+ * When several statements are uploaded together, the same month can come from
+ * more than one file, or from a file and the data already saved. Each month's
+ * values are compared across sources so the user can pick which one wins
+ * before anything is saved.
+ */
+
+import type { UsageDataPoint } from '../types';
+import { getUsageMonthKey } from './usage-points';
+
+// Source id of the usage already saved for the user
+export const SAVED_USAGE_SOURCE = 'saved';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Differences smaller than these are rounding, not a conflict
+const KWH_TOLERANCE = 0.5;
+const COST_TOLERANCE = 0.005;
+
+/**
+ * Usage points from one uploaded file
+ */
+export interface UsageSource {
+  id: string;
+  label: string; // shown to the user, e.g. the file name
+  usageDataPoints: UsageDataPoint[];
+}
+
+/**
+ * One source's values for a month
+ */
+export interface UsageMonthCandidate {
+  sourceId: string;
+  label: string;
+  kwh: number;
+  cost?: number;
+  periodStart?: string; // billing period covered, when the source has one
+  periodEnd?: string;
+  points: UsageDataPoint[]; // saved as-is when this candidate wins
+}
+
+/**
+ * Another month's billing period that overlaps this month's
+ */
+export interface UsagePeriodOverlap {
+  month: string; // YYYY-MM
+  sourceId: string;
+  label: string;
+}
+
+export interface UsageMonthConflict {
+  month: string; // YYYY-MM
+  candidates: UsageMonthCandidate[];
+  kwhDifference: number; // highest minus lowest
+  costDifference: number | null; // null when fewer than two sources have a cost
+  overlaps: UsagePeriodOverlap[];
+}
+
+export interface UsageReconciliation {
+  months: Array<{ month: string; candidates: UsageMonthCandidate[] }>; // months with uploaded data, oldest first
+  conflicts: UsageMonthConflict[];
+  defaultChoices: Record<string, string>; // month -> winning source id
+}
+
+/**
+ * Sum a source's points for each calendar month
+ */
+function toMonthCandidates(
+  source: UsageSource
+): Map<string, UsageMonthCandidate> {
+  const candidates = new Map<string, UsageMonthCandidate>();
+  for (const point of source.usageDataPoints) {
+    const month = getUsageMonthKey(point.timestamp);
+    let candidate = candidates.get(month);
+    if (!candidate) {
+      candidate = {
+        sourceId: source.id,
+        label: source.label,
+        kwh: 0,
+        points: [],
+      };
+      candidates.set(month, candidate);
+    }
+    candidate.kwh += point.kwh;
+    candidate.points.push(point);
+    if (point.cost !== undefined) {
+      candidate.cost = (candidate.cost || 0) + point.cost;
+    }
+    if (
+      point.periodStart &&
+      (!candidate.periodStart || point.periodStart < candidate.periodStart)
+    ) {
+      candidate.periodStart = point.periodStart;
+    }
+    if (
+      point.periodEnd &&
+      (!candidate.periodEnd || point.periodEnd > candidate.periodEnd)
+    ) {
+      candidate.periodEnd = point.periodEnd;
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Check whether two billing periods share more than a boundary day
+ */
+function periodsOverlap(
+  a: UsageMonthCandidate,
+  b: UsageMonthCandidate
+): boolean {
+  if (!a.periodStart || !a.periodEnd || !b.periodStart || !b.periodEnd) {
+    return false;
+  }
+  const overlap =
+    Math.min(new Date(a.periodEnd).getTime(), new Date(b.periodEnd).getTime()) -
+    Math.max(
+      new Date(a.periodStart).getTime(),
+      new Date(b.periodStart).getTime()
+    );
+  return overlap > DAY_MS;
+}
+
+const spread = (values: number[]) =>
+  values.length > 1 ? Math.max(...values) - Math.min(...values) : 0;
+
+/**
+ * Compare uploaded files with each other and with the saved usage
+ * A month is a conflict when sources disagree on its kWh or cost, or when its
+ * billing period overlaps another month's from a different source. By default
+ * the first uploaded file wins each month.
+ */
+export function reconcileUsageSources(
+  saved: UsageDataPoint[],
+  uploads: UsageSource[]
+): UsageReconciliation {
+  const savedCandidates = toMonthCandidates({
+    id: SAVED_USAGE_SOURCE,
+    label: 'Saved data',
+    usageDataPoints: saved,
+  });
+  const byMonth = new Map<string, UsageMonthCandidate[]>();
+  for (const upload of uploads) {
+    toMonthCandidates(upload).forEach((candidate, month) => {
+      byMonth.set(month, [...(byMonth.get(month) || []), candidate]);
+    });
+  }
+
+  const months = Array.from(byMonth.keys())
+    .sort()
+    .map(month => {
+      const savedCandidate = savedCandidates.get(month);
+      const candidates = byMonth.get(month)!;
+      return {
+        month,
+        candidates: savedCandidate
+          ? [savedCandidate, ...candidates]
+          : candidates,
+      };
+    });
+
+  const allCandidates = [
+    ...Array.from(savedCandidates.entries()),
+    ...months.flatMap(({ month, candidates }) =>
+      candidates
+        .filter(candidate => candidate.sourceId !== SAVED_USAGE_SOURCE)
+        .map(candidate => [month, candidate] as const)
+    ),
+  ];
+
+  const conflicts: UsageMonthConflict[] = [];
+  const defaultChoices: Record<string, string> = {};
+  for (const { month, candidates } of months) {
+    const uploaded = candidates.filter(
+      candidate => candidate.sourceId !== SAVED_USAGE_SOURCE
+    );
+    defaultChoices[month] = uploaded[0].sourceId;
+
+    const kwhDifference = spread(candidates.map(candidate => candidate.kwh));
+    const costs = candidates
+      .map(candidate => candidate.cost)
+      .filter((cost): cost is number => cost !== undefined);
+    const costDifference = costs.length > 1 ? spread(costs) : null;
+
+    const overlaps: UsagePeriodOverlap[] = [];
+    for (const [otherMonth, other] of allCandidates) {
+      if (
+        otherMonth !== month &&
+        uploaded.some(
+          candidate =>
+            candidate.sourceId !== other.sourceId &&
+            periodsOverlap(candidate, other)
+        ) &&
+        !overlaps.some(
+          overlap =>
+            overlap.month === otherMonth && overlap.sourceId === other.sourceId
+        )
+      ) {
+        overlaps.push({
+          month: otherMonth,
+          sourceId: other.sourceId,
+          label: other.label,
+        });
+      }
+    }
+
+    if (
+      kwhDifference >= KWH_TOLERANCE ||
+      (costDifference !== null && costDifference >= COST_TOLERANCE) ||
+      overlaps.length > 0
+    ) {
+      conflicts.push({
+        month,
+        candidates,
+        kwhDifference,
+        costDifference,
+        overlaps,
+      });
+    }
+  }
+
+  return { months, conflicts, defaultChoices };
+}
+
+/**
+ * Usage points to save once the user has picked a source for each month
+ * Months where the saved data wins (or the month is skipped) are left out, so
+ * the saved points stay as they are.
+ */
+export function resolveUsageReconciliation(
+  reconciliation: UsageReconciliation,
+  choices: Record<string, string> = {}
+): UsageDataPoint[] {
+  return reconciliation.months.flatMap(({ month, candidates }) => {
+    const choice = choices[month] ?? reconciliation.defaultChoices[month];
+    const winner = candidates.find(
+      candidate =>
+        candidate.sourceId === choice &&
+        candidate.sourceId !== SAVED_USAGE_SOURCE
+    );
+    return winner ? winner.points : [];
+  });
+}
@@ -0,0 +1,47 @@
+/**
+ * Usage point merging
+ *
+ * Combines newly imported usage points with the ones already saved for a user.
+ * Shared by the frontend save path and the save-usage-data Lambda so both
+ * merge the same way.
+ */
+
+import type { UsageDataPoint } from '../types';
+
+/**
+ * Calendar month of a usage point as YYYY-MM
+ * Read from the ISO string so local timestamps keep their own month
+ */
+export function getUsageMonthKey(timestamp: string): string {
+  const match = timestamp.match(/^(\d{4})-(\d{2})-/);
+  if (match) {
+    return `${match[1]}-${match[2]}`;
+  }
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Merge new usage points into existing ones
+ * New points replace every existing point in the calendar months they cover,
+ * so a month is never counted twice when a monthly bill is replaced by interval
+ * readings (or the other way round). All new points are kept, at whatever
+ * resolution they were read.
+ */
+export function mergeUsagePoints<T extends UsageDataPoint>(
+  existingPoints: T[],
+  newPoints: T[]
+): T[] {
+  const newMonths = new Set(
+    newPoints.map(point => getUsageMonthKey(point.timestamp))
+  );
+
+  return [
+    ...existingPoints.filter(
+      point => !newMonths.has(getUsageMonthKey(point.timestamp))
+    ),
+    ...newPoints,
+  ].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
@@ -8,6 +8,8 @@ import { Dashboard } from './pages/Dashboard';
 import { UsageDataPage } from './pages/UsageDataPage';
 import { PreferencesPage } from './pages/PreferencesPage';
 import { RecommendationsPage } from './pages/RecommendationsPage';
+import { StatementFormatsPage } from './pages/StatementFormatsPage';
+import { PlanCatalogPage } from './pages/PlanCatalogPage';
 import { SignIn } from './components/auth/SignIn';
 
 const queryClient = new QueryClient({
@@ -70,6 +72,22 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/admin/statement-formats"
+                element={
+                  <ProtectedRoute>
+                    <StatementFormatsPage />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/plan-catalog"
+                element={
+                  <ProtectedRoute>
+                    <PlanCatalogPage />
+                  </ProtectedRoute>
+                }
+              />
             </Routes>
           </Layout>
         </BrowserRouter>
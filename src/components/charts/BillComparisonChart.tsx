@@ -0,0 +1,110 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { formatCurrency } from '@/lib/format';
+import type {
+  MonthlyCostProjection,
+  SeasonalCostProjection,
+} from 'shared/types';
+import { format } from 'date-fns';
+
+interface BillComparisonChartProps {
+  monthlyCosts: MonthlyCostProjection[];
+  seasonalCosts?: SeasonalCostProjection[];
+  title?: string;
+  description?: string;
+}
+
+export function BillComparisonChart({
+  monthlyCosts,
+  seasonalCosts = [],
+  title = 'Current vs. Recommended Monthly Bills',
+  description,
+}: BillComparisonChartProps) {
+  const chartData = monthlyCosts.map(cost => ({
+    month: format(new Date(cost.year, cost.month - 1, 1), 'MMM yyyy'),
+    current: Math.round(cost.currentCost * 100) / 100,
+    recommended: Math.round(cost.projectedCost * 100) / 100,
+  }));
+  const costlierMonths = monthlyCosts
+    .filter(cost => cost.projectedCost > cost.currentCost)
+    .map(cost => format(new Date(cost.year, cost.month - 1, 1), 'MMMM'));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>
+          {description ||
+            (costlierMonths.length > 0
+              ? `The recommended plan costs more in ${costlierMonths.join(', ')}`
+              : 'The recommended plan costs less every month')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="month" />
+            <YAxis
+              label={{ value: 'Bill ($)', angle: -90, position: 'insideLeft' }}
+            />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} />
+            <Legend />
+            <Line
+              type="monotone"
+              dataKey="current"
+              stroke="#8884d8"
+              name="Current Plan"
+              strokeWidth={2}
+            />
+            <Line
+              type="monotone"
+              dataKey="recommended"
+              stroke="#82ca9d"
+              name="Recommended Plan"
+              strokeWidth={2}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+        {seasonalCosts.length > 0 && (
+          <div className="grid grid-cols-2 gap-2 text-sm md:grid-cols-4">
+            {seasonalCosts.map(season => {
+              const difference = season.projectedCost - season.currentCost;
+              return (
+                <div key={season.season} className="rounded-md border p-3">
+                  <p className="font-medium capitalize">{season.season}</p>
+                  <p className="text-muted-foreground">
+                    {formatCurrency(season.projectedCost)}
+                  </p>
+                  <p
+                    className={
+                      difference > 0 ? 'text-red-600' : 'text-green-600'
+                    }
+                  >
+                    {difference > 0 ? '+' : ''}
+                    {formatCurrency(difference)} vs. current
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
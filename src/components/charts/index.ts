@@ -1,2 +1,3 @@
 export { UsageChart } from './UsageChart';
 export { MonthlyUsageChart } from './MonthlyUsageChart';
+export { BillComparisonChart } from './BillComparisonChart';
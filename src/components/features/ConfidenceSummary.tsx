@@ -0,0 +1,65 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import type { DataQuality } from 'shared/types';
+
+const dataQualityLabels: Record<DataQuality, string> = {
+  actual: 'Based on your bills',
+  estimated: 'Partly estimated usage',
+  projected: 'Some months projected',
+};
+
+const dataQualityVariants: Record<
+  DataQuality,
+  'default' | 'secondary' | 'outline'
+> = {
+  actual: 'default',
+  estimated: 'secondary',
+  projected: 'outline',
+};
+
+interface ConfidenceSummaryProps {
+  confidence: number; // 0-1
+  dataQuality?: DataQuality;
+  suggestions?: string[];
+  className?: string;
+}
+
+export function ConfidenceSummary({
+  confidence,
+  dataQuality,
+  suggestions = [],
+  className,
+}: ConfidenceSummaryProps) {
+  return (
+    <Card className={className}>
+      <CardContent className="space-y-3 pt-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">
+            {Math.round(confidence * 100)}% confidence in these estimates
+          </span>
+          {dataQuality && (
+            <Badge variant={dataQualityVariants[dataQuality]}>
+              {dataQualityLabels[dataQuality]}
+            </Badge>
+          )}
+        </div>
+        {suggestions.length > 0 && (
+          <>
+            <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+              {suggestions.map(suggestion => (
+                <li key={suggestion}>{suggestion}</li>
+              ))}
+            </ul>
+            <Link to="/usage-data">
+              <Button variant="outline" size="sm">
+                Update Usage Data
+              </Button>
+            </Link>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
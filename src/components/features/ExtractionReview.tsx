@@ -0,0 +1,74 @@
+import { Badge } from '@/components/ui/badge';
+import type { ReviewItem } from '@/lib/extraction-review';
+import type { FieldSource } from 'shared/statements';
+
+const sourceLabels: Record<FieldSource, string> = {
+  parsed: 'Read from file',
+  extracted: 'Read by AI',
+  computed: 'Calculated',
+};
+
+interface ExtractionReviewProps {
+  items: ReviewItem[];
+  reviewed: boolean;
+  onReviewedChange: (reviewed: boolean) => void;
+  showFileNames?: boolean;
+  disabled?: boolean;
+}
+
+export function ExtractionReview({
+  items,
+  reviewed,
+  onReviewedChange,
+  showFileNames,
+  disabled,
+}: ExtractionReviewProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm dark:border-amber-700 dark:bg-amber-950">
+      <div>
+        <p className="font-medium text-amber-900 dark:text-amber-100">
+          Check these values
+        </p>
+        <p className="text-amber-800 dark:text-amber-200">
+          The statement reader wasn't sure of these. Compare them with your bill
+          before saving.
+        </p>
+      </div>
+      <ul className="space-y-1">
+        {items.map(item => (
+          <li
+            key={item.id}
+            className="flex flex-wrap items-center justify-between gap-2"
+          >
+            <span>
+              <span className="font-medium">{item.label}:</span> {item.value}
+              {showFileNames && (
+                <span className="text-muted-foreground">
+                  {' '}
+                  ({item.fileName})
+                </span>
+              )}
+            </span>
+            <Badge variant="outline">
+              {sourceLabels[item.source]}, {Math.round(item.confidence * 100)}%
+              confident
+            </Badge>
+          </li>
+        ))}
+      </ul>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={reviewed}
+          onChange={e => onReviewedChange(e.target.checked)}
+          disabled={disabled}
+        />
+        <span>I've checked these values</span>
+      </label>
+    </div>
+  );
+}
@@ -8,7 +8,9 @@ import {
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import type { Recommendation, EnergyPlan } from 'shared/types';
+import { format, parseISO } from 'date-fns';
 import { formatCurrency } from '@/lib/format';
+import { RiskFlagBadges } from './RiskFlagBadges';
 
 interface SatisfactionData {
   averageRating: number;
@@ -60,6 +62,11 @@ export function RecommendationCard({
               {formatCurrency(savings)}
             </div>
             <p className="text-xs text-muted-foreground">Annual Savings</p>
+            {recommendation.confidence !== undefined && (
+              <p className="text-xs text-muted-foreground">
+                {Math.round(recommendation.confidence * 100)}% confidence
+              </p>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -88,6 +95,14 @@ export function RecommendationCard({
                   </span>
                 </div>
               )}
+              {recommendation.projectedCost24Months !== undefined && (
+                <div>
+                  <span className="text-muted-foreground">24-Month Cost:</span>{' '}
+                  <span className="font-medium">
+                    {formatCurrency(recommendation.projectedCost24Months)}
+                  </span>
+                </div>
+              )}
               {plan.renewablePercentage !== undefined && (
                 <div>
                   <span className="text-muted-foreground">Renewable:</span>{' '}
@@ -100,6 +115,18 @@ export function RecommendationCard({
           )}
         </div>
 
+        {recommendation.riskFlags && recommendation.riskFlags.length > 0 && (
+          <div>
+            <h4 className="mb-2 text-sm font-medium">Things to Know</h4>
+            <RiskFlagBadges flags={recommendation.riskFlags} />
+            <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+              {recommendation.riskFlags.map(flag => (
+                <li key={`${flag.code}-${flag.message}`}>{flag.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div>
           <h4 className="mb-2 text-sm font-medium">Why This Plan?</h4>
           <p className="text-sm text-muted-foreground">
@@ -107,6 +134,32 @@ export function RecommendationCard({
           </p>
         </div>
 
+        {recommendation.switchTiming && (
+          <div className="rounded-lg border bg-muted/50 p-3 text-sm">
+            <p className="font-medium">When to Switch</p>
+            <p className="mt-1 text-muted-foreground">
+              {recommendation.switchTiming === 'now' && 'Switch now'}
+              {recommendation.switchTiming === 'contract_end' &&
+                `Wait until your contract ends${
+                  recommendation.recommendedSwitchDate
+                    ? ` on ${format(parseISO(recommendation.recommendedSwitchDate), 'MMM d, yyyy')}`
+                    : ''
+                }`}
+              {recommendation.switchTiming === 'stay' &&
+                'Stay on your current plan for now'}
+              {!!recommendation.switchingCost &&
+                ` · ${formatCurrency(recommendation.switchingCost)} early termination fee`}
+            </p>
+          </div>
+        )}
+
+        {recommendation.savingsMostlyFromPromo && (
+          <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+            Most of the first-year savings come from an introductory rate. Check
+            the 24-month cost before switching.
+          </div>
+        )}
+
         {plan && satisfactionData && (
           <div className="rounded-lg border bg-muted/50 p-3">
             <div className="flex items-center justify-between">
@@ -0,0 +1,44 @@
+import { Badge } from '@/components/ui/badge';
+import type { RiskFlag, RiskFlagCode, RiskSeverity } from 'shared/types';
+
+const riskFlagLabels: Record<RiskFlagCode, string> = {
+  high_etf: 'High Cancellation Fee',
+  variable_rate: 'Variable Rate',
+  expiring_promo: 'Expiring Promo',
+  low_supplier_rating: 'Low Supplier Rating',
+  hidden_fees: 'Extra Fees',
+};
+
+const severityVariants: Record<
+  RiskSeverity,
+  'destructive' | 'secondary' | 'outline'
+> = {
+  high: 'destructive',
+  medium: 'secondary',
+  low: 'outline',
+};
+
+interface RiskFlagBadgesProps {
+  flags: RiskFlag[];
+  className?: string;
+}
+
+export function RiskFlagBadges({ flags, className }: RiskFlagBadgesProps) {
+  if (flags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className || ''}`}>
+      {flags.map(flag => (
+        <Badge
+          key={`${flag.code}-${flag.message}`}
+          variant={severityVariants[flag.severity]}
+          title={flag.message}
+        >
+          {riskFlagLabels[flag.code]}
+        </Badge>
+      ))}
+    </div>
+  );
+}
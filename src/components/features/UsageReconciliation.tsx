@@ -0,0 +1,141 @@
+import { Badge } from '@/components/ui/badge';
+import { formatCurrency, formatNumber } from '@/lib/format';
+import {
+  SAVED_USAGE_SOURCE,
+  type UsageMonthCandidate,
+  type UsageReconciliation as Reconciliation,
+} from 'shared/usage';
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T12:00:00Z`).toLocaleString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatDay = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatPeriod = (candidate: UsageMonthCandidate) =>
+  candidate.periodStart && candidate.periodEnd
+    ? `${formatDay(candidate.periodStart)} - ${formatDay(candidate.periodEnd)}`
+    : null;
+
+interface UsageReconciliationProps {
+  reconciliation: Reconciliation;
+  choices: Record<string, string>; // month -> chosen source id
+  onChoiceChange: (month: string, sourceId: string) => void;
+  disabled?: boolean;
+}
+
+export function UsageReconciliation({
+  reconciliation,
+  choices,
+  onChoiceChange,
+  disabled,
+}: UsageReconciliationProps) {
+  if (reconciliation.conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium">Review conflicting months</p>
+        <p className="text-sm text-muted-foreground">
+          These months differ between your files or your saved data. Pick the
+          value to keep for each one - nothing is saved until you confirm.
+        </p>
+      </div>
+      {reconciliation.conflicts.map(conflict => {
+        const choice =
+          choices[conflict.month] ??
+          reconciliation.defaultChoices[conflict.month];
+        const hasSaved = conflict.candidates.some(
+          candidate => candidate.sourceId === SAVED_USAGE_SOURCE
+        );
+        return (
+          <div
+            key={conflict.month}
+            className="space-y-2 rounded-md border bg-white p-3 text-sm dark:bg-gray-900"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-semibold">
+                {formatMonth(conflict.month)}
+              </span>
+              {Math.round(conflict.kwhDifference) > 0 && (
+                <Badge variant="secondary">
+                  {formatNumber(Math.round(conflict.kwhDifference))} kWh apart
+                </Badge>
+              )}
+              {Math.round((conflict.costDifference || 0) * 100) > 0 && (
+                <Badge variant="secondary">
+                  {formatCurrency(conflict.costDifference!)} apart
+                </Badge>
+              )}
+            </div>
+            {conflict.overlaps.map(overlap => (
+              <p
+                key={`${overlap.month}-${overlap.sourceId}`}
+                className="text-xs text-amber-700 dark:text-amber-300"
+              >
+                Billing period overlaps {formatMonth(overlap.month)} from{' '}
+                {overlap.label}
+              </p>
+            ))}
+            <div className="space-y-1">
+              {conflict.candidates.map(candidate => (
+                <label
+                  key={candidate.sourceId}
+                  className="flex cursor-pointer items-center gap-3 rounded px-2 py-1 hover:bg-muted"
+                >
+                  <input
+                    type="radio"
+                    name={`reconcile-${conflict.month}`}
+                    checked={choice === candidate.sourceId}
+                    onChange={() =>
+                      onChoiceChange(conflict.month, candidate.sourceId)
+                    }
+                    disabled={disabled}
+                  />
+                  <span className="flex-1 truncate">{candidate.label}</span>
+                  <span className="font-medium">
+                    {formatNumber(Math.round(candidate.kwh))} kWh
+                  </span>
+                  <span className="w-20 text-right">
+                    {candidate.cost !== undefined
+                      ? formatCurrency(candidate.cost)
+                      : '-'}
+                  </span>
+                  <span className="w-28 text-right text-xs text-muted-foreground">
+                    {formatPeriod(candidate) || ''}
+                  </span>
+                </label>
+              ))}
+              {!hasSaved && (
+                <label className="flex cursor-pointer items-center gap-3 rounded px-2 py-1 hover:bg-muted">
+                  <input
+                    type="radio"
+                    name={`reconcile-${conflict.month}`}
+                    checked={choice === SAVED_USAGE_SOURCE}
+                    onChange={() =>
+                      onChoiceChange(conflict.month, SAVED_USAGE_SOURCE)
+                    }
+                    disabled={disabled}
+                  />
+                  <span className="flex-1 text-muted-foreground">
+                    Skip this month
+                  </span>
+                </label>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -125,6 +125,86 @@ describe('RecommendationCard', () => {
     expect(screen.queryByText('Customer Satisfaction')).not.toBeInTheDocument();
   });
 
+  it('should warn when savings mostly come from an introductory rate', () => {
+    const promoRecommendation: Recommendation = {
+      ...mockRecommendation,
+      projectedCost24Months: 3200,
+      savingsMostlyFromPromo: true,
+    };
+
+    render(
+      <RecommendationCard
+        recommendation={promoRecommendation}
+        plan={mockPlan}
+      />
+    );
+
+    expect(screen.getByText('$3,200.00')).toBeInTheDocument();
+    expect(
+      screen.getByText(/first-year savings come from an introductory rate/)
+    ).toBeInTheDocument();
+  });
+
+  it('should show when to switch', () => {
+    const waitRecommendation: Recommendation = {
+      ...mockRecommendation,
+      switchTiming: 'contract_end',
+      switchingCost: 150,
+      recommendedSwitchDate: '2025-03-31',
+    };
+
+    render(
+      <RecommendationCard recommendation={waitRecommendation} plan={mockPlan} />
+    );
+
+    expect(screen.getByText('When to Switch')).toBeInTheDocument();
+    expect(
+      screen.getByText(/Wait until your contract ends on Mar 31, 2025/)
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(/\$150\.00 early termination fee/)
+    ).toBeInTheDocument();
+  });
+
+  it('should show risk flags as badges', () => {
+    const riskyRecommendation: Recommendation = {
+      ...mockRecommendation,
+      riskFlags: [
+        {
+          code: 'high_etf',
+          severity: 'high',
+          message: '$300 early termination fee if you leave early',
+        },
+      ],
+    };
+
+    render(
+      <RecommendationCard
+        recommendation={riskyRecommendation}
+        plan={mockPlan}
+      />
+    );
+
+    expect(screen.getByText('High Cancellation Fee')).toHaveAttribute(
+      'title',
+      '$300 early termination fee if you leave early'
+    );
+    expect(
+      screen.getByText('$300 early termination fee if you leave early')
+    ).toBeInTheDocument();
+  });
+
+  it('should display the recommendation confidence', () => {
+    render(
+      <RecommendationCard
+        recommendation={{ ...mockRecommendation, confidence: 0.83 }}
+        plan={mockPlan}
+      />
+    );
+
+    expect(screen.getByText('83% confidence')).toBeInTheDocument();
+  });
+
   it('should call onSelect when Select Plan button is clicked', () => {
     const onSelect = jest.fn();
 
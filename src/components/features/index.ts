@@ -1 +1,5 @@
 export { RecommendationCard } from './RecommendationCard';
+export { RiskFlagBadges } from './RiskFlagBadges';
+export { ConfidenceSummary } from './ConfidenceSummary';
+export { UsageReconciliation } from './UsageReconciliation';
+export { ExtractionReview } from './ExtractionReview';
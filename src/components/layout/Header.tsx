@@ -5,7 +5,7 @@ import { useAuth } from '@/contexts/AuthContext';
 
 export function Header() {
   const navigate = useNavigate();
-  const { user, signOut, loading } = useAuth();
+  const { user, signOut, loading, isAdmin } = useAuth();
 
   const handleSignOut = async () => {
     await signOut();
@@ -39,6 +39,16 @@ export function Header() {
               <Link to="/preferences">
                 <Button variant="ghost">Preferences</Button>
               </Link>
+              {isAdmin && (
+                <Link to="/admin/statement-formats">
+                  <Button variant="ghost">Formats</Button>
+                </Link>
+              )}
+              {isAdmin && (
+                <Link to="/admin/plan-catalog">
+                  <Button variant="ghost">Catalog</Button>
+                </Link>
+              )}
               <Button variant="outline" onClick={handleSignOut}>
                 Sign Out
               </Button>
@@ -6,6 +6,7 @@ import { Header } from '../Header';
 type AuthContextType = {
   user: { userId: string; email?: string } | null;
   loading: boolean;
+  isAdmin?: boolean;
   signOut: () => Promise<void>;
   refreshUser?: () => Promise<void>;
 };
@@ -30,6 +31,7 @@ const renderWithRouter = (authContextValue: Partial<AuthContextType>) => {
   const contextValue: AuthContextType = {
     user: authContextValue.user || null,
     loading: authContextValue.loading ?? false,
+    isAdmin: authContextValue.isAdmin ?? false,
     signOut: authContextValue.signOut || mockSignOut,
     refreshUser: authContextValue.refreshUser || jest.fn(),
   };
@@ -92,6 +94,42 @@ describe('Header', () => {
     expect(screen.queryByText('Compare Plans')).not.toBeInTheDocument();
   });
 
+  it('should show the statement formats link to admins only', () => {
+    renderWithRouter({
+      user: { userId: 'user-123', email: 'test@example.com' },
+      loading: false,
+    });
+    expect(screen.queryByText('Formats')).not.toBeInTheDocument();
+
+    renderWithRouter({
+      user: { userId: 'admin-1', email: 'admin@example.com' },
+      loading: false,
+      isAdmin: true,
+    });
+    expect(screen.getByText('Formats').closest('a')).toHaveAttribute(
+      'href',
+      '/admin/statement-formats'
+    );
+  });
+
+  it('should show the plan catalog link to admins only', () => {
+    renderWithRouter({
+      user: { userId: 'user-123', email: 'test@example.com' },
+      loading: false,
+    });
+    expect(screen.queryByText('Catalog')).not.toBeInTheDocument();
+
+    renderWithRouter({
+      user: { userId: 'admin-1', email: 'admin@example.com' },
+      loading: false,
+      isAdmin: true,
+    });
+    expect(screen.getByText('Catalog').closest('a')).toHaveAttribute(
+      'href',
+      '/admin/plan-catalog'
+    );
+  });
+
   it('should call signOut when Sign Out button is clicked', () => {
     renderWithRouter({
       user: { userId: 'user-123', email: 'test@example.com' },
@@ -1,10 +1,18 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { getCurrentUser, signOut as amplifySignOut } from 'aws-amplify/auth';
+import {
+  fetchAuthSession,
+  getCurrentUser,
+  signOut as amplifySignOut,
+} from 'aws-amplify/auth';
+
+// Cognito group whose members can curate learned statement formats
+const ADMIN_GROUP = 'ADMINS';
 
 interface AuthContextType {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   user: any;
   loading: boolean;
+  isAdmin: boolean;
   signOut: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
@@ -15,14 +23,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const [user, setUser] = useState<any | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState(false);
 
   async function checkUser() {
     try {
       const currentUser = await getCurrentUser();
       setUser(currentUser);
+      const session = await fetchAuthSession();
+      const groups = session.tokens?.idToken?.payload['cognito:groups'];
+      setIsAdmin(Array.isArray(groups) && groups.includes(ADMIN_GROUP));
     } catch (error) {
       // User is not authenticated or Amplify not configured
       setUser(null);
+      setIsAdmin(false);
     } finally {
       setLoading(false);
     }
@@ -50,6 +63,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       await amplifySignOut();
       setUser(null);
+      setIsAdmin(false);
     } catch (error) {
       console.error('Error signing out:', error);
     }
@@ -60,7 +74,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }
 
   return (
-    <AuthContext.Provider value={{ user, loading, signOut, refreshUser }}>
+    <AuthContext.Provider
+      value={{ user, loading, isAdmin, signOut, refreshUser }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,83 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { usePlanCatalogStatus } from '../usePlanCatalogStatus';
+import { apiClient } from '@/services/api/client';
+import type { PlanCatalogRunReport } from 'shared/catalog';
+
+// Mock the API client
+jest.mock('@/services/api/client', () => ({
+  apiClient: {
+    getPlanCatalogStatus: jest.fn(),
+  },
+}));
+
+const mockApiClient = apiClient as jest.Mocked<typeof apiClient>;
+
+describe('usePlanCatalogStatus', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+        },
+      },
+    });
+    jest.clearAllMocks();
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  const mockRun: PlanCatalogRunReport = {
+    runId: 'run-1',
+    trigger: 'schedule',
+    status: 'succeeded',
+    startedAt: '2026-10-19T11:00:00.000Z',
+    finishedAt: '2026-10-19T11:01:30.000Z',
+    sources: [],
+    statesUpdated: ['TX'],
+    plansAdded: 1,
+    plansChanged: 2,
+    plansRetired: 0,
+    plansSkipped: 0,
+  };
+
+  it('should load the state refreshes and runs when enabled', async () => {
+    const status = {
+      states: [
+        {
+          state: 'TX',
+          lastRefreshedAt: '2026-10-19T11:01:30.000Z',
+          lastRunId: 'run-1',
+          plansListed: 4,
+        },
+      ],
+      runs: [mockRun],
+    };
+    mockApiClient.getPlanCatalogStatus.mockResolvedValue(status);
+
+    const { result } = renderHook(() => usePlanCatalogStatus(true), {
+      wrapper,
+    });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.states).toEqual(status.states);
+    expect(result.current.runs).toEqual([mockRun]);
+  });
+
+  it('should not load anything for non-admins', () => {
+    const { result } = renderHook(() => usePlanCatalogStatus(false), {
+      wrapper,
+    });
+
+    expect(result.current.states).toEqual([]);
+    expect(result.current.runs).toEqual([]);
+    expect(mockApiClient.getPlanCatalogStatus).not.toHaveBeenCalled();
+  });
+});
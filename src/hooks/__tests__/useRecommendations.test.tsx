@@ -2,7 +2,11 @@ import { renderHook, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { useRecommendations } from '../useRecommendations';
 import { apiClient } from '@/services/api/client';
-import type { CustomerUsageData, Recommendation } from 'shared/types';
+import type {
+  CustomerUsageData,
+  Recommendation,
+  RecommendationResponse,
+} from 'shared/types';
 
 // Mock the API client
 jest.mock('@/services/api/client', () => ({
@@ -78,10 +82,15 @@ describe('useRecommendations', () => {
     },
   ];
 
+  const mockResponse: RecommendationResponse = {
+    outcome: 'switch',
+    recommendations: mockRecommendations,
+    projectedSavings: 500,
+    explanation: 'This plan offers great savings',
+  };
+
   it('should fetch recommendations when userId and usageData are provided', async () => {
-    mockApiClient.generateRecommendations.mockResolvedValue(
-      mockRecommendations
-    );
+    mockApiClient.generateRecommendations.mockResolvedValue(mockResponse);
 
     const { result } = renderHook(
       () => useRecommendations('user-123', mockUsageData),
@@ -102,6 +111,40 @@ describe('useRecommendations', () => {
     );
   });
 
+  it('should expose the stay outcome when the current plan is best', async () => {
+    mockApiClient.generateRecommendations.mockResolvedValue({
+      outcome: 'stay',
+      recommendations: [],
+      currentPlanBest: {
+        currentAnnualCost: 1200,
+        nearestAlternative: {
+          planId: 'plan-1',
+          supplierName: 'Green Energy Co.',
+          planName: 'Green Power Plan',
+          annualCost: 1350,
+          margin: 150,
+        },
+      },
+      projectedSavings: 0,
+      explanation: 'Your current plan is already cheaper',
+    });
+
+    const { result } = renderHook(
+      () => useRecommendations('user-123', mockUsageData),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.outcome).toBe('stay');
+    expect(result.current.recommendations).toEqual([]);
+    expect(result.current.currentPlanBest?.nearestAlternative?.margin).toBe(
+      150
+    );
+  });
+
   it('should not fetch when userId is undefined', () => {
     const { result } = renderHook(
       () => useRecommendations(undefined, mockUsageData),
@@ -139,9 +182,7 @@ describe('useRecommendations', () => {
   });
 
   it('should generate recommendations via mutation', async () => {
-    mockApiClient.generateRecommendations.mockResolvedValue(
-      mockRecommendations
-    );
+    mockApiClient.generateRecommendations.mockResolvedValue(mockResponse);
 
     const { result } = renderHook(
       () => useRecommendations('user-123', mockUsageData),
@@ -166,15 +207,13 @@ describe('useRecommendations', () => {
 
   it('should show generating state during mutation', async () => {
     // Create a promise that we can control
-    let resolvePromise: (value: Recommendation[]) => void;
-    const controlledPromise = new Promise<Recommendation[]>(resolve => {
+    let resolvePromise: (value: RecommendationResponse) => void;
+    const controlledPromise = new Promise<RecommendationResponse>(resolve => {
       resolvePromise = resolve;
     });
 
     // First call (from query) resolves immediately
-    mockApiClient.generateRecommendations.mockResolvedValueOnce(
-      mockRecommendations
-    );
+    mockApiClient.generateRecommendations.mockResolvedValueOnce(mockResponse);
     // Second call (from mutation) uses controlled promise
     mockApiClient.generateRecommendations.mockReturnValueOnce(
       controlledPromise
@@ -204,7 +243,7 @@ describe('useRecommendations', () => {
     );
 
     // Resolve the promise
-    resolvePromise!(mockRecommendations);
+    resolvePromise!(mockResponse);
 
     await waitFor(() => {
       expect(result.current.isGenerating).toBe(false);
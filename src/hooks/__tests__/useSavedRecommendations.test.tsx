@@ -163,6 +163,101 @@ describe('useSavedRecommendations', () => {
     expect(result.current.recommendations[0].plan).toBeUndefined();
   });
 
+  it('should report how the rate changed since the recommendation', async () => {
+    const mockHistory: RecommendationHistory[] = [
+      {
+        userId: 'user-123',
+        recommendationId: 'rec-1',
+        planId: 'plan-1',
+        rank: 1,
+        projectedSavings: 500,
+        explanation: 'Great plan',
+        selected: false,
+        createdAt: '2024-01-15T10:00:00Z',
+      },
+    ];
+
+    mockApiClient.getRecommendationHistory.mockResolvedValue(mockHistory);
+    mockApiClient.getUserProfile.mockResolvedValue({ state: 'TX' });
+    mockApiClient.getEnergyPlans.mockResolvedValue([
+      {
+        planId: 'plan-1',
+        supplierName: 'Gexa Energy',
+        planName: 'Gexa Saver 12',
+        ratePerKwh: 0.15,
+        contractType: 'fixed',
+        state: 'TX',
+        rateHistory: [
+          {
+            version: 1,
+            ratePerKwh: 0.142,
+            effectiveFrom: '2024-01-01T00:00:00Z',
+          },
+          {
+            version: 2,
+            ratePerKwh: 0.15,
+            effectiveFrom: '2024-03-01T00:00:00Z',
+          },
+        ],
+      },
+    ]);
+
+    const { result } = renderHook(() => useSavedRecommendations('user-123'), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    const { rateChange } = result.current.recommendations[0];
+    expect(rateChange?.from.version).toBe(1);
+    expect(rateChange?.change).toBeCloseTo(0.008, 6);
+  });
+
+  it('should still show recommended plans that were retired', async () => {
+    mockApiClient.getRecommendationHistory.mockResolvedValue([
+      {
+        userId: 'user-123',
+        recommendationId: 'rec-1',
+        planId: 'plan-1',
+        rank: 1,
+        projectedSavings: 500,
+        explanation: 'Great plan',
+        selected: false,
+        createdAt: '2024-01-15T10:00:00Z',
+      },
+    ]);
+    mockApiClient.getUserProfile.mockResolvedValue({ state: 'TX' });
+    mockApiClient.getEnergyPlans.mockResolvedValue([
+      {
+        planId: 'plan-1',
+        supplierName: 'Gexa Energy',
+        planName: 'Gexa Saver 12',
+        ratePerKwh: 0.15,
+        contractType: 'fixed',
+        state: 'TX',
+        availableUntil: '2024-03-01T00:00:00Z',
+      },
+    ]);
+
+    const { result } = renderHook(() => useSavedRecommendations('user-123'), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(mockApiClient.getEnergyPlans).toHaveBeenCalledWith('TX', {
+      includeRetired: true,
+    });
+    expect(result.current.recommendations[0].plan?.planName).toBe(
+      'Gexa Saver 12'
+    );
+    expect(result.current.recommendations[0].retired).toBe(true);
+  });
+
   it('should sort recommendations by rank', async () => {
     const mockHistory: RecommendationHistory[] = [
       {
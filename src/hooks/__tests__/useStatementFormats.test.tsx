@@ -0,0 +1,94 @@
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useStatementFormats } from '../useStatementFormats';
+import { apiClient } from '@/services/api/client';
+import type { LearnedStatementFormat } from 'shared/statements';
+
+// Mock the API client
+jest.mock('@/services/api/client', () => ({
+  apiClient: {
+    getStatementFormats: jest.fn(),
+    retireStatementFormat: jest.fn(),
+  },
+}));
+
+const mockApiClient = apiClient as jest.Mocked<typeof apiClient>;
+
+describe('useStatementFormats', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+        },
+      },
+    });
+    jest.clearAllMocks();
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  const mockFormat: LearnedStatementFormat = {
+    id: 'record-1',
+    formatId: 'format-csv-1a2b3c4d',
+    utilityName: 'Austin Energy',
+    fileType: 'csv',
+    status: 'active',
+    version: 2,
+    versions: [],
+    successCount: 12,
+    correctionCount: 0,
+    lastUsedAt: '2024-06-01T00:00:00.000Z',
+    createdAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  it('should load the formats when enabled', async () => {
+    mockApiClient.getStatementFormats.mockResolvedValue([mockFormat]);
+
+    const { result } = renderHook(() => useStatementFormats(true), {
+      wrapper,
+    });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.formats).toEqual([mockFormat]);
+  });
+
+  it('should not load the formats for non-admins', () => {
+    const { result } = renderHook(() => useStatementFormats(false), {
+      wrapper,
+    });
+
+    expect(result.current.formats).toEqual([]);
+    expect(mockApiClient.getStatementFormats).not.toHaveBeenCalled();
+  });
+
+  it('should reload the formats after retiring one', async () => {
+    mockApiClient.getStatementFormats.mockResolvedValue([mockFormat]);
+    mockApiClient.retireStatementFormat.mockResolvedValue();
+
+    const { result } = renderHook(() => useStatementFormats(true), {
+      wrapper,
+    });
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    act(() => {
+      result.current.retireFormat('record-1');
+    });
+
+    await waitFor(() => {
+      expect(mockApiClient.getStatementFormats).toHaveBeenCalledTimes(2);
+    });
+    expect(mockApiClient.retireStatementFormat).toHaveBeenCalledWith(
+      'record-1'
+    );
+  });
+});
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/services/api/client';
+
+/**
+ * When each state's plan catalog was last refreshed, with the recent catalog
+ * run reports, for admins to review
+ */
+export function usePlanCatalogStatus(enabled: boolean) {
+  const query = useQuery({
+    queryKey: ['planCatalogStatus'],
+    queryFn: () => apiClient.getPlanCatalogStatus(),
+    enabled,
+  });
+
+  return {
+    states: query.data?.states || [],
+    runs: query.data?.runs || [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
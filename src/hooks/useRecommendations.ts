@@ -35,7 +35,12 @@ export function useRecommendations(
   });
 
   return {
-    recommendations: query.data || [],
+    recommendations: query.data?.recommendations || [],
+    outcome: query.data?.outcome,
+    currentPlanBest: query.data?.currentPlanBest,
+    confidence: query.data?.confidence,
+    dataQuality: query.data?.dataQuality,
+    dataQualitySuggestions: query.data?.dataQualitySuggestions,
     isLoading: query.isLoading,
     error: query.error,
     generateRecommendations: mutation.mutate,
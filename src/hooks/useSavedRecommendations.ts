@@ -2,10 +2,17 @@ import { useQuery } from '@tanstack/react-query';
 import { apiClient } from '@/services/api/client';
 import type { RecommendationHistory } from 'shared/types';
 import type { EnergyPlan } from 'shared/types';
+import {
+  isPlanRetired,
+  rateChangeSince,
+  type PlanRateChange,
+} from 'shared/catalog';
 
 interface SavedRecommendation {
   history: RecommendationHistory;
   plan?: EnergyPlan;
+  rateChange?: PlanRateChange; // How the plan's price moved since it was recommended
+  retired?: boolean; // The plan is no longer offered
 }
 
 /**
@@ -57,7 +64,8 @@ export function useSavedRecommendations(userId: string | undefined) {
       try {
         const profile = await apiClient.getUserProfile(userId);
         const state = profile?.state || 'CA';
-        plans = await apiClient.getEnergyPlans(state);
+        // Recommended plans may have been retired since
+        plans = await apiClient.getEnergyPlans(state, { includeRetired: true });
       } catch (error) {
         console.warn('Failed to fetch plan details:', error);
       }
@@ -66,9 +74,12 @@ export function useSavedRecommendations(userId: string | undefined) {
       const savedRecommendations: SavedRecommendation[] = mostRecentBatch.map(
         rec => {
           const plan = plans.find(p => p.planId === rec.planId);
+          const rateChange = plan && rateChangeSince(plan, rec.createdAt);
           return {
             history: rec,
             plan,
+            ...(rateChange && { rateChange }),
+            ...(plan && isPlanRetired(plan) && { retired: true }),
           };
         }
       );
@@ -0,0 +1,30 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/services/api/client';
+
+/**
+ * Learned statement formats, for admins to review and retire
+ */
+export function useStatementFormats(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['statementFormats'],
+    queryFn: () => apiClient.getStatementFormats(),
+    enabled,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (id: string) => apiClient.retireStatementFormat(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['statementFormats'] });
+    },
+  });
+
+  return {
+    formats: query.data || [],
+    isLoading: query.isLoading,
+    error: query.error,
+    retireFormat: mutation.mutate,
+    isRetiring: mutation.isPending,
+  };
+}
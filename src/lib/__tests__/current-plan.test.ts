@@ -0,0 +1,77 @@
+import { getLatestStatementPlan, prefillCurrentPlan } from '../current-plan';
+import type { CustomerUsageData } from 'shared/types';
+
+const createStatement = (
+  end: string,
+  currentPlan?: NonNullable<CustomerUsageData['billingInfo']>['currentPlan']
+): CustomerUsageData => ({
+  customerInfo: { customerId: 'user-1', address: {} },
+  utilityInfo: { utilityName: 'Oncor' },
+  usageDataPoints: [{ timestamp: end, kwh: 1000 }],
+  aggregatedStats: {
+    totalKwh: 1000,
+    totalCost: 0,
+    averageMonthlyKwh: 1000,
+    averageMonthlyCost: 0,
+    peakMonth: 'January',
+    peakMonthKwh: 1000,
+  },
+  billingInfo: currentPlan ? { currentPlan } : undefined,
+});
+
+describe('getLatestStatementPlan', () => {
+  it('should take the plan from the most recent statement that has one', () => {
+    const older = { supplierName: 'TXU Energy', ratePerKwh: 0.12 };
+    const newer = { supplierName: 'TXU Energy', ratePerKwh: 0.14 };
+
+    expect(
+      getLatestStatementPlan([
+        createStatement('2024-02-01T00:00:00.000Z', older),
+        createStatement('2024-05-01T00:00:00.000Z'),
+        createStatement('2024-04-01T00:00:00.000Z', newer),
+      ])
+    ).toBe(newer);
+    expect(
+      getLatestStatementPlan([createStatement('2024-02-01T00:00:00.000Z')])
+    ).toBeUndefined();
+  });
+});
+
+describe('prefillCurrentPlan', () => {
+  it('should fill the terms the statement shows and keep the rest', () => {
+    const form = prefillCurrentPlan(
+      {
+        supplierName: '',
+        contractStartDate: '2024-03-15',
+        earlyTerminationFee: 0,
+        contractType: 'fixed',
+        charges: { taxPercentage: 8.25 },
+      },
+      {
+        supplierName: 'TXU Energy',
+        planName: 'Simple Rate 12',
+        ratePerKwh: 0.129,
+        contractEndDate: '2025-03-14T00:00:00.000Z',
+        earlyTerminationFee: 150,
+        renewablePercentage: 23,
+        charges: { baseChargeMonthly: 9.95, deliveryChargePerKwh: 0.04 },
+      }
+    );
+
+    expect(form).toEqual({
+      supplierName: 'TXU Energy',
+      planName: 'Simple Rate 12',
+      ratePerKwh: 0.129,
+      contractStartDate: '2024-03-15',
+      contractEndDate: '2025-03-14',
+      earlyTerminationFee: 150,
+      renewablePercentage: 23,
+      contractType: 'fixed',
+      charges: {
+        baseChargeMonthly: 9.95,
+        deliveryChargePerKwh: 0.04,
+        taxPercentage: 8.25,
+      },
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { getReviewItems } from '../extraction-review';
+import type { ReviewSource } from '../extraction-review';
+
+const march = { timestamp: '2024-03-01T00:00:00.000Z', kwh: 950, cost: 109.25 };
+const april = { timestamp: '2024-04-01T00:00:00.000Z', kwh: 1020 };
+
+const source: ReviewSource = {
+  label: 'march.pdf',
+  data: {
+    customerInfo: { customerId: 'user-1', address: {} },
+    utilityInfo: { utilityName: 'Austin Energy' },
+    usageDataPoints: [march, april],
+    aggregatedStats: {
+      totalKwh: 1970,
+      totalCost: 109.25,
+      averageMonthlyKwh: 985,
+      averageMonthlyCost: 54.63,
+      peakMonth: 'April',
+      peakMonthKwh: 1020,
+    },
+    fieldConfidence: {
+      fields: {
+        'utilityInfo.utilityName': { source: 'computed', confidence: 0.3 },
+        aggregatedStats: { source: 'computed', confidence: 1 },
+      },
+      usagePoints: {
+        [march.timestamp]: { source: 'extracted', confidence: 0.4 },
+        [april.timestamp]: { source: 'extracted', confidence: 0.95 },
+      },
+    },
+  },
+};
+
+describe('getReviewItems', () => {
+  it('should list uncertain fields and usage points about to be saved', () => {
+    const items = getReviewItems([source], [march, april]);
+
+    expect(items).toEqual([
+      expect.objectContaining({
+        label: 'Utility',
+        value: 'Austin Energy',
+        source: 'computed',
+      }),
+      expect.objectContaining({
+        label: 'March 2024 usage',
+        value: '950 kWh, $109.25',
+        source: 'extracted',
+        confidence: 0.4,
+      }),
+    ]);
+  });
+
+  it('should skip usage points that are not being saved', () => {
+    const items = getReviewItems([source], [april]);
+
+    expect(items.map(item => item.label)).toEqual(['Utility']);
+  });
+});
@@ -0,0 +1,56 @@
+import type { CurrentPlan, CustomerUsageData } from 'shared/types';
+
+/**
+ * Values in the Current Plan Information form
+ */
+export type CurrentPlanForm = Partial<
+  CurrentPlan & { contractStartDate?: string }
+>;
+
+/**
+ * The current plan as read from a statement
+ */
+export type StatementPlan = NonNullable<
+  NonNullable<CustomerUsageData['billingInfo']>['currentPlan']
+>;
+
+const statementEnd = (statement: CustomerUsageData): string =>
+  statement.billingInfo?.billingPeriod?.end ||
+  statement.usageDataPoints.reduce(
+    (latest, point) => (point.timestamp > latest ? point.timestamp : latest),
+    ''
+  );
+
+/**
+ * The plan shown on the most recent statement that has one
+ */
+export function getLatestStatementPlan(
+  statements: CustomerUsageData[]
+): StatementPlan | undefined {
+  return statements
+    .filter(statement => statement.billingInfo?.currentPlan)
+    .sort((a, b) => statementEnd(b).localeCompare(statementEnd(a)))[0]
+    ?.billingInfo?.currentPlan;
+}
+
+/**
+ * Fill the form with the plan terms read from a statement
+ * Terms the statement doesn't show keep what is already entered.
+ */
+export function prefillCurrentPlan(
+  form: CurrentPlanForm,
+  plan: StatementPlan
+): CurrentPlanForm {
+  return {
+    ...form,
+    supplierName: plan.supplierName || form.supplierName,
+    planName: plan.planName || form.planName,
+    ratePerKwh: plan.ratePerKwh || form.ratePerKwh,
+    contractEndDate: plan.contractEndDate
+      ? plan.contractEndDate.slice(0, 10) // YYYY-MM-DD for the date input
+      : form.contractEndDate,
+    earlyTerminationFee: plan.earlyTerminationFee ?? form.earlyTerminationFee,
+    renewablePercentage: plan.renewablePercentage ?? form.renewablePercentage,
+    charges: plan.charges ? { ...form.charges, ...plan.charges } : form.charges,
+  };
+}
@@ -0,0 +1,152 @@
+import type { CustomerUsageData, UsageDataPoint } from 'shared/types';
+import {
+  getLowConfidenceValues,
+  LOW_CONFIDENCE_THRESHOLD,
+  type FieldSource,
+  type StatementConfidence,
+  type StatementField,
+} from 'shared/statements';
+import { formatCurrency, formatNumber } from './format';
+
+/**
+ * A statement read with the reader's field confidence
+ */
+export interface ReviewSource {
+  label: string; // file name
+  data: CustomerUsageData & { fieldConfidence?: StatementConfidence };
+}
+
+/**
+ * A value the statement reader wasn't sure of
+ */
+export interface ReviewItem {
+  id: string;
+  label: string;
+  value: string;
+  source: FieldSource;
+  confidence: number; // 0-1
+  fileName: string;
+}
+
+const fieldLabels: Partial<Record<StatementField, string>> = {
+  'customerInfo.accountNumber': 'Account number',
+  'customerInfo.customerName': 'Customer name',
+  'customerInfo.address': 'Service address',
+  'utilityInfo.utilityName': 'Utility',
+  billingPeriod: 'Billing period',
+  'billingInfo.currentPlan': 'Current plan',
+};
+
+const formatDay = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+function describeField(
+  field: StatementField,
+  data: ReviewSource['data']
+): string {
+  const customerInfo =
+    data.customerInfo as CustomerUsageData['customerInfo'] & {
+      accountNumber?: string;
+      customerName?: string;
+    };
+  const billingPeriod =
+    data.billingInfo?.billingPeriod ||
+    (data as { billingPeriod?: { start: string; end: string } }).billingPeriod;
+  const plan = data.billingInfo?.currentPlan;
+
+  switch (field) {
+    case 'customerInfo.accountNumber':
+      return customerInfo.accountNumber || '';
+    case 'customerInfo.customerName':
+      return customerInfo.customerName || '';
+    case 'customerInfo.address':
+      return Object.values(customerInfo.address || {})
+        .filter(Boolean)
+        .join(', ');
+    case 'utilityInfo.utilityName':
+      return data.utilityInfo.utilityName;
+    case 'billingPeriod':
+      return billingPeriod
+        ? `${formatDay(billingPeriod.start)} - ${formatDay(billingPeriod.end)}`
+        : '';
+    case 'billingInfo.currentPlan':
+      return plan
+        ? `${plan.supplierName} at $${plan.ratePerKwh.toFixed(3)}/kWh`
+        : '';
+    default:
+      return '';
+  }
+}
+
+function describeUsagePoint(point: UsageDataPoint): {
+  label: string;
+  value: string;
+} {
+  const isMonthly = /^\d{4}-\d{2}-01T00:00:00/.test(point.timestamp);
+  const label = isMonthly
+    ? new Date(point.timestamp).toLocaleString('en-US', {
+        month: 'long',
+        year: 'numeric',
+        timeZone: 'UTC',
+      })
+    : formatDay(point.timestamp);
+  return {
+    label: `${label} usage`,
+    value:
+      point.cost !== undefined
+        ? `${formatNumber(point.kwh)} kWh, ${formatCurrency(point.cost)}`
+        : `${formatNumber(point.kwh)} kWh`,
+  };
+}
+
+/**
+ * Values to check before saving: statement fields, and the usage points about
+ * to be saved, whose confidence is below the threshold
+ * Usage points are matched to the file they were read from.
+ */
+export function getReviewItems(
+  sources: ReviewSource[],
+  usagePoints: UsageDataPoint[],
+  threshold: number = LOW_CONFIDENCE_THRESHOLD
+): ReviewItem[] {
+  const items: ReviewItem[] = [];
+  sources.forEach(({ label: fileName, data }) => {
+    getLowConfidenceValues(data.fieldConfidence, threshold).fields.forEach(
+      ({ field, source, confidence }) => {
+        const label = fieldLabels[field];
+        const value = describeField(field, data);
+        if (label && value) {
+          items.push({
+            id: `${fileName}:${field}`,
+            label,
+            value,
+            source,
+            confidence,
+            fileName,
+          });
+        }
+      }
+    );
+  });
+
+  usagePoints.forEach(point => {
+    const source = sources.find(({ data }) =>
+      data.usageDataPoints.includes(point)
+    );
+    const score = source?.data.fieldConfidence?.usagePoints[point.timestamp];
+    if (source && score && score.confidence < threshold) {
+      items.push({
+        id: `${source.label}:${point.timestamp}`,
+        ...describeUsagePoint(point),
+        ...score,
+        fileName: source.label,
+      });
+    }
+  });
+  return items;
+}
@@ -238,6 +238,21 @@ export function Dashboard() {
                             Save ${rec.history.projectedSavings.toFixed(2)}/year
                           </p>
                         )}
+                        {rec.retired && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            No longer offered
+                          </p>
+                        )}
+                        {rec.rateChange && (
+                          <p
+                            className={`mt-1 text-xs ${rec.rateChange.change > 0 ? 'text-red-600' : 'text-green-600'}`}
+                          >
+                            Rate went{' '}
+                            {rec.rateChange.change > 0 ? 'up' : 'down'}{' '}
+                            {Math.abs(rec.rateChange.change * 100).toFixed(1)}¢
+                            since we recommended it
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,217 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePlanCatalogStatus } from '@/hooks/usePlanCatalogStatus';
+import { formatNumber } from '@/lib/format';
+import {
+  isCatalogStale,
+  CATALOG_STALE_AFTER_HOURS,
+  type PlanCatalogRunReport,
+  type PlanCatalogRunStatus,
+} from 'shared/catalog';
+
+const statusVariants: Record<
+  PlanCatalogRunStatus,
+  'default' | 'secondary' | 'destructive'
+> = {
+  succeeded: 'default',
+  partial: 'secondary',
+  failed: 'destructive',
+};
+
+const formatDateTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+function RunSources({ run }: { run: PlanCatalogRunReport }) {
+  return (
+    <ul className="space-y-1 text-xs text-muted-foreground">
+      {run.sources.map((source, index) => (
+        <li key={`${source.source}-${index}`} className="break-all">
+          {source.source}
+          {source.format && ` (${source.format})`}:{' '}
+          {source.imported ? (
+            <>
+              {formatNumber(source.plansListed)} plans
+              {source.states.length > 0 && ` in ${source.states.join(', ')}`}
+              {source.plansSkipped > 0 &&
+                `, ${formatNumber(source.plansSkipped)} skipped`}
+              {(source.plansFailed ?? 0) > 0 && (
+                <span className="text-red-600">
+                  , {formatNumber(source.plansFailed ?? 0)} not stored
+                </span>
+              )}
+            </>
+          ) : (
+            <span className="text-red-600">{source.error}</span>
+          )}
+        </li>
+      ))}
+      {run.error && <li className="text-red-600">{run.error}</li>}
+    </ul>
+  );
+}
+
+/**
+ * Plan catalog refreshes: when each state was last refreshed and what recent
+ * runs did (read-only, admins only)
+ */
+export function PlanCatalogPage() {
+  const { isAdmin } = useAuth();
+  const { states, runs, isLoading, error } = usePlanCatalogStatus(isAdmin);
+
+  if (!isAdmin) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Alert>
+          <AlertDescription>
+            You need admin access to view the plan catalog status.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto space-y-6 px-4 py-8">
+      {error && (
+        <Alert variant="destructive" className="mx-auto max-w-6xl">
+          <AlertDescription>
+            {error instanceof Error
+              ? error.message
+              : 'Failed to load plan catalog status'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="mx-auto max-w-6xl">
+        <CardHeader>
+          <CardTitle>Plan Catalog</CardTitle>
+          <CardDescription>
+            When each state&apos;s plans were last refreshed successfully. The
+            catalog refreshes daily; states not refreshed in{' '}
+            {CATALOG_STALE_AFTER_HOURS} hours are stale.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading...</p>
+          ) : states.length === 0 ? (
+            <p className="text-muted-foreground">
+              No state has been refreshed yet.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-2 text-left font-semibold">State</th>
+                    <th className="p-2 text-left font-semibold">
+                      Last refreshed
+                    </th>
+                    <th className="p-2 text-right font-semibold">Plans</th>
+                    <th className="p-2 text-left font-semibold">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {states.map(refresh => (
+                    <tr key={refresh.state} className="border-b">
+                      <td className="p-2 font-medium">{refresh.state}</td>
+                      <td className="p-2">
+                        {formatDateTime(refresh.lastRefreshedAt)}
+                      </td>
+                      <td className="p-2 text-right">
+                        {formatNumber(refresh.plansListed)}
+                      </td>
+                      <td className="p-2">
+                        {isCatalogStale(refresh) ? (
+                          <Badge variant="destructive">stale</Badge>
+                        ) : (
+                          <Badge variant="default">current</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mx-auto max-w-6xl">
+        <CardHeader>
+          <CardTitle>Recent Runs</CardTitle>
+          <CardDescription>
+            Scheduled and manual catalog updates, with the sources each one
+            tried.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-muted-foreground">No catalog runs yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-2 text-left font-semibold">Started</th>
+                    <th className="p-2 text-left font-semibold">Trigger</th>
+                    <th className="p-2 text-left font-semibold">Status</th>
+                    <th className="p-2 text-left font-semibold">States</th>
+                    <th className="p-2 text-right font-semibold">Added</th>
+                    <th className="p-2 text-right font-semibold">Changed</th>
+                    <th className="p-2 text-right font-semibold">Retired</th>
+                    <th className="p-2 text-left font-semibold">Sources</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map(run => (
+                    <tr key={run.runId} className="border-b align-top">
+                      <td className="p-2">{formatDateTime(run.startedAt)}</td>
+                      <td className="p-2">{run.trigger}</td>
+                      <td className="p-2">
+                        <Badge variant={statusVariants[run.status]}>
+                          {run.status}
+                        </Badge>
+                      </td>
+                      <td className="p-2">
+                        {run.statesUpdated.join(', ') || '-'}
+                      </td>
+                      <td className="p-2 text-right">
+                        {formatNumber(run.plansAdded)}
+                      </td>
+                      <td className="p-2 text-right">
+                        {formatNumber(run.plansChanged)}
+                      </td>
+                      <td className="p-2 text-right">
+                        {formatNumber(run.plansRetired)}
+                      </td>
+                      <td className="p-2">
+                        <RunSources run={run} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
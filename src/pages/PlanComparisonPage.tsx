@@ -15,12 +15,22 @@ import { useUsageData } from '@/hooks/useUsageData';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { apiClient } from '@/services/api/client';
 import { formatCurrency } from '@/lib/format';
+import { RiskFlagBadges } from '@/components/features/RiskFlagBadges';
+import {
+  simulateBills,
+  calculateSavingsBaselineCost,
+  toCurrentBillingPlan,
+  type BillingPlan,
+  type SimulationUsageData,
+} from 'shared/simulation';
+import { getRiskFlags } from 'shared/risk';
 import type { Recommendation, EnergyPlan } from 'shared/types';
 
 interface ComparisonPlan {
   plan: EnergyPlan;
   recommendation?: Recommendation;
   annualCost: number;
+  cost24Months: number;
   monthlyCost: number;
   annualSavings: number;
   monthlySavings: number;
@@ -31,6 +41,18 @@ interface ComparisonPlan {
   };
 }
 
+const emptyUsageData: SimulationUsageData = {
+  usageDataPoints: [],
+  aggregatedStats: {
+    totalKwh: 0,
+    totalCost: 0,
+    averageMonthlyKwh: 0,
+    averageMonthlyCost: 0,
+    peakMonth: '',
+    peakMonthKwh: 0,
+  },
+};
+
 export function PlanComparisonPage() {
   const { user } = useAuth();
   const userId = user?.userId || user?.username;
@@ -44,6 +66,9 @@ export function PlanComparisonPage() {
   const [error, setError] = useState<string | null>(null);
   const [isSelecting, setIsSelecting] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [currentBillingPlan, setCurrentBillingPlan] = useState<
+    BillingPlan | undefined
+  >();
 
   useEffect(() => {
     const loadPlans = async () => {
@@ -60,10 +85,12 @@ export function PlanComparisonPage() {
         }
 
         // Fetch plan details and recommendations
-        const [availablePlans, recommendationHistory] = await Promise.all([
-          apiClient.getEnergyPlans(profile?.state),
-          apiClient.getRecommendationHistory(userId),
-        ]);
+        const [availablePlans, recommendationHistory, currentPlan] =
+          await Promise.all([
+            apiClient.getEnergyPlans(profile?.state),
+            apiClient.getRecommendationHistory(userId),
+            apiClient.getCurrentPlan(userId),
+          ]);
         const plansMap = new Map(
           availablePlans.map(plan => [plan.planId, plan])
         );
@@ -76,23 +103,27 @@ export function PlanComparisonPage() {
           }
         }
 
-        // Calculate costs for each plan
-        const annualKwh =
-          usageData?.aggregatedStats?.totalKwh ||
-          (usageData?.aggregatedStats?.averageMonthlyKwh || 0) * 12;
-        const currentAnnualCost =
-          usageData?.aggregatedStats?.totalCost ||
-          (usageData?.aggregatedStats?.averageMonthlyCost || 0) * 12;
+        // Calculate costs for each plan with the shared bill simulation, so
+        // the table matches the recommendation engine, measuring savings
+        // against the same saved current plan
+        const simulationUsage = usageData || emptyUsageData;
+        const storedCurrentPlan = toCurrentBillingPlan(currentPlan);
+        setCurrentBillingPlan(storedCurrentPlan);
+        const currentAnnualCost = calculateSavingsBaselineCost(
+          simulationUsage,
+          storedCurrentPlan
+        );
 
         const comparisonPlans: ComparisonPlan[] = planIds
           .map(planId => {
             const plan = plansMap.get(planId);
             if (!plan) return null;
 
-            // Calculate costs
-            const energyCost = plan.ratePerKwh * annualKwh;
-            const monthlyFees = 0;
-            const annualCost = energyCost + monthlyFees;
+            const simulation = simulateBills(simulationUsage, plan, undefined, {
+              months: 24,
+            });
+            const annualCost = simulation.annualCost;
+            const cost24Months = simulation.totalCost;
             const monthlyCost = annualCost / 12;
             const annualSavings = currentAnnualCost - annualCost;
             const monthlySavings = annualSavings / 12;
@@ -108,6 +139,7 @@ export function PlanComparisonPage() {
               plan,
               ...(recommendation ? { recommendation } : {}),
               annualCost,
+              cost24Months,
               monthlyCost,
               annualSavings,
               monthlySavings,
@@ -180,9 +212,10 @@ export function PlanComparisonPage() {
     );
   }
 
-  const currentAnnualCost =
-    usageData?.aggregatedStats?.totalCost ||
-    (usageData?.aggregatedStats?.averageMonthlyCost || 0) * 12;
+  const currentAnnualCost = calculateSavingsBaselineCost(
+    usageData || emptyUsageData,
+    currentBillingPlan
+  );
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -334,6 +367,98 @@ export function PlanComparisonPage() {
                   ))}
                 </tr>
 
+                {/* Promotional Rate */}
+                <tr className="border-b">
+                  <td className="p-4 font-medium">Promotional Rate</td>
+                  <td className="p-4 text-center text-muted-foreground">N/A</td>
+                  {plans.map(comparisonPlan => {
+                    const promotions =
+                      comparisonPlan.plan.promotionalPeriods || [];
+                    return (
+                      <td
+                        key={comparisonPlan.plan.planId}
+                        className="p-4 text-center"
+                      >
+                        {promotions.length > 0
+                          ? promotions
+                              .map(
+                                promo =>
+                                  `${formatCurrency(promo.ratePerKwh)}/kWh for ${promo.durationMonths} mo`
+                              )
+                              .join(', ')
+                          : 'None'}
+                        {comparisonPlan.plan.rolloverRatePerKwh !==
+                          undefined && (
+                          <div className="text-xs text-muted-foreground">
+                            Rolls over to{' '}
+                            {formatCurrency(
+                              comparisonPlan.plan.rolloverRatePerKwh
+                            )}
+                            /kWh
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+
+                {/* Base Charge */}
+                <tr className="border-b">
+                  <td className="p-4 font-medium">Base Charge</td>
+                  <td className="p-4 text-center text-muted-foreground">N/A</td>
+                  {plans.map(comparisonPlan => (
+                    <td
+                      key={comparisonPlan.plan.planId}
+                      className="p-4 text-center"
+                    >
+                      {comparisonPlan.plan.charges?.baseChargeMonthly
+                        ? `${formatCurrency(comparisonPlan.plan.charges.baseChargeMonthly)}/mo`
+                        : 'None'}
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Delivery Charges */}
+                <tr className="border-b">
+                  <td className="p-4 font-medium">Delivery Charges</td>
+                  <td className="p-4 text-center text-muted-foreground">N/A</td>
+                  {plans.map(comparisonPlan => {
+                    const charges = comparisonPlan.plan.charges;
+                    const parts = [
+                      charges?.deliveryChargePerKwh
+                        ? `${(charges.deliveryChargePerKwh * 100).toFixed(2)}¢/kWh`
+                        : null,
+                      charges?.deliveryChargeMonthly
+                        ? `${formatCurrency(charges.deliveryChargeMonthly)}/mo`
+                        : null,
+                    ].filter(Boolean);
+                    return (
+                      <td
+                        key={comparisonPlan.plan.planId}
+                        className="p-4 text-center"
+                      >
+                        {parts.length > 0 ? parts.join(' + ') : 'Included'}
+                      </td>
+                    );
+                  })}
+                </tr>
+
+                {/* Taxes */}
+                <tr className="border-b">
+                  <td className="p-4 font-medium">Taxes &amp; Fees</td>
+                  <td className="p-4 text-center text-muted-foreground">N/A</td>
+                  {plans.map(comparisonPlan => (
+                    <td
+                      key={comparisonPlan.plan.planId}
+                      className="p-4 text-center"
+                    >
+                      {comparisonPlan.plan.charges?.taxPercentage
+                        ? `${comparisonPlan.plan.charges.taxPercentage}%`
+                        : 'N/A'}
+                    </td>
+                  ))}
+                </tr>
+
                 {/* Contract Type */}
                 <tr className="border-b">
                   <td className="p-4 font-medium">Contract Type</td>
@@ -448,7 +573,7 @@ export function PlanComparisonPage() {
 
                 {/* Annual Cost */}
                 <tr className="border-b bg-muted/50">
-                  <td className="p-4 font-semibold">Annual Cost</td>
+                  <td className="p-4 font-semibold">12-Month Cost</td>
                   <td className="p-4 text-center font-semibold">
                     {formatCurrency(currentAnnualCost)}
                   </td>
@@ -462,6 +587,22 @@ export function PlanComparisonPage() {
                   ))}
                 </tr>
 
+                {/* 24-Month Cost */}
+                <tr className="border-b bg-muted/50">
+                  <td className="p-4 font-semibold">24-Month Cost</td>
+                  <td className="p-4 text-center font-semibold">
+                    {formatCurrency(currentAnnualCost * 2)}
+                  </td>
+                  {plans.map(comparisonPlan => (
+                    <td
+                      key={comparisonPlan.plan.planId}
+                      className="p-4 text-center font-semibold"
+                    >
+                      {formatCurrency(comparisonPlan.cost24Months)}
+                    </td>
+                  ))}
+                </tr>
+
                 {/* Monthly Cost */}
                 <tr className="border-b bg-muted/50">
                   <td className="p-4 font-semibold">Monthly Cost</td>
@@ -497,6 +638,39 @@ export function PlanComparisonPage() {
                   ))}
                 </tr>
 
+                {/* Risk Flags */}
+                <tr className="border-b">
+                  <td className="p-4 font-medium">Risk Flags</td>
+                  <td className="p-4 text-center text-muted-foreground">—</td>
+                  {plans.map(comparisonPlan => {
+                    const riskFlags = getRiskFlags(comparisonPlan.plan);
+                    return (
+                      <td
+                        key={comparisonPlan.plan.planId}
+                        className="p-4 text-center"
+                      >
+                        {riskFlags.length > 0 ? (
+                          <div className="flex flex-col items-center gap-2">
+                            <RiskFlagBadges
+                              flags={riskFlags}
+                              className="justify-center"
+                            />
+                            <ul className="space-y-1 text-xs text-muted-foreground">
+                              {riskFlags.map(flag => (
+                                <li key={`${flag.code}-${flag.message}`}>
+                                  {flag.message}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : (
+                          'None'
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+
                 {/* Customer Satisfaction */}
                 <tr className="border-b">
                   <td className="p-4 font-medium">Customer Satisfaction</td>
@@ -16,9 +16,16 @@ import { useUserPreferences } from '@/hooks/useUserPreferences';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { RecommendationCard } from '@/components/features/RecommendationCard';
 import { FeedbackForm } from '@/components/features/FeedbackForm';
+import { ConfidenceSummary } from '@/components/features/ConfidenceSummary';
 import { UsageChart } from '@/components/charts/UsageChart';
+import { BillComparisonChart } from '@/components/charts/BillComparisonChart';
 import { apiClient } from '@/services/api/client';
-import type { Recommendation, EnergyPlan } from 'shared/types';
+import { formatCurrency } from '@/lib/format';
+import type {
+  Recommendation,
+  EnergyPlan,
+  RecommendationResponse,
+} from 'shared/types';
 
 export function RecommendationsPage() {
   const { user } = useAuth();
@@ -28,6 +35,13 @@ export function RecommendationsPage() {
   const { preferences, isLoading: isLoadingPrefs } = useUserPreferences(userId);
   const { profile } = useUserProfile(userId);
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+  const [stayResult, setStayResult] = useState<
+    RecommendationResponse['currentPlanBest'] | null
+  >(null);
+  const [dataQuality, setDataQuality] = useState<Pick<
+    RecommendationResponse,
+    'confidence' | 'dataQuality' | 'dataQualitySuggestions'
+  > | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [plans, setPlans] = useState<Map<string, EnergyPlan>>(new Map());
@@ -65,14 +79,24 @@ export function RecommendationsPage() {
         },
         {
           onSuccess: async data => {
-            setRecommendations(data);
+            setRecommendations(data.recommendations);
+            setStayResult(
+              data.outcome === 'stay'
+                ? data.currentPlanBest || { currentAnnualCost: 0 }
+                : null
+            );
+            setDataQuality({
+              confidence: data.confidence,
+              dataQuality: data.dataQuality,
+              dataQualitySuggestions: data.dataQualitySuggestions,
+            });
 
             // Fetch satisfaction data for each plan
             const satisfactionMap = new Map<
               string,
               { averageRating: number; reviewCount: number }
             >();
-            for (const rec of data) {
+            for (const rec of data.recommendations) {
               try {
                 const satisfaction = await apiClient.getPlanSatisfaction(
                   rec.planId
@@ -170,7 +194,60 @@ export function RecommendationsPage() {
         </div>
       )}
 
-      {recommendations.length === 0 ? (
+      {dataQuality?.confidence !== undefined && (
+        <ConfidenceSummary
+          className="mb-6"
+          confidence={dataQuality.confidence}
+          dataQuality={dataQuality.dataQuality}
+          suggestions={dataQuality.dataQualitySuggestions}
+        />
+      )}
+
+      {stayResult ? (
+        <Card className="mx-auto max-w-2xl">
+          <CardHeader>
+            <CardTitle>Your Current Plan Is Already the Best Option</CardTitle>
+            <CardDescription>
+              {stayResult.nearestAlternative &&
+              stayResult.nearestAlternative.margin <
+                (stayResult.nearestAlternative.switchingCost || 0)
+                ? 'No plan saves enough to make up for your early termination fee within its contract term'
+                : 'None of the available plans would lower your energy costs'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {stayResult.currentAnnualCost > 0 && (
+              <p className="text-sm">
+                You currently pay about{' '}
+                <span className="font-semibold">
+                  {formatCurrency(stayResult.currentAnnualCost)}
+                </span>{' '}
+                per year.
+              </p>
+            )}
+            {stayResult.nearestAlternative && (
+              <p className="text-sm text-muted-foreground">
+                The closest alternative,{' '}
+                {stayResult.nearestAlternative.supplierName}{' '}
+                {stayResult.nearestAlternative.planName}, would cost{' '}
+                <span className="font-semibold text-red-600">
+                  {formatCurrency(stayResult.nearestAlternative.margin)} more
+                </span>{' '}
+                {stayResult.nearestAlternative.switchingCost
+                  ? `in its first year, including your ${formatCurrency(stayResult.nearestAlternative.switchingCost)} early termination fee.`
+                  : 'per year.'}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              onClick={handleGenerateRecommendations}
+              disabled={isGenerating}
+            >
+              {isGenerating ? 'Checking Plans...' : 'Check Again'}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : recommendations.length === 0 ? (
         <Card className="mx-auto max-w-2xl">
           <CardHeader>
             <CardTitle>Generate Recommendations</CardTitle>
@@ -205,6 +282,15 @@ export function RecommendationsPage() {
             </Button>
           </div>
 
+          {recommendations[0]?.switchTiming === 'contract_end' && (
+            <Alert>
+              <AlertDescription>
+                Switching when your current contract ends avoids the early
+                termination fee and saves more than switching now.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="space-y-6">
             <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
               {recommendations.map(recommendation => (
@@ -247,6 +333,17 @@ export function RecommendationsPage() {
                 />
               ))}
             </div>
+            {recommendations[0]?.monthlyCosts &&
+              recommendations[0].monthlyCosts.length > 0 && (
+                <BillComparisonChart
+                  monthlyCosts={recommendations[0].monthlyCosts}
+                  seasonalCosts={recommendations[0].seasonalCosts}
+                  title={`Monthly Bills: Current vs. ${
+                    plans.get(recommendations[0].planId)?.planName ||
+                    'Top Recommendation'
+                  }`}
+                />
+              )}
             {showFeedbackFor && userId && (
               <div className="mt-6">
                 <FeedbackForm
@@ -0,0 +1,220 @@
+import { Fragment, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuth } from '@/contexts/AuthContext';
+import { useStatementFormats } from '@/hooks/useStatementFormats';
+import { formatNumber } from '@/lib/format';
+import type {
+  LearnedStatementFormat,
+  StatementFormatStatus,
+} from 'shared/statements';
+
+const statusVariants: Record<
+  StatementFormatStatus,
+  'default' | 'secondary' | 'destructive'
+> = {
+  active: 'default',
+  demoted: 'destructive',
+  retired: 'secondary',
+};
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return (
+    <div className="space-y-1">
+      <p className="font-medium">{label}</p>
+      <pre className="max-h-64 overflow-auto rounded bg-muted p-2 text-xs">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+function StatementFormatDetails({
+  format,
+}: {
+  format: LearnedStatementFormat;
+}) {
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-3">
+        <p>
+          <span className="font-medium">Fingerprint:</span>{' '}
+          {format.fingerprint || 'none (learned before fingerprints)'}
+        </p>
+        <p>
+          <span className="font-medium">Layout hash:</span>{' '}
+          {format.layoutHash || '-'}
+        </p>
+        <p>
+          <span className="font-medium">Date formats:</span>{' '}
+          {format.dateFormats?.join(', ') || '-'}
+        </p>
+      </div>
+      {format.headerSignature && (
+        <p className="break-all">
+          <span className="font-medium">Headers:</span> {format.headerSignature}
+        </p>
+      )}
+      <JsonBlock label="Column mappings" value={format.columnMappings} />
+      {format.versions.length > 0 && (
+        <div className="space-y-1">
+          <p className="font-medium">Previous versions</p>
+          <ul className="space-y-1">
+            {format.versions.map(version => (
+              <li key={version.version} className="text-muted-foreground">
+                v{version.version}: {version.status},{' '}
+                {formatNumber(version.successCount)} uses,{' '}
+                {formatNumber(version.correctionCount)} corrections, replaced{' '}
+                {formatDate(version.replacedAt)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <JsonBlock label="Example extraction" value={format.exampleExtraction} />
+    </div>
+  );
+}
+
+/**
+ * Learned statement formats, for admins to inspect and retire
+ */
+export function StatementFormatsPage() {
+  const { isAdmin } = useAuth();
+  const { formats, isLoading, error, retireFormat, isRetiring } =
+    useStatementFormats(isAdmin);
+  const [inspectedId, setInspectedId] = useState<string | null>(null);
+
+  if (!isAdmin) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Alert>
+          <AlertDescription>
+            You need admin access to manage statement formats.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Card className="mx-auto max-w-6xl">
+        <CardHeader>
+          <CardTitle>Statement Formats</CardTitle>
+          <CardDescription>
+            Layouts learned from previous statement uploads. Demoted formats
+            were corrected by users too often and are no longer used; retire a
+            format to stop it being used or learned again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertDescription>
+                {error instanceof Error
+                  ? error.message
+                  : 'Failed to load statement formats'}
+              </AlertDescription>
+            </Alert>
+          )}
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading...</p>
+          ) : formats.length === 0 ? (
+            <p className="text-muted-foreground">No formats learned yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="p-2 text-left font-semibold">Utility</th>
+                    <th className="p-2 text-left font-semibold">Type</th>
+                    <th className="p-2 text-left font-semibold">Version</th>
+                    <th className="p-2 text-left font-semibold">Status</th>
+                    <th className="p-2 text-right font-semibold">Uses</th>
+                    <th className="p-2 text-right font-semibold">
+                      Corrections
+                    </th>
+                    <th className="p-2 text-left font-semibold">Last used</th>
+                    <th className="p-2 text-right font-semibold">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {formats.map(format => (
+                    <Fragment key={format.id}>
+                      <tr className="border-b">
+                        <td className="p-2">{format.utilityName}</td>
+                        <td className="p-2 uppercase">{format.fileType}</td>
+                        <td className="p-2">v{format.version}</td>
+                        <td className="p-2">
+                          <Badge variant={statusVariants[format.status]}>
+                            {format.status}
+                          </Badge>
+                        </td>
+                        <td className="p-2 text-right">
+                          {formatNumber(format.successCount)}
+                        </td>
+                        <td className="p-2 text-right">
+                          {formatNumber(format.correctionCount)}
+                        </td>
+                        <td className="p-2">{formatDate(format.lastUsedAt)}</td>
+                        <td className="space-x-2 p-2 text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setInspectedId(
+                                inspectedId === format.id ? null : format.id
+                              )
+                            }
+                          >
+                            {inspectedId === format.id ? 'Hide' : 'Inspect'}
+                          </Button>
+                          {format.status !== 'retired' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={isRetiring}
+                              onClick={() => retireFormat(format.id)}
+                            >
+                              Retire
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                      {inspectedId === format.id && (
+                        <tr className="border-b bg-muted/40">
+                          <td colSpan={8} className="p-4">
+                            <StatementFormatDetails format={format} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
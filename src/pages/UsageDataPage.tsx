@@ -12,15 +12,31 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
+import { ExtractionReview, UsageReconciliation } from '@/components/features';
+import { getReviewItems } from '@/lib/extraction-review';
+import {
+  getLatestStatementPlan,
+  prefillCurrentPlan,
+  type CurrentPlanForm,
+  type StatementPlan,
+} from '@/lib/current-plan';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUsageData } from '@/hooks/useUsageData';
 import { useUserProfile } from '@/hooks/useUserProfile';
 import { apiClient } from '@/services/api/client';
-import type {
-  CurrentPlan,
-  UsageDataPoint,
-  CustomerUsageData,
-} from 'shared/types';
+import type { UsageDataPoint, CustomerUsageData } from 'shared/types';
+import { estimateMonthlyBill } from 'shared/simulation';
+import {
+  calculateAggregatedStats,
+  parseGreenButtonXml,
+  parsedStatementConfidence,
+  type StatementConfidence,
+} from 'shared/statements';
+import {
+  getUsageMonthKey,
+  reconcileUsageSources,
+  resolveUsageReconciliation,
+} from 'shared/usage';
 
 interface MonthData {
   month: string;
@@ -28,11 +44,22 @@ interface MonthData {
   date: Date;
   kwh: number | null;
   cost: number | null;
+  estimated: boolean; // filled from an average rather than a bill
+  format?: { formatId: string; formatVersion: number }; // learned statement format the month was read with
   isEditing: boolean;
   editedKwh: string;
   editedCost: string;
 }
 
+// A file in the upload queue and what the statement reader made of it
+interface StatementUpload {
+  id: string;
+  file: File;
+  status: 'pending' | 'processing' | 'done' | 'error';
+  data?: CustomerUsageData & { fieldConfidence?: StatementConfidence };
+  error?: string;
+}
+
 export function UsageDataPage() {
   const { user } = useAuth();
   const userId = user?.userId || user?.username;
@@ -43,12 +70,16 @@ export function UsageDataPage() {
     refetch: refetchUsageData,
   } = useUsageData(userId);
   const { saveUserProfileAsync } = useUserProfile(userId);
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
-  const [extractedData, setExtractedData] = useState<CustomerUsageData | null>(
-    null
-  );
+  const [uploads, setUploads] = useState<StatementUpload[]>([]);
+  // Month (YYYY-MM) -> source id picked in the reconciliation view
+  const [reconcileChoices, setReconcileChoices] = useState<
+    Record<string, string>
+  >({});
+  // Whether the user has checked the values the statement reader wasn't sure of
+  const [reviewedValues, setReviewedValues] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [activeTab, setActiveTab] = useState<'upload' | 'manual'>('upload');
   const [isProcessing, setIsProcessing] = useState(false);
@@ -68,9 +99,7 @@ export function UsageDataPage() {
   } | null>(null);
 
   // Current plan state
-  const [currentPlan, setCurrentPlan] = useState<
-    Partial<CurrentPlan & { contractStartDate?: string }>
-  >({
+  const [currentPlan, setCurrentPlan] = useState<CurrentPlanForm>({
     ratePerKwh: 0,
     contractStartDate: '',
     contractEndDate: '',
@@ -79,6 +108,15 @@ export function UsageDataPage() {
     planName: '',
     contractType: 'fixed',
   });
+  // Plan read from an uploaded statement, shown in the card until it is saved
+  const [statementPlanDraft, setStatementPlanDraft] =
+    useState<StatementPlan | null>(null);
+
+  // Estimated bill on the current plan when only a kWh figure is known
+  const estimateCurrentPlanBill = (kwh: number): number | null =>
+    currentPlan.ratePerKwh
+      ? estimateMonthlyBill({ ratePerKwh: currentPlan.ratePerKwh }, kwh)
+      : null;
 
   // Override mode state
   const [isOverrideMode, setIsOverrideMode] = useState(false);
@@ -150,7 +188,7 @@ export function UsageDataPage() {
         // Try to get current plan from database
         const result = await apiClient.getCurrentPlan(userId);
         if (result) {
-          setCurrentPlan({
+          const savedPlan: CurrentPlanForm = {
             supplierName: result.supplierName || '',
             planName: result.planName || '',
             contractStartDate: result.contractStartDate || '',
@@ -162,7 +200,15 @@ export function UsageDataPage() {
                 | 'variable'
                 | 'indexed'
                 | 'hybrid') || 'fixed',
-          });
+            ratePerKwh: result.ratePerKwh || 0,
+            renewablePercentage: result.renewablePercentage,
+            charges: result.charges,
+          };
+          setCurrentPlan(
+            statementPlanDraft
+              ? prefillCurrentPlan(savedPlan, statementPlanDraft)
+              : savedPlan
+          );
           return;
         }
       } catch (err) {
@@ -170,38 +216,15 @@ export function UsageDataPage() {
       }
 
       // Fallback to usage data billing info
-      if (usageData?.billingInfo?.currentPlan) {
-        const currentPlanData = usageData.billingInfo.currentPlan;
-        setCurrentPlan({
-          supplierName: currentPlanData.supplierName || '',
-          planName:
-            'planName' in currentPlanData && currentPlanData.planName
-              ? String(currentPlanData.planName)
-              : '',
-          contractEndDate:
-            'contractEndDate' in currentPlanData &&
-            currentPlanData.contractEndDate
-              ? String(currentPlanData.contractEndDate)
-              : '',
-          earlyTerminationFee:
-            'earlyTerminationFee' in currentPlanData &&
-            currentPlanData.earlyTerminationFee !== undefined
-              ? Number(currentPlanData.earlyTerminationFee)
-              : 0,
-          contractType:
-            'contractType' in currentPlanData && currentPlanData.contractType
-              ? (String(currentPlanData.contractType) as
-                  | 'fixed'
-                  | 'variable'
-                  | 'indexed'
-                  | 'hybrid')
-              : 'fixed',
-        });
+      const statementPlan =
+        statementPlanDraft || usageData?.billingInfo?.currentPlan;
+      if (statementPlan) {
+        setCurrentPlan(prev => prefillCurrentPlan(prev, statementPlan));
       }
     };
 
     loadCurrentPlan();
-  }, [usageData, userId]);
+  }, [usageData, userId, statementPlanDraft]);
 
   // Calculate past 12 months (from month before current month going back)
   const [monthlyData, setMonthlyData] = useState<MonthData[]>([]);
@@ -217,30 +240,25 @@ export function UsageDataPage() {
       const monthName = date.toLocaleString('default', { month: 'long' });
       const year = date.getFullYear();
 
-      // Find matching usage data point
-      // Extract month/year directly from ISO string to avoid timezone issues
-      let usagePoint: UsageDataPoint | null = null;
-      if (usageData?.usageDataPoints) {
-        usagePoint =
-          usageData.usageDataPoints.find((point: UsageDataPoint) => {
-            // Parse ISO string directly: YYYY-MM-DDTHH:mm:ss.sssZ
-            const match = point.timestamp.match(/^(\d{4})-(\d{2})-/);
-            if (match) {
-              const pointYear = parseInt(match[1], 10);
-              const pointMonth = parseInt(match[2], 10) - 1; // Convert to 0-indexed
-              return (
-                pointMonth === date.getMonth() &&
-                pointYear === date.getFullYear()
-              );
+      // Sum every usage point in the month, so interval readings (e.g. Green
+      // Button hourly data) roll up to one monthly total
+      const monthKey = `${year}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      const monthPoints = (usageData?.usageDataPoints || []).filter(
+        (point: UsageDataPoint) =>
+          getUsageMonthKey(point.timestamp) === monthKey
+      );
+      const usagePoint: UsageDataPoint | null =
+        monthPoints.length > 0
+          ? {
+              timestamp: monthPoints[0].timestamp,
+              kwh: monthPoints.reduce((sum, point) => sum + point.kwh, 0),
+              cost: monthPoints.some(point => point.cost !== undefined)
+                ? monthPoints.reduce((sum, point) => sum + (point.cost || 0), 0)
+                : undefined,
+              estimated: monthPoints.some(point => point.estimated),
             }
-            // Fallback to Date parsing if format is different
-            const pointDate = new Date(point.timestamp);
-            return (
-              pointDate.getMonth() === date.getMonth() &&
-              pointDate.getFullYear() === date.getFullYear()
-            );
-          }) || null;
-      }
+          : null;
+      const formatPoint = monthPoints.find(point => point.formatId);
 
       months.push({
         month: monthName,
@@ -248,6 +266,13 @@ export function UsageDataPage() {
         date,
         kwh: usagePoint?.kwh ?? null,
         cost: usagePoint?.cost ?? null,
+        estimated: usagePoint?.estimated ?? false,
+        format: formatPoint
+          ? {
+              formatId: formatPoint.formatId!,
+              formatVersion: formatPoint.formatVersion || 1,
+            }
+          : undefined,
         isEditing: false,
         editedKwh: usagePoint?.kwh?.toString() || '',
         editedCost: usagePoint?.cost?.toString() || '',
@@ -341,13 +366,13 @@ export function UsageDataPage() {
           prev.map(m => ({
             ...m,
             kwh: avgKwh,
-            cost:
-              avgCost ||
-              (currentPlan.ratePerKwh ? avgKwh * currentPlan.ratePerKwh : null),
+            cost: avgCost || estimateCurrentPlanBill(avgKwh),
+            estimated: true,
             editedKwh: avgKwh.toString(),
             editedCost: (
               avgCost ||
-              (currentPlan.ratePerKwh ? avgKwh * currentPlan.ratePerKwh : 0)
+              estimateCurrentPlanBill(avgKwh) ||
+              0
             ).toString(),
           }))
         );
@@ -359,8 +384,8 @@ export function UsageDataPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOverrideMode, currentPlan.ratePerKwh]);
 
-  const handleFileChange = (selectedFile: File) => {
-    setFile(selectedFile);
+  const handleFileChange = (selectedFiles: File[]) => {
+    setFiles(selectedFiles);
     setError(null);
   };
 
@@ -381,90 +406,143 @@ export function UsageDataPage() {
     e.stopPropagation();
     setIsDragging(false);
 
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile) {
-      handleFileChange(droppedFile);
+    const droppedFiles = Array.from(e.dataTransfer.files);
+    if (droppedFiles.length > 0) {
+      handleFileChange(droppedFiles);
     }
   }, []);
 
-  const processFile = async (
+  // Read one statement file; errors carry a message to show for that file
+  const readUsageFile = async (
     fileToProcess: File,
-    _overrideDuplicates: boolean = false
-  ) => {
-    if (!fileToProcess || !userId) {
-      const errorMsg = !fileToProcess
-        ? 'Please select a file'
-        : 'Please ensure you are logged in';
+    readerUserId: string
+  ): Promise<NonNullable<StatementUpload['data']>> => {
+    // Check file type
+    const isCSV =
+      fileToProcess.type === 'text/csv' || fileToProcess.name.endsWith('.csv');
+    const isPDF =
+      fileToProcess.type === 'application/pdf' ||
+      fileToProcess.name.endsWith('.pdf');
+    const isImage =
+      fileToProcess.type.startsWith('image/') ||
+      /\.(png|jpg|jpeg)$/i.test(fileToProcess.name);
+    const isText =
+      fileToProcess.type === 'text/plain' ||
+      fileToProcess.name.endsWith('.txt');
+    const isXML =
+      fileToProcess.type === 'application/xml' ||
+      fileToProcess.type === 'text/xml' ||
+      fileToProcess.name.toLowerCase().endsWith('.xml');
+
+    if (isXML) {
+      // Green Button (ESPI) files are parsed in the browser, no AI needed
+      const parsed = parseGreenButtonXml(await fileToProcess.text());
+      if (!parsed) {
+        throw new Error(
+          'This XML file does not contain Green Button usage readings. Please upload a Green Button download from your utility.'
+        );
+      }
+      return {
+        customerInfo: { ...parsed.customerInfo, customerId: readerUserId },
+        utilityInfo: parsed.utilityInfo,
+        usageDataPoints: parsed.usageDataPoints,
+        aggregatedStats: parsed.aggregatedStats,
+        billingInfo: { billingPeriod: parsed.billingPeriod },
+        fieldConfidence: parsedStatementConfidence(parsed),
+      };
+    }
+
+    if (!(isPDF || isImage || isText || isCSV)) {
+      throw new Error(
+        'Unsupported file type. Please upload PDF, image, CSV, Green Button XML, or text file.'
+      );
+    }
+
+    try {
+      return await apiClient.readStatement(readerUserId, fileToProcess);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to read statement';
+
+      // Check if it's a 500 error from the Lambda function
+      if (
+        errorMessage.includes('500') ||
+        errorMessage.includes('Internal Server Error')
+      ) {
+        throw new Error(
+          'The AI service is temporarily unavailable. Please try again in a few moments, ' +
+            'or enter your usage data manually using the "Manual Entry" tab.'
+        );
+      }
+      throw new Error(
+        `Failed to read statement: ${errorMessage}. Please try again or enter data manually.`
+      );
+    }
+  };
+
+  const updateUpload = (id: string, changes: Partial<StatementUpload>) =>
+    setUploads(prev =>
+      prev.map(upload =>
+        upload.id === id ? { ...upload, ...changes } : upload
+      )
+    );
+
+  const processFiles = async (filesToProcess: File[]) => {
+    if (filesToProcess.length === 0 || !userId) {
+      const errorMsg =
+        filesToProcess.length === 0
+          ? 'Please select a file'
+          : 'Please ensure you are logged in';
       setError(errorMsg);
-      console.warn('[UsageDataPage] processFile validation failed:', {
-        hasFile: !!fileToProcess,
+      console.warn('[UsageDataPage] processFiles validation failed:', {
+        fileCount: filesToProcess.length,
         hasUserId: !!userId,
       });
       return;
     }
 
-    try {
-      setError(null);
-      setSuccess(false);
-      setIsProcessing(true);
-
-      // Check file type
-      const isCSV =
-        fileToProcess.type === 'text/csv' ||
-        fileToProcess.name.endsWith('.csv');
-      const isPDF =
-        fileToProcess.type === 'application/pdf' ||
-        fileToProcess.name.endsWith('.pdf');
-      const isImage =
-        fileToProcess.type.startsWith('image/') ||
-        /\.(png|jpg|jpeg)$/i.test(fileToProcess.name);
-      const isText =
-        fileToProcess.type === 'text/plain' ||
-        fileToProcess.name.endsWith('.txt');
-
-      if (isPDF || isImage || isText || isCSV) {
-        let usageData: CustomerUsageData;
-
-        try {
-          usageData = await apiClient.readStatement(userId, fileToProcess);
-        } catch (err) {
-          const errorMessage =
-            err instanceof Error ? err.message : 'Failed to read statement';
-
-          // Check if it's a 500 error from the Lambda function
-          if (
-            errorMessage.includes('500') ||
-            errorMessage.includes('Internal Server Error')
-          ) {
-            setError(
-              'The AI service is temporarily unavailable. Please try again in a few moments, ' +
-                'or enter your usage data manually using the "Manual Entry" tab.'
-            );
-          } else {
-            setError(
-              `Failed to read statement: ${errorMessage}. Please try again or enter data manually.`
-            );
-          }
-          return; // Don't proceed with upload if reading failed
-        }
+    setError(null);
+    setSuccess(false);
+    setReconcileChoices({});
+    setReviewedValues(false);
+    setIsProcessing(true);
+
+    const queue: StatementUpload[] = filesToProcess.map(
+      (queuedFile, index) => ({
+        id: `${index}-${queuedFile.name}`,
+        file: queuedFile,
+        status: 'pending',
+      })
+    );
+    setUploads(queue);
 
-        setExtractedData(usageData);
-        setSuccess(false);
-        setIsProcessing(false);
-      } else {
-        setError(
-          'Unsupported file type. Please upload PDF, image, CSV, or text file.'
-        );
-        setIsProcessing(false); // Stop processing indicator
+    // One file at a time, so a year of bills doesn't flood the statement reader
+    let failed = 0;
+    let lastError = 'Failed to process file';
+    for (const upload of queue) {
+      updateUpload(upload.id, { status: 'processing' });
+      try {
+        const data = await readUsageFile(upload.file, userId);
+        updateUpload(upload.id, { status: 'done', data });
+      } catch (err) {
+        failed++;
+        lastError = err instanceof Error ? err.message : lastError;
+        updateUpload(upload.id, { status: 'error', error: lastError });
       }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to process file');
-      setIsProcessing(false); // Stop processing indicator on error
     }
+
+    if (failed === queue.length) {
+      setError(
+        queue.length === 1
+          ? lastError
+          : 'None of the files could be read. Please check the files or enter data manually.'
+      );
+    }
+    setIsProcessing(false);
   };
 
   const handleFileUpload = async () => {
-    if (!file) {
+    if (files.length === 0) {
       setError('Please select a file first');
       console.warn('[UsageDataPage] No file selected');
       return;
@@ -482,7 +560,7 @@ export function UsageDataPage() {
     }
 
     try {
-      await processFile(file);
+      await processFiles(files);
     } catch (err) {
       console.error('[UsageDataPage] Error in handleFileUpload:', err);
       setError(
@@ -493,74 +571,100 @@ export function UsageDataPage() {
     }
   };
 
-  const handleSaveExtractedData = async (
-    overrideDuplicates: boolean = false
-  ) => {
+  const readUploads = useMemo(
+    () => uploads.filter(upload => upload.status === 'done' && upload.data),
+    [uploads]
+  );
+
+  // Compare the files with each other and the saved data, month by month
+  const reconciliation = useMemo(
+    () =>
+      isProcessing || readUploads.length === 0
+        ? null
+        : reconcileUsageSources(
+            usageData?.usageDataPoints || [],
+            readUploads.map(upload => ({
+              id: upload.id,
+              label: upload.file.name,
+              usageDataPoints: upload.data!.usageDataPoints,
+            }))
+          ),
+    [isProcessing, readUploads, usageData]
+  );
+
+  // What will be saved, with each month taken from the source picked for it
+  const extractedData = useMemo<CustomerUsageData | null>(() => {
+    if (!reconciliation) {
+      return null;
+    }
+    const first = readUploads[0].data!;
+    const usageDataPoints = resolveUsageReconciliation(
+      reconciliation,
+      reconcileChoices
+    );
+    return {
+      customerInfo: first.customerInfo,
+      utilityInfo: first.utilityInfo,
+      usageDataPoints,
+      aggregatedStats: calculateAggregatedStats(usageDataPoints),
+      // A single bill keeps its billing period for the preview
+      billingInfo: readUploads.length === 1 ? first.billingInfo : undefined,
+    };
+  }, [reconciliation, readUploads, reconcileChoices]);
+
+  // Plan terms from the newest uploaded statement, used to fill in the Current Plan card
+  const statementPlan = useMemo(
+    () =>
+      isProcessing
+        ? undefined
+        : getLatestStatementPlan(readUploads.map(upload => upload.data!)),
+    [isProcessing, readUploads]
+  );
+
+  useEffect(() => {
+    if (statementPlan) {
+      setStatementPlanDraft(statementPlan);
+    }
+  }, [statementPlan]);
+
+  // Values the statement reader wasn't sure of, checked by the user before saving
+  const reviewItems = useMemo(
+    () =>
+      extractedData
+        ? getReviewItems(
+            readUploads.map(upload => ({
+              label: upload.file.name,
+              data: upload.data!,
+            })),
+            extractedData.usageDataPoints
+          )
+        : [],
+    [extractedData, readUploads]
+  );
+  const clearUploads = () => {
+    setUploads([]);
+    setReconcileChoices({});
+    setReviewedValues(false);
+    setFiles([]);
+  };
+
+  const handleSaveExtractedData = async () => {
     if (!extractedData || !userId) {
       setError('No data to save. Please process a bill first.');
       return;
     }
 
-    // Check for duplicates if not overriding
-    // Extract month/year directly from ISO string to avoid timezone issues
-    const getMonthYearFromTimestamp = (
-      timestamp: string
-    ): { month: string; year: number } | null => {
-      const match = timestamp.match(/^(\d{4})-(\d{2})-/);
-      if (match) {
-        const year = parseInt(match[1], 10);
-        const monthNum = parseInt(match[2], 10) - 1; // 0-indexed
-        const monthNames = [
-          'January',
-          'February',
-          'March',
-          'April',
-          'May',
-          'June',
-          'July',
-          'August',
-          'September',
-          'October',
-          'November',
-          'December',
-        ];
-        return { month: monthNames[monthNum], year };
-      }
-      // Fallback to Date parsing
-      const pointDate = new Date(timestamp);
-      return {
-        month: pointDate.toLocaleString('default', { month: 'long' }),
-        year: pointDate.getFullYear(),
-      };
-    };
-
-    if (!overrideDuplicates) {
-      const duplicates: Array<{ month: string; year: number }> = [];
-      extractedData.usageDataPoints.forEach(point => {
-        const monthYear = getMonthYearFromTimestamp(point.timestamp);
-        if (monthYear && hasExistingData(monthYear.month, monthYear.year)) {
-          duplicates.push(monthYear);
-        }
-      });
+    if (reviewItems.length > 0 && !reviewedValues) {
+      setError('Please check the highlighted values before saving.');
+      return;
+    }
 
-      if (duplicates.length > 0) {
-        const duplicateMonths = duplicates
-          .map(d => `${d.month} ${d.year}`)
-          .join(', ');
-        const shouldOverride = window.confirm(
-          `Data already exists for the following months: ${duplicateMonths}\n\n` +
-            `Do you want to override the existing data for these months?`
-        );
-        if (!shouldOverride) {
-          setError('Save cancelled. Existing data was not overwritten.');
-          return;
-        }
-        // User confirmed, proceed with override
-        return handleSaveExtractedData(true);
-      }
+    if (extractedData.usageDataPoints.length === 0) {
+      setError('Nothing to save. Every month keeps your saved data.');
+      return;
     }
 
-    // Save the extracted data
+    // Save the reconciled data
     uploadUsageData(
       {
         userId,
@@ -581,7 +685,7 @@ export function UsageDataPage() {
           // Keep extracted data visible for a moment so user can see it was saved
           // Don't clear immediately - let user see the success
           setTimeout(() => {
-            setExtractedData(null);
+            clearUploads();
             setSuccess(false);
           }, 2000);
           // Don't redirect - let user stay on the page
@@ -721,6 +825,7 @@ export function UsageDataPage() {
             timestamp: d.toISOString(),
             kwh: m.kwh!,
             cost: m.cost || undefined,
+            estimated: m.estimated || undefined,
           };
         });
 
@@ -735,6 +840,7 @@ export function UsageDataPage() {
                 ...m,
                 kwh,
                 cost: cost || null,
+                estimated: false,
                 editedKwh: kwh.toString(),
                 editedCost: cost ? cost.toString() : '',
               }
@@ -852,7 +958,11 @@ export function UsageDataPage() {
         contractEndDate: currentPlan.contractEndDate,
         earlyTerminationFee: currentPlan.earlyTerminationFee,
         contractType: currentPlan.contractType,
+        ratePerKwh: currentPlan.ratePerKwh,
+        renewablePercentage: currentPlan.renewablePercentage,
+        charges: currentPlan.charges,
       });
+      setStatementPlanDraft(null);
 
       setSuccess(true);
       setTimeout(() => {
@@ -895,16 +1005,34 @@ export function UsageDataPage() {
 
     // Save previous state for potential rollback
     const previousData = [...monthlyData];
+    const editedMonth = monthlyData[index];
+    const editedKwh = parseFloat(editedMonth.editedKwh) || null;
+    const editedCost = parseFloat(editedMonth.editedCost) || null;
+
+    // Usage read with a learned statement format was wrong - let the format learn from it
+    if (
+      editedMonth.format &&
+      (editedKwh !== editedMonth.kwh || editedCost !== editedMonth.cost)
+    ) {
+      apiClient
+        .reportStatementFormatCorrection({
+          ...editedMonth.format,
+          month: `${editedMonth.year}-${String(getMonthIndex(editedMonth.month) + 1).padStart(2, '0')}`,
+        })
+        .catch(err => {
+          console.warn('Could not report statement format correction:', err);
+        });
+    }
 
     // Update local state first
     const updatedData = monthlyData.map((m, i) => {
       if (i === index) {
-        const kwh = parseFloat(m.editedKwh) || null;
-        const cost = parseFloat(m.editedCost) || null;
         return {
           ...m,
-          kwh,
-          cost,
+          kwh: editedKwh,
+          cost: editedCost,
+          estimated: false,
+          format: undefined, // typed in by the user now
           isEditing: false,
         };
       }
@@ -924,6 +1052,9 @@ export function UsageDataPage() {
             timestamp: date.toISOString(),
             kwh: m.kwh!,
             cost: m.cost || undefined,
+            estimated: m.estimated || undefined,
+            formatId: m.format?.formatId,
+            formatVersion: m.format?.formatVersion,
           };
         });
 
@@ -1030,13 +1161,13 @@ export function UsageDataPage() {
         prev.map(m => ({
           ...m,
           kwh: avgKwh,
-          cost:
-            avgCost ||
-            (currentPlan.ratePerKwh ? avgKwh * currentPlan.ratePerKwh : null),
+          cost: avgCost || estimateCurrentPlanBill(avgKwh),
+          estimated: true,
           editedKwh: avgKwh.toString(),
           editedCost: (
             avgCost ||
-            (currentPlan.ratePerKwh ? avgKwh * currentPlan.ratePerKwh : 0)
+            estimateCurrentPlanBill(avgKwh) ||
+            0
           ).toString(),
         }))
       );
@@ -1050,6 +1181,7 @@ export function UsageDataPage() {
           timestamp: date.toISOString(),
           kwh: avgKwh,
           cost: avgCost || undefined,
+          estimated: true,
         });
       }
 
@@ -1109,6 +1241,14 @@ export function UsageDataPage() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {statementPlanDraft && (
+            <Alert>
+              <AlertDescription>
+                Filled in from your statement. Check the details and save them
+                as your current plan.
+              </AlertDescription>
+            </Alert>
+          )}
           <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
             <div className="space-y-2">
               <Label htmlFor="supplierName">Supplier Name</Label>
@@ -1125,6 +1265,21 @@ export function UsageDataPage() {
                 }
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="planName">Plan Name</Label>
+              <Input
+                id="planName"
+                type="text"
+                placeholder="e.g., Simple Rate 12"
+                value={currentPlan.planName || ''}
+                onChange={e =>
+                  setCurrentPlan({
+                    ...currentPlan,
+                    planName: e.target.value,
+                  })
+                }
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="contractStartDate">Contract Start Date</Label>
               <Input
@@ -1172,6 +1327,108 @@ export function UsageDataPage() {
                 }
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="ratePerKwh">Energy Rate ($/kWh)</Label>
+              <Input
+                id="ratePerKwh"
+                type="number"
+                step="0.001"
+                min="0"
+                placeholder="0.000"
+                value={currentPlan.ratePerKwh || ''}
+                onChange={e =>
+                  setCurrentPlan({
+                    ...currentPlan,
+                    ratePerKwh: parseFloat(e.target.value) || 0,
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="renewablePercentage">Renewable Content (%)</Label>
+              <Input
+                id="renewablePercentage"
+                type="number"
+                step="1"
+                min="0"
+                placeholder="0"
+                value={currentPlan.renewablePercentage || ''}
+                onChange={e =>
+                  setCurrentPlan({
+                    ...currentPlan,
+                    renewablePercentage:
+                      parseFloat(e.target.value) || undefined,
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="baseChargeMonthly">Base Charge ($/month)</Label>
+              <Input
+                id="baseChargeMonthly"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0"
+                value={currentPlan.charges?.baseChargeMonthly || ''}
+                onChange={e =>
+                  setCurrentPlan({
+                    ...currentPlan,
+                    charges: {
+                      ...currentPlan.charges,
+                      baseChargeMonthly:
+                        parseFloat(e.target.value) || undefined,
+                    },
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deliveryChargePerKwh">
+                TDU Delivery Charge ($/kWh)
+              </Label>
+              <Input
+                id="deliveryChargePerKwh"
+                type="number"
+                step="0.0001"
+                min="0"
+                placeholder="0.0000"
+                value={currentPlan.charges?.deliveryChargePerKwh || ''}
+                onChange={e =>
+                  setCurrentPlan({
+                    ...currentPlan,
+                    charges: {
+                      ...currentPlan.charges,
+                      deliveryChargePerKwh:
+                        parseFloat(e.target.value) || undefined,
+                    },
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deliveryChargeMonthly">
+                TDU Fixed Charge ($/month)
+              </Label>
+              <Input
+                id="deliveryChargeMonthly"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0"
+                value={currentPlan.charges?.deliveryChargeMonthly || ''}
+                onChange={e =>
+                  setCurrentPlan({
+                    ...currentPlan,
+                    charges: {
+                      ...currentPlan.charges,
+                      deliveryChargeMonthly:
+                        parseFloat(e.target.value) || undefined,
+                    },
+                  })
+                }
+              />
+            </div>
           </div>
           <Button
             onClick={handleSaveCurrentPlan}
@@ -1482,7 +1739,9 @@ export function UsageDataPage() {
                   <div className="h-5 w-5 animate-spin rounded-full border-2 border-blue-600 border-t-transparent"></div>
                   <div>
                     <p className="font-semibold text-blue-900 dark:text-blue-100">
-                      Processing your bill with AI...
+                      {uploads.length > 1
+                        ? `Processing bill ${uploads.findIndex(upload => upload.status === 'processing') + 1} of ${uploads.length}...`
+                        : 'Processing your bill with AI...'}
                     </p>
                     <p className="text-sm text-blue-700 dark:text-blue-300">
                       This may take a few moments. Please wait.
@@ -1492,6 +1751,33 @@ export function UsageDataPage() {
               </Alert>
             )}
 
+            {/* Show how each file in a batch upload was read */}
+            {uploads.length > 1 && !success && (
+              <div className="mt-4 space-y-1 rounded-md border p-3 text-sm">
+                {uploads.map(upload => (
+                  <div
+                    key={upload.id}
+                    className="flex items-center justify-between gap-3"
+                  >
+                    <span className="truncate">{upload.file.name}</span>
+                    <span
+                      className={
+                        upload.status === 'error'
+                          ? 'text-destructive'
+                          : 'text-muted-foreground'
+                      }
+                    >
+                      {upload.status === 'pending' && 'Waiting'}
+                      {upload.status === 'processing' && 'Reading...'}
+                      {upload.status === 'done' &&
+                        `${upload.data?.usageDataPoints.length || 0} usage points`}
+                      {upload.status === 'error' && upload.error}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Show extracted data preview before saving */}
             {extractedData &&
               !success &&
@@ -1643,9 +1929,32 @@ export function UsageDataPage() {
                     <AlertDescription className="space-y-4">
                       <div>
                         <p className="mb-2 font-semibold text-blue-900 dark:text-blue-100">
-                          ✓ Bill processed successfully! Review the extracted
-                          data below:
+                          ✓{' '}
+                          {readUploads.length > 1
+                            ? `${readUploads.length} bills processed successfully!`
+                            : 'Bill processed successfully!'}{' '}
+                          Review the extracted data below:
                         </p>
+                        {reconciliation && (
+                          <UsageReconciliation
+                            reconciliation={reconciliation}
+                            choices={reconcileChoices}
+                            onChoiceChange={(month, sourceId) =>
+                              setReconcileChoices(prev => ({
+                                ...prev,
+                                [month]: sourceId,
+                              }))
+                            }
+                            disabled={isUploading}
+                          />
+                        )}
+                        <ExtractionReview
+                          items={reviewItems}
+                          reviewed={reviewedValues}
+                          onReviewedChange={setReviewedValues}
+                          showFileNames={readUploads.length > 1}
+                          disabled={isUploading}
+                        />
                         <div className="mt-3 rounded-md bg-white p-3 text-sm dark:bg-gray-900">
                           <p className="mb-3 font-medium">
                             Extracted Data Summary:
@@ -1680,18 +1989,18 @@ export function UsageDataPage() {
                       </div>
                       <div className="flex gap-2">
                         <Button
-                          onClick={() => handleSaveExtractedData(false)}
-                          disabled={isUploading}
+                          onClick={() => handleSaveExtractedData()}
+                          disabled={
+                            isUploading ||
+                            (reviewItems.length > 0 && !reviewedValues)
+                          }
                           className="flex-1"
                         >
                           {isUploading ? 'Saving...' : 'Save Data'}
                         </Button>
                         <Button
                           variant="outline"
-                          onClick={() => {
-                            setExtractedData(null);
-                            setFile(null);
-                          }}
+                          onClick={clearUploads}
                           disabled={isUploading}
                         >
                           Cancel
@@ -1764,8 +2073,8 @@ export function UsageDataPage() {
                 </div>
                 <p className="mb-2 text-lg font-medium">
                   {isDragging
-                    ? 'Drop your file here'
-                    : 'Drag and drop your energy bill here'}
+                    ? 'Drop your files here'
+                    : 'Drag and drop your energy bills here'}
                 </p>
                 <p className="mb-4 text-sm text-muted-foreground">
                   or click to browse files
@@ -1774,11 +2083,12 @@ export function UsageDataPage() {
                   <Input
                     id="file"
                     type="file"
-                    accept=".csv,.pdf,.png,.jpg,.jpeg,.txt"
+                    accept=".csv,.pdf,.png,.jpg,.jpeg,.txt,.xml"
+                    multiple
                     onChange={e => {
-                      const selectedFile = e.target.files?.[0];
-                      if (selectedFile) {
-                        handleFileChange(selectedFile);
+                      const selectedFiles = Array.from(e.target.files || []);
+                      if (selectedFiles.length > 0) {
+                        handleFileChange(selectedFiles);
                       }
                     }}
                     disabled={isUploading}
@@ -1792,32 +2102,41 @@ export function UsageDataPage() {
                   >
                     Browse Files
                   </Button>
-                  {file && (
-                    <div className="mt-4 w-full max-w-md rounded-md border border-green-200 bg-green-50 p-3 dark:border-green-800 dark:bg-green-950">
-                      <p className="text-sm font-medium text-green-800 dark:text-green-200">
-                        ✓ Selected: {file.name}
-                      </p>
-                      <p className="text-xs text-green-600 dark:text-green-400">
-                        Size: {(file.size / 1024).toFixed(2)} KB
-                      </p>
+                  {files.length > 0 && (
+                    <div className="mt-4 w-full max-w-md space-y-1 rounded-md border border-green-200 bg-green-50 p-3 dark:border-green-800 dark:bg-green-950">
+                      {files.map(selectedFile => (
+                        <div key={selectedFile.name}>
+                          <p className="text-sm font-medium text-green-800 dark:text-green-200">
+                            ✓ Selected: {selectedFile.name}
+                          </p>
+                          <p className="text-xs text-green-600 dark:text-green-400">
+                            Size: {(selectedFile.size / 1024).toFixed(2)} KB
+                          </p>
+                        </div>
+                      ))}
                     </div>
                   )}
                 </div>
                 <p className="mt-4 text-xs text-muted-foreground">
-                  Supported formats: PDF, PNG, JPG, CSV, TXT
+                  Supported formats: PDF, PNG, JPG, CSV, TXT, Green Button XML.
+                  Select several files to upload a year of bills at once.
                 </p>
               </div>
 
               <Button
                 onClick={handleFileUpload}
-                disabled={!file || isUploading || isProcessing || success}
+                disabled={
+                  files.length === 0 || isUploading || isProcessing || success
+                }
                 className="w-full"
               >
                 {isProcessing
                   ? 'Processing with AI...'
                   : isUploading
                     ? 'Saving...'
-                    : 'Process Bill with AI'}
+                    : files.length > 1
+                      ? `Process ${files.length} Bills with AI`
+                      : 'Process Bill with AI'}
               </Button>
             </TabsContent>
 
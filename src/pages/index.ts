@@ -5,3 +5,5 @@ export { UploadPage } from './UploadPage'; // Keep for backwards compatibility
 export { PreferencesPage } from './PreferencesPage';
 export { RecommendationsPage } from './RecommendationsPage';
 export { PlanComparisonPage } from './PlanComparisonPage';
+export { StatementFormatsPage } from './StatementFormatsPage';
+export { PlanCatalogPage } from './PlanCatalogPage';
@@ -44,6 +44,7 @@ import type {
   EnergyPlan,
   CustomerUsageData,
   Recommendation,
+  RecommendationResponse,
   UserPreferences,
   UsageData,
 } from 'shared/types';
@@ -80,6 +81,37 @@ describe('ApiClient', () => {
       expect(mockApi.getEnergyPlans).toHaveBeenCalledWith('TX');
     });
 
+    it('should leave out retired plans unless asked for them', async () => {
+      const mockPlans: EnergyPlan[] = [
+        {
+          planId: 'plan-1',
+          supplierName: 'Green Energy Co.',
+          planName: 'Green Power Plan',
+          ratePerKwh: 0.12,
+          contractType: 'fixed',
+          state: 'TX',
+        },
+        {
+          planId: 'plan-2',
+          supplierName: 'Green Energy Co.',
+          planName: 'Retired Plan',
+          ratePerKwh: 0.11,
+          contractType: 'fixed',
+          state: 'TX',
+          availableUntil: '2024-01-01T00:00:00Z',
+        },
+      ];
+      (mockApi.getEnergyPlans as jest.Mock).mockResolvedValue(mockPlans);
+
+      const plans = await apiClient.getEnergyPlans('TX');
+      const allPlans = await apiClient.getEnergyPlans('TX', {
+        includeRetired: true,
+      });
+
+      expect(plans.map(plan => plan.planId)).toEqual(['plan-1']);
+      expect(allPlans).toEqual(mockPlans);
+    });
+
     it('should default to CA when no state is provided in mock mode', async () => {
       const mockPlans: EnergyPlan[] = [];
       (mockApi.getEnergyPlans as jest.Mock).mockResolvedValue(mockPlans);
@@ -131,16 +163,23 @@ describe('ApiClient', () => {
         },
       ];
 
+      const mockResponse: RecommendationResponse = {
+        outcome: 'switch',
+        recommendations: mockRecommendations,
+        projectedSavings: 500,
+        explanation: 'Great plan',
+      };
+
       (mockApi.generateRecommendations as jest.Mock).mockResolvedValue(
-        mockRecommendations
+        mockResponse
       );
 
-      const recommendations = await apiClient.generateRecommendations(
+      const response = await apiClient.generateRecommendations(
         'user-123',
         mockUsageData
       );
 
-      expect(recommendations).toEqual(mockRecommendations);
+      expect(response).toEqual(mockResponse);
       expect(mockApi.generateRecommendations).toHaveBeenCalledWith(
         'user-123',
         mockUsageData
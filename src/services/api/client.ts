@@ -16,11 +16,45 @@ import type {
   UserPreferences,
   UsagePattern,
   UsageDataPoint,
+  IntervalUsageBlock,
+  TimeOfUsePeriod,
+  RateTier,
+  BillCredit,
+  PlanCharges,
+  PromotionalPeriod,
+  PlanAveragePrices,
+  PlanRateVersion,
+  SwitchTiming,
+  RiskFlag,
+  MonthlyCostProjection,
+  SeasonalCostProjection,
+  RecommendationResponse,
+  RecommendationOutcome,
   CreateUserPreferencesRequest,
   CreateUsagePatternRequest,
   CreateRecommendationHistoryRequest,
   CreateFeedbackRequest,
 } from 'shared/types';
+import {
+  planUsageSave,
+  fromIntervalBlocks,
+  getReplacedIntervalMonths,
+  type UsageSavePlan,
+} from 'shared/usage';
+import {
+  isPlanAvailable,
+  type PlanCatalogRunReport,
+  type PlanCatalogRunStatus,
+  type PlanCatalogSourceReport,
+  type PlanCatalogStateRefresh,
+  type PlanCatalogTrigger,
+} from 'shared/catalog';
+import type {
+  LearnedStatementFormat,
+  StatementConfidence,
+  StatementFormatStatus,
+  StatementFormatVersion,
+} from 'shared/statements';
 
 /**
  * Check if we should use mock data
@@ -64,14 +98,172 @@ const getDataClient = () => {
   return dataClient;
 };
 
+/**
+ * Parse an AWSJSON model field
+ * AWSJSON values come back as JSON strings, but may already be objects
+ */
+const parseJsonField = <T>(value: unknown): T | undefined => {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value) as T;
+    } catch (e) {
+      console.error('[parseJsonField] Failed to parse JSON field:', e);
+      return undefined;
+    }
+  }
+  return value as T;
+};
+
+// Catalog run reports shown on the plan catalog page
+const PLAN_CATALOG_RUNS_SHOWN = 20;
+
+/**
+ * Copy a usage point into a plain object for an AWSJSON field
+ * Only fields that are set are kept
+ */
+const toPlainUsagePoint = (point: UsageDataPoint): Record<string, unknown> => {
+  const plainPoint: Record<string, unknown> = {
+    timestamp: point.timestamp,
+    kwh: point.kwh,
+  };
+  if (point.cost !== undefined && point.cost !== null) {
+    plainPoint.cost = point.cost;
+  }
+  if (point.periodStart && point.periodEnd) {
+    plainPoint.periodStart = point.periodStart;
+    plainPoint.periodEnd = point.periodEnd;
+  }
+  if (point.estimated) {
+    plainPoint.estimated = true;
+  }
+  if (point.formatId) {
+    plainPoint.formatId = point.formatId;
+    plainPoint.formatVersion = point.formatVersion;
+  }
+  return plainPoint;
+};
+
+/**
+ * Read every page of a list query
+ */
+const listAllPages = async <T>(
+  listPage: (
+    nextToken?: string | null
+  ) => Promise<{ data: T[] | null; nextToken?: string | null }>
+): Promise<T[]> => {
+  const items: T[] = [];
+  let nextToken: string | null | undefined;
+  do {
+    const page = await listPage(nextToken);
+    items.push(...(page.data || []));
+    nextToken = page.nextToken;
+  } while (nextToken);
+  return items;
+};
+
+/**
+ * A user's stored interval blocks, optionally only for some months
+ */
+const listIntervalBlocks = async (userId: string, months?: string[]) =>
+  months && months.length === 0
+    ? []
+    : listAllPages(nextToken =>
+        getDataClient().models.UsageIntervalBlock.list({
+          filter: {
+            userId: { eq: userId },
+            ...(months && {
+              or: months.map(month => ({ month: { eq: month } })),
+            }),
+          },
+          nextToken,
+        })
+      );
+
+type StoredIntervalBlock = Awaited<
+  ReturnType<typeof listIntervalBlocks>
+>[number];
+
+const toIntervalUsageBlock = (
+  block: StoredIntervalBlock
+): IntervalUsageBlock => ({
+  month: block.month,
+  start: block.start,
+  intervalMinutes: block.intervalMinutes,
+  kwh: parseJsonField<(number | null)[]>(block.kwh) || [],
+  cost: parseJsonField<(number | null)[]>(block.cost),
+  offsets: parseJsonField<IntervalUsageBlock['offsets']>(block.offsets),
+  estimated: parseJsonField<number[]>(block.estimated),
+  formats: parseJsonField<IntervalUsageBlock['formats']>(block.formats),
+});
+
+/**
+ * Replace the stored interval blocks for the months a save rebuilds
+ * `storedBlocks` are the blocks loaded for those months before the save
+ */
+const saveIntervalBlocks = async (
+  userId: string,
+  storedBlocks: StoredIntervalBlock[],
+  savePlan: UsageSavePlan,
+  now: string
+): Promise<void> => {
+  const models = getDataClient().models;
+  await Promise.all(
+    storedBlocks
+      .filter(block => savePlan.replacedMonths.includes(block.month))
+      .map(block => models.UsageIntervalBlock.delete({ id: block.id }))
+  );
+  await Promise.all(
+    savePlan.intervalBlocks.map(block =>
+      models.UsageIntervalBlock.create({
+        userId,
+        month: block.month,
+        start: block.start,
+        intervalMinutes: block.intervalMinutes,
+        kwh: JSON.stringify(block.kwh), // AWSJSON expects a JSON string
+        cost: block.cost ? JSON.stringify(block.cost) : null,
+        offsets: block.offsets ? JSON.stringify(block.offsets) : null,
+        estimated: block.estimated ? JSON.stringify(block.estimated) : null,
+        formats: block.formats ? JSON.stringify(block.formats) : null,
+        createdAt: now,
+        updatedAt: now,
+      })
+    )
+  );
+};
+
+/**
+ * Load a user's raw interval readings
+ */
+const loadIntervalDataPoints = async (
+  userId: string
+): Promise<UsageDataPoint[]> => {
+  const blocks = await listIntervalBlocks(userId);
+  return fromIntervalBlocks(blocks.map(toIntervalUsageBlock));
+};
+
 /**
  * API Client Class
  */
 class ApiClient {
   /**
    * Get energy plans
+   * Retired plans are left out unless `includeRetired` is set, e.g. to show
+   * plans from recommendation history.
    */
-  async getEnergyPlans(state?: string): Promise<EnergyPlan[]> {
+  async getEnergyPlans(
+    state?: string,
+    options: { includeRetired?: boolean } = {}
+  ): Promise<EnergyPlan[]> {
+    const plans = await this.loadEnergyPlans(state);
+    return options.includeRetired
+      ? plans
+      : plans.filter(plan => isPlanAvailable(plan));
+  }
+
+  private async loadEnergyPlans(state?: string): Promise<EnergyPlan[]> {
     // If no state provided, try to get from user profile
     let targetState = state;
     if (!targetState && !USE_MOCK_API) {
@@ -123,6 +315,22 @@ class ApiClient {
           supplierRating: plan.supplierRating || undefined,
           state: plan.state,
           utilityTerritory: plan.utilityTerritory || undefined,
+          timeOfUseRates: parseJsonField<TimeOfUsePeriod[]>(
+            plan.timeOfUseRates
+          ),
+          rateTiers: parseJsonField<RateTier[]>(plan.rateTiers),
+          billCredits: parseJsonField<BillCredit[]>(plan.billCredits),
+          charges: parseJsonField<PlanCharges>(plan.charges),
+          promotionalPeriods: parseJsonField<PromotionalPeriod[]>(
+            plan.promotionalPeriods
+          ),
+          rolloverRatePerKwh: plan.rolloverRatePerKwh ?? undefined,
+          averagePrices: parseJsonField<PlanAveragePrices>(plan.averagePrices),
+          factsLabelUrl: plan.factsLabelUrl || undefined,
+          rateHistory: parseJsonField<PlanRateVersion[]>(plan.rateHistory),
+          availableFrom: plan.availableFrom || undefined,
+          availableUntil: plan.availableUntil || undefined,
+          lastSeenAt: plan.lastSeenAt || undefined,
         }));
       }
 
@@ -176,10 +384,7 @@ class ApiClient {
           'Content-Type': 'application/json',
           ...(token && { Authorization: `Bearer ${token}` }),
         },
-        body: JSON.stringify({
-          sources: ['eia', 'openei'],
-          states,
-        }),
+        body: JSON.stringify({ states }),
       });
     } catch (error) {
       console.error('Error updating plan catalog:', error);
@@ -278,6 +483,9 @@ class ApiClient {
           }
         }
 
+        const dailyUsage = parseJsonField<UsageDataPoint[]>(latest.dailyUsage);
+        const intervalDataPoints = await loadIntervalDataPoints(userId);
+
         const usageDataResult: CustomerUsageData = {
           customerInfo: {
             customerId: userId,
@@ -289,6 +497,8 @@ class ApiClient {
                 ?.supplierName || 'Unknown',
           },
           usageDataPoints: usagePoints,
+          ...(dailyUsage && dailyUsage.length > 0 && { dailyUsage }),
+          ...(intervalDataPoints.length > 0 && { intervalDataPoints }),
           aggregatedStats: {
             totalKwh,
             totalCost,
@@ -374,7 +584,10 @@ class ApiClient {
    * Read energy bill statement using AI
    * Supports PDF, images (PNG, JPG), and text formats
    */
-  async readStatement(userId: string, file: File): Promise<CustomerUsageData> {
+  async readStatement(
+    userId: string,
+    file: File
+  ): Promise<CustomerUsageData & { fieldConfidence?: StatementConfidence }> {
     if (USE_MOCK_API) {
       return mockApi.getUsageData(userId);
     }
@@ -441,6 +654,8 @@ class ApiClient {
       const result = (await response.json()) as {
         success: boolean;
         extractedData?: CustomerUsageData;
+        fieldConfidence?: StatementConfidence;
+        statementFormat?: { formatId: string; version: number };
         error?: string;
       };
 
@@ -456,7 +671,19 @@ class ApiClient {
         throw new Error(errorMsg);
       }
 
-      return result.extractedData;
+      // Points read with a learned format carry it, so later edits can be reported against it
+      const statementFormat = result.statementFormat;
+      return {
+        ...result.extractedData,
+        usageDataPoints: statementFormat
+          ? result.extractedData.usageDataPoints.map(point => ({
+              ...point,
+              formatId: statementFormat.formatId,
+              formatVersion: statementFormat.version,
+            }))
+          : result.extractedData.usageDataPoints,
+        fieldConfidence: result.fieldConfidence,
+      };
     } catch (error) {
       console.error('Error reading statement:', error);
       // Don't fallback to mock data - throw the error so the UI can handle it
@@ -471,7 +698,7 @@ class ApiClient {
   async generateRecommendations(
     userId: string,
     usageData: CustomerUsageData
-  ): Promise<Recommendation[]> {
+  ): Promise<RecommendationResponse> {
     if (USE_MOCK_API) {
       return mockApi.generateRecommendations(userId, usageData);
     }
@@ -482,9 +709,10 @@ class ApiClient {
       const profile = await this.getUserProfile(userId);
       const state = profile?.state || 'CA';
 
-      const [preferences, plans] = await Promise.all([
+      const [preferences, plans, currentPlan] = await Promise.all([
         this.getUserPreferences(userId),
         this.getEnergyPlans(state),
+        this.getCurrentPlan(userId),
       ]);
 
       if (!preferences) {
@@ -527,6 +755,7 @@ class ApiClient {
           userId,
           usageData: {
             usageDataPoints: usageData.usageDataPoints,
+            intervalDataPoints: usageData.intervalDataPoints,
             aggregatedStats: usageData.aggregatedStats,
           },
           preferences: {
@@ -549,7 +778,14 @@ class ApiClient {
             renewablePercentage: plan.renewablePercentage,
             earlyTerminationFee: plan.earlyTerminationFee,
             supplierRating: plan.supplierRating,
+            timeOfUseRates: plan.timeOfUseRates,
+            rateTiers: plan.rateTiers,
+            billCredits: plan.billCredits,
+            charges: plan.charges,
+            promotionalPeriods: plan.promotionalPeriods,
+            rolloverRatePerKwh: plan.rolloverRatePerKwh,
           })),
+          currentPlan: currentPlan || undefined,
         }),
       });
 
@@ -569,21 +805,59 @@ class ApiClient {
 
       // Map to Recommendation format with required fields
       const now = new Date().toISOString();
-      return result.recommendations.map(
+      const recommendations: Recommendation[] = result.recommendations.map(
         (rec: {
           planId: string;
           rank: number;
           projectedSavings: number;
+          projectedCost12Months?: number;
+          projectedCost24Months?: number;
+          twoYearSavings?: number;
+          savingsMostlyFromPromo?: boolean;
+          switchingCost?: number;
+          switchTiming?: SwitchTiming;
+          recommendedSwitchDate?: string;
+          riskFlags?: RiskFlag[];
+          monthlyCosts?: MonthlyCostProjection[];
+          seasonalCosts?: SeasonalCostProjection[];
+          confidence?: number;
           explanation: string;
         }) => ({
           recommendationId: `rec-${Date.now()}-${rec.rank}`,
           planId: rec.planId,
           rank: rec.rank,
           projectedSavings: rec.projectedSavings,
+          projectedCost12Months: rec.projectedCost12Months,
+          projectedCost24Months: rec.projectedCost24Months,
+          twoYearSavings: rec.twoYearSavings,
+          savingsMostlyFromPromo: rec.savingsMostlyFromPromo,
+          switchingCost: rec.switchingCost,
+          switchTiming: rec.switchTiming,
+          recommendedSwitchDate: rec.recommendedSwitchDate,
+          riskFlags: rec.riskFlags,
+          monthlyCosts: rec.monthlyCosts,
+          seasonalCosts: rec.seasonalCosts,
+          confidence: rec.confidence,
           explanation: rec.explanation,
           createdAt: now,
         })
       );
+
+      const outcome: RecommendationOutcome =
+        result.outcome === 'stay' ? 'stay' : 'switch';
+      return {
+        outcome,
+        recommendations,
+        currentPlanBest: result.currentPlanBest,
+        confidence: result.confidence,
+        dataQuality: result.dataQuality,
+        dataQualitySuggestions: result.dataQualitySuggestions,
+        projectedSavings: recommendations[0]?.projectedSavings ?? 0,
+        explanation:
+          outcome === 'stay'
+            ? 'Your current plan is already cheaper than every available plan.'
+            : recommendations[0]?.explanation || '',
+      };
     } catch (error) {
       console.error('Error generating recommendations:', error);
       // Fallback to mock data if function call fails
@@ -1110,10 +1384,13 @@ class ApiClient {
     currentPlan: {
       supplierName: string;
       planName?: string;
+      ratePerKwh?: number;
       contractStartDate?: string;
       contractEndDate?: string;
       earlyTerminationFee?: number;
       contractType?: string;
+      renewablePercentage?: number;
+      charges?: PlanCharges;
     }
   ): Promise<void> {
     if (USE_MOCK_API) {
@@ -1133,10 +1410,15 @@ class ApiClient {
           id: existing.data[0].id,
           supplierName: currentPlan.supplierName,
           planName: currentPlan.planName || null,
+          ratePerKwh: currentPlan.ratePerKwh || null,
           contractStartDate: currentPlan.contractStartDate || null,
           contractEndDate: currentPlan.contractEndDate || null,
           earlyTerminationFee: currentPlan.earlyTerminationFee || null,
           contractType: currentPlan.contractType || null,
+          renewablePercentage: currentPlan.renewablePercentage ?? null,
+          charges: currentPlan.charges
+            ? JSON.stringify(currentPlan.charges)
+            : null,
           updatedAt: now,
         });
       } else {
@@ -1145,10 +1427,15 @@ class ApiClient {
           userId,
           supplierName: currentPlan.supplierName,
           planName: currentPlan.planName || null,
+          ratePerKwh: currentPlan.ratePerKwh || null,
           contractStartDate: currentPlan.contractStartDate || null,
           contractEndDate: currentPlan.contractEndDate || null,
           earlyTerminationFee: currentPlan.earlyTerminationFee || null,
           contractType: currentPlan.contractType || null,
+          renewablePercentage: currentPlan.renewablePercentage ?? null,
+          charges: currentPlan.charges
+            ? JSON.stringify(currentPlan.charges)
+            : null,
           createdAt: now,
           updatedAt: now,
         });
@@ -1165,7 +1452,14 @@ class ApiClient {
   async saveUsageData(
     userId: string,
     usageData: {
-      usagePoints: Array<{ timestamp: string; kwh: number; cost?: number }>;
+      usagePoints: Array<{
+        timestamp: string;
+        kwh: number;
+        cost?: number;
+        periodStart?: string;
+        periodEnd?: string;
+        estimated?: boolean;
+      }>;
       totalAnnualKwh?: number;
       averageMonthlyKwh?: number;
       peakMonthKwh?: number;
@@ -1194,97 +1488,44 @@ class ApiClient {
       const existingData = await getDataClient().models.CustomerUsageData.list({
         filter: { userId: { eq: userId } },
       });
+      // Get the most recent record
+      const latest = (existingData.data || []).sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      )[0];
+
+      // Bills replace the monthly point for their month; interval readings
+      // are merged with the stored readings for the months they touch, rolled
+      // up into monthly and daily totals and stored raw in blocks
+      const storedBlocks = await listIntervalBlocks(
+        userId,
+        getReplacedIntervalMonths(usageData.usagePoints)
+      );
+      const savePlan = planUsageSave(
+        {
+          usagePoints:
+            parseJsonField<UsageDataPoint[]>(latest?.usagePoints) || [],
+          dailyUsage:
+            parseJsonField<UsageDataPoint[]>(latest?.dailyUsage) || [],
+          intervalBlocks: storedBlocks.map(toIntervalUsageBlock),
+        },
+        usageData.usagePoints
+      );
 
-      if (existingData.data && existingData.data.length > 0) {
-        // Get the most recent record
-        const sorted = existingData.data.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-        const latest = sorted[0];
-
-        // Merge usage points: combine existing and new, removing duplicates by timestamp
-        // Parse existing points from JSON string (AWSJSON type)
-        let existingPoints: UsageDataPoint[] = [];
-        if (latest.usagePoints) {
-          if (typeof latest.usagePoints === 'string') {
-            try {
-              existingPoints = JSON.parse(
-                latest.usagePoints
-              ) as UsageDataPoint[];
-            } catch (e) {
-              console.error(
-                '[saveUsageData] Failed to parse existing usagePoints JSON:',
-                e
-              );
-              existingPoints = [];
-            }
-          } else if (Array.isArray(latest.usagePoints)) {
-            existingPoints = latest.usagePoints as UsageDataPoint[];
-          }
-        }
-        const newPoints = usageData.usagePoints;
-
-        // Create a map of existing points by timestamp (month/year)
-        // Extract month/year directly from ISO string to avoid timezone issues
-        const getMonthYearKey = (timestamp: string): string => {
-          // Parse ISO string directly: YYYY-MM-DDTHH:mm:ss.sssZ
-          const match = timestamp.match(/^(\d{4})-(\d{2})-/);
-          if (match) {
-            const year = match[1];
-            const month = parseInt(match[2], 10) - 1; // Convert to 0-indexed
-            return `${year}-${month}`;
-          }
-          // Fallback to Date parsing if format is different
-          const date = new Date(timestamp);
-          return `${date.getFullYear()}-${date.getMonth()}`;
-        };
-
-        const pointsMap = new Map<
-          string,
-          { timestamp: string; kwh: number; cost?: number }
-        >();
-        existingPoints.forEach(
-          (point: { timestamp: string; kwh: number; cost?: number }) => {
-            const key = getMonthYearKey(point.timestamp);
-            pointsMap.set(key, point);
-          }
-        );
-
-        // Overwrite with new points (they take precedence)
-        newPoints.forEach(
-          (point: { timestamp: string; kwh: number; cost?: number }) => {
-            const key = getMonthYearKey(point.timestamp);
-            pointsMap.set(key, point);
-          }
-        );
-
-        // Convert map back to array and sort by timestamp
-        const mergedPoints = Array.from(pointsMap.values()).sort(
-          (a, b) =>
-            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-        );
-
-        // Ensure usagePoints is a plain array for JSON field
-        const mergedPointsData = mergedPoints.map(point => {
-          const plainPoint: Record<string, unknown> = {
-            timestamp: point.timestamp,
-            kwh: point.kwh,
-          };
-          // Only include cost if it's defined
-          if (point.cost !== undefined && point.cost !== null) {
-            plainPoint.cost = point.cost;
-          }
-          return plainPoint;
-        });
-
-        // AWSJSON scalar type requires a JSON string
-        const mergedPointsJson = JSON.stringify(mergedPointsData);
+      // AWSJSON scalar type requires a JSON string
+      const usagePointsJson = JSON.stringify(
+        savePlan.usagePoints.map(toPlainUsagePoint)
+      );
+      const dailyUsageJson = JSON.stringify(
+        savePlan.dailyUsage.map(toPlainUsagePoint)
+      );
 
+      if (latest) {
         // Update the existing record
         await getDataClient().models.CustomerUsageData.update({
           id: latest.id,
-          usagePoints: mergedPointsJson, // AWSJSON expects a JSON string
+          usagePoints: usagePointsJson, // AWSJSON expects a JSON string
+          dailyUsage: dailyUsageJson,
           totalAnnualKwh:
             usageData.totalAnnualKwh || latest.totalAnnualKwh || null,
           averageMonthlyKwh:
@@ -1300,27 +1541,11 @@ class ApiClient {
       } else {
         // No existing data, create a new record
         const usageDataId = `usage-${userId}-${Date.now()}`;
-        // Ensure usagePoints is a plain array with only the required fields
-        // AWSJSON type in GraphQL expects a JSON string, not a JavaScript object
-        const usagePointsData = usageData.usagePoints.map(point => {
-          const plainPoint: Record<string, unknown> = {
-            timestamp: point.timestamp,
-            kwh: point.kwh,
-          };
-          // Only include cost if it's defined
-          if (point.cost !== undefined && point.cost !== null) {
-            plainPoint.cost = point.cost;
-          }
-          return plainPoint;
-        });
-
-        // AWSJSON scalar type requires a JSON string
-        const usagePointsJson = JSON.stringify(usagePointsData);
-
         const createData = {
           userId,
           usageDataId,
           usagePoints: usagePointsJson, // AWSJSON expects a JSON string
+          dailyUsage: dailyUsageJson,
           totalAnnualKwh: usageData.totalAnnualKwh || null,
           averageMonthlyKwh: usageData.averageMonthlyKwh || null,
           peakMonthKwh: usageData.peakMonthKwh || null,
@@ -1343,6 +1568,8 @@ class ApiClient {
           throw new Error('Failed to create usage data: No data returned');
         }
       }
+
+      await saveIntervalBlocks(userId, storedBlocks, savePlan, now);
     } catch (error) {
       console.error('Error saving usage data:', error);
       throw error;
@@ -1355,10 +1582,13 @@ class ApiClient {
   async getCurrentPlan(userId: string): Promise<{
     supplierName: string;
     planName?: string;
+    ratePerKwh?: number;
     contractStartDate?: string;
     contractEndDate?: string;
     earlyTerminationFee?: number;
     contractType?: string;
+    renewablePercentage?: number;
+    charges?: PlanCharges;
   } | null> {
     if (USE_MOCK_API) {
       return null;
@@ -1374,10 +1604,13 @@ class ApiClient {
         return {
           supplierName: plan.supplierName,
           planName: plan.planName || undefined,
+          ratePerKwh: plan.ratePerKwh || undefined,
           contractStartDate: plan.contractStartDate || undefined,
           contractEndDate: plan.contractEndDate || undefined,
           earlyTerminationFee: plan.earlyTerminationFee || undefined,
           contractType: plan.contractType || undefined,
+          renewablePercentage: plan.renewablePercentage ?? undefined,
+          charges: parseJsonField<PlanCharges>(plan.charges),
         };
       }
 
@@ -1488,6 +1721,170 @@ class ApiClient {
       throw error;
     }
   }
+
+  /**
+   * Report that the user corrected usage read with a learned statement format
+   * A month is reported once per user; read-statement demotes formats that
+   * too many users correct.
+   */
+  async reportStatementFormatCorrection(correction: {
+    formatId: string;
+    formatVersion: number;
+    month: string; // YYYY-MM
+  }): Promise<void> {
+    if (USE_MOCK_API) {
+      return Promise.resolve();
+    }
+
+    try {
+      // Only the user's own corrections are visible to them
+      const reported = await listAllPages(nextToken =>
+        getDataClient().models.StatementFormatCorrection.listCorrectionsByFormatVersion(
+          {
+            formatId: correction.formatId,
+            formatVersion: { eq: correction.formatVersion },
+          },
+          { filter: { month: { eq: correction.month } }, nextToken }
+        )
+      );
+      if (reported.length > 0) {
+        return;
+      }
+
+      await getDataClient().models.StatementFormatCorrection.create({
+        ...correction,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('Error reporting statement format correction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List the learned statement formats, most recently used first (admins only)
+   */
+  async getStatementFormats(): Promise<LearnedStatementFormat[]> {
+    if (USE_MOCK_API) {
+      return [];
+    }
+
+    try {
+      const formats = await listAllPages(nextToken =>
+        getDataClient().models.StatementFormat.list({ nextToken })
+      );
+      return formats
+        .map(format => ({
+          id: format.id,
+          formatId: format.formatId,
+          utilityName: format.utilityName,
+          fileType: format.fileType,
+          status: (format.status as StatementFormatStatus) || 'active',
+          version: format.version || 1,
+          versions:
+            parseJsonField<StatementFormatVersion[]>(format.versions) || [],
+          successCount: format.successCount,
+          correctionCount: format.correctionCount || 0,
+          fingerprint: format.fingerprint || undefined,
+          headerSignature: format.headerSignature || undefined,
+          layoutHash: format.layoutHash || undefined,
+          columnMappings: parseJsonField(format.columnMappings),
+          formatPattern: parseJsonField(format.formatPattern),
+          exampleExtraction: parseJsonField(format.exampleExtraction),
+          dateFormats: (format.dateFormats || []).filter(
+            (dateFormat): dateFormat is string => dateFormat !== null
+          ),
+          lastUsedAt: format.lastUsedAt,
+          createdAt: format.createdAt,
+          retiredAt: format.retiredAt || undefined,
+        }))
+        .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+    } catch (error) {
+      console.error('Error fetching statement formats:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retire a learned statement format so it is no longer used or learned again
+   * (admins only)
+   */
+  async retireStatementFormat(id: string): Promise<void> {
+    if (USE_MOCK_API) {
+      return Promise.resolve();
+    }
+
+    try {
+      const now = new Date().toISOString();
+      await getDataClient().models.StatementFormat.update({
+        id,
+        status: 'retired',
+        retiredAt: now,
+        updatedAt: now,
+      });
+    } catch (error) {
+      console.error('Error retiring statement format:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Each state's last successful catalog refresh, and the most recent catalog
+   * run reports, newest first (admins only)
+   */
+  async getPlanCatalogStatus(): Promise<{
+    states: PlanCatalogStateRefresh[];
+    runs: PlanCatalogRunReport[];
+  }> {
+    if (USE_MOCK_API) {
+      return { states: [], runs: [] };
+    }
+
+    try {
+      // Every page, so the newest runs are found however many are stored
+      const [states, runs] = await Promise.all([
+        listAllPages(nextToken =>
+          getDataClient().models.PlanCatalogState.list({ nextToken })
+        ),
+        listAllPages(nextToken =>
+          getDataClient().models.PlanCatalogRun.list({ nextToken })
+        ),
+      ]);
+      return {
+        states: states
+          .map(refresh => ({
+            state: refresh.state,
+            lastRefreshedAt: refresh.lastRefreshedAt,
+            lastRunId: refresh.lastRunId,
+            plansListed: refresh.plansListed,
+          }))
+          .sort((a, b) => a.state.localeCompare(b.state)),
+        runs: runs
+          .map(run => ({
+            runId: run.runId,
+            trigger: run.trigger as PlanCatalogTrigger,
+            status: run.status as PlanCatalogRunStatus,
+            startedAt: run.startedAt,
+            finishedAt: run.finishedAt,
+            sources:
+              parseJsonField<PlanCatalogSourceReport[]>(run.sources) || [],
+            statesUpdated: (run.statesUpdated || []).filter(
+              (state): state is string => state !== null
+            ),
+            plansAdded: run.plansAdded,
+            plansChanged: run.plansChanged,
+            plansRetired: run.plansRetired,
+            plansSkipped: run.plansSkipped,
+            error: run.error || undefined,
+          }))
+          .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+          .slice(0, PLAN_CATALOG_RUNS_SHOWN),
+      };
+    } catch (error) {
+      console.error('Error fetching plan catalog status:', error);
+      throw error;
+    }
+  }
 }
 
 /**
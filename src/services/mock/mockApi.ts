@@ -8,7 +8,7 @@
 import type {
   EnergyPlan,
   CustomerUsageData,
-  Recommendation,
+  RecommendationResponse,
   UserPreferences,
   UsagePattern,
   CreateUserPreferencesRequest,
@@ -59,9 +59,18 @@ export class MockApiClient {
   async generateRecommendations(
     _userId: string,
     _usageData: CustomerUsageData
-  ): Promise<Recommendation[]> {
+  ): Promise<RecommendationResponse> {
     await delay(MOCK_DELAY * 2); // Simulate longer processing time
-    return generateMockRecommendations();
+    const recommendations = generateMockRecommendations();
+    return {
+      outcome: 'switch',
+      recommendations,
+      confidence: 0.9,
+      dataQuality: 'actual',
+      dataQualitySuggestions: [],
+      projectedSavings: recommendations[0]?.projectedSavings ?? 0,
+      explanation: recommendations[0]?.explanation || '',
+    };
   }
 
   /**